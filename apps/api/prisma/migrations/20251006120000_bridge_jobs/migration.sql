@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "bridge_jobs" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "transactionId" TEXT NOT NULL,
+    "stage" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'QUEUED',
+    "runAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedBy" TEXT,
+    "leaseExpiresAt" DATETIME,
+    "lastError" TEXT,
+    "completedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "bridge_jobs_status_runAt_idx" ON "bridge_jobs"("status", "runAt");
+
+-- CreateIndex
+CREATE INDEX "bridge_jobs_transactionId_idx" ON "bridge_jobs"("transactionId");
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "relay_checkpoints" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "relayHeight" INTEGER NOT NULL DEFAULT 0,
+    "bitcoinHeight" INTEGER NOT NULL DEFAULT 0,
+    "blockHash" TEXT,
+    "bitcoinTipHeight" INTEGER,
+    "pendingTxHash" TEXT,
+    "pendingHeight" INTEGER,
+    "status" TEXT NOT NULL DEFAULT 'IDLE',
+    "lastError" TEXT,
+    "lastSubmittedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
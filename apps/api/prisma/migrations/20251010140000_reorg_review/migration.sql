@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "bridge_transactions" ADD COLUMN "requiresReview" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "bridge_transactions" ADD COLUMN "reviewReason" TEXT;
+
+-- CreateIndex
+CREATE INDEX "bridge_transactions_requiresReview_idx" ON "bridge_transactions"("requiresReview");
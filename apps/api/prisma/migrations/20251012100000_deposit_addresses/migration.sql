@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "deposit_addresses" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "address" TEXT NOT NULL,
+    "keyFingerprint" TEXT NOT NULL,
+    "derivationIndex" INTEGER NOT NULL,
+    "derivationPath" TEXT NOT NULL,
+    "addressType" TEXT NOT NULL,
+    "targetAddress" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "userId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "deposit_addresses_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- AlterTable
+ALTER TABLE "bridge_transactions" ADD COLUMN "depositAddressId" TEXT REFERENCES "deposit_addresses" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "deposit_addresses_address_key" ON "deposit_addresses"("address");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "deposit_addresses_keyFingerprint_derivationIndex_key" ON "deposit_addresses"("keyFingerprint", "derivationIndex");
+
+-- CreateIndex
+CREATE INDEX "deposit_addresses_userId_idx" ON "deposit_addresses"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bridge_transactions_depositAddressId_key" ON "bridge_transactions"("depositAddressId");
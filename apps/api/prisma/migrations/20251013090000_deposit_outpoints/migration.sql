@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "bridge_transactions" ADD COLUMN "depositOutpoints" TEXT;
@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "withdrawals" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "transactionId" TEXT NOT NULL,
+    "destination" TEXT NOT NULL,
+    "amount" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'QUEUED',
+    "batchId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "withdrawals_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "payout_batches" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "payout_batches" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "txid" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'UNSIGNED',
+    "psbt" TEXT NOT NULL,
+    "inputs" TEXT NOT NULL,
+    "feeRate" REAL NOT NULL,
+    "fee" TEXT NOT NULL,
+    "totalAmount" TEXT NOT NULL,
+    "changeAmount" TEXT NOT NULL,
+    "confirmations" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "broadcastAt" DATETIME,
+    "confirmedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "withdrawals_transactionId_key" ON "withdrawals"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "withdrawals_status_idx" ON "withdrawals"("status");
+
+-- CreateIndex
+CREATE INDEX "withdrawals_destination_idx" ON "withdrawals"("destination");
+
+-- CreateIndex
+CREATE INDEX "withdrawals_batchId_idx" ON "withdrawals"("batchId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payout_batches_txid_key" ON "payout_batches"("txid");
+
+-- CreateIndex
+CREATE INDEX "payout_batches_status_idx" ON "payout_batches"("status");
@@ -0,0 +1,80 @@
+-- CreateTable
+CREATE TABLE "signers" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "publicKey" TEXT NOT NULL,
+    "apiKeyHash" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "lastSeenAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "signing_requests" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "batchId" TEXT NOT NULL,
+    "psbt" TEXT NOT NULL,
+    "threshold" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "expiresAt" DATETIME NOT NULL,
+    "completedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "signing_responses" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "requestId" TEXT NOT NULL,
+    "signerId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "reason" TEXT,
+    "fetchedAt" DATETIME,
+    "respondedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "signing_responses_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "signing_requests" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "signing_responses_signerId_fkey" FOREIGN KEY ("signerId") REFERENCES "signers" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "signing_audit_events" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "requestId" TEXT,
+    "signerId" TEXT,
+    "action" TEXT NOT NULL,
+    "detail" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "signing_audit_events_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "signing_requests" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "signers_name_key" ON "signers"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "signers_publicKey_key" ON "signers"("publicKey");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "signers_apiKeyHash_key" ON "signers"("apiKeyHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "signing_requests_batchId_key" ON "signing_requests"("batchId");
+
+-- CreateIndex
+CREATE INDEX "signing_requests_status_expiresAt_idx" ON "signing_requests"("status", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "signing_responses_signerId_status_idx" ON "signing_responses"("signerId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "signing_responses_requestId_signerId_key" ON "signing_responses"("requestId", "signerId");
+
+-- CreateIndex
+CREATE INDEX "signing_audit_events_requestId_idx" ON "signing_audit_events"("requestId");
+
+-- CreateIndex
+CREATE INDEX "signing_audit_events_signerId_idx" ON "signing_audit_events"("signerId");
+
+-- CreateIndex
+CREATE INDEX "signing_audit_events_createdAt_idx" ON "signing_audit_events"("createdAt");
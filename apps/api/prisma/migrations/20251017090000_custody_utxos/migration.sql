@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "payout_batches" ADD COLUMN "kind" TEXT NOT NULL DEFAULT 'PAYOUT';
+ALTER TABLE "payout_batches" ADD COLUMN "replacesId" TEXT;
+ALTER TABLE "payout_batches" ADD COLUMN "parentId" TEXT;
+
+-- CreateTable
+CREATE TABLE "custody_utxos" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "txid" TEXT NOT NULL,
+    "vout" INTEGER NOT NULL,
+    "address" TEXT NOT NULL,
+    "scriptPubKey" TEXT NOT NULL,
+    "witnessScript" TEXT,
+    "value" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "blockHeight" INTEGER,
+    "batchId" TEXT,
+    "spentTxid" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "custody_utxos_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "payout_batches" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "payout_batches_kind_idx" ON "payout_batches"("kind");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "custody_utxos_txid_vout_key" ON "custody_utxos"("txid", "vout");
+
+-- CreateIndex
+CREATE INDEX "custody_utxos_status_idx" ON "custody_utxos"("status");
+
+-- CreateIndex
+CREATE INDEX "custody_utxos_address_idx" ON "custody_utxos"("address");
+
+-- CreateIndex
+CREATE INDEX "custody_utxos_batchId_idx" ON "custody_utxos"("batchId");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "bridge_transactions" ADD COLUMN "initiateTxHash" TEXT;
+ALTER TABLE "bridge_transactions" ADD COLUMN "contractBridgeId" TEXT;
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "outgoing_transactions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "chainId" INTEGER NOT NULL,
+    "from" TEXT NOT NULL,
+    "nonce" INTEGER NOT NULL,
+    "to" TEXT NOT NULL,
+    "data" TEXT NOT NULL DEFAULT '0x',
+    "value" TEXT NOT NULL DEFAULT '0',
+    "gasLimit" TEXT NOT NULL,
+    "maxFeePerGas" TEXT,
+    "maxPriorityFeePerGas" TEXT,
+    "gasPrice" TEXT,
+    "hash" TEXT,
+    "hashes" TEXT NOT NULL DEFAULT '[]',
+    "label" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "blockNumber" INTEGER,
+    "lastSentAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "outgoing_transactions_chainId_from_nonce_key" ON "outgoing_transactions"("chainId", "from", "nonce");
+
+-- CreateIndex
+CREATE INDEX "outgoing_transactions_status_idx" ON "outgoing_transactions"("status");
+
+-- CreateIndex
+CREATE INDEX "outgoing_transactions_hash_idx" ON "outgoing_transactions"("hash");
@@ -0,0 +1,87 @@
+-- CreateTable
+CREATE TABLE "indexer_checkpoints" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "lastBlock" INTEGER NOT NULL,
+    "lastBlockHash" TEXT,
+    "confirmedBlock" INTEGER NOT NULL DEFAULT 0,
+    "headBlock" INTEGER,
+    "status" TEXT NOT NULL DEFAULT 'IDLE',
+    "lastError" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "indexed_blocks" (
+    "number" INTEGER NOT NULL PRIMARY KEY,
+    "hash" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "chain_events" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "contract" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "blockNumber" INTEGER NOT NULL,
+    "blockHash" TEXT NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "args" TEXT NOT NULL,
+    "account" TEXT,
+    "counterparty" TEXT,
+    "key" TEXT,
+    "confirmed" BOOLEAN NOT NULL DEFAULT false,
+    "timestamp" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "indexed_bridges" (
+    "bridgeId" TEXT NOT NULL PRIMARY KEY,
+    "user" TEXT NOT NULL,
+    "amount" TEXT NOT NULL,
+    "fee" TEXT,
+    "btcTxHash" TEXT NOT NULL,
+    "btcAddress" TEXT NOT NULL,
+    "claimAddress" TEXT,
+    "cancelReason" TEXT,
+    "status" TEXT NOT NULL,
+    "initiatedTxHash" TEXT NOT NULL,
+    "initiatedAt" DATETIME NOT NULL,
+    "completedAt" DATETIME,
+    "claimedAt" DATETIME,
+    "cancelledAt" DATETIME,
+    "lastBlockNumber" INTEGER NOT NULL,
+    "confirmed" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chain_events_txHash_logIndex_key" ON "chain_events"("txHash", "logIndex");
+
+-- CreateIndex
+CREATE INDEX "chain_events_name_idx" ON "chain_events"("name");
+
+-- CreateIndex
+CREATE INDEX "chain_events_key_idx" ON "chain_events"("key");
+
+-- CreateIndex
+CREATE INDEX "chain_events_account_idx" ON "chain_events"("account");
+
+-- CreateIndex
+CREATE INDEX "chain_events_counterparty_idx" ON "chain_events"("counterparty");
+
+-- CreateIndex
+CREATE INDEX "chain_events_blockNumber_idx" ON "chain_events"("blockNumber");
+
+-- CreateIndex
+CREATE INDEX "indexed_bridges_user_idx" ON "indexed_bridges"("user");
+
+-- CreateIndex
+CREATE INDEX "indexed_bridges_status_idx" ON "indexed_bridges"("status");
+
+-- CreateIndex
+CREATE INDEX "indexed_bridges_btcTxHash_idx" ON "indexed_bridges"("btcTxHash");
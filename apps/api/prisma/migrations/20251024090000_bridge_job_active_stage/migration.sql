@@ -0,0 +1,13 @@
+-- Cancel duplicate live jobs left by concurrent enqueues, keeping the oldest
+UPDATE "bridge_jobs" SET "status" = 'CANCELLED', "lastError" = 'Duplicate of another live job for the stage'
+WHERE "status" IN ('QUEUED', 'RUNNING') AND EXISTS (
+    SELECT 1 FROM "bridge_jobs" AS "older"
+    WHERE "older"."transactionId" = "bridge_jobs"."transactionId"
+      AND "older"."stage" = "bridge_jobs"."stage"
+      AND "older"."status" IN ('QUEUED', 'RUNNING')
+      AND ("older"."createdAt" < "bridge_jobs"."createdAt"
+        OR ("older"."createdAt" = "bridge_jobs"."createdAt" AND "older"."id" < "bridge_jobs"."id"))
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bridge_jobs_active_stage_key" ON "bridge_jobs"("transactionId", "stage") WHERE "status" IN ('QUEUED', 'RUNNING');
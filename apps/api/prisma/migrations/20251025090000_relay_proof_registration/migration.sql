@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "bridge_transactions" ADD COLUMN "relayTxHash" TEXT;
+ALTER TABLE "bridge_transactions" ADD COLUMN "relayRecordedAt" DATETIME;
+ALTER TABLE "bridge_transactions" ADD COLUMN "proofTxHash" TEXT;
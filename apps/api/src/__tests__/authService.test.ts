@@ -0,0 +1,145 @@
+import { Wallet } from 'ethers';
+import { formatSiweMessage } from '@zkbridge/shared';
+import { memoryTable, Row } from './memoryPrisma';
+
+// Sign-in and token rotation against in-memory nonce, user and refresh token tables
+
+const nonces: Row[] = [];
+const users: Row[] = [];
+const refreshTokens: Row[] = [];
+
+const tokenTable = memoryTable(refreshTokens, { defaults: { usedAt: null, revokedAt: null, replacedBy: null } });
+
+const prismaMock = {
+  authNonce: memoryTable(nonces, { defaults: { usedAt: null } }),
+  refreshToken: {
+    ...tokenTable,
+    findUnique: jest.fn(async ({ where }: { where: Row }) => {
+      const row = await tokenTable.findUnique({ where });
+      return row ? { ...row, user: users.find(user => user.id === row.userId) } : null;
+    }),
+  },
+  user: memoryTable(users, { idPrefix: 'user' }),
+};
+
+jest.mock('../config/database', () => ({ getPrismaClient: () => prismaMock }));
+
+process.env.JWT_SECRET = 'test-secret';
+process.env.SIWE_DOMAIN = 'bridge.example.com';
+
+import { AuthError, AuthService } from '../services/authService';
+import { EXPECTED_CHAIN_ID } from '../services/bridgePayload';
+
+const wallet = new Wallet(`0x${'22'.repeat(32)}`);
+
+describe('AuthService', () => {
+  let service: AuthService;
+
+  const signIn = async (nonce: string, domain = 'bridge.example.com') => {
+    const message = formatSiweMessage({
+      domain,
+      address: wallet.address,
+      uri: `https://${domain}`,
+      version: '1',
+      chainId: EXPECTED_CHAIN_ID,
+      nonce,
+      issuedAt: new Date().toISOString(),
+    });
+    return { message, signature: await wallet.signMessage(message) };
+  };
+
+  beforeEach(() => {
+    nonces.length = 0;
+    users.length = 0;
+    refreshTokens.length = 0;
+    jest.clearAllMocks();
+    service = new AuthService();
+  });
+
+  describe('verify', () => {
+    it('signs in with a signed message carrying an issued nonce', async () => {
+      const { nonce } = await service.issueNonce();
+      const { message, signature } = await signIn(nonce);
+
+      const session = await service.verify(message, signature);
+
+      expect(session.user.address).toBe(wallet.address);
+      expect(session.refreshToken).toBeTruthy();
+    });
+
+    it('refuses the same message twice', async () => {
+      const { nonce } = await service.issueNonce();
+      const { message, signature } = await signIn(nonce);
+      await service.verify(message, signature);
+
+      await expect(service.verify(message, signature)).rejects.toThrow('Nonce is unknown, expired or already used');
+    });
+
+    it('refuses a nonce it did not issue', async () => {
+      const { message, signature } = await signIn('a1b2c3d4e5f6a7b8');
+
+      await expect(service.verify(message, signature)).rejects.toThrow('Nonce is unknown, expired or already used');
+    });
+
+    it('refuses a message for another site without using up the nonce', async () => {
+      const { nonce } = await service.issueNonce();
+      const phished = await signIn(nonce, 'evil.example.com');
+
+      await expect(service.verify(phished.message, phished.signature)).rejects.toBeInstanceOf(AuthError);
+      expect(nonces[0].usedAt).toBeNull();
+    });
+
+    it('refuses a signature from another key', async () => {
+      const { nonce } = await service.issueNonce();
+      const { message } = await signIn(nonce);
+      const forged = await Wallet.createRandom().signMessage(message);
+
+      await expect(service.verify(message, forged)).rejects.toThrow('Signature is not from the address in the message');
+    });
+  });
+
+  describe('refresh', () => {
+    const session = async () => {
+      const { nonce } = await service.issueNonce();
+      const { message, signature } = await signIn(nonce);
+      return service.verify(message, signature);
+    };
+
+    it('rotates the refresh token', async () => {
+      const first = await session();
+
+      const second = await service.refresh(first.refreshToken);
+
+      expect(second.refreshToken).not.toBe(first.refreshToken);
+      await expect(service.refresh(second.refreshToken)).resolves.toBeDefined();
+    });
+
+    it('revokes every session of the user when a rotated token comes back', async () => {
+      const stolen = await session();
+      const other = await session();
+      const rotated = await service.refresh(stolen.refreshToken);
+
+      await expect(service.refresh(stolen.refreshToken)).rejects.toThrow('Refresh token is invalid or expired');
+
+      await expect(service.refresh(rotated.refreshToken)).rejects.toBeInstanceOf(AuthError);
+      await expect(service.refresh(other.refreshToken)).rejects.toBeInstanceOf(AuthError);
+    });
+
+    it('gives a session to only one of two concurrent refreshes', async () => {
+      const { refreshToken } = await session();
+
+      const results = await Promise.allSettled([service.refresh(refreshToken), service.refresh(refreshToken)]);
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    });
+
+    it('refuses a token revoked by logout without revoking other sessions', async () => {
+      const loggedOut = await session();
+      const other = await session();
+      await service.logout(loggedOut.refreshToken);
+
+      await expect(service.refresh(loggedOut.refreshToken)).rejects.toBeInstanceOf(AuthError);
+      await expect(service.refresh(other.refreshToken)).resolves.toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { memoryPrisma, memoryTable, Row, uniqueOn } from './memoryPrisma';
+
+// Job leasing against an in-memory stand-in for the two tables the queue touches.
+// The stand-in enforces the partial unique index on live jobs, as the database does.
+
+const jobs: Row[] = [];
+const transactions: Row[] = [];
+
+const prismaMock = memoryPrisma({
+  bridgeJob: memoryTable(jobs, {
+    idPrefix: 'job',
+    defaults: { status: 'QUEUED', lockedBy: null, leaseExpiresAt: null, lastError: null },
+    // The partial unique index on live jobs
+    conflicts: (existing, data) =>
+      uniqueOn('transactionId', 'stage')(existing, data) && ['QUEUED', 'RUNNING'].includes(existing.status as string),
+  }),
+  bridgeTransaction: memoryTable(transactions),
+});
+
+jest.mock('../config/database', () => ({ getPrismaClient: () => prismaMock }));
+
+import { BridgeJobService } from '../services/bridgeJobService';
+
+const LEASE_MS = 60000;
+
+describe('BridgeJobService', () => {
+  let service: BridgeJobService;
+
+  beforeEach(() => {
+    jobs.length = 0;
+    transactions.length = 0;
+    transactions.push({ id: 'tx-1', errorCount: 0, errorMessage: null });
+    jest.clearAllMocks();
+
+    service = new BridgeJobService();
+    Object.assign(service.retryPolicy, { maxRetries: 2, baseDelayMs: 1000, maxDelayMs: 10000 });
+  });
+
+  describe('enqueue', () => {
+    it('returns the live job instead of queueing the stage twice', async () => {
+      const first = await service.enqueue('tx-1', 'ZK_PROOF');
+      const second = await service.enqueue('tx-1', 'ZK_PROOF');
+
+      expect(second.id).toBe(first.id);
+      expect(jobs).toHaveLength(1);
+    });
+
+    it('returns the winner when a concurrent enqueue inserts first', async () => {
+      const winner = await service.enqueue('tx-1', 'ZK_PROOF');
+      // Both callers looked before either inserted
+      prismaMock.bridgeJob.findFirst.mockResolvedValueOnce(null);
+
+      const loser = await service.enqueue('tx-1', 'ZK_PROOF');
+
+      expect(loser.id).toBe(winner.id);
+      expect(jobs).toHaveLength(1);
+    });
+
+    it('queues the stage again once the earlier job is finished', async () => {
+      const first = await service.enqueue('tx-1', 'ZK_PROOF');
+      first.status = 'COMPLETED';
+      jobs[0].status = 'COMPLETED';
+
+      const second = await service.enqueue('tx-1', 'ZK_PROOF');
+
+      expect(second.id).not.toBe(first.id);
+    });
+  });
+
+  describe('claimNext', () => {
+    it('gives a due job to one worker only', async () => {
+      await service.enqueue('tx-1', 'VERIFY_SOURCE');
+
+      const [a, b] = await Promise.all([
+        service.claimNext('worker-a', LEASE_MS),
+        service.claimNext('worker-b', LEASE_MS),
+      ]);
+
+      expect([a, b].filter(Boolean)).toHaveLength(1);
+    });
+
+    it('leaves jobs that are not due yet', async () => {
+      await service.enqueue('tx-1', 'VERIFY_SOURCE', new Date(Date.now() + LEASE_MS));
+
+      expect(await service.claimNext('worker-a', LEASE_MS)).toBeNull();
+    });
+
+    it('reclaims a job whose lease expired', async () => {
+      await service.enqueue('tx-1', 'VERIFY_SOURCE');
+      await service.claimNext('worker-a', LEASE_MS);
+      jobs[0].leaseExpiresAt = new Date(Date.now() - 1);
+
+      const reclaimed = await service.claimNext('worker-b', LEASE_MS);
+
+      expect(reclaimed?.lockedBy).toBe('worker-b');
+    });
+  });
+
+  describe('complete', () => {
+    it('completes the job and resets the error count while the lease is held', async () => {
+      transactions[0].errorCount = 2;
+      const job = await service.enqueue('tx-1', 'VERIFY_SOURCE');
+      await service.claimNext('worker-a', LEASE_MS);
+
+      expect(await service.complete(job.id, 'worker-a')).toBe(true);
+      expect(jobs[0]).toMatchObject({ status: 'COMPLETED', lockedBy: null });
+      expect(transactions[0].errorCount).toBe(0);
+    });
+
+    it('changes nothing once another worker holds the lease', async () => {
+      transactions[0].errorCount = 2;
+      const job = await service.enqueue('tx-1', 'VERIFY_SOURCE');
+      await service.claimNext('worker-a', LEASE_MS);
+      jobs[0].leaseExpiresAt = new Date(Date.now() - 1);
+      await service.claimNext('worker-b', LEASE_MS);
+
+      expect(await service.complete(job.id, 'worker-a')).toBe(false);
+      expect(jobs[0]).toMatchObject({ status: 'RUNNING', lockedBy: 'worker-b' });
+      expect(transactions[0].errorCount).toBe(2);
+    });
+  });
+
+  describe('fail', () => {
+    it('requeues with backoff until the retry budget is spent', async () => {
+      const job = await service.enqueue('tx-1', 'VERIFY_SOURCE');
+
+      for (const attempt of [1, 2]) {
+        jobs[0].runAt = new Date(0);
+        await service.claimNext('worker-a', LEASE_MS);
+        const failure = await service.fail(job, 'worker-a', 'RPC timeout');
+
+        expect(failure).toMatchObject({ errorCount: attempt });
+        expect(failure?.retryAt!.getTime()).toBeGreaterThan(Date.now());
+        expect(jobs[0]).toMatchObject({ status: 'QUEUED', lockedBy: null, lastError: 'RPC timeout' });
+      }
+
+      jobs[0].runAt = new Date(0);
+      await service.claimNext('worker-a', LEASE_MS);
+      const failure = await service.fail(job, 'worker-a', 'RPC timeout');
+
+      expect(failure).toEqual({ errorCount: 3 });
+      expect(jobs[0].status).toBe('FAILED');
+    });
+
+    it('fails the job for good when the bridge transaction is gone', async () => {
+      const job = await service.enqueue('tx-missing', 'VERIFY_SOURCE');
+      await service.claimNext('worker-a', LEASE_MS);
+
+      expect(await service.fail(job, 'worker-a', 'Bridge transaction not found')).toEqual({ errorCount: 0, transactionMissing: true });
+      expect(jobs[0]).toMatchObject({ status: 'FAILED', lockedBy: null, lastError: 'Bridge transaction not found' });
+      expect(await service.claimNext('worker-b', LEASE_MS)).toBeNull();
+    });
+
+    it('records nothing once another worker holds the lease', async () => {
+      const job = await service.enqueue('tx-1', 'VERIFY_SOURCE');
+      await service.claimNext('worker-a', LEASE_MS);
+      jobs[0].leaseExpiresAt = new Date(Date.now() - 1);
+      await service.claimNext('worker-b', LEASE_MS);
+
+      expect(await service.fail(job, 'worker-a', 'RPC timeout')).toBeNull();
+      expect(transactions[0].errorCount).toBe(0);
+      expect(jobs[0]).toMatchObject({ status: 'RUNNING', lockedBy: 'worker-b', lastError: null });
+    });
+  });
+});
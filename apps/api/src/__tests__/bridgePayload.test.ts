@@ -0,0 +1,136 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import { FixtureChainBuilder, FixtureOutputSpec } from '../services/bitcoinProviders';
+import {
+  buildBridgePayloadScript,
+  BridgePayloadError,
+  decodeBridgePayload,
+  encodeBridgePayload,
+  EXPECTED_CHAIN_ID,
+  extractBridgePayload,
+  verifyBridgePayload,
+} from '../services/bridgePayload';
+
+// Deposit payloads carried in OP_RETURN outputs of transactions built by the fixture chain builder
+
+const network = bitcoin.networks.testnet;
+const bridgeAddress = bitcoin.payments.p2wpkh({ hash: Buffer.alloc(20, 0xb1), network }).address!;
+const recipient = '0x000000000000000000000000000000000000dEaD';
+
+const opReturn = (data: Buffer): FixtureOutputSpec => ({
+  script: bitcoin.script.compile([bitcoin.opcodes.OP_RETURN, data]).toString('hex'),
+  value: 0,
+});
+
+const payloadOutput = (payload = { recipient, chainId: EXPECTED_CHAIN_ID }): FixtureOutputSpec => ({
+  script: buildBridgePayloadScript(payload),
+  value: 0,
+});
+
+describe('bridge payloads', () => {
+  const builder = new FixtureChainBuilder();
+  const deposit = (...outputs: FixtureOutputSpec[]) =>
+    builder.addTransaction({ outputs: [{ address: bridgeAddress, value: 100000 }, ...outputs] });
+
+  describe('encoding', () => {
+    it('decodes what it encodes', () => {
+      const nonce = 'c0ffee'.repeat(5);
+
+      expect(decodeBridgePayload(encodeBridgePayload({ recipient: recipient.toLowerCase(), chainId: 1, nonce: `0x${nonce}` }))).toEqual({
+        version: 1,
+        recipient,
+        chainId: 1,
+        nonce,
+      });
+    });
+
+    it('leaves out an empty nonce', () => {
+      const encoded = encodeBridgePayload({ recipient, chainId: EXPECTED_CHAIN_ID });
+
+      expect(encoded).toHaveLength(32);
+      expect(decodeBridgePayload(encoded)?.nonce).toBeUndefined();
+    });
+
+    it('refuses a recipient that is not an Ethereum address', () => {
+      expect(() => encodeBridgePayload({ recipient: bridgeAddress, chainId: 1 })).toThrow(BridgePayloadError);
+    });
+
+    it('refuses a nonce over 32 bytes', () => {
+      expect(() => encodeBridgePayload({ recipient, chainId: 1, nonce: '00'.repeat(33) })).toThrow('Nonce must be at most 32 bytes');
+    });
+  });
+
+  describe('decoding', () => {
+    const valid = encodeBridgePayload({ recipient, chainId: EXPECTED_CHAIN_ID });
+    const withByte = (offset: number, value: number) => Buffer.from(valid.map((byte, i) => (i === offset ? value : byte)));
+
+    it('ignores data from other protocols', () => {
+      expect(decodeBridgePayload(Buffer.from('omni'))).toBeNull();
+      expect(decodeBridgePayload(Buffer.from('ZK'))).toBeNull();
+    });
+
+    it.each([
+      ['another version', withByte(3, 2), 'Unsupported bridge payload version 2'],
+      ['a truncated recipient', valid.subarray(0, 20), 'Malformed bridge payload'],
+      ['an overlong nonce', Buffer.concat([valid, Buffer.alloc(33)]), 'Malformed bridge payload'],
+      ['a chain id past 2^53', withByte(24, 0x01), 'Bridge payload chain id out of range'],
+    ])('rejects %s', (_case, data, error) => {
+      expect(() => decodeBridgePayload(data)).toThrow(BridgePayloadError);
+      expect(() => decodeBridgePayload(data)).toThrow(error);
+    });
+  });
+
+  describe('in a transaction', () => {
+    it('finds the payload next to the deposit output', () => {
+      const tx = deposit(payloadOutput());
+
+      expect(extractBridgePayload(tx)).toMatchObject({ recipient, chainId: EXPECTED_CHAIN_ID });
+      expect(verifyBridgePayload(tx, recipient.toLowerCase())).toMatchObject({ isValid: true });
+    });
+
+    it('skips OP_RETURN outputs of other protocols', () => {
+      const tx = deposit(opReturn(Buffer.from('omni')), payloadOutput());
+
+      expect(extractBridgePayload(tx)?.recipient).toBe(recipient);
+    });
+
+    it('skips an OP_RETURN that pushes the payload in pieces', () => {
+      const data = encodeBridgePayload({ recipient, chainId: EXPECTED_CHAIN_ID });
+      const split = bitcoin.script.compile([bitcoin.opcodes.OP_RETURN, data.subarray(0, 16), data.subarray(16)]).toString('hex');
+
+      expect(extractBridgePayload(deposit({ script: split, value: 0 }))).toBeNull();
+    });
+
+    it('rejects a transaction carrying more than one payload', () => {
+      const other = '0x0000000000000000000000000000000000000001';
+      const tx = deposit(payloadOutput(), payloadOutput({ recipient: other, chainId: EXPECTED_CHAIN_ID }));
+
+      expect(() => extractBridgePayload(tx)).toThrow('Transaction carries more than one bridge payload');
+      expect(verifyBridgePayload(tx, recipient)).toEqual({ isValid: false, error: 'Transaction carries more than one bridge payload' });
+    });
+
+    it('reports a malformed payload instead of throwing', () => {
+      const data = encodeBridgePayload({ recipient, chainId: EXPECTED_CHAIN_ID }).subarray(0, 24);
+
+      expect(verifyBridgePayload(deposit(opReturn(data)), recipient)).toEqual({ isValid: false, error: 'Malformed bridge payload' });
+    });
+
+    it('rejects a deposit without a payload', () => {
+      expect(verifyBridgePayload(deposit(), recipient).error).toBe('Source transaction has no bridge OP_RETURN payload');
+    });
+
+    it('rejects a payload for another chain', () => {
+      const tx = deposit(payloadOutput({ recipient, chainId: 1 }));
+
+      expect(verifyBridgePayload(tx, recipient).error).toBe(`Bridge payload targets chain 1, expected ${EXPECTED_CHAIN_ID}`);
+    });
+
+    it('rejects a request for a recipient the depositor did not commit to', () => {
+      const tx = deposit(payloadOutput());
+
+      expect(verifyBridgePayload(tx, '0x0000000000000000000000000000000000000001')).toMatchObject({
+        isValid: false,
+        error: 'Target address does not match the recipient in the bridge payload',
+      });
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import * as path from 'path';
+import { memoryPrisma, memoryTable, Row } from './memoryPrisma';
+
+// The BTC → ETH pipeline worker run end to end against the committed
+// fixtures/bitcoin chain, with jobs, bridges and events in in-memory tables
+// and the contracts and the prover mocked. See src/scripts/bitcoinFixtures.ts
+// for what the chain holds.
+
+const transactions: Row[] = [];
+const events: Row[] = [];
+const jobs: Row[] = [];
+const calls: string[] = [];
+
+const prismaMock = memoryPrisma({
+  bridgeTransaction: memoryTable(transactions, {
+    idPrefix: 'bridge',
+    defaults: {
+      requiresReview: false,
+      errorCount: 0,
+      merkleProof: null,
+      merkleRoot: null,
+      zkProof: null,
+      zkProofHash: null,
+      proofTxHash: null,
+      proofVerifiedAt: null,
+      relayTxHash: null,
+      relayRecordedAt: null,
+      contractBridgeId: null,
+      initiateTxHash: null,
+      targetTxHash: null,
+      targetAmount: null,
+      submittedAt: null,
+    },
+  }),
+  transactionEvent: memoryTable(events, { idPrefix: 'event' }),
+  bridgeJob: memoryTable(jobs, { idPrefix: 'job', defaults: { status: 'QUEUED', lockedBy: null, leaseExpiresAt: null, lastError: null } }),
+});
+
+process.env.BITCOIN_PROVIDERS = `fixture:${path.resolve(__dirname, '../../fixtures/bitcoin')}`;
+process.env.BRIDGE_CUSTODY_ADDRESSES = 'tb1qkxcmrvd3kxcmrvd3kxcmrvd3kxcmrvd3vqmynz';
+process.env.BRIDGE_WORKER_POLL_INTERVAL_MS = '10';
+
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(() => prismaMock),
+}));
+jest.mock('../config/database', () => ({ getPrismaClient: () => prismaMock }));
+jest.mock('../services/ethereumService', () => ({
+  ...jest.requireActual('../services/ethereumService'),
+  EthereumService: jest.fn(),
+}));
+jest.mock('../services/zkProofService', () => ({
+  ...jest.requireActual('../services/zkProofService'),
+  ZKProofService: jest.fn(() => ({
+    generateBitcoinTransactionProof: jest.fn(async () => ({
+      proof: { pi_a: ['1', '2', '1'], pi_b: [['3', '4'], ['5', '6'], ['1', '0']], pi_c: ['7', '8', '1'] },
+      publicSignals: ['9'],
+    })),
+  })),
+}));
+jest.mock('../services/btcRelayer', () => ({ btcRelayer: { toRelayHeight: (height: number) => height - 2500000 } }));
+jest.mock('../services/payoutService', () => ({ payoutService: {} }));
+jest.mock('../services/webhookService', () => ({ webhookService: { enqueue: jest.fn(async () => undefined) } }));
+jest.mock('../services/bridgeTransactionService', () => ({ bridgeTransactionService: { createEvent: jest.fn(async () => undefined) } }));
+
+// Each contract call is logged in order; a call that takes an onSent callback invokes it first
+const contractCall = <T>(name: string, result: T) =>
+  jest.fn(async (_args?: unknown, onSent?: (txHash: string) => Promise<void>) => {
+    calls.push(name);
+    await onSent?.(`0x${name}`);
+    return result;
+  });
+
+jest.mock('../services/bridgeContractService', () => ({
+  bridgeContractService: {
+    // BTCRelay has every fixture block
+    getRelayHeight: jest.fn(async () => 11),
+    isTransactionRecorded: jest.fn(async () => false),
+    recordTransaction: contractCall('recordTransaction', true),
+    submitProof: contractCall('submitProof', { txHash: '0xsubmitProof', proofHash: `0x${'ab'.repeat(32)}` }),
+    getProofStatus: jest.fn(async () => ({ verified: false, valid: false })),
+    verifyProof: contractCall('verifyProof', true),
+    initiateBridge: contractCall('initiateBridge', { txHash: '0xinitiateBridge', bridgeId: `0x${'cd'.repeat(32)}` }),
+    processBridge: contractCall('processBridge', { txHash: '0xprocessBridge', amount: '100000', fee: '100', gasUsed: '1', gasPrice: '1' }),
+  },
+}));
+
+import { BridgeService } from '../services/bridgeService';
+import { BridgePipelineWorker } from '../services/bridgePipelineWorker';
+import { bitcoinTestnetService } from '../services/bitcoinTestnetService';
+import { bridgeContractService } from '../services/bridgeContractService';
+
+const depositor = 'tb1q6rgdp5xs6rgdp5xs6rgdp5xs6rgdp5xspprr8z';
+const recipient = '0x000000000000000000000000000000000000dEaD';
+
+// The three deposits the fixture script writes, all committing to `recipient`
+const settledDeposit = 'e051f99c2a7162ef43672085b89768cf35d739c1e647e8ddf4cdd1cdf81ddf95';
+const confirmingDeposit = '1b63caabb97c96ffde3dd522ea672dc8a03c7a1aed685a8c4244d3f5f06674e1';
+const pendingDeposit = '9d3f08f02307cc4e413665fc4757e590dfb34aa5f3de507d7757c475ee178dbc';
+
+const SETTLED_STATUSES = ['COMPLETED', 'FAILED', 'AWAITING_CONFIRMATIONS'];
+
+describe('bridge pipeline on the fixture chain', () => {
+  const bridgeService = new BridgeService();
+  let worker: BridgePipelineWorker;
+
+  beforeEach(() => {
+    transactions.length = 0;
+    events.length = 0;
+    jobs.length = 0;
+    calls.length = 0;
+    worker = new BridgePipelineWorker();
+  });
+
+  afterEach(async () => {
+    await worker.stop();
+  });
+
+  // Request a bridge and let the worker take it as far as it goes
+  const bridge = async (sourceTxHash: string, sourceAmount: string, targetAddress = recipient) => {
+    const { id } = await bridgeService.initiateBridge({
+      fromChain: 'bitcoin',
+      toChain: 'ethereum',
+      sourceTxHash,
+      sourceAmount,
+      sourceAddress: depositor,
+      targetAddress,
+    });
+
+    await worker.start();
+    const deadline = Date.now() + 10000;
+    const row = () => transactions.find(transaction => transaction.id === id)!;
+    while (!SETTLED_STATUSES.includes(row().status as string) || jobs.some(job => ['QUEUED', 'RUNNING'].includes(job.status as string))) {
+      if (Date.now() > deadline) {
+        throw new Error(`Bridge stuck in ${row().status}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    return row();
+  };
+
+  it('mints a deposit that is deep enough, proving it against the fixture block', async () => {
+    const block = await bitcoinTestnetService.getBlockByHeight(2500001);
+
+    const settled = await bridge(settledDeposit, '100000');
+
+    expect(settled).toMatchObject({
+      status: 'COMPLETED',
+      confirmations: 11,
+      targetAmount: '100000',
+      depositOutpoints: JSON.stringify([`${settledDeposit}:0`]),
+      blockHeight: 2500001,
+      blockHash: block.id,
+      merkleRoot: block.merkle_root,
+      relayTxHash: '0xrecordTransaction',
+      contractBridgeId: `0x${'cd'.repeat(32)}`,
+      targetTxHash: '0xprocessBridge',
+    });
+    expect(bitcoinTestnetService.verifyMerkleProof(JSON.parse(settled.merkleProof as string))).toBe(true);
+    expect(calls).toEqual(['recordTransaction', 'submitProof', 'verifyProof', 'initiateBridge', 'processBridge']);
+    expect(bridgeContractService.recordTransaction).toHaveBeenCalledWith(expect.objectContaining({ btcTxHash: settledDeposit, relayHeight: 1 }), expect.any(Function));
+    expect(jobs.map(job => `${job.stage} ${job.status}`)).toEqual([
+      'VERIFY_SOURCE COMPLETED',
+      'MERKLE_PROOF COMPLETED',
+      'ZK_PROOF COMPLETED',
+      'RELAY_RECORD COMPLETED',
+      'PROOF_REGISTRATION COMPLETED',
+      'TARGET_SUBMISSION COMPLETED',
+    ]);
+  });
+
+  it('parks a confirmed deposit that is not deep enough yet', async () => {
+    const confirming = await bridge(confirmingDeposit, '250000');
+
+    expect(confirming).toMatchObject({ status: 'AWAITING_CONFIRMATIONS', confirmations: 4, targetAmount: '250000', merkleProof: null });
+    expect(calls).toHaveLength(0);
+  });
+
+  it('parks a deposit still in the mempool', async () => {
+    const pending = await bridge(pendingDeposit, '50000');
+
+    expect(pending).toMatchObject({ status: 'AWAITING_CONFIRMATIONS', confirmations: 0 });
+    expect(calls).toHaveLength(0);
+  });
+
+  it('fails a deposit whose OP_RETURN commits to another recipient', async () => {
+    const failed = await bridge(settledDeposit, '100000', '0x000000000000000000000000000000000000bEEF');
+
+    expect(failed.status).toBe('FAILED');
+    expect(calls).toHaveLength(0);
+  });
+});
@@ -0,0 +1,141 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import { memoryPrisma, memoryTable, Row } from './memoryPrisma';
+
+// The bridge router served over HTTP against in-memory bridge, job, deposit
+// address and idempotency tables
+
+const transactions: Row[] = [];
+const jobs: Row[] = [];
+const depositAddresses: Row[] = [];
+
+const prismaMock = memoryPrisma({
+  bridgeTransaction: memoryTable(transactions),
+  bridgeJob: memoryTable(jobs, { idPrefix: 'job', defaults: { status: 'QUEUED', lockedBy: null, leaseExpiresAt: null } }),
+  depositAddress: memoryTable(depositAddresses, { idPrefix: 'deposit', defaults: { status: 'ACTIVE' } }),
+  idempotencyKey: memoryTable([]),
+});
+
+jest.mock('../config/database', () => ({ getPrismaClient: () => prismaMock }));
+
+process.env.JWT_SECRET = 'bridge-routes-test';
+// Account xpub of the BIP84 test mnemonic at m/84'/1'/0'
+process.env.BRIDGE_DEPOSIT_XPUB = 'tpubDC8msFGeGuwnKG9Upg7DM2b4DaRqg3CUZa5g8v2SRQ6K4NSkxUgd7HsL2XVWbVm39yBA4LAxysQAm397zwQSQoQgewGiYZqrA9DsP4zbQ1M';
+
+import bridgeRoutes from '../routes/bridge';
+import { errorHandler } from '../middleware/errorHandler';
+import { buildBridgePayloadScript, EXPECTED_CHAIN_ID } from '../services/bridgePayload';
+
+const tokenFor = (id: string) =>
+  jwt.sign({ id, address: '0x0000000000000000000000000000000000000000', role: 'user' }, process.env.JWT_SECRET!);
+
+describe('bridge routes', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api/bridge', bridgeRoutes);
+    app.use(errorHandler);
+
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    transactions.length = 0;
+    jobs.length = 0;
+    depositAddresses.length = 0;
+    transactions.push({ id: 'tx-1', userId: 'user-1', status: 'PENDING' });
+  });
+
+  const post = (path: string, body: unknown, userId?: string) =>
+    fetch(`${baseUrl}/api/bridge${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(userId ? { Authorization: `Bearer ${tokenFor(userId)}` } : {}) },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(5000),
+    });
+
+  describe('POST /verify-source', () => {
+    it('queues verification of the signed-in user\'s transaction', async () => {
+      const response = await post('/verify-source', { txId: 'tx-1' }, 'user-1');
+
+      expect(response.status).toBe(200);
+      expect(jobs).toEqual([expect.objectContaining({ transactionId: 'tx-1', stage: 'VERIFY_SOURCE', status: 'QUEUED' })]);
+    });
+
+    it('requires sign-in', async () => {
+      const response = await post('/verify-source', { txId: 'tx-1' });
+
+      expect(response.status).toBe(401);
+      expect(jobs).toHaveLength(0);
+    });
+
+    it('queues nothing for a transaction that does not exist', async () => {
+      const response = await post('/verify-source', { txId: 'made-up' }, 'user-1');
+
+      expect(response.status).toBe(404);
+      expect(jobs).toHaveLength(0);
+    });
+
+    it("reports another user's transaction as missing", async () => {
+      const response = await post('/verify-source', { txId: 'tx-1' }, 'user-2');
+
+      expect(response.status).toBe(404);
+      expect(jobs).toHaveLength(0);
+    });
+  });
+
+  describe('POST /deposit-address', () => {
+    const targetAddress = '0x000000000000000000000000000000000000dEaD';
+    const issued = async (response: Response) => ((await response.json()) as { data: Record<string, string> }).data;
+
+    it('issues the next derived address with the OP_RETURN the deposit must carry', async () => {
+      const response = await post('/deposit-address', { targetAddress });
+      const data = await issued(response);
+
+      expect(response.status).toBe(201);
+      expect(data).toMatchObject({
+        address: 'tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl',
+        addressType: 'P2WPKH',
+        derivationPath: '0/0',
+        targetAddress,
+        opReturnScript: buildBridgePayloadScript({ recipient: targetAddress, chainId: EXPECTED_CHAIN_ID }),
+      });
+      expect(depositAddresses).toEqual([expect.objectContaining({ id: data.id, derivationIndex: 0, userId: undefined })]);
+    });
+
+    it('gives every request its own address, owned by the signed-in user', async () => {
+      const first = await issued(await post('/deposit-address', { targetAddress }, 'user-1'));
+      const second = await issued(await post('/deposit-address', { targetAddress, addressType: 'P2TR' }, 'user-1'));
+
+      expect(second.address).not.toBe(first.address);
+      expect(second).toMatchObject({ addressType: 'P2TR', derivationPath: '0/1' });
+      expect(second.address).toMatch(/^tb1p/);
+      expect(depositAddresses.map(row => row.userId)).toEqual(['user-1', 'user-1']);
+    });
+
+    it('rejects an invalid target address', async () => {
+      const response = await post('/deposit-address', { targetAddress: 'not-an-address' });
+
+      expect(response.status).toBe(400);
+      expect(depositAddresses).toHaveLength(0);
+    });
+
+    it('rejects an unknown address type', async () => {
+      const response = await post('/deposit-address', { targetAddress, addressType: 'P2PKH' });
+
+      expect(response.status).toBe(400);
+      expect(depositAddresses).toHaveLength(0);
+    });
+  });
+});
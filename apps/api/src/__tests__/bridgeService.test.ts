@@ -0,0 +1,316 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import { memoryTable, Row } from './memoryPrisma';
+
+// The on-chain half of a BTC → ETH bridge against mocked contracts. BridgeContract
+// only processes a bridge whose deposit BTCRelay has recorded and whose proof
+// ProofVerifier has verified, so those calls have to come first. Stored bridge
+// attempts are checked against a fixture-built deposit to a custody address,
+// and Ethereum burns against a mocked burn verifier.
+
+const transactions: Row[] = [];
+const calls: string[] = [];
+
+const prismaMock = { bridgeTransaction: memoryTable(transactions) };
+
+const network = bitcoin.networks.testnet;
+const custody = bitcoin.payments.p2wpkh({ hash: Buffer.alloc(20, 0xb1), network }).address!;
+const depositor = bitcoin.payments.p2wpkh({ hash: Buffer.alloc(20, 0xd0), network }).address!;
+process.env.BRIDGE_CUSTODY_ADDRESSES = custody;
+
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(() => prismaMock),
+}));
+jest.mock('../config/database', () => ({ getPrismaClient: () => prismaMock }));
+jest.mock('../services/ethereumService', () => ({
+  ...jest.requireActual('../services/ethereumService'),
+  EthereumService: jest.fn(),
+}));
+jest.mock('../services/zkProofService', () => ({ ZKProofService: jest.fn() }));
+jest.mock('../services/bitcoinTestnetService', () => ({ bitcoinTestnetService: { getConfirmationCount: jest.fn(async () => 3) } }));
+jest.mock('../services/btcRelayer', () => ({ btcRelayer: { toRelayHeight: (height: number) => height - 2500000 } }));
+jest.mock('../services/bridgeJobService', () => ({ bridgeJobService: {} }));
+jest.mock('../services/payoutService', () => ({ payoutService: {} }));
+jest.mock('../services/bridgeTransactionService', () => ({ bridgeTransactionService: { createEvent: jest.fn(async () => undefined) } }));
+jest.mock('../services/bridgeStatusService', () => ({
+  bridgeStatusService: {
+    transition: jest.fn(async () => undefined),
+    fail: jest.fn(async () => undefined),
+  },
+}));
+
+// Each contract call is logged in order; a call that takes an onSent callback invokes it first
+const contractCall = <T>(name: string, result: T) =>
+  jest.fn(async (_args?: unknown, onSent?: (txHash: string) => Promise<void>) => {
+    calls.push(name);
+    await onSent?.(`0x${name}`);
+    return result;
+  });
+
+jest.mock('../services/bridgeContractService', () => ({
+  bridgeContractService: {
+    getRelayHeight: jest.fn(async () => 110),
+    isTransactionRecorded: jest.fn(async () => false),
+    recordTransaction: contractCall('recordTransaction', true),
+    submitProof: contractCall('submitProof', { txHash: '0xsubmitProof', proofHash: `0x${'ab'.repeat(32)}` }),
+    getProofStatus: jest.fn(async () => ({ verified: false, valid: false })),
+    verifyProof: contractCall('verifyProof', true),
+    initiateBridge: contractCall('initiateBridge', { txHash: '0xinitiateBridge', bridgeId: `0x${'cd'.repeat(32)}` }),
+    processBridge: contractCall('processBridge', { txHash: '0xprocessBridge', amount: '100000', fee: '100', gasUsed: '1', gasPrice: '1' }),
+  },
+}));
+
+import { BridgeService } from '../services/bridgeService';
+import { bridgeContractService } from '../services/bridgeContractService';
+import { bridgeStatusService } from '../services/bridgeStatusService';
+import { ContractRevertError, EthereumService } from '../services/ethereumService';
+import { DepositAddressError } from '../services/depositAddressService';
+import { buildBridgePayloadScript, EXPECTED_CHAIN_ID } from '../services/bridgePayload';
+import { FixtureChainBuilder } from '../services/bitcoinProviders';
+
+const contracts = bridgeContractService as jest.Mocked<typeof bridgeContractService>;
+
+const merkleProof = {
+  merkleRoot: `0x${'11'.repeat(32)}`,
+  proofPath: [`0x${'22'.repeat(32)}`, `0x${'33'.repeat(32)}`],
+  proofIndex: 3,
+  transactionHash: 'ee'.repeat(32),
+  blockHeight: 2500100,
+  blockHash: `0x${'44'.repeat(32)}`,
+};
+
+const zkProof = {
+  proof: { pi_a: ['1', '2', '1'], pi_b: [['3', '4'], ['5', '6'], ['1', '0']], pi_c: ['7', '8', '1'] },
+  publicSignals: ['9'],
+};
+
+describe('BridgeService on-chain stages', () => {
+  const service = new BridgeService();
+
+  beforeEach(() => {
+    transactions.length = 0;
+    transactions.push({
+      id: 'tx-1',
+      direction: 'BITCOIN_TO_ETHEREUM',
+      sourceTxHash: 'ee'.repeat(32),
+      sourceAddress: 'tb1qsource',
+      targetAddress: '0x0000000000000000000000000000000000000001',
+      sourceAmount: '100000',
+      targetAmount: null,
+      merkleRoot: merkleProof.merkleRoot,
+      merkleProof: JSON.stringify(merkleProof),
+      zkProof: JSON.stringify(zkProof),
+      zkProofHash: null,
+      proofTxHash: null,
+      proofVerifiedAt: null,
+      relayTxHash: null,
+      relayRecordedAt: null,
+      contractBridgeId: null,
+      initiateTxHash: null,
+      targetTxHash: null,
+    });
+    calls.length = 0;
+    jest.clearAllMocks();
+  });
+
+  it('records the deposit and registers the proof before BridgeContract processes the bridge', async () => {
+    expect(await service.recordSourceOnRelay('tx-1')).toBe(true);
+    expect(await service.registerZKProof('tx-1')).toBe(true);
+    expect(await service.initiateTargetTransaction('tx-1')).toBe(true);
+
+    expect(calls).toEqual(['recordTransaction', 'submitProof', 'verifyProof', 'initiateBridge', 'processBridge']);
+    expect(contracts.recordTransaction).toHaveBeenCalledWith({
+      btcTxHash: merkleProof.transactionHash,
+      blockHash: merkleProof.blockHash,
+      relayHeight: 100,
+      index: merkleProof.proofIndex,
+      siblings: merkleProof.proofPath,
+    }, expect.any(Function));
+    // BridgeContract looks the proof up by the hash ProofVerifier stored it under
+    expect(contracts.processBridge).toHaveBeenCalledWith(expect.objectContaining({ zkProof: `0x${'ab'.repeat(32)}` }), expect.any(Function));
+    expect(transactions[0]).toMatchObject({ relayTxHash: '0xrecordTransaction', proofTxHash: '0xsubmitProof', zkProofHash: `0x${'ab'.repeat(32)}` });
+  });
+
+  it('refuses target submission before the proof is registered', async () => {
+    await service.recordSourceOnRelay('tx-1');
+
+    await expect(service.initiateTargetTransaction('tx-1')).rejects.toThrow('ZK proof verified before target submission');
+    expect(contracts.initiateBridge).not.toHaveBeenCalled();
+  });
+
+  it('waits for BTCRelay to have enough headers on top of the block', async () => {
+    contracts.getRelayHeight.mockResolvedValueOnce(105);
+
+    await expect(service.recordSourceOnRelay('tx-1')).rejects.toThrow('needs 6 headers on top');
+    expect(contracts.recordTransaction).not.toHaveBeenCalled();
+    expect(transactions[0].relayRecordedAt).toBeNull();
+  });
+
+  it('skips recording a transaction BTCRelay already has', async () => {
+    contracts.isTransactionRecorded.mockResolvedValueOnce(true);
+
+    expect(await service.recordSourceOnRelay('tx-1')).toBe(true);
+    expect(contracts.recordTransaction).not.toHaveBeenCalled();
+    expect(transactions[0].relayRecordedAt).toBeInstanceOf(Date);
+  });
+
+  it('fails the bridge when ProofVerifier rejects the proof', async () => {
+    contracts.verifyProof.mockResolvedValueOnce(false);
+
+    expect(await service.registerZKProof('tx-1')).toBe(false);
+    expect(bridgeStatusService.fail).toHaveBeenCalledWith('tx-1', 'ProofVerifier rejected the ZK proof', expect.anything());
+    expect(transactions[0].proofVerifiedAt).toBeNull();
+  });
+
+  it('resubmits the proof on the next attempt after verification reverts', async () => {
+    contracts.verifyProof.mockRejectedValueOnce(new ContractRevertError('Verification timeout'));
+
+    await expect(service.registerZKProof('tx-1')).rejects.toBeInstanceOf(ContractRevertError);
+    expect(transactions[0]).toMatchObject({ zkProofHash: null, proofTxHash: null });
+
+    expect(await service.registerZKProof('tx-1')).toBe(true);
+    expect(contracts.submitProof).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('BridgeService.verifySourceTransaction for a wrapped BTC burn', () => {
+  const ethereum = {
+    verifyBurn: jest.fn(),
+    getConfirmationCount: jest.fn(async () => 8),
+  };
+  jest.mocked(EthereumService).mockImplementation(() => ethereum as unknown as EthereumService);
+  const service = new BridgeService();
+
+  const burn = {
+    event: 'BridgeClaimed',
+    contract: '0x00000000000000000000000000000000000000b2',
+    burner: '0x000000000000000000000000000000000000dEaD',
+    amount: '250000',
+    btcAddress: 'tb1qdestination',
+    bridgeId: `0x${'cd'.repeat(32)}`,
+    blockNumber: 5000000,
+  };
+
+  beforeEach(() => {
+    transactions.length = 0;
+    transactions.push({
+      id: 'tx-2',
+      direction: 'ETHEREUM_TO_BITCOIN',
+      sourceTxHash: `0x${'ee'.repeat(32)}`,
+      sourceAddress: burn.burner,
+      targetAddress: burn.btcAddress,
+      sourceAmount: '250000',
+      targetAmount: null,
+      contractBridgeId: null,
+      confirmations: 0,
+    });
+    jest.clearAllMocks();
+  });
+
+  it('parks a burn that is not mined yet to wait for confirmations', async () => {
+    ethereum.verifyBurn.mockResolvedValueOnce({ isValid: false, pending: true });
+
+    expect(await service.verifySourceTransaction('tx-2')).toBe(false);
+
+    expect(bridgeStatusService.fail).not.toHaveBeenCalled();
+    expect(bridgeStatusService.transition).toHaveBeenLastCalledWith('tx-2', 'AWAITING_CONFIRMATIONS', expect.anything());
+    expect(ethereum.getConfirmationCount).not.toHaveBeenCalled();
+    expect(transactions[0]).toMatchObject({ confirmations: 0, targetAmount: null, contractBridgeId: null });
+  });
+
+  it('records the burned amount and the BridgeContract bridge of a verified burn', async () => {
+    ethereum.verifyBurn.mockResolvedValueOnce({ isValid: true, burn });
+
+    expect(await service.verifySourceTransaction('tx-2')).toBe(true);
+
+    expect(ethereum.verifyBurn).toHaveBeenCalledWith(`0x${'ee'.repeat(32)}`, { burner: burn.burner, amount: '250000', btcAddress: burn.btcAddress });
+    expect(bridgeStatusService.transition).toHaveBeenLastCalledWith('tx-2', 'CONFIRMED', expect.anything());
+    expect(transactions[0]).toMatchObject({ confirmations: 8, targetAmount: '250000', contractBridgeId: burn.bridgeId });
+  });
+
+  it('fails the bridge when the burn does not match', async () => {
+    ethereum.verifyBurn.mockResolvedValueOnce({ isValid: false, burn: { ...burn, amount: '200000' }, error: 'Burned 200000 satoshis, expected 250000' });
+
+    expect(await service.verifySourceTransaction('tx-2')).toBe(false);
+
+    expect(bridgeStatusService.fail).toHaveBeenCalledWith('tx-2', 'Burned 200000 satoshis, expected 250000', expect.anything());
+    expect(transactions[0]).toMatchObject({ targetAmount: null, contractBridgeId: null });
+  });
+});
+
+describe('BridgeService.storeBridgeAttempt', () => {
+  const service = new BridgeService();
+  const recipient = '0x000000000000000000000000000000000000dEaD';
+  const payload = { script: buildBridgePayloadScript({ recipient, chainId: EXPECTED_CHAIN_ID }), value: 0 };
+
+  // A deposit of 250000 sats with change, mined one block above the start of the chain
+  const chain = new FixtureChainBuilder({ startHeight: 2500000 });
+  const deposit = chain.addTransaction({
+    from: depositor,
+    outputs: [{ address: depositor, value: 740000 }, { address: custody, value: 250000 }, payload],
+  });
+  const block = chain.mineBlock();
+  const minedDeposit = { ...deposit, status: { confirmed: true, block_height: block.height, block_hash: block.id } };
+
+  beforeEach(() => {
+    transactions.length = 0;
+  });
+
+  it('records the custody output, the sender and the block of the deposit', async () => {
+    const bridgeId = await service.storeBridgeAttempt(minedDeposit, merkleProof, recipient, 'user-1', '250000');
+
+    expect(transactions).toEqual([expect.objectContaining({
+      id: bridgeId,
+      direction: 'BITCOIN_TO_ETHEREUM',
+      sourceTxHash: deposit.txid,
+      sourceAmount: '250000',
+      targetAmount: '250000',
+      depositOutpoints: JSON.stringify([`${deposit.txid}:1`]),
+      sourceAddress: depositor,
+      targetAddress: recipient,
+      blockHeight: 2500001,
+      blockHash: block.id,
+      confirmations: 3,
+      userId: 'user-1',
+    })]);
+    expect(transactions[0]).not.toHaveProperty('metadata');
+  });
+
+  it('bridges what reached custody when no amount is requested', async () => {
+    await service.storeBridgeAttempt(minedDeposit, merkleProof, recipient);
+
+    expect(transactions[0]).toMatchObject({ sourceAmount: '250000', targetAmount: '250000' });
+  });
+
+  it('credits an overpayment as received under the default policy', async () => {
+    await service.storeBridgeAttempt(minedDeposit, merkleProof, recipient, 'user-1', '200000');
+
+    expect(transactions[0]).toMatchObject({ sourceAmount: '200000', targetAmount: '250000' });
+  });
+
+  it('rejects an underpaid deposit', async () => {
+    await expect(service.storeBridgeAttempt(minedDeposit, merkleProof, recipient, 'user-1', '300000'))
+      .rejects.toThrow(new DepositAddressError('Deposit underpaid: received 250000 sats, expected 300000'));
+    expect(transactions).toHaveLength(0);
+  });
+
+  it('stores an unconfirmed deposit without a block', async () => {
+    await service.storeBridgeAttempt(deposit, merkleProof, recipient);
+
+    expect(transactions[0]).toMatchObject({ blockHeight: undefined, blockHash: undefined, confirmations: 0 });
+  });
+
+  it('lists stored attempts as bridge statuses', async () => {
+    const bridgeId = await service.storeBridgeAttempt(minedDeposit, merkleProof, recipient, 'user-1', '250000');
+
+    expect(await service.getBridgeAttempts('user-1')).toEqual([expect.objectContaining({
+      id: bridgeId,
+      status: 'PENDING',
+      fromChain: 'bitcoin',
+      toChain: 'ethereum',
+      sourceTxHash: deposit.txid,
+      amount: '250000',
+      confirmations: 3,
+    })]);
+  });
+});
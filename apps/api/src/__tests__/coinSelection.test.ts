@@ -0,0 +1,103 @@
+import { CoinCandidate, DUST_LIMIT, selectCoins } from '../services/coinSelection';
+
+// At 1 sat/vB a coin's effective value is its value less its 68 vB input, the
+// optional coins have to cover the target plus the 10 sat base fee, and a
+// change output costs 31 sat now and 68 sat to spend later.
+
+const coin = (value: number): CoinCandidate => ({ value, inputVbytes: 68 });
+
+const params = {
+  target: 100000,
+  feeRate: 1,
+  baseVbytes: 10,
+  changeOutputVbytes: 31,
+  changeSpendVbytes: 68,
+};
+
+const values = (inputs: CoinCandidate[]) => inputs.map(input => input.value).sort((a, b) => a - b);
+
+describe('selectCoins', () => {
+  describe('branch and bound', () => {
+    it('finds a changeless set paying the target exactly', () => {
+      const selection = selectCoins([coin(200000), coin(90000), coin(60078), coin(40068)], params)!;
+
+      expect(selection.algorithm).toBe('bnb');
+      expect(values(selection.inputs)).toEqual([40068, 60078]);
+      expect(selection).toMatchObject({ change: 0, fee: 146 });
+    });
+
+    it('gives an excess up to the cost of change to the miners', () => {
+      // 99 sat over the target: the change output would cost as much
+      const selection = selectCoins([coin(60078), coin(40167)], params)!;
+
+      expect(selection).toMatchObject({ algorithm: 'bnb', change: 0, fee: 245 });
+    });
+
+    it('leaves the window when the excess would pay for a change output', () => {
+      const selection = selectCoins([coin(60078), coin(40168)], params)!;
+
+      expect(selection.algorithm).toBe('knapsack');
+    });
+
+    it('skips coins that cost more to spend than they are worth', () => {
+      const selection = selectCoins([coin(60078), coin(40068), coin(60)], params)!;
+
+      expect(values(selection.inputs)).toEqual([40068, 60078]);
+    });
+  });
+
+  describe('knapsack', () => {
+    it('takes the smallest single coin that leaves change', () => {
+      const selection = selectCoins([coin(30000), coin(50000), coin(150000), coin(400000)], params)!;
+
+      expect(selection).toMatchObject({ algorithm: 'knapsack', change: 49891, fee: 109 });
+      expect(values(selection.inputs)).toEqual([150000]);
+    });
+
+    it('prefers smaller coins leaving at least the minimum change over a much larger coin', () => {
+      const selection = selectCoins([coin(60000), coin(55000), coin(50000), coin(500000)], params)!;
+
+      expect(values(selection.inputs)).toEqual([55000, 60000]);
+      expect(selection.change).toBe(14823);
+    });
+
+    it('returns null when the coins cannot cover the target and fee', () => {
+      expect(selectCoins([coin(50000), coin(50000)], params)).toBeNull();
+    });
+  });
+
+  describe('change', () => {
+    it('adds dust change to the fee instead of creating an output', () => {
+      // 69 sat of change after paying for the change output
+      const selection = selectCoins([coin(60078), coin(40168)], params)!;
+
+      expect(selection.change).toBe(0);
+      expect(selection.fee).toBe(246);
+    });
+
+    it('creates a change output from the dust limit up', () => {
+      const selection = selectCoins([coin(60078), coin(40168 + DUST_LIMIT - 69)], params)!;
+
+      expect(selection).toMatchObject({ algorithm: 'knapsack', change: DUST_LIMIT, fee: 177 });
+    });
+  });
+
+  describe('required coins', () => {
+    it('spends them alone when they cover the target', () => {
+      const required = [coin(150000)];
+
+      const selection = selectCoins([coin(100000)], { ...params, required })!;
+
+      expect(selection).toMatchObject({ algorithm: 'required', inputs: required, change: 49891 });
+    });
+
+    it('adds coins for what they leave uncovered', () => {
+      const required = [coin(40068)];
+
+      const selection = selectCoins([coin(60078), coin(90000)], { ...params, required })!;
+
+      expect(selection).toMatchObject({ algorithm: 'bnb', change: 0 });
+      expect(values(selection.inputs)).toEqual([40068, 60078]);
+    });
+  });
+});
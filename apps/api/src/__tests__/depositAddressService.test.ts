@@ -0,0 +1,176 @@
+import { memoryPrisma, memoryTable, Row, uniqueOn } from './memoryPrisma';
+
+// Deposit address derivation, allocation and custody checks against an in-memory
+// deposit_addresses table with the unique address and (keyFingerprint, derivationIndex)
+
+const depositAddresses: Row[] = [];
+
+const uniqueAddress = uniqueOn('address');
+const uniqueIndex = uniqueOn('keyFingerprint', 'derivationIndex');
+
+const prismaMock = memoryPrisma({
+  depositAddress: memoryTable(depositAddresses, {
+    idPrefix: 'deposit',
+    defaults: { status: 'ACTIVE' },
+    conflicts: (existing, data) => uniqueAddress(existing, data) || uniqueIndex(existing, data),
+  }),
+});
+
+jest.mock('../config/database', () => ({ getPrismaClient: () => prismaMock }));
+
+import { DepositAddressService } from '../services/depositAddressService';
+import { BitcoinTransaction } from '../services/bitcoinProviders';
+
+// Account xpubs of the BIP84 and BIP86 test mnemonic ("abandon" x11, "about"), at m/84'/0'/0' and m/86'/0'/0'
+const bip84Xpub = 'xpub6CatWdiZiodmUeTDp8LT5or8nmbKNcuyvz7WyksVFkKB4RHwCD3XyuvPEbvqAQY3rAPshWcMLoP2fMFMKHPJ4ZeZXYVUhLv1VMrjPC7PW6V';
+const bip86Xpub = 'xpub6BgBgsespWvERF3LHQu6CnqdvfEvtMcQjYrcRzx53QJjSxarj2afYWcLteoGVky7D3UKDP9QyrLprQ3VCECoY49yfdDEHGCtMMj92pReUsQ';
+// The same mnemonic at m/84'/1'/0'
+const testnetTpub = 'tpubDC8msFGeGuwnKG9Upg7DM2b4DaRqg3CUZa5g8v2SRQ6K4NSkxUgd7HsL2XVWbVm39yBA4LAxysQAm397zwQSQoQgewGiYZqrA9DsP4zbQ1M';
+
+const targetAddress = '0x000000000000000000000000000000000000dEaD';
+const custody = 'tb1qkxcmrvd3kxcmrvd3kxcmrvd3kxcmrvd3vqmynz';
+const change = 'tb1q6rgdp5xs6rgdp5xs6rgdp5xs6rgdp5xspprr8z';
+
+// As returned by Esplora's GET /tx/:txid, whose vouts carry no index
+const esploraTransaction: BitcoinTransaction = {
+  txid: '1b63caabb97c96ffde3dd522ea672dc8a03c7a1aed685a8c4244d3f5f06674e1',
+  version: 2,
+  locktime: 0,
+  vin: [{
+    txid: 'e051f99c2a7162ef43672085b89768cf35d739c1e647e8ddf4cdd1cdf81ddf95',
+    vout: 1,
+    prevout: {
+      scriptpubkey: '0014d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0',
+      scriptpubkey_asm: 'OP_0 OP_PUSHBYTES_20 d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0',
+      scriptpubkey_type: 'v0_p2wpkh',
+      scriptpubkey_address: change,
+      value: 1000000,
+    },
+    scriptsig: '',
+    scriptsig_asm: '',
+    witness: [],
+    is_coinbase: false,
+    sequence: 4294967295,
+  }],
+  vout: [
+    {
+      scriptpubkey: '0014d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0',
+      scriptpubkey_asm: 'OP_0 OP_PUSHBYTES_20 d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0',
+      scriptpubkey_type: 'v0_p2wpkh',
+      scriptpubkey_address: change,
+      value: 740000,
+    },
+    {
+      scriptpubkey: '0014b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1',
+      scriptpubkey_asm: 'OP_0 OP_PUSHBYTES_20 b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1',
+      scriptpubkey_type: 'v0_p2wpkh',
+      scriptpubkey_address: custody,
+      value: 250000,
+    },
+  ],
+  size: 222,
+  weight: 561,
+  fee: 10000,
+  status: { confirmed: true, block_height: 2500008, block_hash: '00000000a1', block_time: 1700004800 },
+};
+
+describe('DepositAddressService', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+    depositAddresses.length = 0;
+  });
+
+  describe('deriveAddress', () => {
+    it('derives the BIP84 native segwit receive addresses', () => {
+      process.env.BITCOIN_NETWORK = 'mainnet';
+      process.env.BRIDGE_DEPOSIT_XPUB = bip84Xpub;
+      const service = new DepositAddressService();
+
+      expect(service.deriveAddress(0, 'P2WPKH')).toBe('bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu');
+      expect(service.deriveAddress(1, 'P2WPKH')).toBe('bc1qnjg0jd8228aq7egyzacy8cys3knf9xvrerkf9g');
+    });
+
+    it('derives the BIP86 key-path taproot receive addresses', () => {
+      process.env.BITCOIN_NETWORK = 'mainnet';
+      process.env.BRIDGE_DEPOSIT_XPUB = bip86Xpub;
+      const service = new DepositAddressService();
+
+      expect(service.deriveAddress(0, 'P2TR')).toBe('bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr');
+      expect(service.deriveAddress(1, 'P2TR')).toBe('bc1p4qhjn9zdvkux4e44uhx8tc55attvtyu358kutcqkudyccelu0was9fqzwh');
+    });
+
+    it('derives testnet addresses from a tpub', () => {
+      process.env.BRIDGE_DEPOSIT_XPUB = testnetTpub;
+      const service = new DepositAddressService();
+
+      expect(service.deriveAddress(0)).toBe('tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl');
+    });
+
+    it('is disabled without an xpub', () => {
+      delete process.env.BRIDGE_DEPOSIT_XPUB;
+      const service = new DepositAddressService();
+
+      expect(service.isConfigured()).toBe(false);
+      expect(() => service.deriveAddress(0)).toThrow('Deposit addresses are not configured');
+    });
+  });
+
+  describe('createDepositAddress', () => {
+    beforeEach(() => {
+      process.env.BRIDGE_DEPOSIT_XPUB = testnetTpub;
+    });
+
+    it('gives each request the next index', async () => {
+      const service = new DepositAddressService();
+
+      const first = await service.createDepositAddress({ targetAddress, userId: 'user-1' });
+      const second = await service.createDepositAddress({ targetAddress, addressType: 'P2TR' });
+
+      expect(first).toMatchObject({
+        address: 'tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl',
+        derivationIndex: 0,
+        derivationPath: '0/0',
+        addressType: 'P2WPKH',
+        targetAddress,
+        userId: 'user-1',
+        status: 'ACTIVE',
+      });
+      expect(second).toMatchObject({ address: service.deriveAddress(1, 'P2TR'), derivationIndex: 1, derivationPath: '0/1', addressType: 'P2TR' });
+      expect(first.keyFingerprint).toBe(second.keyFingerprint);
+    });
+
+    it('gives concurrent requests distinct indexes', async () => {
+      const service = new DepositAddressService();
+
+      // Every request reads the same last index before any of them has inserted
+      const allocated = await Promise.all([1, 2, 3].map(() => service.createDepositAddress({ targetAddress })));
+
+      expect(allocated.map(row => row.derivationIndex).sort()).toEqual([0, 1, 2]);
+      expect(new Set(allocated.map(row => row.address)).size).toBe(3);
+      expect(depositAddresses).toHaveLength(3);
+    });
+
+    it('carries on from the highest index already allocated', async () => {
+      const service = new DepositAddressService();
+      const { keyFingerprint } = await service.createDepositAddress({ targetAddress });
+      depositAddresses.push({ id: 'deposit-old', keyFingerprint, derivationIndex: 7, address: service.deriveAddress(7), status: 'USED' });
+
+      expect(await service.createDepositAddress({ targetAddress })).toMatchObject({ derivationIndex: 8, address: service.deriveAddress(8) });
+    });
+  });
+
+  describe('findCustodyOutputs', () => {
+    it('numbers outpoints by their position in an Esplora vout list', async () => {
+      process.env.BRIDGE_CUSTODY_ADDRESSES = custody;
+      const service = new DepositAddressService();
+
+      const found = await service.findCustodyOutputs(esploraTransaction, null);
+
+      expect(found.error).toBeUndefined();
+      expect(found.outpoints).toEqual([`${esploraTransaction.txid}:1`]);
+      expect(found.receivedAmount).toBe(250000);
+    });
+  });
+});
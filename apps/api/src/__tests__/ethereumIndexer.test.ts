@@ -0,0 +1,216 @@
+import { ethers } from 'ethers';
+import { memoryPrisma, memoryTable, Row } from './memoryPrisma';
+
+// Event indexing against in-memory checkpoint, block, event and bridge tables,
+// over a fake chain of logs from the three contracts that is reorged part way
+
+const checkpoints: Row[] = [];
+const indexedBlocks: Row[] = [];
+const chainEvents: Row[] = [];
+const indexedBridges: Row[] = [];
+
+const prismaMock = memoryPrisma({
+  indexerCheckpoint: memoryTable(checkpoints, { defaults: { lastBlockHash: null, confirmedBlock: 0, headBlock: null, status: 'IDLE', lastError: null } }),
+  indexedBlock: memoryTable(indexedBlocks),
+  chainEvent: memoryTable(chainEvents, { idPrefix: 'event', defaults: { confirmed: false } }),
+  indexedBridge: memoryTable(indexedBridges),
+});
+
+jest.mock('../config/database', () => ({ getPrismaClient: () => prismaMock }));
+
+const bridgeContract = '0x00000000000000000000000000000000000000B2';
+const wrappedBTC = '0x00000000000000000000000000000000000000A1';
+const proofVerifier = '0x00000000000000000000000000000000000000C3';
+process.env.BRIDGE_CONTRACT_ADDRESS = bridgeContract;
+process.env.WRAPPED_BTC_ADDRESS = wrappedBTC;
+process.env.PROOF_VERIFIER_ADDRESS = proofVerifier;
+process.env.ETHEREUM_INDEXER_START_BLOCK = '100';
+process.env.ETHEREUM_INDEXER_BATCH_BLOCKS = '5';
+process.env.ETHEREUM_INDEXER_CONFIRMATIONS = '3';
+
+import { EthereumIndexer } from '../services/ethereumIndexer';
+import { BRIDGE_CONTRACT_ABI, PROOF_VERIFIER_ABI, WRAPPED_BTC_ABI } from '../config/contracts';
+
+const bridgeInterface = new ethers.Interface(BRIDGE_CONTRACT_ABI);
+const wrappedBTCInterface = new ethers.Interface(WRAPPED_BTC_ABI);
+const proofVerifierInterface = new ethers.Interface(PROOF_VERIFIER_ABI);
+
+const user = '0x000000000000000000000000000000000000dEaD';
+const relayer = '0x000000000000000000000000000000000000bEEF';
+const bridgeId = `0x${'cd'.repeat(32)}`;
+const btcTxHash = `0x${'ee'.repeat(32)}`;
+const proofHash = `0x${'ab'.repeat(32)}`;
+const btcAddress = 'tb1qkxcmrvd3kxcmrvd3kxcmrvd3kxcmrvd3vqmynz';
+const TIMESTAMP = 1700000000;
+
+interface FakeLog {
+  address: string;
+  topics: readonly string[];
+  data: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  index: number;
+}
+
+/**
+ * Blocks 100 up to the head, each with the logs given for it. A reorg swaps
+ * in a new branch from a block on, with fresh hashes.
+ */
+class FakeChain {
+  private hashes = new Map<number, string>();
+  private logs = new Map<number, Array<Omit<FakeLog, 'blockNumber' | 'blockHash' | 'transactionHash' | 'index'>>>();
+
+  constructor(public head: number) {
+    this.branch(100, 'main');
+  }
+
+  emit(blockNumber: number, address: string, encoded: { topics: readonly string[]; data: string }) {
+    this.logs.set(blockNumber, [...(this.logs.get(blockNumber) || []), { address, ...encoded }]);
+  }
+
+  reorg(fromBlock: number, head: number) {
+    for (let number = fromBlock; number <= this.head; number++) {
+      this.logs.delete(number);
+    }
+    this.head = head;
+    this.branch(fromBlock, 'fork');
+  }
+
+  getBlock(number: number) {
+    return number <= this.head ? ({ number, hash: this.hashes.get(number)!, timestamp: TIMESTAMP + number * 12 } as ethers.Block) : null;
+  }
+
+  // Only the block range of the filter is honoured; every log comes from an indexed contract
+  getLogs(filter: ethers.Filter | ethers.FilterByBlockHash): ethers.Log[] {
+    const { fromBlock, toBlock } = filter as ethers.Filter;
+    const found: FakeLog[] = [];
+    for (let number = Number(fromBlock); number <= Math.min(Number(toBlock), this.head); number++) {
+      const blockHash = this.hashes.get(number)!;
+      (this.logs.get(number) || []).forEach((log, index) => {
+        found.push({ ...log, blockNumber: number, blockHash, transactionHash: ethers.id(`${blockHash}:${index}`), index });
+      });
+    }
+    return found as unknown as ethers.Log[];
+  }
+
+  private branch(fromBlock: number, name: string) {
+    for (let number = fromBlock; number <= 1000; number++) {
+      this.hashes.set(number, ethers.id(`${name}:${number}`));
+    }
+  }
+}
+
+describe('EthereumIndexer', () => {
+  let chain: FakeChain;
+
+  beforeEach(() => {
+    checkpoints.length = 0;
+    indexedBlocks.length = 0;
+    chainEvents.length = 0;
+    indexedBridges.length = 0;
+    jest.restoreAllMocks();
+
+    chain = new FakeChain(109);
+    chain.emit(101, bridgeContract, bridgeInterface.encodeEventLog('BridgeInitiated', [bridgeId, user, 250000n, btcTxHash, btcAddress, TIMESTAMP]));
+    chain.emit(102, wrappedBTC, wrappedBTCInterface.encodeEventLog('Transfer', [ethers.ZeroAddress, user, 250000n]));
+    chain.emit(103, proofVerifier, proofVerifierInterface.encodeEventLog('ProofVerified', [proofHash, btcTxHash, relayer, TIMESTAMP, true]));
+    chain.emit(108, bridgeContract, bridgeInterface.encodeEventLog('BridgeCompleted', [bridgeId, user, 250000n, 250n, TIMESTAMP]));
+
+    const provider = ethers.JsonRpcProvider.prototype;
+    jest.spyOn(provider, 'getBlockNumber').mockImplementation(async () => chain.head);
+    jest.spyOn(provider, 'getBlock').mockImplementation(async block => chain.getBlock(Number(block)));
+    jest.spyOn(provider, 'getLogs').mockImplementation(async filter => chain.getLogs(filter));
+  });
+
+  const events = () => chainEvents.map(event => `${event.blockNumber} ${event.name}`);
+
+  it('decodes BridgeContract, WrappedBTC and ProofVerifier events', async () => {
+    await new EthereumIndexer().sync();
+
+    expect(chainEvents).toEqual([
+      expect.objectContaining({
+        contract: 'BridgeContract',
+        address: bridgeContract.toLowerCase(),
+        name: 'BridgeInitiated',
+        blockNumber: 101,
+        account: user.toLowerCase(),
+        counterparty: null,
+        key: bridgeId,
+        timestamp: new Date((TIMESTAMP + 101 * 12) * 1000),
+      }),
+      expect.objectContaining({
+        contract: 'WrappedBTC',
+        name: 'Transfer',
+        account: ethers.ZeroAddress,
+        counterparty: user.toLowerCase(),
+        key: null,
+      }),
+      expect.objectContaining({
+        contract: 'ProofVerifier',
+        name: 'ProofVerified',
+        account: relayer.toLowerCase(),
+        key: proofHash,
+      }),
+    ]);
+    expect(JSON.parse(chainEvents[0].args as string)).toEqual({
+      bridgeId,
+      user,
+      amount: '250000',
+      btcTxHash,
+      btcAddress,
+      timestamp: String(TIMESTAMP),
+    });
+    expect(JSON.parse(chainEvents[1].args as string)).toEqual({ from: ethers.ZeroAddress, to: user, value: '250000' });
+    expect(JSON.parse(chainEvents[2].args as string)).toMatchObject({ proofHash, txHash: btcTxHash, verifier: relayer, isValid: true });
+    expect(indexedBridges).toEqual([expect.objectContaining({ bridgeId, user: user.toLowerCase(), amount: '250000', status: 'INITIATED' })]);
+  });
+
+  it('persists its cursor so a restarted indexer carries on where the last one stopped', async () => {
+    expect(await new EthereumIndexer().sync()).toBe(false);
+    expect(checkpoints[0]).toMatchObject({ lastBlock: 104, lastBlockHash: chain.getBlock(104)!.hash, headBlock: 109, status: 'SYNCING' });
+
+    const restarted = new EthereumIndexer();
+    expect(await restarted.sync()).toBe(true);
+
+    expect(ethers.JsonRpcProvider.prototype.getLogs).toHaveBeenLastCalledWith(expect.objectContaining({ fromBlock: 105, toBlock: 109 }));
+    expect(checkpoints[0]).toMatchObject({ lastBlock: 109, status: 'IN_SYNC', confirmedBlock: 107 });
+    expect(events()).toEqual(['101 BridgeInitiated', '102 Transfer', '103 ProofVerified', '108 BridgeCompleted']);
+    // 108 is only two blocks deep
+    expect(chainEvents.map(event => event.confirmed)).toEqual([true, true, true, false]);
+    expect(indexedBridges[0]).toMatchObject({ status: 'COMPLETED', fee: '250', lastBlockNumber: 108, confirmed: false });
+  });
+
+  it('rewinds past reorged blocks and indexes the new branch', async () => {
+    const indexer = new EthereumIndexer();
+    await indexer.sync();
+    await indexer.sync();
+
+    // The completion at 108 is orphaned; the new branch cancels the bridge instead
+    chain.reorg(108, 110);
+    chain.emit(109, bridgeContract, bridgeInterface.encodeEventLog('BridgeCancelled', [bridgeId, user, 250000n, 'Proof rejected', TIMESTAMP]));
+
+    expect(await indexer.sync()).toBe(false);
+
+    expect(checkpoints[0]).toMatchObject({ lastBlock: 109, lastBlockHash: chain.getBlock(109)!.hash });
+    expect(events()).toEqual(['101 BridgeInitiated', '102 Transfer', '103 ProofVerified', '109 BridgeCancelled']);
+    expect(chainEvents[3].blockHash).toBe(chain.getBlock(109)!.hash);
+    expect(indexedBridges[0]).toMatchObject({ status: 'CANCELLED', fee: null, completedAt: null, cancelReason: 'Proof rejected' });
+    expect(indexedBlocks.map(block => block.hash)).toEqual(expect.not.arrayContaining([ethers.id('main:108'), ethers.id('main:109')]));
+
+    expect(await indexer.sync()).toBe(true);
+    expect(checkpoints[0]).toMatchObject({ lastBlock: 110, status: 'IN_SYNC' });
+  });
+
+  it('refuses logs from a block that changed while they were fetched', async () => {
+    jest.mocked(ethers.JsonRpcProvider.prototype.getLogs).mockImplementationOnce(async filter => {
+      const logs = chain.getLogs(filter);
+      chain.reorg(103, 109);
+      return logs;
+    });
+
+    await expect(new EthereumIndexer().sync()).rejects.toThrow('Block 104 changed while its logs were fetched');
+    expect(chainEvents).toHaveLength(0);
+    expect(checkpoints[0]).toMatchObject({ lastBlock: 99 });
+  });
+});
@@ -0,0 +1,160 @@
+import { ethers } from 'ethers';
+
+// Burn verification against receipts built from the WrappedBTC and
+// BridgeContract ABIs, served by a node that only answers what is asked.
+
+const wrappedBTC = '0x00000000000000000000000000000000000000a1';
+const bridgeContract = '0x00000000000000000000000000000000000000b2';
+process.env.WRAPPED_BTC_ADDRESS = wrappedBTC;
+process.env.BRIDGE_CONTRACT_ADDRESS = bridgeContract;
+
+import { EthereumService } from '../services/ethereumService';
+import { BRIDGE_CONTRACT_ABI, WRAPPED_BTC_ABI } from '../config/contracts';
+
+const wrappedBTCInterface = new ethers.Interface(WRAPPED_BTC_ABI);
+const bridgeContractInterface = new ethers.Interface(BRIDGE_CONTRACT_ABI);
+
+const burner = '0x000000000000000000000000000000000000dEaD';
+const otherUser = '0x000000000000000000000000000000000000bEEF';
+const btcAddress = 'tb1qkxcmrvd3kxcmrvd3kxcmrvd3kxcmrvd3vqmynz';
+const bridgeId = `0x${'cd'.repeat(32)}`;
+const hash = `0x${'ee'.repeat(32)}`;
+const expected = { burner, amount: '250000', btcAddress };
+
+const unlockLog = (address: string, user: string, amount: bigint, destination: string) => ({
+  address,
+  ...wrappedBTCInterface.encodeEventLog('BitcoinUnlocked', [user, amount, `0x${'ab'.repeat(32)}`, destination]),
+});
+
+const claimLog = (address: string, user: string, amount: bigint, destination: string) => ({
+  address,
+  ...bridgeContractInterface.encodeEventLog('BridgeClaimed', [bridgeId, user, amount, destination, 1700000000]),
+});
+
+const transferLog = () => ({
+  address: wrappedBTC,
+  ...wrappedBTCInterface.encodeEventLog('Transfer', [burner, ethers.ZeroAddress, 250000n]),
+});
+
+const receiptWith = (logs: Array<{ address: string; topics: string[]; data: string }>, status = 1) =>
+  ({ hash, status, blockNumber: 5000000, logs }) as unknown as ethers.TransactionReceipt;
+
+describe('EthereumService', () => {
+  const service = new EthereumService();
+  let receipt: ethers.TransactionReceipt | null;
+  let sent: boolean;
+
+  beforeEach(() => {
+    receipt = null;
+    sent = false;
+    jest.restoreAllMocks();
+    jest.spyOn(ethers.JsonRpcProvider.prototype, 'getTransactionReceipt').mockImplementation(async () => receipt);
+    jest.spyOn(ethers.JsonRpcProvider.prototype, 'getTransaction')
+      .mockImplementation(async () => (sent ? ({ hash } as ethers.TransactionResponse) : null));
+  });
+
+  describe('decodeBurns', () => {
+    it('decodes WrappedBTC unlocks and BridgeContract claims', () => {
+      const burns = service.decodeBurns(receiptWith([
+        transferLog(),
+        unlockLog(wrappedBTC, burner, 250000n, btcAddress),
+        claimLog(bridgeContract, burner, 100000n, btcAddress),
+      ]));
+
+      expect(burns).toEqual([
+        { event: 'BitcoinUnlocked', contract: wrappedBTC, burner, amount: '250000', btcAddress, bridgeId: undefined, blockNumber: 5000000 },
+        { event: 'BridgeClaimed', contract: bridgeContract, burner, amount: '100000', btcAddress, bridgeId, blockNumber: 5000000 },
+      ]);
+    });
+
+    it('ignores the same events from a contract that is not configured', () => {
+      const impostor = '0x00000000000000000000000000000000000000c3';
+
+      expect(service.decodeBurns(receiptWith([
+        unlockLog(impostor, burner, 250000n, btcAddress),
+        claimLog(impostor, burner, 250000n, btcAddress),
+      ]))).toEqual([]);
+    });
+
+    it('only takes BridgeClaimed from BridgeContract and BitcoinUnlocked from WrappedBTC', () => {
+      expect(service.decodeBurns(receiptWith([
+        unlockLog(bridgeContract, burner, 250000n, btcAddress),
+        claimLog(wrappedBTC, burner, 250000n, btcAddress),
+      ]))).toEqual([]);
+    });
+  });
+
+  describe('verifyBurn', () => {
+    it('accepts a burn by the expected burner for the expected amount and address', async () => {
+      receipt = receiptWith([unlockLog(wrappedBTC, burner, 250000n, btcAddress)]);
+
+      expect(await service.verifyBurn(hash, expected)).toEqual({
+        isValid: true,
+        burn: expect.objectContaining({ event: 'BitcoinUnlocked', burner, amount: '250000', btcAddress }),
+      });
+    });
+
+    it('matches the burner regardless of checksum casing', async () => {
+      receipt = receiptWith([claimLog(bridgeContract, burner, 250000n, btcAddress)]);
+
+      expect(await service.verifyBurn(hash, { ...expected, burner: burner.toLowerCase() })).toMatchObject({
+        isValid: true,
+        burn: { event: 'BridgeClaimed', bridgeId },
+      });
+    });
+
+    it('rejects a reverted transaction', async () => {
+      receipt = receiptWith([unlockLog(wrappedBTC, burner, 250000n, btcAddress)], 0);
+
+      expect(await service.verifyBurn(hash, expected)).toEqual({ isValid: false, error: 'Source transaction reverted' });
+    });
+
+    it('rejects a burn by someone else', async () => {
+      receipt = receiptWith([unlockLog(wrappedBTC, otherUser, 250000n, btcAddress)]);
+
+      expect(await service.verifyBurn(hash, expected)).toEqual({
+        isValid: false,
+        error: `Source transaction has no WrappedBTC burn or BridgeContract claim by ${burner}`,
+      });
+    });
+
+    it('rejects a burn for another amount', async () => {
+      receipt = receiptWith([unlockLog(wrappedBTC, burner, 200000n, btcAddress)]);
+
+      expect(await service.verifyBurn(hash, expected)).toMatchObject({
+        isValid: false,
+        burn: { amount: '200000' },
+        error: 'Burned 200000 satoshis, expected 250000',
+      });
+    });
+
+    it('rejects a burn releasing BTC to another address', async () => {
+      const elsewhere = 'tb1q6rgdp5xs6rgdp5xs6rgdp5xs6rgdp5xspprr8z';
+      receipt = receiptWith([unlockLog(wrappedBTC, burner, 250000n, elsewhere)]);
+
+      expect(await service.verifyBurn(hash, expected)).toMatchObject({
+        isValid: false,
+        error: `Burn releases BTC to ${elsewhere}, not ${btcAddress}`,
+      });
+    });
+
+    it('rejects a burn logged by a contract that is not configured', async () => {
+      receipt = receiptWith([unlockLog('0x00000000000000000000000000000000000000c3', burner, 250000n, btcAddress)]);
+
+      expect(await service.verifyBurn(hash, expected)).toEqual({
+        isValid: false,
+        error: `Source transaction has no WrappedBTC burn or BridgeContract claim by ${burner}`,
+      });
+    });
+
+    it('reports a sent but unmined transaction as pending', async () => {
+      sent = true;
+
+      expect(await service.verifyBurn(hash, expected)).toEqual({ isValid: false, pending: true });
+    });
+
+    it('reports a transaction the node has never seen', async () => {
+      expect(await service.verifyBurn(hash, expected)).toEqual({ isValid: false, error: `Transaction ${hash} not found` });
+    });
+  });
+});
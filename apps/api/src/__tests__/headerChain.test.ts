@@ -0,0 +1,231 @@
+import {
+  BITCOIN_MAINNET_PARAMS,
+  bitsToTarget,
+  calculateRetargetBits,
+  ChainParams,
+  getBlockWork,
+  hashMerkleNodes,
+  HeaderChain,
+  SpvMerkleProof,
+  targetToBits,
+} from '@zkbridge/shared';
+import { FixtureChainBuilder } from '../services/bitcoinProviders/fixtureChainBuilder';
+import { FixtureBlock } from '../services/bitcoinProviders/fixtureProvider';
+
+// SPV header validation over chains mined by the fixture chain builder, with
+// difficulty parameters scaled down so the builder can mine at every target.
+
+const EASY_BITS = 0x207fffff;
+// 1 in 512 hashes qualifies, so still quick to mine
+const HARDER_BITS = 0x1f7fffff;
+const SPACING = 600;
+
+const fixtureParams = (overrides: Partial<ChainParams> = {}): ChainParams => ({
+  name: 'fixture',
+  powLimit: bitsToTarget(EASY_BITS),
+  targetSpacing: SPACING,
+  retargetInterval: 4,
+  targetTimespan: 4 * SPACING,
+  allowMinDifficultyBlocks: false,
+  ...overrides,
+});
+
+// Checkpoint height, on a retarget boundary for a 4-block period
+const START_HEIGHT = 2500000;
+
+// A builder whose next block is the checkpoint, and a header chain trusting that block
+function setupChain(params: ChainParams, checkpointBits = EASY_BITS) {
+  const builder = new FixtureChainBuilder({ startHeight: START_HEIGHT - 1 });
+  const checkpoint = builder.mineBlock({ bits: checkpointBits });
+  const chain = new HeaderChain(params, { height: checkpoint.height, header: checkpoint.header });
+  return { builder, chain };
+}
+
+// Merkle branch for the transaction at `index`, the way Bitcoin pairs an odd node with itself
+function merkleProof(block: FixtureBlock, index: number): SpvMerkleProof {
+  const path: string[] = [];
+  let level = block.txids;
+  let position = index;
+
+  while (level.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(hashMerkleNodes(level[i], level[i + 1] ?? level[i]));
+    }
+    path.push(level[position ^ 1] ?? level[position]);
+    level = next;
+    position >>= 1;
+  }
+
+  return {
+    merkleRoot: block.merkle_root,
+    proofPath: path,
+    proofIndex: index,
+    transactionHash: block.txids[index],
+    blockHeight: block.height,
+    blockHash: block.id,
+  };
+}
+
+describe('difficulty retarget', () => {
+  it('compresses and expands targets', () => {
+    expect(bitsToTarget(0x1d00ffff)).toBe(BigInt(0xffff) << BigInt(208));
+    expect(targetToBits(bitsToTarget(0x1d00ffff))).toBe(0x1d00ffff);
+    // A mantissa with its top bit set moves into the next byte
+    expect(targetToBits(BigInt(0x80) << BigInt(200))).toBe(0x1b008000);
+  });
+
+  it('clamps the adjustment to a factor of four', () => {
+    const last = { version: 1, prevBlockHash: '', merkleRoot: '', hash: '', nonce: 0, bits: 0x1b0404cb, timestamp: 0 };
+    const timespan = BITCOIN_MAINNET_PARAMS.targetTimespan;
+
+    const fast = calculateRetargetBits(-timespan / 100, last, BITCOIN_MAINNET_PARAMS);
+    const slow = calculateRetargetBits(-timespan * 100, last, BITCOIN_MAINNET_PARAMS);
+
+    // A quarter and four times the target, truncated to a three-byte mantissa
+    expect(fast).toBe(0x1b010132);
+    expect(slow).toBe(0x1b10132c);
+  });
+
+  it('never lowers difficulty below the limit', () => {
+    const last = { version: 1, prevBlockHash: '', merkleRoot: '', hash: '', nonce: 0, bits: 0x1d00ffff, timestamp: 0 };
+
+    expect(calculateRetargetBits(-BITCOIN_MAINNET_PARAMS.targetTimespan * 4, last, BITCOIN_MAINNET_PARAMS)).toBe(0x1d00ffff);
+  });
+
+  it('accepts the retargeted bits at the end of a period', () => {
+    const { builder, chain } = setupChain(fixtureParams());
+    builder.mineBlocks(3).forEach(block => chain.addHeader(block.header));
+
+    // Three 10-minute gaps against a 40-minute period: the target shrinks to three quarters
+    const expected = targetToBits(bitsToTarget(EASY_BITS) * BigInt(3) / BigInt(4));
+    const retarget = builder.mineBlock({ bits: expected });
+
+    expect(chain.addHeader(retarget.header).height).toBe(START_HEIGHT + 4);
+  });
+
+  it('rejects a block that skips the retarget', () => {
+    const { builder, chain } = setupChain(fixtureParams());
+    builder.mineBlocks(3).forEach(block => chain.addHeader(block.header));
+
+    expect(() => chain.addHeader(builder.mineBlock().header)).toThrow(/has bits 0x207fffff, expected 0x205fffff/);
+  });
+
+  it('keeps the bits inside a period', () => {
+    const { builder, chain } = setupChain(fixtureParams());
+
+    expect(() => chain.addHeader(builder.mineBlock({ bits: HARDER_BITS }).header)).toThrow(/expected 0x207fffff/);
+  });
+});
+
+describe('testnet 20-minute rule', () => {
+  const testnet = fixtureParams({ retargetInterval: 2016, targetTimespan: 2016 * SPACING, allowMinDifficultyBlocks: true });
+
+  // Starts from a block at the normal, harder difficulty
+  const setup = (params: ChainParams) => setupChain(params, HARDER_BITS);
+
+  it('allows a minimum-difficulty block more than 20 minutes after its parent', () => {
+    const { builder, chain } = setup(testnet);
+
+    expect(() => chain.addHeader(builder.mineBlock({ bits: EASY_BITS, spacing: 2 * SPACING + 1 }).header)).not.toThrow();
+  });
+
+  it('refuses a minimum-difficulty block on time', () => {
+    const { builder, chain } = setup(testnet);
+
+    expect(() => chain.addHeader(builder.mineBlock({ bits: EASY_BITS, spacing: 2 * SPACING }).header)).toThrow(/expected 0x1f7fffff/);
+  });
+
+  it('returns to the last real difficulty after the exception', () => {
+    const { builder, chain } = setup(testnet);
+    chain.addHeader(builder.mineBlock({ bits: EASY_BITS, spacing: 2 * SPACING + 1 }).header);
+
+    expect(() => chain.addHeader(builder.mineBlock({ bits: HARDER_BITS }).header)).not.toThrow();
+  });
+
+  it('does not apply on mainnet', () => {
+    const { builder, chain } = setup(fixtureParams({ retargetInterval: 2016, targetTimespan: 2016 * SPACING }));
+
+    expect(() => chain.addHeader(builder.mineBlock({ bits: EASY_BITS, spacing: 2 * SPACING + 1 }).header)).toThrow(/expected 0x1f7fffff/);
+  });
+});
+
+describe('chainwork and forks', () => {
+  it('adds up the work of every header', () => {
+    const { builder, chain } = setupChain(fixtureParams({ retargetInterval: 2016 }));
+
+    builder.mineBlocks(5).forEach(block => chain.addHeader(block.header));
+
+    expect(getBlockWork(EASY_BITS)).toBe(BigInt(2));
+    expect(chain.getBestTip()).toMatchObject({ height: START_HEIGHT + 5, chainwork: BigInt(12) });
+  });
+
+  it('follows the branch with the most work', () => {
+    const { builder, chain } = setupChain(fixtureParams({ retargetInterval: 2016 }));
+    const original = builder.mineBlocks(3);
+    original.forEach(block => chain.addHeader(block.header));
+
+    builder.reorg(2);
+    const branch = builder.mineBlocks(3);
+    branch.forEach(block => chain.addHeader(block.header));
+
+    expect(chain.getBestTip().header.hash).toBe(branch[2].id);
+    expect(chain.isOnBestChain(original[0].id)).toBe(true);
+    expect(chain.getConfirmations(original[2].id)).toBe(0);
+    expect(chain.getConfirmations(original[0].id)).toBe(4);
+  });
+
+  it('rejects a header whose parent it has not seen', () => {
+    const { builder, chain } = setupChain(fixtureParams());
+    builder.mineBlock();
+
+    expect(() => chain.addHeader(builder.mineBlock().header)).toThrow(/Unknown parent/);
+  });
+});
+
+describe('merkle inclusion', () => {
+  const recipient = 'tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx';
+
+  const setup = () => {
+    const { builder, chain } = setupChain(fixtureParams({ retargetInterval: 2016 }));
+    Array.from({ length: 4 }, (_, i) => builder.addTransaction({ outputs: [{ value: 10000 + i, address: recipient }] }));
+    const block = builder.mineBlock();
+    chain.addHeader(block.header);
+    return { builder, chain, block };
+  };
+
+  it('verifies every transaction in a block with an odd number of them', () => {
+    const { chain, block } = setup();
+
+    expect(block.txids).toHaveLength(5);
+    block.txids.forEach((_, index) => {
+      expect(chain.verifyMerkleProof(merkleProof(block, index))).toEqual({ isValid: true, confirmations: 1 });
+    });
+  });
+
+  it('rejects a branch for another position', () => {
+    const { chain, block } = setup();
+
+    const result = chain.verifyMerkleProof({ ...merkleProof(block, 2), proofIndex: 3 });
+
+    expect(result).toMatchObject({ isValid: false, error: 'Merkle branch does not lead to the block merkle root' });
+  });
+
+  it('waits for the confirmations asked for', () => {
+    const { builder, chain, block } = setup();
+
+    expect(chain.verifyMerkleProof(merkleProof(block, 1), 3)).toMatchObject({ isValid: false, confirmations: 1 });
+
+    builder.mineBlocks(2).forEach(next => chain.addHeader(next.header));
+    expect(chain.verifyMerkleProof(merkleProof(block, 1), 3)).toEqual({ isValid: true, confirmations: 3 });
+  });
+
+  it('rejects a proof into an orphaned block', () => {
+    const { builder, chain, block } = setup();
+
+    builder.reorg(1);
+    builder.mineBlocks(2).forEach(next => chain.addHeader(next.header));
+
+    expect(chain.verifyMerkleProof(merkleProof(block, 1))).toMatchObject({ isValid: false, error: 'Block is not on the heaviest chain' });
+  });
+});
@@ -0,0 +1,148 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { memoryTable, Row, uniqueOn } from './memoryPrisma';
+
+// Idempotency-Key handling on a small app served over HTTP, storing keys in
+// an in-memory idempotency_keys table with the unique (scope, key).
+
+const keys: Row[] = [];
+
+const tables = {
+  idempotencyKey: memoryTable(keys, {
+    idPrefix: 'key',
+    defaults: { status: 'IN_PROGRESS', statusCode: null, responseBody: null },
+    conflicts: uniqueOn('scope', 'key'),
+  }),
+};
+
+jest.mock('../config/database', () => ({ getPrismaClient: () => tables }));
+
+import { idempotent } from '../middleware/idempotency';
+import { AuthRequest } from '../middleware/auth';
+
+describe('idempotent', () => {
+  let server: Server;
+  let baseUrl: string;
+  let runs = 0;
+  let statusCode = 201;
+  // Set to hold the slow route open until the test releases it
+  let release: (() => void) | null = null;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use((req, _res, next) => {
+      const userId = req.get('X-Test-User');
+      if (userId) {
+        (req as AuthRequest).user = { id: userId, address: '0x0000000000000000000000000000000000000000', role: 'user' };
+      }
+      next();
+    });
+    app.post('/things', idempotent, (req, res) => {
+      runs++;
+      res.status(statusCode).json({ success: true, run: runs, amount: req.body.amount });
+    });
+    app.post('/slow', idempotent, async (_req, res) => {
+      runs++;
+      await new Promise<void>(resolve => { release = resolve; });
+      res.status(201).json({ success: true });
+    });
+
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    keys.length = 0;
+    runs = 0;
+    statusCode = 201;
+    release = null;
+  });
+
+  const post = (path: string, body: unknown, headers: Record<string, string> = {}) =>
+    fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(5000),
+    });
+
+  it('replays the stored response to a retry without running the handler', async () => {
+    const first = await post('/things', { amount: 1, memo: 'a' }, { 'Idempotency-Key': 'key-1' });
+    // Same body, keys in another order
+    const retry = await post('/things', { memo: 'a', amount: 1 }, { 'Idempotency-Key': 'key-1' });
+
+    expect(first.status).toBe(201);
+    expect(first.headers.get('Idempotent-Replayed')).toBeNull();
+    expect(retry.status).toBe(201);
+    expect(retry.headers.get('Idempotent-Replayed')).toBe('true');
+    expect(await retry.json()).toEqual(await first.json());
+    expect(runs).toBe(1);
+  });
+
+  it('rejects a retry with a different body with 422', async () => {
+    await post('/things', { amount: 1 }, { 'Idempotency-Key': 'key-1' });
+
+    const changed = await post('/things', { amount: 2 }, { 'Idempotency-Key': 'key-1' });
+
+    expect(changed.status).toBe(422);
+    expect(await changed.json()).toMatchObject({ error: 'Idempotency-Key has already been used with a different request body' });
+    expect(runs).toBe(1);
+  });
+
+  it('rejects a retry while the first request is still running with 409', async () => {
+    const first = post('/slow', {}, { 'Idempotency-Key': 'key-1' });
+    while (!release) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+
+    const concurrent = await post('/slow', {}, { 'Idempotency-Key': 'key-1' });
+    release!();
+
+    expect(concurrent.status).toBe(409);
+    expect((await first).status).toBe(201);
+    expect(runs).toBe(1);
+  });
+
+  it('releases the key after a server error so the request can be retried', async () => {
+    statusCode = 503;
+    await post('/things', { amount: 1 }, { 'Idempotency-Key': 'key-1' });
+    statusCode = 201;
+
+    const retry = await post('/things', { amount: 1 }, { 'Idempotency-Key': 'key-1' });
+
+    expect(retry.status).toBe(201);
+    expect(retry.headers.get('Idempotent-Replayed')).toBeNull();
+    expect(runs).toBe(2);
+  });
+
+  it('keeps keys apart per user', async () => {
+    await post('/things', { amount: 1 }, { 'Idempotency-Key': 'key-1', 'X-Test-User': 'alice' });
+
+    const other = await post('/things', { amount: 1 }, { 'Idempotency-Key': 'key-1', 'X-Test-User': 'bob' });
+
+    expect(other.headers.get('Idempotent-Replayed')).toBeNull();
+    expect(runs).toBe(2);
+  });
+
+  it('runs every request without the header', async () => {
+    await post('/things', { amount: 1 });
+    await post('/things', { amount: 1 });
+
+    expect(runs).toBe(2);
+    expect(keys).toHaveLength(0);
+  });
+
+  it('rejects a malformed key with 400', async () => {
+    const response = await post('/things', { amount: 1 }, { 'Idempotency-Key': 'has spaces' });
+
+    expect(response.status).toBe(400);
+    expect(runs).toBe(0);
+  });
+});
@@ -0,0 +1,163 @@
+import { Prisma } from '@prisma/client';
+
+// In-memory stand-ins for Prisma model delegates, for service tests that mock
+// config/database. Rows are plain objects in an array the test owns, so tests
+// can seed and inspect them directly; reads return copies, as the client does.
+
+export type Row = Record<string, unknown>;
+export type Where = Record<string, unknown>;
+
+const OPERATORS = ['in', 'notIn', 'lt', 'lte', 'gt', 'gte', 'not', 'contains'];
+
+const isOperator = (condition: object) => Object.keys(condition).some(key => OPERATORS.includes(key));
+
+/**
+ * Whether a row satisfies a Prisma `where`: equality, AND/OR, the comparison
+ * operators and compound unique keys such as `scope_key: { scope, key }`
+ */
+export function matches(row: Row, where: Where = {}): boolean {
+  return Object.entries(where).every(([field, condition]) => {
+    if (condition === undefined) return true;
+    if (field === 'OR') return (condition as Where[]).some(branch => matches(row, branch));
+    if (field === 'AND') return (condition as Where[]).every(branch => matches(row, branch));
+
+    if (condition && typeof condition === 'object' && !(condition instanceof Date)) {
+      if (!isOperator(condition)) {
+        return matches(row, condition as Where);
+      }
+
+      const { in: within, notIn, lt, lte, gt, gte, not, contains } = condition as Record<string, unknown>;
+      const value = row[field] as number | Date | null;
+      if (within !== undefined && !(within as unknown[]).includes(row[field])) return false;
+      if (notIn !== undefined && (notIn as unknown[]).includes(row[field])) return false;
+      if (lt !== undefined && !(value !== null && value < (lt as number | Date))) return false;
+      if (lte !== undefined && !(value !== null && value <= (lte as number | Date))) return false;
+      if (gt !== undefined && !(value !== null && value > (gt as number | Date))) return false;
+      if (gte !== undefined && !(value !== null && value >= (gte as number | Date))) return false;
+      if (not !== undefined && row[field] === not) return false;
+      if (contains !== undefined && !String(row[field] ?? '').includes(contains as string)) return false;
+      return true;
+    }
+
+    return row[field] === condition;
+  });
+}
+
+/**
+ * Apply update data to a row, including `{ increment }`
+ */
+export function applyData(row: Row, data: Row): void {
+  for (const [field, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+    const increment = (value as { increment?: number } | null)?.increment;
+    row[field] = increment !== undefined ? (row[field] as number) + increment : value;
+  }
+}
+
+export const uniqueViolation = () =>
+  new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' });
+
+export const recordNotFound = () =>
+  new Prisma.PrismaClientKnownRequestError('Record to update not found.', { code: 'P2025', clientVersion: 'test' });
+
+/**
+ * Conflict check for a unique index over `fields`
+ */
+export const uniqueOn = (...fields: string[]) => (existing: Row, data: Row) =>
+  fields.every(field => existing[field] === data[field]);
+
+export interface MemoryTableOptions {
+  // Prefix of generated ids
+  idPrefix?: string;
+  // Column defaults of created rows
+  defaults?: Row;
+  // Whether inserting `data` would break a unique index held by `existing`
+  conflicts?: (existing: Row, data: Row) => boolean;
+}
+
+let nextId = 0;
+
+type OrderBy = Record<string, 'asc' | 'desc'>;
+
+const sorted = (rows: Row[], orderBy?: OrderBy | OrderBy[]) => {
+  const orders = orderBy ? [orderBy].flat().flatMap(order => Object.entries(order)) : [];
+  return [...rows].sort((a, b) => {
+    for (const [field, direction] of orders) {
+      const x = a[field] as number | Date;
+      const y = b[field] as number | Date;
+      if (x < y) return direction === 'asc' ? -1 : 1;
+      if (x > y) return direction === 'asc' ? 1 : -1;
+    }
+    return 0;
+  });
+};
+
+/**
+ * A model delegate over `rows`
+ */
+export function memoryTable(rows: Row[], options: MemoryTableOptions = {}) {
+  const find = (where?: Where) => rows.find(row => matches(row, where));
+  const filter = (where?: Where, orderBy?: OrderBy | OrderBy[]) => sorted(rows.filter(row => matches(row, where)), orderBy);
+  const copy = (row: Row | undefined) => (row ? { ...row } : null);
+
+  const insert = (data: Row) => {
+    if (options.conflicts && rows.some(row => options.conflicts!(row, data))) {
+      throw uniqueViolation();
+    }
+    const row = { id: `${options.idPrefix ?? 'row'}-${++nextId}`, createdAt: new Date(), ...options.defaults, ...data };
+    rows.push(row);
+    return { ...row };
+  };
+
+  return {
+    findFirst: jest.fn(async ({ where, orderBy }: { where?: Where; orderBy?: OrderBy | OrderBy[] } = {}) => copy(filter(where, orderBy)[0])),
+    findUnique: jest.fn(async ({ where }: { where: Where }) => copy(find(where))),
+    findUniqueOrThrow: jest.fn(async ({ where }: { where: Where }) => {
+      const row = find(where);
+      if (!row) throw recordNotFound();
+      return { ...row };
+    }),
+    findMany: jest.fn(async ({ where, orderBy, take }: { where?: Where; orderBy?: OrderBy | OrderBy[]; take?: number } = {}) =>
+      filter(where, orderBy).slice(0, take).map(row => ({ ...row }))),
+    count: jest.fn(async ({ where }: { where?: Where } = {}) => rows.filter(row => matches(row, where)).length),
+    create: jest.fn(async ({ data }: { data: Row }) => insert(data)),
+    upsert: jest.fn(async ({ where, create, update }: { where: Where; create: Row; update: Row }) => {
+      const row = find(where);
+      if (!row) return insert(create);
+      applyData(row, update);
+      return { ...row };
+    }),
+    update: jest.fn(async ({ where, data }: { where: Where; data: Row }) => {
+      const row = find(where);
+      if (!row) throw recordNotFound();
+      applyData(row, data);
+      return { ...row };
+    }),
+    updateMany: jest.fn(async ({ where, data }: { where?: Where; data: Row }) => {
+      const found = rows.filter(row => matches(row, where));
+      found.forEach(row => applyData(row, data));
+      return { count: found.length };
+    }),
+    delete: jest.fn(async ({ where }: { where: Where }) => {
+      const index = rows.findIndex(row => matches(row, where));
+      if (index < 0) throw recordNotFound();
+      return rows.splice(index, 1)[0];
+    }),
+    deleteMany: jest.fn(async ({ where }: { where?: Where } = {}) => {
+      const kept = rows.filter(row => !matches(row, where));
+      const count = rows.length - kept.length;
+      rows.splice(0, rows.length, ...kept);
+      return { count };
+    }),
+  };
+}
+
+/**
+ * A client over the given tables whose interactive `$transaction` runs on the same tables
+ */
+export function memoryPrisma<T extends object>(tables: T) {
+  return {
+    ...tables,
+    $transaction: jest.fn(async (work: (tx: T) => Promise<unknown>) => work(tables)),
+  };
+}
@@ -0,0 +1,142 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import { apiRoutes } from '../routes';
+import { errorHandler } from '../middleware/errorHandler';
+import { buildOpenApiDocument, listRoutes } from '../utils/openapi';
+
+// Checks the generated OpenAPI document against the routes it describes:
+// everything served is documented, and the routes reject what the document says they reject.
+
+const API_KEY = 'openapi-contract-test';
+process.env.API_KEYS = API_KEY;
+process.env.JWT_SECRET = 'openapi-contract-test';
+const ACCESS_TOKEN = jwt.sign({ id: 'contract-test', address: '0x0000000000000000000000000000000000000000', role: 'user' }, process.env.JWT_SECRET);
+
+type Parameter = { name: string; in: string; required?: boolean; schema: { type?: string; enum?: unknown[] } };
+type Operation = {
+  operationId: string;
+  security?: Record<string, string[]>[];
+  parameters?: Parameter[];
+  requestBody?: { required: boolean };
+};
+
+const document = buildOpenApiDocument(apiRoutes, { title: 'ZKBridge API', version: 'test' });
+
+const operations = Object.entries(document.paths).flatMap(([path, methods]) =>
+  Object.entries(methods as Record<string, Operation>).map(([method, operation]) => ({
+    name: `${method.toUpperCase()} ${path}`,
+    method: method.toUpperCase(),
+    path,
+    operation,
+    schemes: (operation.security || []).flatMap(requirement => Object.keys(requirement)),
+  }))
+);
+
+describe('OpenAPI document', () => {
+  const routes = listRoutes(apiRoutes);
+
+  it('documents every route', () => {
+    const undocumented = routes.filter(route => !route.doc?.summary).map(route => `${route.method} ${route.path}`);
+    expect(undocumented).toEqual([]);
+  });
+
+  it('has no route hidden behind an earlier one with the same method and path', () => {
+    const shadowed = routes.filter(route => route.shadowed).map(route => `${route.method} ${route.path}`);
+    expect(shadowed).toEqual([]);
+  });
+
+  it('describes one operation per route, with unique operation ids', () => {
+    expect(operations).toHaveLength(routes.length);
+
+    const ids = operations.map(({ operation }) => operation.operationId);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it.each(operations)('$name documents exactly the parameters in its path', ({ path, operation }) => {
+    const inPath = (path.match(/\{(\w+)\}/g) || []).map(param => param.slice(1, -1)).sort();
+    const documented = (operation.parameters || []).filter(param => param.in === 'path').map(param => param.name).sort();
+    expect(documented).toEqual(inPath);
+  });
+
+  it('only refers to components it defines', () => {
+    const refs = JSON.stringify(document).match(/#\/components\/\w+\/\w+/g) || [];
+    const components = document.components as Record<string, Record<string, unknown>>;
+
+    const missing = [...new Set(refs)].filter(ref => {
+      const [, , section, name] = ref.split('/');
+      return !components[section]?.[name];
+    });
+    expect(missing).toEqual([]);
+  });
+});
+
+describe('Routes against the OpenAPI document', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    for (const { path, router } of apiRoutes) {
+      app.use(path, router);
+    }
+    app.use(errorHandler);
+
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  // Requests are expected to be rejected before any handler runs, so nothing here needs a database or a chain
+  const send = (method: string, path: string, options: { query?: Record<string, string>; body?: unknown; schemes?: string[] } = {}) => {
+    const url = new URL(path.replace(/\{\w+\}/g, 'contract-test'), baseUrl);
+    Object.entries(options.query || {}).forEach(([name, value]) => url.searchParams.set(name, value));
+
+    return fetch(url, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(options.schemes?.includes('apiKey') ? { 'X-API-Key': API_KEY } : {}),
+        ...(options.schemes?.includes('bearerAuth') ? { Authorization: `Bearer ${ACCESS_TOKEN}` } : {}),
+      },
+      body: method === 'GET' ? undefined : JSON.stringify(options.body ?? {}),
+      signal: AbortSignal.timeout(5000),
+    });
+  };
+
+  const secured = operations.filter(({ schemes }) => schemes.length > 0);
+
+  it.each(secured)('$name requires the documented key', async ({ method, path }) => {
+    const response = await send(method, path);
+    expect(response.status).toBe(401);
+  });
+
+  // Signer routes look the key up in the database, so only the rejection above is checked for them
+  const checkable = operations.filter(({ schemes }) => !schemes.includes('signerKey'));
+
+  const withRequiredInput = checkable.filter(({ operation }) =>
+    operation.requestBody?.required || (operation.parameters || []).some(param => param.in === 'query' && param.required)
+  );
+
+  it.each(withRequiredInput)('$name rejects a request without its required fields', async ({ method, path, schemes }) => {
+    const response = await send(method, path, { schemes });
+    expect(response.status).toBe(400);
+  });
+
+  const constrainedQueries = checkable.flatMap(({ name, method, path, operation, schemes }) =>
+    (operation.parameters || [])
+      .filter(param => param.in === 'query' && (param.schema.enum || param.schema.type === 'integer'))
+      .map(param => ({ name, method, path, param: param.name, value: param.schema.enum ? 'not-a-documented-value' : 'not-a-number', schemes }))
+  );
+
+  it.each(constrainedQueries)('$name rejects $param=$value', async ({ method, path, param, value, schemes }) => {
+    const response = await send(method, path, { query: { [param]: value }, schemes });
+    expect(response.status).toBe(400);
+  });
+});
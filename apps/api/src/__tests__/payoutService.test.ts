@@ -0,0 +1,111 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import * as ecc from 'tiny-secp256k1';
+import { BIP32Factory } from 'bip32';
+import { memoryPrisma, memoryTable, Row } from './memoryPrisma';
+
+// Signed PSBTs for the same batch arriving at the same time, against an
+// in-memory batch table. Every signature has to end up in the broadcast.
+
+const bip32 = BIP32Factory(ecc);
+const network = bitcoin.networks.testnet;
+const signers = [1, 2, 3].map(seed => bip32.fromSeed(Buffer.alloc(32, seed), network));
+
+// 2-of-3 custody spending one output to a single payout
+const redeem = bitcoin.payments.p2ms({ m: 2, pubkeys: signers.map(signer => signer.publicKey).sort(Buffer.compare), network });
+const custody = bitcoin.payments.p2wsh({ redeem, network });
+
+const unsigned = new bitcoin.Psbt({ network });
+unsigned.addInput({
+  hash: 'aa'.repeat(32),
+  index: 0,
+  witnessUtxo: { script: custody.output!, value: 100000 },
+  witnessScript: redeem.output!,
+});
+unsigned.addOutput({ address: custody.address!, value: 90000 });
+const txid = bitcoin.Transaction.fromBuffer(unsigned.data.getTransaction()).getId();
+
+const signedBy = (...indexes: number[]) => {
+  const psbt = bitcoin.Psbt.fromBase64(unsigned.toBase64(), { network });
+  indexes.forEach(index => psbt.signInput(0, signers[index]));
+  return psbt.toBase64();
+};
+
+const batches: Row[] = [];
+const withdrawals: Row[] = [];
+
+const prismaMock = memoryPrisma({
+  payoutBatch: memoryTable(batches),
+  withdrawal: memoryTable(withdrawals),
+});
+
+jest.mock('../config/database', () => ({ getPrismaClient: () => prismaMock }));
+jest.mock('../services/bitcoinTestnetService', () => ({
+  bitcoinTestnetService: { broadcastTransaction: jest.fn(async () => undefined) },
+}));
+jest.mock('../services/custodyLedger', () => ({ custodyLedger: { recordBroadcast: jest.fn(async () => undefined) } }));
+jest.mock('../services/bridgeTransactionService', () => ({ bridgeTransactionService: { createEvent: jest.fn() } }));
+jest.mock('../services/bridgeStatusService', () => ({ bridgeStatusService: {} }));
+jest.mock('../services/depositAddressService', () => ({ depositAddressService: {} }));
+jest.mock('../services/signingCoordinator', () => ({ signingCoordinator: {} }));
+
+import { PayoutError, PayoutService } from '../services/payoutService';
+import { bitcoinTestnetService } from '../services/bitcoinTestnetService';
+import { custodyLedger } from '../services/custodyLedger';
+
+const partialSignatures = (psbtBase64: string) =>
+  (bitcoin.Psbt.fromBase64(psbtBase64, { network }).data.inputs[0].partialSig || []).map(sig => sig.pubkey.toString('hex')).sort();
+
+describe('PayoutService.submitSignedPsbt', () => {
+  const service = new PayoutService();
+
+  beforeEach(() => {
+    batches.length = 0;
+    batches.push({ id: 'batch-1', status: 'UNSIGNED', psbt: unsigned.toBase64(), txid, replacesId: null });
+    jest.clearAllMocks();
+  });
+
+  it('keeps both signatures when two signers submit at once', async () => {
+    const [first, second] = await Promise.all([
+      service.submitSignedPsbt('batch-1', signedBy(0)),
+      service.submitSignedPsbt('batch-1', signedBy(1)),
+    ]);
+
+    expect([first.complete, second.complete].sort()).toEqual([false, true]);
+    expect(batches[0].status).toBe('BROADCAST');
+    expect(bitcoinTestnetService.broadcastTransaction).toHaveBeenCalledTimes(1);
+
+    const [signed] = (custodyLedger.recordBroadcast as jest.Mock).mock.calls[0] as [bitcoin.Psbt];
+    expect(signed.data.inputs[0].finalScriptWitness).toBeDefined();
+  });
+
+  it('saves a partial signature without broadcasting', async () => {
+    const result = await service.submitSignedPsbt('batch-1', signedBy(2));
+
+    expect(result.complete).toBe(false);
+    expect(partialSignatures(batches[0].psbt as string)).toEqual([signers[2].publicKey.toString('hex')]);
+    expect(bitcoinTestnetService.broadcastTransaction).not.toHaveBeenCalled();
+  });
+
+  it('records the broadcast once when two complete submissions race', async () => {
+    const results = await Promise.allSettled([
+      service.submitSignedPsbt('batch-1', signedBy(0, 1)),
+      service.submitSignedPsbt('batch-1', signedBy(0, 1)),
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+
+    const rejected = results.find((result): result is PromiseRejectedResult => result.status === 'rejected')!;
+    expect(rejected.reason).toBeInstanceOf(PayoutError);
+    expect(custodyLedger.recordBroadcast).toHaveBeenCalledTimes(1);
+    expect(prismaMock.withdrawal.updateMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects a PSBT for another transaction', async () => {
+    const other = new bitcoin.Psbt({ network });
+    other.addInput({ hash: 'bb'.repeat(32), index: 0, witnessUtxo: { script: custody.output!, value: 100000 }, witnessScript: redeem.output! });
+    other.addOutput({ address: custody.address!, value: 90000 });
+
+    await expect(service.submitSignedPsbt('batch-1', other.toBase64())).rejects.toThrow('Invalid PSBT for this batch');
+    expect(batches[0].psbt).toBe(unsigned.toBase64());
+  });
+});
@@ -0,0 +1,123 @@
+import { memoryPrisma, memoryTable, Row } from './memoryPrisma';
+
+// Reorg handling against in-memory bridge and event tables, with the best
+// chain served by a mocked Bitcoin service
+
+const transactions: Row[] = [];
+const events: Row[] = [];
+
+const prismaMock = memoryPrisma({
+  bridgeTransaction: memoryTable(transactions),
+  transactionEvent: memoryTable(events, { idPrefix: 'event' }),
+});
+
+const canonicalHashes = new Map<number, string>();
+
+jest.mock('../config/database', () => ({ getPrismaClient: () => prismaMock }));
+jest.mock('../services/bitcoinTestnetService', () => ({
+  bitcoinTestnetService: {
+    getTipHeight: jest.fn(async () => 2500110),
+    getBlockHashAtHeight: jest.fn(async (height: number) => canonicalHashes.get(height)),
+    invalidateTransaction: jest.fn(),
+  },
+}));
+jest.mock('../services/bridgeJobService', () => ({
+  bridgeJobService: {
+    hasRunningJob: jest.fn(async () => false),
+    cancelQueued: jest.fn(async () => 0),
+  },
+}));
+jest.mock('../services/bridgeTransactionService', () => ({ bridgeTransactionService: { createEvent: jest.fn(async () => undefined) } }));
+jest.mock('../services/webhookService', () => ({ webhookService: { enqueue: jest.fn(async () => undefined) } }));
+
+import { ReorgMonitor } from '../services/reorgMonitor';
+import { bridgeJobService } from '../services/bridgeJobService';
+
+const BLOCK_HEIGHT = 2500100;
+const orphanedHash = 'aa'.repeat(32);
+const canonicalHash = 'bb'.repeat(32);
+
+// A deposit proven in the orphaned block and carried through BTCRelay and BridgeContract.initiateBridge
+const provenDeposit = (status: string): Row => ({
+  id: 'tx-1',
+  direction: 'BITCOIN_TO_ETHEREUM',
+  status,
+  sourceTxHash: 'ee'.repeat(32),
+  requiresReview: false,
+  reviewReason: null,
+  blockHeight: BLOCK_HEIGHT,
+  blockHash: orphanedHash,
+  confirmations: 10,
+  merkleProof: '{}',
+  merkleRoot: `0x${'11'.repeat(32)}`,
+  zkProof: '{}',
+  zkProofHash: `0x${'ab'.repeat(32)}`,
+  proofTxHash: '0xsubmitProof',
+  proofGeneratedAt: new Date(),
+  proofVerifiedAt: new Date(),
+  relayTxHash: '0xrecordTransaction',
+  relayRecordedAt: new Date(),
+  contractBridgeId: `0x${'cd'.repeat(32)}`,
+  initiateTxHash: '0xinitiateBridge',
+});
+
+describe('ReorgMonitor', () => {
+  const monitor = new ReorgMonitor();
+
+  beforeEach(() => {
+    transactions.length = 0;
+    events.length = 0;
+    canonicalHashes.clear();
+    canonicalHashes.set(BLOCK_HEIGHT, canonicalHash);
+    jest.clearAllMocks();
+  });
+
+  it('rolls an unminted deposit back to waiting for confirmations and clears everything built on the orphaned block', async () => {
+    transactions.push(provenDeposit('PROOF_GENERATED'));
+
+    expect(await monitor.checkAll()).toBe(1);
+
+    expect(transactions[0]).toMatchObject({
+      status: 'AWAITING_CONFIRMATIONS',
+      confirmations: 0,
+      blockHash: null,
+      blockHeight: null,
+      merkleProof: null,
+      merkleRoot: null,
+      zkProof: null,
+      zkProofHash: null,
+      proofTxHash: null,
+      proofGeneratedAt: null,
+      proofVerifiedAt: null,
+      relayTxHash: null,
+      relayRecordedAt: null,
+      contractBridgeId: null,
+      initiateTxHash: null,
+    });
+    expect(events).toEqual([expect.objectContaining({ transactionId: 'tx-1', eventType: 'REORG_DETECTED' })]);
+    expect(bridgeJobService.cancelQueued).toHaveBeenCalledWith('tx-1', 'Source block orphaned by reorg');
+  });
+
+  it('flags a minted deposit for review and leaves its records alone', async () => {
+    transactions.push(provenDeposit('COMPLETED'));
+
+    expect(await monitor.checkAll()).toBe(1);
+
+    expect(transactions[0]).toMatchObject({
+      status: 'COMPLETED',
+      requiresReview: true,
+      blockHash: orphanedHash,
+      relayTxHash: '0xrecordTransaction',
+      contractBridgeId: `0x${'cd'.repeat(32)}`,
+    });
+  });
+
+  it('leaves a deposit whose block is still on the best chain', async () => {
+    transactions.push(provenDeposit('PROOF_GENERATED'));
+    canonicalHashes.set(BLOCK_HEIGHT, orphanedHash);
+
+    expect(await monitor.checkAll()).toBe(0);
+
+    expect(transactions[0]).toMatchObject({ status: 'PROOF_GENERATED', blockHash: orphanedHash, relayTxHash: '0xrecordTransaction' });
+  });
+});
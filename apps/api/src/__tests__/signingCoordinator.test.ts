@@ -0,0 +1,106 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import * as ecc from 'tiny-secp256k1';
+import { BIP32Factory } from 'bip32';
+import { Signer } from '@prisma/client';
+
+// What the coordinator accepts from a signer, and what it passes on to be merged into the batch
+
+const bip32 = BIP32Factory(ecc);
+const network = bitcoin.networks.testnet;
+const keys = [1, 2, 3, 4].map(seed => bip32.fromSeed(Buffer.alloc(32, seed), network));
+
+// 2-of-3 custody over the first three keys; the fourth is registered but not in the script
+const redeem = bitcoin.payments.p2ms({ m: 2, pubkeys: keys.slice(0, 3).map(key => key.publicKey).sort(Buffer.compare), network });
+const custody = bitcoin.payments.p2wsh({ redeem, network });
+
+const unsigned = new bitcoin.Psbt({ network });
+unsigned.addInput({
+  hash: 'aa'.repeat(32),
+  index: 0,
+  witnessUtxo: { script: custody.output!, value: 100000 },
+  witnessScript: redeem.output!,
+});
+unsigned.addOutput({ address: custody.address!, value: 90000 });
+
+const signer = (index: number) => ({ id: `signer-${index}`, name: `signer-${index}`, publicKey: keys[index].publicKey.toString('hex') }) as Signer;
+
+const signedBy = (...indexes: number[]) => {
+  const psbt = unsigned.clone();
+  indexes.forEach(index => psbt.signInput(0, keys[index]));
+  return psbt;
+};
+
+const prismaMock = {
+  signingResponse: {
+    findUnique: jest.fn(async () => ({
+      status: 'FETCHED',
+      request: { id: 'request-1', batchId: 'batch-1', psbt: unsigned.toBase64(), threshold: 2, status: 'PENDING', expiresAt: new Date(Date.now() + 60000) },
+    })),
+    update: jest.fn(async () => ({})),
+  },
+  signingAuditEvent: { create: jest.fn(async () => ({})) },
+};
+
+jest.mock('../config/database', () => ({ getPrismaClient: () => prismaMock }));
+
+import { SigningCoordinator, SigningError } from '../services/signingCoordinator';
+
+const partialSignatures = (psbtBase64: string) =>
+  (bitcoin.Psbt.fromBase64(psbtBase64, { network }).data.inputs[0].partialSig || []).map(sig => sig.pubkey.toString('hex'));
+
+describe('SigningCoordinator.recordSignature', () => {
+  const coordinator = new SigningCoordinator();
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('accepts a valid signature and passes on only that signature', async () => {
+    const { psbt } = await coordinator.recordSignature(signer(0), 'request-1', signedBy(0).toBase64());
+
+    expect(partialSignatures(psbt)).toEqual([keys[0].publicKey.toString('hex')]);
+    expect(prismaMock.signingResponse.update).toHaveBeenCalledWith(expect.objectContaining({ data: expect.objectContaining({ status: 'SIGNED' }) }));
+  });
+
+  it("drops other keys' signatures the signer sends along", async () => {
+    // A signer relaying a co-signer's signature must not get it merged on its say-so
+    const { psbt } = await coordinator.recordSignature(signer(0), 'request-1', signedBy(0, 1).toBase64());
+
+    expect(partialSignatures(psbt)).toEqual([keys[0].publicKey.toString('hex')]);
+  });
+
+  it('drops finalized fields the signer adds', async () => {
+    const tampered = signedBy(0);
+    tampered.updateInput(0, { finalScriptWitness: Buffer.from('00', 'hex') });
+
+    const { psbt } = await coordinator.recordSignature(signer(0), 'request-1', tampered.toBase64());
+
+    expect(bitcoin.Psbt.fromBase64(psbt, { network }).data.inputs[0].finalScriptWitness).toBeUndefined();
+  });
+
+  it('rejects a signer whose key is in none of the inputs', async () => {
+    await expect(coordinator.recordSignature(signer(3), 'request-1', signedBy(0).toBase64()))
+      .rejects.toThrow('Signer has no inputs to sign in this PSBT');
+    expect(prismaMock.signingResponse.update).not.toHaveBeenCalled();
+  });
+
+  it('rejects a PSBT missing the signer\'s signature', async () => {
+    await expect(coordinator.recordSignature(signer(0), 'request-1', signedBy(1).toBase64()))
+      .rejects.toThrow('Input 0 is not signed by this signer');
+  });
+
+  it('rejects a signature made by another key', async () => {
+    const forged = signedBy(1);
+    forged.data.inputs[0].partialSig![0].pubkey = keys[0].publicKey;
+
+    await expect(coordinator.recordSignature(signer(0), 'request-1', forged.toBase64())).rejects.toBeInstanceOf(SigningError);
+    expect(prismaMock.signingAuditEvent.create).toHaveBeenCalledWith(expect.objectContaining({ data: expect.objectContaining({ action: 'INVALID_SIGNATURE' }) }));
+  });
+
+  it('rejects a PSBT for another transaction', async () => {
+    const other = new bitcoin.Psbt({ network });
+    other.addInput({ hash: 'bb'.repeat(32), index: 0, witnessUtxo: { script: custody.output!, value: 100000 }, witnessScript: redeem.output! });
+    other.addOutput({ address: custody.address!, value: 90000 });
+    other.signInput(0, keys[0]);
+
+    await expect(coordinator.recordSignature(signer(0), 'request-1', other.toBase64())).rejects.toThrow('PSBT is for a different transaction');
+  });
+});
@@ -0,0 +1,108 @@
+import { ethers } from 'ethers';
+import { memoryTable, Row, uniqueOn } from './memoryPrisma';
+
+// Nonce reservation against an in-memory outgoing_transactions table that
+// enforces the unique (chainId, from, nonce), and a node that only answers
+// what the sender asks it.
+
+const rows: Row[] = [];
+
+const outgoingTransaction = memoryTable(rows, {
+  idPrefix: 'outgoing',
+  defaults: { hash: null, hashes: '[]', status: 'PENDING', attempts: 0, blockNumber: null, lastSentAt: null, gasPrice: null },
+  conflicts: uniqueOn('chainId', 'from', 'nonce'),
+});
+
+const tables = { outgoingTransaction };
+
+jest.mock('../config/database', () => ({ getPrismaClient: () => tables }));
+
+import { TransactionSender } from '../services/transactionSender';
+
+const CHAIN_ID = 11155111;
+
+const provider = new ethers.JsonRpcProvider('http://127.0.0.1:1', CHAIN_ID, { staticNetwork: true });
+const wallet = new ethers.Wallet(`0x${'11'.repeat(32)}`, provider);
+const request = { to: ethers.ZeroAddress, gasLimit: 21000n, label: 'test' };
+
+// Nonces the node has seen from the wallet, in its mempool; none get mined
+let nodeNonce = 0;
+
+describe('TransactionSender', () => {
+  let sender: TransactionSender;
+
+  beforeEach(() => {
+    rows.length = 0;
+    nodeNonce = 0;
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+
+    jest.spyOn(provider, 'getTransactionCount').mockImplementation(async (_address, blockTag) => (blockTag === 'pending' ? nodeNonce : 0));
+    jest.spyOn(provider, 'getFeeData').mockResolvedValue(new ethers.FeeData(null, 3n * 10n ** 9n, 10n ** 9n));
+    jest.spyOn(provider, 'send').mockRejectedValue(new Error('eth_feeHistory unsupported'));
+    jest.spyOn(provider, 'getTransactionReceipt').mockResolvedValue(null);
+    jest.spyOn(provider, 'broadcastTransaction').mockImplementation(async signed => {
+      nodeNonce++;
+      return { hash: ethers.keccak256(signed) } as ethers.TransactionResponse;
+    });
+
+    sender = new TransactionSender(wallet);
+  });
+
+  const nonces = () => rows.map(row => row.nonce).sort();
+
+  it('gives concurrent sends consecutive nonces', async () => {
+    // Each send reads the node and the table before any of them has inserted
+    await Promise.all([sender.send(request), sender.send(request), sender.send(request)]);
+
+    expect(nonces()).toEqual([0, 1, 2]);
+  });
+
+  it('counts its own pending transactions the node has lost', async () => {
+    await sender.send(request);
+    nodeNonce = 0;
+
+    const second = await sender.send(request);
+
+    expect(second.nonce).toBe(1);
+  });
+
+  it('keeps the nonce when the broadcast fails without saying whether it went out', async () => {
+    jest.mocked(provider.broadcastTransaction).mockRejectedValueOnce(ethers.makeError('request timeout', 'TIMEOUT'));
+
+    const first = await sender.send(request);
+    const second = await sender.send(request);
+
+    expect(first).toMatchObject({ nonce: 0, status: 'PENDING' });
+    expect(first.hash).toMatch(/^0x[0-9a-f]{64}$/);
+    expect(second.nonce).toBe(1);
+  });
+
+  it('releases the nonce and takes the next when it was already used', async () => {
+    jest.mocked(provider.broadcastTransaction).mockImplementationOnce(async () => {
+      nodeNonce++;
+      throw ethers.makeError('nonce too low', 'NONCE_EXPIRED');
+    });
+
+    const sent = await sender.send(request);
+
+    expect(sent.nonce).toBe(1);
+    expect(nonces()).toEqual([1]);
+  });
+
+  it('releases the nonce when signing fails', async () => {
+    jest.spyOn(wallet, 'signTransaction').mockRejectedValueOnce(new Error('signer unavailable'));
+
+    await expect(sender.send(request)).rejects.toThrow('signer unavailable');
+    expect(rows).toHaveLength(0);
+
+    expect((await sender.send(request)).nonce).toBe(0);
+  });
+
+  it('stops waiting for a receipt after the default timeout', async () => {
+    Object.assign(sender, { receiptTimeoutMs: 0 });
+    const sent = await sender.send(request);
+
+    await expect(sender.waitForReceipt(sent.id)).rejects.toThrow(`Timed out waiting for transaction ${sent.hash}`);
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Deployed contract addresses and the ABI fragments the backend calls.
+ * Addresses come from the environment and stay empty until deployment.
+ */
+
+export const CONTRACT_ADDRESSES = {
+  btcRelay: process.env.BTC_RELAY_ADDRESS || '',
+  wrappedBTC: process.env.WRAPPED_BTC_ADDRESS || '',
+  proofVerifier: process.env.PROOF_VERIFIER_ADDRESS || '',
+  bridgeContract: process.env.BRIDGE_CONTRACT_ADDRESS || '',
+};
+
+export const BTC_RELAY_ABI = [
+  'function currentHeight() view returns (uint256)',
+  'function getBlockHeader(uint256 height) view returns (tuple(bytes32 hash, bytes32 prevHash, uint256 timestamp, uint256 difficulty, uint256 height, bool exists))',
+  'function addBlockHeader(bytes32 blockHash, bytes32 prevHash, uint256 timestamp, uint256 difficulty)',
+  'function paused() view returns (bool)',
+  'function verifyAndRecordTransaction(tuple(bytes32 txHash, bytes32 blockHash, uint256 height, uint256 index, bytes32[] siblings) proof) returns (bool isValid)',
+  'function isTransactionVerified(bytes32 txHash) view returns (bool isVerified)',
+  'event BlockHeaderAdded(uint256 indexed height, bytes32 indexed blockHash, uint256 timestamp, uint256 difficulty)',
+  'event MerkleProofVerified(bytes32 indexed txHash, bytes32 indexed blockHash, uint256 height, uint256 index)',
+];
+
+export const BRIDGE_CONTRACT_ABI = [
+  'function initiateBridge(uint256 amount, bytes32 btcTxHash, string btcAddress, string ethAddress) returns (bytes32 bridgeId)',
+  'function processBridge(bytes32 bridgeId, bytes32 merkleProof, bytes32 zkProof)',
+  'function isTransactionProcessed(bytes32 btcTxHash) view returns (bool isProcessed)',
+  'event BridgeInitiated(bytes32 indexed bridgeId, address indexed user, uint256 indexed amount, bytes32 btcTxHash, string btcAddress, uint256 timestamp)',
+  'event BridgeCompleted(bytes32 indexed bridgeId, address indexed user, uint256 indexed amount, uint256 fee, uint256 timestamp)',
+  'event BridgeClaimed(bytes32 indexed bridgeId, address indexed user, uint256 indexed amount, string btcAddress, uint256 timestamp)',
+  'event BridgeCancelled(bytes32 indexed bridgeId, address indexed user, uint256 indexed amount, string reason, uint256 timestamp)',
+];
+
+export const WRAPPED_BTC_ABI = [
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'event BitcoinUnlocked(address indexed user, uint256 indexed amount, bytes32 indexed btcTxHash, string btcAddress)',
+];
+
+export const PROOF_VERIFIER_ABI = [
+  'function submitProof(bytes32 circuitId, bytes proof, uint256[] publicInputs, bytes32 txHash) returns (bytes32 proofHash)',
+  'function verifyProof(bytes32 proofHash) returns (bool isValid)',
+  'function isProofValid(bytes32 proofHash) view returns (bool isVerified, bool isValid)',
+  'event ProofSubmitted(bytes32 indexed proofHash, bytes32 indexed txHash, address indexed submitter, uint256 timestamp)',
+  'event ProofVerified(bytes32 indexed proofHash, bytes32 indexed txHash, address indexed verifier, uint256 timestamp, bool isValid)',
+];
@@ -5,7 +5,8 @@ let prisma: PrismaClient;
 
 export function getPrismaClient(): PrismaClient {
   if (!prisma) {
-    prisma = new PrismaClient({
+    // Typed from the log options, so $on knows the events it can subscribe to
+    const client = new PrismaClient({
       log: [
         {
           emit: 'event',
@@ -26,7 +27,7 @@ export function getPrismaClient(): PrismaClient {
       ],
     });
 
-    prisma.$on('query', (e) => {
+    client.$on('query', (e) => {
       if (process.env.NODE_ENV === 'development') {
         logger.debug('Query: ' + e.query);
         logger.debug('Params: ' + e.params);
@@ -34,17 +35,19 @@ export function getPrismaClient(): PrismaClient {
       }
     });
 
-    prisma.$on('error', (e) => {
+    client.$on('error', (e) => {
       logger.error('Database error:', e);
     });
 
-    prisma.$on('info', (e) => {
+    client.$on('info', (e) => {
       logger.info('Database info:', e.message);
     });
 
-    prisma.$on('warn', (e) => {
+    client.$on('warn', (e) => {
       logger.warn('Database warning:', e.message);
     });
+
+    prisma = client;
   }
 
   return prisma;
@@ -0,0 +1,50 @@
+/**
+ * Per-network ceilings on what the backend wallets will pay for gas, in gwei.
+ * Transactions are never sent or sped up past these. Override or add networks
+ * with ETHEREUM_FEE_CAPS, a JSON object keyed by chain id, e.g.
+ * {"1":{"maxFeePerGas":150,"maxPriorityFeePerGas":3}}
+ */
+
+export interface FeeCap {
+  maxFeePerGas: number;
+  maxPriorityFeePerGas: number;
+}
+
+const DEFAULT_FEE_CAPS: Record<string, FeeCap> = {
+  // Mainnet
+  '1': { maxFeePerGas: 300, maxPriorityFeePerGas: 5 },
+  // Sepolia
+  '11155111': { maxFeePerGas: 500, maxPriorityFeePerGas: 50 },
+  // Holesky
+  '17000': { maxFeePerGas: 500, maxPriorityFeePerGas: 50 },
+  // Hardhat
+  '31337': { maxFeePerGas: 1000, maxPriorityFeePerGas: 100 },
+};
+
+const FALLBACK_FEE_CAP: FeeCap = { maxFeePerGas: 300, maxPriorityFeePerGas: 5 };
+
+function loadFeeCaps(): Record<string, FeeCap> {
+  if (!process.env.ETHEREUM_FEE_CAPS) {
+    return DEFAULT_FEE_CAPS;
+  }
+
+  try {
+    return { ...DEFAULT_FEE_CAPS, ...JSON.parse(process.env.ETHEREUM_FEE_CAPS) };
+  } catch {
+    throw new Error('ETHEREUM_FEE_CAPS must be a JSON object keyed by chain id');
+  }
+}
+
+const FEE_CAPS = loadFeeCaps();
+
+/**
+ * Fee cap for a network, in wei
+ */
+export function getFeeCap(chainId: number): { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint } {
+  const cap = FEE_CAPS[chainId.toString()] || FALLBACK_FEE_CAP;
+
+  return {
+    maxFeePerGas: BigInt(Math.round(cap.maxFeePerGas * 1e9)),
+    maxPriorityFeePerGas: BigInt(Math.round(cap.maxPriorityFeePerGas * 1e9)),
+  };
+}
@@ -9,14 +9,19 @@ import dotenv from 'dotenv';
 import { errorHandler } from './middleware/errorHandler';
 import { sanitizationMiddleware } from './middleware/sanitization';
 import { logger } from './utils/logger';
-import { connectDatabase } from './config/database';
-
-// Import routes
-import bridgeRoutes from './routes/bridge';
-import bitcoinRoutes from './routes/bitcoin';
-import ethereumRoutes from './routes/ethereum';
-import zkRoutes from './routes/zk';
-import healthRoutes from './routes/health';
+import { connectDatabase, disconnectDatabase } from './config/database';
+import { bridgePipelineWorker } from './services/bridgePipelineWorker';
+import { confirmationWatcher } from './services/confirmationWatcher';
+import { btcRelayer } from './services/btcRelayer';
+import { reorgMonitor } from './services/reorgMonitor';
+import { payoutService } from './services/payoutService';
+import { transactionMonitor } from './services/transactionSender';
+import { ethereumIndexer } from './services/ethereumIndexer';
+import { webhookService } from './services/webhookService';
+import { transactionStream } from './services/transactionStream';
+
+import { apiRoutes } from './routes';
+import { buildOpenApiDocument, listRoutes } from './utils/openapi';
 
 // Load environment variables
 dotenv.config();
@@ -69,7 +74,8 @@ app.use(cors({
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-Requested-With']
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-Requested-With', 'Idempotency-Key'],
+  exposedHeaders: ['Idempotent-Replayed']
 }));
 
 // Compression middleware
@@ -102,72 +108,39 @@ app.use(express.urlencoded({
 // Input sanitization middleware
 app.use(sanitizationMiddleware);
 
-// Import bridge transactions routes
-import bridgeTransactionsRoutes from './routes/bridgeTransactions';
-
 // API Routes
-app.use('/api/health', healthRoutes);
-app.use('/api/bridge', bridgeRoutes);
-app.use('/api/bridge', bridgeTransactionsRoutes); // New comprehensive bridge transaction routes
-app.use('/api/bitcoin', bitcoinRoutes);
-app.use('/api/proofs', bitcoinRoutes); // Merkle proofs endpoint
-app.use('/api/ethereum', ethereumRoutes);
-app.use('/api/zk', zkRoutes);
+for (const { path, router } of apiRoutes) {
+  app.use(path, router);
+}
+
+// OpenAPI 3 document, generated from the routes' validators and apiDoc descriptions
+const openApiDocument = buildOpenApiDocument(apiRoutes, { title: 'ZKBridge API', version: '1.0.0' });
+
+app.get('/api/openapi.json', (req, res) => {
+  res.json(openApiDocument);
+});
 
 // API Documentation endpoint
 app.get('/api/docs', (req, res) => {
+  const endpoints: Record<string, Record<string, string>> = {};
+  for (const route of listRoutes(apiRoutes)) {
+    if (route.shadowed) continue;
+    const key = route.security.includes('apiKey') ? ' (API key)'
+      : route.security.includes('signerKey') ? ' (signer key)'
+      : route.security.includes('bearerAuth') ? ' (signed in)' : '';
+    endpoints[route.tag] = { ...endpoints[route.tag], [`${route.method} ${route.path}`]: `${route.doc?.summary}${key}` };
+  }
+
   res.json({
     success: true,
     message: 'ZKBridge API Documentation',
     version: '1.0.0',
-    endpoints: {
-      health: {
-        'GET /api/health': 'API health check',
-        'GET /api/health/database': 'Database health check'
-      },
-      bridge: {
-        'POST /api/bridge/initiate': 'Initiate bridge transaction',
-        'GET /api/bridge/status/:txId': 'Get bridge status',
-        'GET /api/bridge/transactions': 'Get bridge transactions',
-        'POST /api/bridge/verify-source': 'Manually verify source transaction',
-        'POST /api/bridge/cancel': 'Cancel bridge transaction',
-        'GET /api/bridge/stats': 'Get bridge statistics',
-        'GET /api/bridge/health': 'Bridge service health check'
-      },
-      bitcoin: {
-        'POST /api/bitcoin/verify': 'Verify Bitcoin transaction',
-        'GET /api/bitcoin/transaction/:txid': 'Get Bitcoin transaction details',
-        'GET /api/bitcoin/balance/:address': 'Get Bitcoin balance',
-        'GET /api/bitcoin/network-info': 'Get Bitcoin network info',
-        'GET /api/bitcoin/block-count': 'Get current block count',
-        'POST /api/bitcoin/validate-address': 'Validate Bitcoin address'
-      },
-      proofs: {
-        'POST /api/proofs/generate': 'Generate Merkle proof',
-        'POST /api/proofs/verify': 'Verify Merkle proof'
-      },
-      ethereum: {
-        'GET /api/ethereum/transaction/:hash': 'Get Ethereum transaction details',
-        'POST /api/ethereum/verify': 'Verify Ethereum transaction',
-        'GET /api/ethereum/network-info': 'Get Ethereum network info',
-        'GET /api/ethereum/balance/:address': 'Get Ethereum balance',
-        'GET /api/ethereum/gas-price': 'Get gas price',
-        'POST /api/ethereum/estimate-gas': 'Estimate gas for transaction'
-      },
-      zk: {
-        'POST /api/zk/prove': 'Generate ZK proof',
-        'POST /api/zk/verify': 'Verify ZK proof',
-        'POST /api/zk/bridge-proof': 'Generate bridge-specific ZK proof',
-        'POST /api/zk/verify-bridge-proof': 'Verify bridge-specific ZK proof',
-        'POST /api/zk/demo/proof-of-knowledge': 'Demo proof of knowledge',
-        'POST /api/zk/generate-witness': 'Generate witness for circuit',
-        'GET /api/zk/circuit-info': 'Get circuit information',
-        'GET /api/zk/health': 'ZK service health check'
-      }
-    },
+    specification: '/api/openapi.json',
+    endpoints,
     authentication: {
       type: 'Bearer Token or API Key',
-      header: 'Authorization: Bearer <token> or X-API-Key: <key>'
+      header: 'Authorization: Bearer <token> or X-API-Key: <key>; signers use X-Signer-Key: <key>',
+      signIn: 'Sign-In with Ethereum: GET /api/auth/nonce, then POST /api/auth/verify with the signed message'
     },
     rateLimiting: {
       default: '100 requests per 15 minutes',
@@ -196,6 +169,27 @@ async function startServer() {
     await connectDatabase();
     logger.info('Database connected successfully');
 
+    // Resume unfinished bridge transactions and start processing queued jobs
+    await bridgePipelineWorker.start();
+    confirmationWatcher.start();
+    reorgMonitor.start();
+    transactionMonitor.start();
+    webhookService.start();
+    transactionStream.start();
+
+    // The relayer can also run as its own process (npm run relayer)
+    if (process.env.BTC_RELAYER_ENABLED === 'true') {
+      btcRelayer.start();
+    }
+
+    if (process.env.BRIDGE_PAYOUT_ENABLED === 'true') {
+      payoutService.start();
+    }
+
+    if (process.env.ETHEREUM_INDEXER_ENABLED === 'true') {
+      ethereumIndexer.start();
+    }
+
     // Start server
     app.listen(PORT, () => {
       logger.info(`Server running on port ${PORT}`);
@@ -208,14 +202,28 @@ async function startServer() {
 }
 
 // Graceful shutdown
-process.on('SIGTERM', () => {
-  logger.info('SIGTERM received, shutting down gracefully');
-  process.exit(0);
-});
+async function shutdown(signal: string) {
+  logger.info(`${signal} received, shutting down gracefully`);
+
+  try {
+    confirmationWatcher.stop();
+    reorgMonitor.stop();
+    transactionMonitor.stop();
+    webhookService.stop();
+    transactionStream.stop();
+    btcRelayer.stop();
+    payoutService.stop();
+    ethereumIndexer.stop();
+    await bridgePipelineWorker.stop();
+    await disconnectDatabase();
+  } catch (error) {
+    logger.error('Error during shutdown:', error);
+  }
 
-process.on('SIGINT', () => {
-  logger.info('SIGINT received, shutting down gracefully');
   process.exit(0);
-});
+}
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
 
 startServer();
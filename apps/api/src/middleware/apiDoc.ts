@@ -0,0 +1,43 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+
+// The subset of OpenAPI 3 schemas the API documents
+export interface SchemaObject {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  format?: string;
+  description?: string;
+  enum?: unknown[];
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  nullable?: boolean;
+  items?: SchemaObject;
+  properties?: Record<string, SchemaObject>;
+  required?: string[];
+  additionalProperties?: boolean | SchemaObject;
+  $ref?: string;
+}
+
+export interface ApiDocOptions {
+  summary: string;
+  description?: string;
+  // Schema of `data` in the response envelope
+  response?: SchemaObject;
+  // Status of a successful response; 200 unless set
+  status?: number;
+  // Set for responses that are not the JSON envelope, e.g. text/event-stream
+  contentType?: string;
+}
+
+export type DocumentedHandler = RequestHandler & { apiDoc: ApiDocOptions };
+
+/**
+ * Describes a route for the OpenAPI document (see utils/openapi).
+ *
+ * Goes first in the route's handlers. Parameters, request bodies and
+ * authentication are read from the other handlers, so only what they cannot
+ * tell is given here.
+ */
+export const apiDoc = (options: ApiDocOptions): DocumentedHandler =>
+  Object.assign((req: Request, res: Response, next: NextFunction) => next(), { apiDoc: options });
@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { Signer } from '@prisma/client';
+import { signingCoordinator } from '../services/signingCoordinator';
 import { logger } from '../utils/logger';
 
 export interface AuthRequest extends Request {
@@ -41,7 +43,7 @@ export const authenticateToken = (req: AuthRequest, res: Response, next: NextFun
     };
     next();
   } catch (error) {
-    logger.warn('Invalid token provided', { error: error.message });
+    logger.warn('Invalid token provided', { error: error instanceof Error ? error.message : 'Unknown error' });
     return res.status(403).json({
       success: false,
       error: 'Invalid token',
@@ -75,6 +77,40 @@ export const authenticateApiKey = (req: Request, res: Response, next: NextFuncti
   next();
 };
 
+export interface SignerRequest extends Request {
+  signer?: Signer;
+}
+
+export const authenticateSigner = async (req: SignerRequest, res: Response, next: NextFunction) => {
+  const apiKey = req.headers['x-signer-key'] as string;
+
+  if (!apiKey) {
+    return res.status(401).json({
+      success: false,
+      error: 'Signer key required',
+      message: 'Please provide a valid signer key'
+    });
+  }
+
+  try {
+    const signer = await signingCoordinator.authenticate(apiKey);
+
+    if (!signer) {
+      logger.warn('Invalid signer key provided', { apiKey: apiKey.substring(0, 8) + '...' });
+      return res.status(403).json({
+        success: false,
+        error: 'Invalid signer key',
+        message: 'Signer key is invalid or the signer is disabled'
+      });
+    }
+
+    req.signer = signer;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const requireRole = (role: string) => {
   return (req: AuthRequest, res: Response, next: NextFunction) => {
     if (!req.user) {
@@ -0,0 +1,71 @@
+import { Request, Response, NextFunction } from 'express';
+import { idempotencyService, IdempotencyError } from '../services/idempotencyService';
+import { logger } from '../utils/logger';
+import { AuthRequest } from './auth';
+
+// Printable ASCII, as sent by clients generating UUIDs or similar
+const KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+/**
+ * Idempotency-Key support for a mutating route.
+ *
+ * Requests without the header run as usual. With it, the first request runs
+ * and its response is stored; a retry with the same key and body gets that
+ * response again, marked with an Idempotent-Replayed header, without running
+ * the handler.
+ */
+export const idempotent = async (req: Request, res: Response, next: NextFunction) => {
+  const key = req.get('Idempotency-Key');
+  if (key === undefined) {
+    return next();
+  }
+
+  if (!KEY_PATTERN.test(key)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid Idempotency-Key',
+      message: 'Idempotency-Key must be 1 to 255 printable ASCII characters'
+    });
+  }
+
+  // Keys are per user on signed-in routes, so one user's key never replays another's response
+  const user = (req as AuthRequest).user;
+  const scope = `${req.method} ${req.baseUrl}${req.path}${user ? ` ${user.id}` : ''}`;
+
+  try {
+    const claim = await idempotencyService.claim(scope, key, idempotencyService.hashRequest(req.body));
+
+    if (claim.replay) {
+      res.set('Idempotent-Replayed', 'true');
+      return res.status(claim.replay.statusCode).json(claim.replay.body);
+    }
+
+    // The response is stored before it is sent, so a retry after it arrives is always a replay
+    let responded = false;
+    const send = res.json.bind(res);
+    res.json = (body: unknown) => {
+      responded = true;
+      idempotencyService.complete(claim.id, res.statusCode, body)
+        .catch(error => logger.error('Failed to store idempotent response', { scope, error: error.message }))
+        .finally(() => send(body));
+      return res;
+    };
+
+    // Nothing to store if the request ended without a JSON response
+    res.on('close', () => {
+      if (!responded) {
+        idempotencyService.release(claim.id).catch(() => undefined);
+      }
+    });
+
+    next();
+  } catch (error) {
+    if (error instanceof IdempotencyError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    }
+    next(error);
+  }
+};
@@ -0,0 +1,103 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import { apiDoc } from '../middleware/apiDoc';
+import { schemaRef } from '../utils/openapi';
+import { asyncHandler, CustomError } from '../middleware/errorHandler';
+import { AuthRequest, authenticateToken } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import { ApiResponse } from '../types';
+import { authService, AuthError } from '../services/authService';
+
+const router = Router();
+
+const refreshTokenValidator = () =>
+  body('refreshToken').isString().notEmpty().withMessage('Refresh token is required');
+
+// GET /api/auth/nonce - Nonce to put in the next Sign-In with Ethereum message
+router.get('/nonce', apiDoc({ summary: 'Get a nonce for a Sign-In with Ethereum (EIP-4361) message' }), asyncHandler(async (req, res) => {
+  const nonce = await authService.issueNonce();
+
+  const response: ApiResponse = {
+    success: true,
+    data: nonce,
+  };
+
+  res.json(response);
+}));
+
+// POST /api/auth/verify - Sign in with a signed SIWE message
+router.post('/verify', apiDoc({ summary: 'Sign in with a signed EIP-4361 message; returns an access token and a refresh token', response: schemaRef('AuthSession') }), [
+  body('message').isString().notEmpty().withMessage('Signed Sign-In with Ethereum message is required'),
+  body('signature').isString().matches(/^0x[0-9a-fA-F]+$/).withMessage('Signature must be 0x-prefixed hex'),
+], validateRequest, asyncHandler(async (req, res) => {
+  const { message, signature } = req.body;
+
+  try {
+    const session = await authService.verify(message, signature);
+
+    const response: ApiResponse = {
+      success: true,
+      data: session,
+    };
+
+    res.json(response);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      throw new CustomError(error.message, error.statusCode);
+    }
+    throw error;
+  }
+}));
+
+// POST /api/auth/refresh - Exchange a refresh token for a new session
+router.post('/refresh', apiDoc({ summary: 'Exchange a refresh token for new tokens; the old refresh token stops working', response: schemaRef('AuthSession') }), [
+  refreshTokenValidator(),
+], validateRequest, asyncHandler(async (req, res) => {
+  try {
+    const session = await authService.refresh(req.body.refreshToken);
+
+    const response: ApiResponse = {
+      success: true,
+      data: session,
+    };
+
+    res.json(response);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      throw new CustomError(error.message, error.statusCode);
+    }
+    throw error;
+  }
+}));
+
+// POST /api/auth/logout - Revoke a refresh token
+router.post('/logout', apiDoc({ summary: 'Revoke a refresh token; access tokens already issued last until they expire' }), [
+  refreshTokenValidator(),
+], validateRequest, asyncHandler(async (req, res) => {
+  await authService.logout(req.body.refreshToken);
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Signed out',
+  };
+
+  res.json(response);
+}));
+
+// GET /api/auth/me - The signed-in user
+router.get('/me', apiDoc({ summary: 'Get the signed-in user', response: schemaRef('User') }), authenticateToken, asyncHandler(async (req: AuthRequest, res) => {
+  const user = await authService.getUser(req.user!.id);
+
+  if (!user) {
+    throw new CustomError('User not found', 404);
+  }
+
+  const response: ApiResponse = {
+    success: true,
+    data: { id: user.id, address: user.address, createdAt: user.createdAt },
+  };
+
+  res.json(response);
+}));
+
+export default router;
@@ -1,8 +1,9 @@
 import { Router } from 'express';
 import { body, param, validationResult } from 'express-validator';
+import { apiDoc } from '../middleware/apiDoc';
 import { asyncHandler, CustomError } from '../middleware/errorHandler';
-import { ApiResponse, BitcoinTransaction, MerkleProof } from '../types';
-import { bitcoinTestnetService } from '../services/bitcoinTestnetService';
+import { ApiResponse } from '../types';
+import { bitcoinTestnetService, BitcoinTransaction } from '../services/bitcoinTestnetService';
 import { rateLimit } from 'express-rate-limit';
 import { logger } from '../utils/logger';
 
@@ -34,7 +35,7 @@ const validateRequest = (req: any, res: any, next: any) => {
 };
 
 // POST /api/bitcoin/verify - Verify Bitcoin transaction
-router.post('/verify', [
+router.post('/verify', apiDoc({ summary: 'Verify a Bitcoin transaction' }), [
   body('txid').isString().notEmpty().withMessage('Transaction ID is required'),
   body('address').isString().notEmpty().withMessage('Address is required'),
   body('amount').isNumeric().withMessage('Amount must be numeric'),
@@ -64,68 +65,8 @@ router.post('/verify', [
   }
 }));
 
-// POST /api/proofs/generate - Generate Merkle proof
-router.post('/proofs/generate', [
-  body('txid').isString().notEmpty().withMessage('Transaction ID is required'),
-  body('blockHash').optional().isString().withMessage('Block hash must be a string'),
-], validateRequest, asyncHandler(async (req, res) => {
-  const { txid, blockHash } = req.body;
-
-  logger.info('Merkle proof generation requested', { txid, blockHash });
-
-  try {
-    const merkleProof = await bitcoinTestnetService.generateMerkleProof(txid);
-
-    const response: ApiResponse<MerkleProof> = {
-      success: true,
-      data: merkleProof,
-      message: 'Merkle proof generated successfully'
-    };
-
-    res.json(response);
-  } catch (error) {
-    logger.error('Merkle proof generation error:', error);
-    throw new CustomError('Failed to generate Merkle proof', 500);
-  }
-}));
-
-// POST /api/proofs/verify - Verify Merkle proof
-router.post('/proofs/verify', [
-  body('leaf').isString().notEmpty().withMessage('Leaf is required'),
-  body('path').isArray().withMessage('Path must be an array'),
-  body('indices').isArray().withMessage('Indices must be an array'),
-  body('root').isString().notEmpty().withMessage('Root is required'),
-], validateRequest, asyncHandler(async (req, res) => {
-  const { leaf, path, indices, root } = req.body;
-
-  logger.info('Merkle proof verification requested', { leaf, root });
-
-  try {
-    const merkleProof: MerkleProof = { 
-      merkleRoot: root, 
-      proofPath: path, 
-      proofIndex: indices[0] || 0, 
-      transactionHash: leaf, 
-      blockHeight: 0, 
-      blockHash: '' 
-    };
-    const isValid = bitcoinTestnetService.verifyMerkleProof(merkleProof);
-
-    const response: ApiResponse<{ isValid: boolean }> = {
-      success: true,
-      data: { isValid },
-      message: isValid ? 'Merkle proof verified successfully' : 'Merkle proof verification failed'
-    };
-
-    res.json(response);
-  } catch (error) {
-    logger.error('Merkle proof verification error:', error);
-    throw new CustomError('Failed to verify Merkle proof', 500);
-  }
-}));
-
 // GET /api/bitcoin/transaction/:txid - Get Bitcoin transaction details
-router.get('/transaction/:txid', [
+router.get('/transaction/:txid', apiDoc({ summary: 'Get Bitcoin transaction details' }), [
   param('txid').isString().notEmpty().withMessage('Transaction ID is required'),
 ], validateRequest, asyncHandler(async (req, res) => {
   const { txid } = req.params;
@@ -148,7 +89,7 @@ router.get('/transaction/:txid', [
 }));
 
 // GET /api/bitcoin/balance/:address - Get Bitcoin balance
-router.get('/balance/:address', [
+router.get('/balance/:address', apiDoc({ summary: 'Get Bitcoin balance' }), [
   param('address').isString().notEmpty().withMessage('Address is required'),
 ], validateRequest, asyncHandler(async (req, res) => {
   const { address } = req.params;
@@ -156,12 +97,15 @@ router.get('/balance/:address', [
   logger.info('Bitcoin balance requested', { address });
 
   try {
-    // For testnet, we'll return a mock balance since we don't have a full node
-    const balance = 0.001; // Mock balance for demo
+    const { confirmed, unconfirmed } = await bitcoinTestnetService.getAddressBalance(address);
 
-    const response: ApiResponse<{ balance: number }> = {
+    const response: ApiResponse<{ balance: number; confirmed: number; unconfirmed: number }> = {
       success: true,
-      data: { balance }
+      data: {
+        balance: confirmed / 100000000, // BTC
+        confirmed,
+        unconfirmed
+      }
     };
 
     res.json(response);
@@ -172,7 +116,7 @@ router.get('/balance/:address', [
 }));
 
 // GET /api/bitcoin/network-info - Get Bitcoin network info
-router.get('/network-info', asyncHandler(async (req, res) => {
+router.get('/network-info', apiDoc({ summary: 'Get Bitcoin network info' }), asyncHandler(async (req, res) => {
   logger.info('Bitcoin network info requested');
 
   try {
@@ -197,11 +141,11 @@ router.get('/network-info', asyncHandler(async (req, res) => {
 }));
 
 // GET /api/bitcoin/block-count - Get current block count
-router.get('/block-count', asyncHandler(async (req, res) => {
+router.get('/block-count', apiDoc({ summary: 'Get current block count' }), asyncHandler(async (req, res) => {
   logger.info('Bitcoin block count requested');
 
   try {
-    const blockCount = 2500000; // Mock block count for testnet
+    const blockCount = await bitcoinTestnetService.getTipHeight();
 
     const response: ApiResponse<{ blockCount: number }> = {
       success: true,
@@ -216,7 +160,7 @@ router.get('/block-count', asyncHandler(async (req, res) => {
 }));
 
 // POST /api/bitcoin/validate-address - Validate Bitcoin address
-router.post('/validate-address', [
+router.post('/validate-address', apiDoc({ summary: 'Validate a Bitcoin address' }), [
   body('address').isString().notEmpty().withMessage('Address is required'),
 ], validateRequest, asyncHandler(async (req, res) => {
   const { address } = req.body;
@@ -243,7 +187,7 @@ router.post('/validate-address', [
 }));
 
 // GET /api/bitcoin/sample-transactions - Get sample transactions for demo
-router.get('/sample-transactions', asyncHandler(async (req, res) => {
+router.get('/sample-transactions', apiDoc({ summary: 'Get sample transactions for demo' }), asyncHandler(async (req, res) => {
   logger.info('Sample transactions requested');
 
   try {
@@ -262,7 +206,7 @@ router.get('/sample-transactions', asyncHandler(async (req, res) => {
 }));
 
 // GET /api/bitcoin/detailed-transaction/:txid - Get detailed transaction information
-router.get('/detailed-transaction/:txid', [
+router.get('/detailed-transaction/:txid', apiDoc({ summary: 'Get detailed transaction information' }), [
   param('txid').isString().notEmpty().withMessage('Transaction ID is required'),
 ], validateRequest, asyncHandler(async (req, res) => {
   const { txid } = req.params;
@@ -285,7 +229,7 @@ router.get('/detailed-transaction/:txid', [
 }));
 
 // GET /api/bitcoin/detailed-merkle-proof/:txid - Get detailed Merkle proof
-router.get('/detailed-merkle-proof/:txid', [
+router.get('/detailed-merkle-proof/:txid', apiDoc({ summary: 'Get a detailed Merkle proof' }), [
   param('txid').isString().notEmpty().withMessage('Transaction ID is required'),
 ], validateRequest, asyncHandler(async (req, res) => {
   const { txid } = req.params;
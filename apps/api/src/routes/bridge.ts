@@ -1,9 +1,18 @@
 import { Router } from 'express';
-import { body, param, query, validationResult } from 'express-validator';
+import { body, param, validationResult } from 'express-validator';
+import { apiDoc } from '../middleware/apiDoc';
+import { getPrismaClient } from '../config/database';
 import { asyncHandler, CustomError } from '../middleware/errorHandler';
+import { idempotent } from '../middleware/idempotency';
+import { AuthRequest, authenticateToken, optionalAuth } from '../middleware/auth';
 import { ApiResponse, TransactionStatus } from '../types';
 import { BridgeService } from '../services/bridgeService';
 import { BitcoinService } from '../services/bitcoinService';
+import { bridgeJobService } from '../services/bridgeJobService';
+import { bridgeStatusService, StatusTransitionError } from '../services/bridgeStatusService';
+import { bridgeTransactionService, DuplicateBridgeError } from '../services/bridgeTransactionService';
+import { depositAddressService, DepositAddressError, DEPOSIT_ADDRESS_TYPES } from '../services/depositAddressService';
+import { buildBridgePayloadScript, BridgePayloadError, EXPECTED_CHAIN_ID } from '../services/bridgePayload';
 import { rateLimit } from 'express-rate-limit';
 import { logger } from '../utils/logger';
 
@@ -36,16 +45,22 @@ const validateRequest = (req: any, res: any, next: any) => {
   next();
 };
 
-// POST /api/bridge/initiate - Start bridge process
-router.post('/initiate', [
+// Other users' transactions are reported as missing, so their ids cannot be probed
+const isOwnedBy = async (txId: string, userId: string): Promise<boolean> => {
+  const owner = await getPrismaClient().bridgeTransaction.findUnique({ where: { id: txId }, select: { userId: true } });
+  return owner?.userId === userId;
+};
+
+// POST /api/bridge/initiate - Start bridge process, owned by the signed-in user if there is one
+router.post('/initiate', apiDoc({ summary: 'Start a bridge; signed in, it belongs to the user', status: 201 }), optionalAuth, idempotent, [
   body('fromChain').isIn(['bitcoin', 'ethereum']).withMessage('From chain must be bitcoin or ethereum'),
   body('toChain').isIn(['bitcoin', 'ethereum']).withMessage('To chain must be bitcoin or ethereum'),
   body('sourceTxHash').isString().notEmpty().withMessage('Source transaction hash is required'),
   body('sourceAmount').isString().notEmpty().withMessage('Source amount is required'),
   body('sourceAddress').isString().notEmpty().withMessage('Source address is required'),
   body('targetAddress').isString().notEmpty().withMessage('Target address is required'),
-  body('userId').optional().isString().withMessage('User ID must be a string'),
-], validateRequest, asyncHandler(async (req, res) => {
+  body('depositAddress').optional().isString().withMessage('Deposit address must be a string'),
+], validateRequest, asyncHandler(async (req: AuthRequest, res) => {
   const {
     fromChain,
     toChain,
@@ -53,8 +68,9 @@ router.post('/initiate', [
     sourceAmount,
     sourceAddress,
     targetAddress,
-    userId
+    depositAddress
   } = req.body;
+  const userId = req.user?.id;
 
   logger.info('Bridge initiation requested', { 
     fromChain, 
@@ -72,7 +88,8 @@ router.post('/initiate', [
       sourceAmount,
       sourceAddress,
       targetAddress,
-      userId
+      userId,
+      depositAddress
     });
 
     const response: ApiResponse = {
@@ -84,12 +101,72 @@ router.post('/initiate', [
     res.status(201).json(response);
   } catch (error) {
     logger.error('Bridge initiation error:', error);
+    if (error instanceof DepositAddressError) {
+      throw new CustomError(error.message, 400);
+    }
+    if (error instanceof DuplicateBridgeError) {
+      throw new CustomError(error.message, 409);
+    }
     throw new CustomError('Failed to initiate bridge process', 500);
   }
 }));
 
+// POST /api/bridge/deposit-address - Issue a fresh BTC deposit address for a bridge request, owned by the signed-in user if there is one
+router.post('/deposit-address', apiDoc({ summary: 'Issue a BTC deposit address for a bridge request; signed in, it belongs to the user', status: 201 }), optionalAuth, idempotent, [
+  body('targetAddress').isEthereumAddress().withMessage('Target address must be a valid Ethereum address'),
+  body('addressType').optional().isIn(DEPOSIT_ADDRESS_TYPES).withMessage(`Address type must be one of ${DEPOSIT_ADDRESS_TYPES.join(', ')}`),
+], validateRequest, asyncHandler(async (req: AuthRequest, res) => {
+  const { targetAddress, addressType } = req.body;
+  const userId = req.user?.id;
+
+  if (!depositAddressService.isConfigured()) {
+    throw new CustomError('Deposit addresses are not configured', 503);
+  }
+
+  logger.info('Deposit address requested', { targetAddress, addressType, userId });
+
+  const depositAddress = await depositAddressService.createDepositAddress({ targetAddress, addressType, userId });
+
+  const response: ApiResponse = {
+    success: true,
+    data: {
+      id: depositAddress.id,
+      address: depositAddress.address,
+      addressType: depositAddress.addressType,
+      derivationPath: depositAddress.derivationPath,
+      targetAddress: depositAddress.targetAddress,
+      opReturnScript: buildBridgePayloadScript({ recipient: depositAddress.targetAddress, chainId: EXPECTED_CHAIN_ID }),
+      createdAt: depositAddress.createdAt
+    },
+    message: 'Send BTC to this address with the OP_RETURN output, then initiate the bridge with it as depositAddress'
+  };
+
+  res.status(201).json(response);
+}));
+
+// POST /api/bridge/payload - Build the OP_RETURN output a BTC deposit must carry
+router.post('/payload', apiDoc({ summary: 'Build the OP_RETURN output a BTC deposit must carry' }), [
+  body('targetAddress').isEthereumAddress().withMessage('Target address must be a valid Ethereum address'),
+  body('nonce').optional().matches(/^([0-9a-fA-F]{2}){1,32}$/).withMessage('Nonce must be at most 32 bytes of hex'),
+], validateRequest, asyncHandler(async (req, res) => {
+  const { targetAddress, nonce } = req.body;
+
+  const response: ApiResponse = {
+    success: true,
+    data: {
+      targetAddress,
+      chainId: EXPECTED_CHAIN_ID,
+      nonce,
+      opReturnScript: buildBridgePayloadScript({ recipient: targetAddress, chainId: EXPECTED_CHAIN_ID, nonce })
+    },
+    message: 'Add this OP_RETURN output to the BTC deposit transaction'
+  };
+
+  res.json(response);
+}));
+
 // GET /api/bridge/status/:txId - Check bridge status
-router.get('/status/:txId', [
+router.get('/status/:txId', apiDoc({ summary: 'Get bridge status' }), [
   param('txId').isString().notEmpty().withMessage('Transaction ID is required'),
 ], validateRequest, asyncHandler(async (req, res) => {
   const { txId } = req.params;
@@ -108,61 +185,35 @@ router.get('/status/:txId', [
     res.json(response);
   } catch (error) {
     logger.error('Bridge status error:', error);
-    if (error.message.includes('not found')) {
+    if (error instanceof Error && error.message.includes('not found')) {
       throw new CustomError('Bridge transaction not found', 404);
     }
     throw new CustomError('Failed to get bridge status', 500);
   }
 }));
 
-// GET /api/bridge/transactions - Get all bridge transactions
-router.get('/transactions', [
-  query('userId').optional().isString().withMessage('User ID must be a string'),
-  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
-  query('offset').optional().isInt({ min: 0 }).withMessage('Offset must be non-negative'),
-], validateRequest, asyncHandler(async (req, res) => {
-  const { userId, limit = 50, offset = 0 } = req.query;
-
-  logger.info('Bridge transactions requested', { userId, limit, offset });
-
-  try {
-    const transactions = await bridgeService.getAllBridgeTransactions(
-      userId as string,
-      parseInt(limit as string),
-      parseInt(offset as string)
-    );
-
-    const response: ApiResponse = {
-      success: true,
-      data: transactions,
-      message: 'Bridge transactions retrieved successfully'
-    };
-
-    res.json(response);
-  } catch (error) {
-    logger.error('Bridge transactions error:', error);
-    throw new CustomError('Failed to get bridge transactions', 500);
-  }
-}));
-
-// POST /api/bridge/verify-source - Manually trigger source verification
-router.post('/verify-source', [
+// POST /api/bridge/verify-source - Manually trigger source verification of one of the signed-in user's transactions
+router.post('/verify-source', apiDoc({ summary: "Manually verify the source transaction of one of the signed-in user's bridges" }), authenticateToken, idempotent, [
   body('txId').isString().notEmpty().withMessage('Transaction ID is required'),
-], validateRequest, asyncHandler(async (req, res) => {
+], validateRequest, asyncHandler(async (req: AuthRequest, res) => {
   const { txId } = req.body;
+  const userId = req.user!.id;
 
-  logger.info('Manual source verification requested', { txId });
+  logger.info('Manual source verification requested', { txId, userId });
+
+  // A job for a transaction that does not exist could never run
+  if (!(await isOwnedBy(txId, userId))) {
+    throw new CustomError('Bridge transaction not found', 404);
+  }
 
   try {
-    // Start async verification process
-    bridgeService.verifySourceTransaction(txId).catch(error => {
-      logger.error('Async verification error:', error);
-    });
+    // Queue verification for the pipeline worker
+    const job = await bridgeJobService.enqueue(txId, 'VERIFY_SOURCE');
 
     const response: ApiResponse = {
       success: true,
-      data: { txId, status: 'verification_started' },
-      message: 'Source verification process started'
+      data: { txId, jobId: job.id, status: 'verification_queued' },
+      message: 'Source verification queued'
     };
 
     res.json(response);
@@ -173,25 +224,28 @@ router.post('/verify-source', [
 }));
 
 // POST /api/bridge/cancel - Cancel bridge transaction
-router.post('/cancel', [
+router.post('/cancel', apiDoc({ summary: "Cancel one of the signed-in user's bridge transactions" }), authenticateToken, idempotent, [
   body('txId').isString().notEmpty().withMessage('Transaction ID is required'),
   body('reason').optional().isString().withMessage('Cancellation reason must be a string'),
-], validateRequest, asyncHandler(async (req, res) => {
+], validateRequest, asyncHandler(async (req: AuthRequest, res) => {
   const { txId, reason } = req.body;
+  const userId = req.user!.id;
+
+  logger.info('Bridge cancellation requested', { txId, reason, userId });
 
-  logger.info('Bridge cancellation requested', { txId, reason });
+  if (!(await isOwnedBy(txId, userId))) {
+    throw new CustomError('Bridge transaction not found', 404);
+  }
 
   try {
-    // Update transaction status to failed with cancellation reason
-    const prisma = (await import('../config/database')).getPrismaClient();
-    
-    const updatedTx = await prisma.bridgeTransaction.update({
-      where: { id: txId },
-      data: {
-        status: TransactionStatus.FAILED,
-        error: reason || 'Transaction cancelled by user'
-      }
+    const message = reason || 'Transaction cancelled by user';
+
+    // Rejected once the transaction has been submitted to the target chain
+    const updatedTx = await bridgeStatusService.transition(txId, TransactionStatus.CANCELLED, {
+      message,
+      data: { errorMessage: message }
     });
+    await bridgeJobService.cancelQueued(txId, message);
 
     const response: ApiResponse = {
       success: true,
@@ -202,7 +256,10 @@ router.post('/cancel', [
     res.json(response);
   } catch (error) {
     logger.error('Bridge cancellation error:', error);
-    if (error.message.includes('not found')) {
+    if (error instanceof StatusTransitionError) {
+      throw error;
+    }
+    if (error instanceof Error && error.message.includes('not found')) {
       throw new CustomError('Bridge transaction not found', 404);
     }
     throw new CustomError('Failed to cancel bridge transaction', 500);
@@ -210,11 +267,11 @@ router.post('/cancel', [
 }));
 
 // GET /api/bridge/stats - Get bridge statistics
-router.get('/stats', asyncHandler(async (req, res) => {
+router.get('/stats', apiDoc({ summary: 'Get bridge statistics' }), asyncHandler(async (req, res) => {
   logger.info('Bridge statistics requested');
 
   try {
-    const prisma = (await import('../config/database')).getPrismaClient();
+    const prisma = getPrismaClient();
     
     // Get statistics
     const [
@@ -228,10 +285,7 @@ router.get('/stats', asyncHandler(async (req, res) => {
       prisma.bridgeTransaction.count({ where: { status: TransactionStatus.COMPLETED } }),
       prisma.bridgeTransaction.count({ where: { status: TransactionStatus.PENDING } }),
       prisma.bridgeTransaction.count({ where: { status: TransactionStatus.FAILED } }),
-      prisma.bridgeTransaction.aggregate({
-        _sum: { sourceAmount: true },
-        where: { status: TransactionStatus.COMPLETED }
-      })
+      bridgeTransactionService.getCompletedVolume()
     ]);
 
     const stats = {
@@ -240,7 +294,7 @@ router.get('/stats', asyncHandler(async (req, res) => {
       pendingTransactions,
       failedTransactions,
       successRate: totalTransactions > 0 ? (completedTransactions / totalTransactions) * 100 : 0,
-      totalVolume: totalVolume._sum.sourceAmount || '0'
+      totalVolume
     };
 
     const response: ApiResponse = {
@@ -257,13 +311,12 @@ router.get('/stats', asyncHandler(async (req, res) => {
 }));
 
 // GET /api/bridge/health - Check bridge service health
-router.get('/health', asyncHandler(async (req, res) => {
+router.get('/health', apiDoc({ summary: 'Bridge service health check' }), asyncHandler(async (req, res) => {
   logger.info('Bridge health check requested');
 
   try {
     // Check database connection
-    const prisma = (await import('../config/database')).getPrismaClient();
-    await prisma.$queryRaw`SELECT 1`;
+    await getPrismaClient().$queryRaw`SELECT 1`;
 
     const response: ApiResponse = {
       success: true,
@@ -288,12 +341,13 @@ router.get('/health', asyncHandler(async (req, res) => {
 }));
 
 // POST /api/bridge/store-attempt - Store a bridge attempt with real Bitcoin data
-router.post('/store-attempt', [
+router.post('/store-attempt', apiDoc({ summary: 'Store a bridge attempt with real Bitcoin data for the signed-in user' }), authenticateToken, idempotent, [
   body('bitcoinTxId').isString().notEmpty().withMessage('Bitcoin transaction ID is required'),
   body('ethereumAddress').isString().notEmpty().withMessage('Ethereum address is required'),
-  body('userId').optional().isString().withMessage('User ID must be a string'),
-], validateRequest, asyncHandler(async (req, res) => {
-  const { bitcoinTxId, ethereumAddress, userId } = req.body;
+  body('amount').optional().matches(/^\d+$/).withMessage('Amount must be a whole number of satoshis'),
+], validateRequest, asyncHandler(async (req: AuthRequest, res) => {
+  const { bitcoinTxId, ethereumAddress, amount } = req.body;
+  const userId = req.user!.id;
 
   logger.info('Bridge attempt storage requested', { bitcoinTxId, ethereumAddress, userId });
 
@@ -309,7 +363,8 @@ router.post('/store-attempt', [
       bitcoinTx,
       merkleProof,
       ethereumAddress,
-      userId
+      userId,
+      amount
     );
 
     const response: ApiResponse<{ bridgeId: string }> = {
@@ -321,7 +376,13 @@ router.post('/store-attempt', [
     res.json(response);
   } catch (error) {
     logger.error('Bridge attempt storage error:', error);
-    throw new CustomError(`Failed to store bridge attempt: ${error.message}`, 500);
+    if (error instanceof BridgePayloadError || error instanceof DepositAddressError) {
+      throw new CustomError(error.message, 400);
+    }
+    if (error instanceof DuplicateBridgeError) {
+      throw new CustomError(error.message, 409);
+    }
+    throw new CustomError(`Failed to store bridge attempt: ${error instanceof Error ? error.message : 'Unknown error'}`, 500);
   }
 }));
 
@@ -1,6 +1,10 @@
 import { Router } from 'express';
 import { body, param, query, validationResult } from 'express-validator';
+import { apiDoc } from '../middleware/apiDoc';
+import { arrayOf, schemaRef } from '../utils/openapi';
 import { asyncHandler } from '../middleware/errorHandler';
+import { AuthRequest, authenticateToken, optionalAuth } from '../middleware/auth';
+import { idempotent } from '../middleware/idempotency';
 import { ApiResponse } from '../types';
 import { bridgeTransactionService } from '../services/bridgeTransactionService';
 import { logger } from '../utils/logger';
@@ -20,16 +24,16 @@ const validateRequest = (req: any, res: any, next: any) => {
   next();
 };
 
-// POST /api/bridge/transactions - Create new bridge transaction
-router.post('/transactions', [
+// POST /api/bridge/transactions - Create new bridge transaction, owned by the signed-in user if there is one
+router.post('/transactions', apiDoc({ summary: 'Create a bridge transaction; signed in, it belongs to the user', status: 201, response: schemaRef('BridgeTransaction') }), optionalAuth, idempotent, [
   body('direction').isIn(['BITCOIN_TO_ETHEREUM', 'ETHEREUM_TO_BITCOIN']),
   body('sourceTxHash').isString().notEmpty(),
   body('sourceAmount').isString().notEmpty(),
   body('sourceAddress').isString().notEmpty(),
   body('targetAddress').isString().notEmpty(),
-  body('userId').optional().isString(),
-], validateRequest, asyncHandler(async (req, res) => {
-  const { direction, sourceTxHash, sourceAmount, sourceAddress, targetAddress, userId } = req.body;
+  body('depositAddress').optional().isString(),
+], validateRequest, asyncHandler(async (req: AuthRequest, res) => {
+  const { direction, sourceTxHash, sourceAmount, sourceAddress, targetAddress, depositAddress } = req.body;
 
   logger.info('Creating bridge transaction', { direction, sourceTxHash });
 
@@ -39,7 +43,8 @@ router.post('/transactions', [
     sourceAmount,
     sourceAddress,
     targetAddress,
-    userId,
+    userId: req.user?.id,
+    depositAddress,
   });
 
   const response: ApiResponse = {
@@ -51,7 +56,7 @@ router.post('/transactions', [
 }));
 
 // GET /api/bridge/transactions/:id - Get transaction by ID
-router.get('/transactions/:id', [
+router.get('/transactions/:id', apiDoc({ summary: 'Get a bridge transaction', response: schemaRef('BridgeTransaction') }), [
   param('id').isString().notEmpty(),
 ], validateRequest, asyncHandler(async (req, res) => {
   const { id } = req.params;
@@ -66,31 +71,22 @@ router.get('/transactions/:id', [
   res.json(response);
 }));
 
-// GET /api/bridge/transactions - Get all transactions with filters
-router.get('/transactions', [
+// GET /api/bridge/transactions - The signed-in user's transactions, with filters
+router.get('/transactions', apiDoc({ summary: "List the signed-in user's bridge transactions", response: arrayOf(schemaRef('BridgeTransaction')) }), authenticateToken, [
   query('status').optional().isString(),
   query('direction').optional().isString(),
-  query('userId').optional().isString(),
   query('limit').optional().isInt({ min: 1, max: 100 }),
   query('offset').optional().isInt({ min: 0 }),
-], validateRequest, asyncHandler(async (req, res) => {
-  const { status, direction, userId, limit, offset } = req.query;
-
-  let result;
-  if (userId) {
-    result = await bridgeTransactionService.getUserTransactions(
-      userId as string,
-      parseInt(limit as string) || 50,
-      parseInt(offset as string) || 0
-    );
-  } else {
-    result = await bridgeTransactionService.getAllTransactions({
-      status: status as string,
-      direction: direction as string,
-      limit: parseInt(limit as string) || 50,
-      offset: parseInt(offset as string) || 0,
-    });
-  }
+], validateRequest, asyncHandler(async (req: AuthRequest, res) => {
+  const { status, direction, limit, offset } = req.query;
+
+  const result = await bridgeTransactionService.getAllTransactions({
+    userId: req.user!.id,
+    status: status as string,
+    direction: direction as string,
+    limit: parseInt(limit as string) || 50,
+    offset: parseInt(offset as string) || 0,
+  });
 
   const response: ApiResponse = {
     success: true,
@@ -106,7 +102,7 @@ router.get('/transactions', [
 }));
 
 // POST /api/bridge/transactions/:id/process - Process bridge transaction
-router.post('/transactions/:id/process', [
+router.post('/transactions/:id/process', apiDoc({ summary: 'Process a bridge transaction', response: schemaRef('BridgeTransaction') }), idempotent, [
   param('id').isString().notEmpty(),
 ], validateRequest, asyncHandler(async (req, res) => {
   const { id } = req.params;
@@ -130,7 +126,7 @@ router.post('/transactions/:id/process', [
 }));
 
 // GET /api/bridge/transactions/:id/events - Get transaction events
-router.get('/transactions/:id/events', [
+router.get('/transactions/:id/events', apiDoc({ summary: 'Get the events of a bridge transaction', response: arrayOf(schemaRef('TransactionEvent')) }), [
   param('id').isString().notEmpty(),
 ], validateRequest, asyncHandler(async (req, res) => {
   const { id } = req.params;
@@ -146,7 +142,7 @@ router.get('/transactions/:id/events', [
 }));
 
 // GET /api/bridge/transactions/hash/:sourceTxHash - Get transaction by source hash
-router.get('/transactions/hash/:sourceTxHash', [
+router.get('/transactions/hash/:sourceTxHash', apiDoc({ summary: 'Get a bridge transaction by source transaction hash', response: schemaRef('BridgeTransaction') }), [
   param('sourceTxHash').isString().notEmpty(),
 ], validateRequest, asyncHandler(async (req, res) => {
   const { sourceTxHash } = req.params;
@@ -154,10 +150,11 @@ router.get('/transactions/hash/:sourceTxHash', [
   const transaction = await bridgeTransactionService.getTransactionBySourceHash(sourceTxHash);
 
   if (!transaction) {
-    return res.status(404).json({
+    res.status(404).json({
       success: false,
       error: 'Transaction not found',
     });
+    return;
   }
 
   const response: ApiResponse = {
@@ -169,7 +166,7 @@ router.get('/transactions/hash/:sourceTxHash', [
 }));
 
 // GET /api/bridge/statistics - Get bridge statistics
-router.get('/statistics', asyncHandler(async (req, res) => {
+router.get('/statistics', apiDoc({ summary: 'Get bridge transaction statistics' }), asyncHandler(async (req, res) => {
   const stats = await bridgeTransactionService.getStatistics();
 
   const response: ApiResponse = {
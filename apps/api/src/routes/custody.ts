@@ -0,0 +1,77 @@
+import { Router } from 'express';
+import { body, query } from 'express-validator';
+import { apiDoc } from '../middleware/apiDoc';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authenticateApiKey } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import { ApiResponse } from '../types';
+import { custodyLedger } from '../services/custodyLedger';
+import { payoutService } from '../services/payoutService';
+
+const router = Router();
+
+// Custody is operator-only
+router.use(authenticateApiKey);
+
+// GET /api/custody/summary - Custody output count and value by status
+router.get('/summary', apiDoc({ summary: 'Custody output count and value by status' }), asyncHandler(async (req, res) => {
+  const response: ApiResponse = {
+    success: true,
+    data: await custodyLedger.getSummary(),
+  };
+
+  res.json(response);
+}));
+
+// GET /api/custody/utxos - List tracked custody outputs
+router.get('/utxos', apiDoc({ summary: 'List tracked custody outputs' }), [
+  query('status').optional().isIn(['PENDING', 'CONFIRMED', 'SPENT']),
+  query('address').optional().isString(),
+  query('limit').optional().isInt({ min: 1, max: 500 }),
+], validateRequest, asyncHandler(async (req, res) => {
+  const { status, address, limit } = req.query;
+
+  const response: ApiResponse = {
+    success: true,
+    data: await custodyLedger.list({
+      status: status as string,
+      address: address as string,
+      limit: parseInt(limit as string) || 100,
+    }),
+  };
+
+  res.json(response);
+}));
+
+// POST /api/custody/sync - Reconcile the ledger with the Bitcoin provider now
+router.post('/sync', apiDoc({ summary: 'Reconcile the custody ledger with the chain now' }), asyncHandler(async (req, res) => {
+  const result = await custodyLedger.sync();
+
+  const response: ApiResponse = {
+    success: true,
+    data: result,
+    message: 'Custody ledger synced',
+  };
+
+  res.json(response);
+}));
+
+// POST /api/custody/consolidate - Consolidate the smallest custody outputs at a given fee rate
+router.post('/consolidate', apiDoc({ summary: 'Consolidate the smallest custody outputs at a fee rate', status: 201 }), [
+  body('feeRate').isFloat({ min: 1, max: 10000 }).withMessage('Fee rate must be in sat/vB'),
+  body('maxInputs').optional().isInt({ min: 2, max: 500 }),
+], validateRequest, asyncHandler(async (req, res) => {
+  const { feeRate, maxInputs } = req.body;
+
+  const batch = await payoutService.consolidate(parseFloat(feeRate), maxInputs ? parseInt(maxInputs) : undefined);
+
+  const response: ApiResponse = {
+    success: true,
+    data: batch,
+    message: 'Consolidation batch built, awaiting signatures',
+  };
+
+  res.status(201).json(response);
+}));
+
+export default router;
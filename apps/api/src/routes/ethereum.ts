@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { body, param, validationResult } from 'express-validator';
+import { apiDoc } from '../middleware/apiDoc';
 import { asyncHandler, CustomError } from '../middleware/errorHandler';
 import { ApiResponse, EthereumTransaction } from '../types';
 import { EthereumService } from '../services/ethereumService';
@@ -8,7 +9,7 @@ const router = Router();
 const ethereumService = new EthereumService();
 
 // Get Ethereum transaction details
-router.get('/transaction/:hash', [
+router.get('/transaction/:hash', apiDoc({ summary: 'Get Ethereum transaction details' }), [
   param('hash').isString().notEmpty().withMessage('Transaction hash is required'),
 ], asyncHandler(async (req, res) => {
   const errors = validationResult(req);
@@ -28,7 +29,7 @@ router.get('/transaction/:hash', [
 }));
 
 // Verify Ethereum transaction
-router.post('/verify', [
+router.post('/verify', apiDoc({ summary: 'Verify an Ethereum transaction' }), [
   body('hash').isString().notEmpty().withMessage('Transaction hash is required'),
   body('address').isString().notEmpty().withMessage('Address is required'),
   body('amount').isString().withMessage('Amount must be a string'),
@@ -50,7 +51,7 @@ router.post('/verify', [
 }));
 
 // Get Ethereum network info
-router.get('/network-info', asyncHandler(async (req, res) => {
+router.get('/network-info', apiDoc({ summary: 'Get Ethereum network info' }), asyncHandler(async (req, res) => {
   const networkInfo = await ethereumService.getNetworkInfo();
 
   const response: ApiResponse = {
@@ -62,7 +63,7 @@ router.get('/network-info', asyncHandler(async (req, res) => {
 }));
 
 // Get Ethereum balance for address
-router.get('/balance/:address', [
+router.get('/balance/:address', apiDoc({ summary: 'Get Ethereum balance' }), [
   param('address').isString().notEmpty().withMessage('Address is required'),
 ], asyncHandler(async (req, res) => {
   const errors = validationResult(req);
@@ -82,7 +83,7 @@ router.get('/balance/:address', [
 }));
 
 // Get gas price
-router.get('/gas-price', asyncHandler(async (req, res) => {
+router.get('/gas-price', apiDoc({ summary: 'Get gas price' }), asyncHandler(async (req, res) => {
   const gasPrice = await ethereumService.getGasPrice();
 
   const response: ApiResponse<{ gasPrice: string }> = {
@@ -94,7 +95,7 @@ router.get('/gas-price', asyncHandler(async (req, res) => {
 }));
 
 // Estimate gas for transaction
-router.post('/estimate-gas', [
+router.post('/estimate-gas', apiDoc({ summary: 'Estimate gas for a transaction' }), [
   body('to').isString().notEmpty().withMessage('To address is required'),
   body('value').isString().withMessage('Value must be a string'),
   body('data').optional().isString().withMessage('Data must be a string'),
@@ -0,0 +1,128 @@
+import { Request, Response, Router } from 'express';
+import { query } from 'express-validator';
+import { apiDoc } from '../middleware/apiDoc';
+import { AuthRequest, authenticateApiKey, authenticateToken } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validateRequest } from '../middleware/validation';
+import { StreamedEvent, TransactionStreamFilter, transactionStream } from '../services/transactionStream';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+const MAX_CLIENTS = parseInt(process.env.TRANSACTION_STREAM_MAX_CLIENTS || '1000');
+const MAX_TRANSACTION_IDS = 100;
+// Sent as a comment so proxies do not close an idle stream
+const HEARTBEAT_MS = 25000;
+// Reconnection delay suggested to EventSource clients
+const RETRY_MS = 3000;
+
+const transactionIdsValidator = () =>
+  query('transactionId').optional().isString()
+    .custom((value: string) => value.split(',').length <= MAX_TRANSACTION_IDS)
+    .withMessage(`At most ${MAX_TRANSACTION_IDS} transaction ids`);
+
+const lastEventIdValidator = () => query('lastEventId').optional().isString().notEmpty();
+
+const transactionIdsOf = (req: Request): string[] | undefined =>
+  req.query.transactionId
+    ? (req.query.transactionId as string).split(',').map(id => id.trim()).filter(Boolean)
+    : undefined;
+
+// GET /api/events/stream - Server-Sent Events for the signed-in user's TransactionEvents and the status they lead to.
+// Narrow to some of their transactions with transactionId (comma-separated).
+// Reconnecting clients resume after Last-Event-ID, or lastEventId where headers cannot be set.
+router.get('/stream', apiDoc({
+  summary: "Server-Sent Events for the signed-in user's bridge transaction events and status changes",
+  description: 'Each event is a `transaction` event whose data is a TransactionStreamMessage. Reconnect with Last-Event-ID, or lastEventId, to resume.',
+  contentType: 'text/event-stream',
+}), authenticateToken, [
+  transactionIdsValidator(),
+  lastEventIdValidator(),
+], validateRequest, asyncHandler(async (req: AuthRequest, res) => {
+  await streamEvents(req, res, { transactionIds: transactionIdsOf(req), userId: req.user!.id });
+}));
+
+// GET /api/events/firehose - The same stream for operators, across every user.
+// Filter with transactionId or userId; without either, every transaction is streamed.
+router.get('/firehose', apiDoc({
+  summary: 'Server-Sent Events for every bridge transaction, for operators',
+  description: 'As /api/events/stream, optionally filtered by transactionId or userId.',
+  contentType: 'text/event-stream',
+}), authenticateApiKey, [
+  transactionIdsValidator(),
+  query('userId').optional().isString().notEmpty(),
+  lastEventIdValidator(),
+], validateRequest, asyncHandler(async (req, res) => {
+  await streamEvents(req, res, { transactionIds: transactionIdsOf(req), userId: req.query.userId as string | undefined });
+}));
+
+async function streamEvents(req: Request, res: Response, filter: TransactionStreamFilter): Promise<void> {
+  if (transactionStream.subscriberCount >= MAX_CLIENTS) {
+    res.set('Retry-After', '30');
+    res.status(503).json({
+      success: false,
+      error: 'Too many open event streams, try again later',
+    });
+    return;
+  }
+
+  const lastEventId = req.get('Last-Event-ID') || (req.query.lastEventId as string | undefined);
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+
+  // Responses are compressed, which buffers them unless flushed
+  const write = (chunk: string) => {
+    res.write(chunk);
+    res.flush();
+  };
+
+  const send = (event: StreamedEvent) => {
+    write(`id: ${event.id}\nevent: transaction\ndata: ${JSON.stringify(event.message)}\n\n`);
+  };
+
+  // Subscribe before catching up so nothing recorded in between is lost; live events wait for the replay
+  let replaying = true;
+  const queued: StreamedEvent[] = [];
+  const unsubscribe = transactionStream.subscribe(filter, event => {
+    if (replaying) {
+      queued.push(event);
+    } else {
+      send(event);
+    }
+  });
+
+  const heartbeat = setInterval(() => write(': keepalive\n\n'), HEARTBEAT_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+
+  write(`retry: ${RETRY_MS}\n\n`);
+
+  const replayed = new Set<string>();
+  try {
+    if (lastEventId) {
+      const missed = await transactionStream.replay(filter, lastEventId);
+      missed.forEach(event => {
+        replayed.add(event.id);
+        send(event);
+      });
+    }
+  } catch (error) {
+    logger.warn('Failed to replay transaction events', {
+      lastEventId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  replaying = false;
+  queued.filter(event => !replayed.has(event.id)).forEach(send);
+}
+
+export default router;
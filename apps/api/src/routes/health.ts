@@ -1,11 +1,14 @@
 import { Router } from 'express';
 import { getPrismaClient } from '../config/database';
+import { apiDoc } from '../middleware/apiDoc';
 import { asyncHandler } from '../middleware/errorHandler';
 import { ApiResponse } from '../types';
+import { btcRelayer } from '../services/btcRelayer';
+import { bitcoinTestnetService } from '../services/bitcoinTestnetService';
 
 const router = Router();
 
-router.get('/', asyncHandler(async (req, res) => {
+router.get('/', apiDoc({ summary: 'API health check' }), asyncHandler(async (req, res) => {
   const response: ApiResponse = {
     success: true,
     message: 'ZKBridge API is healthy',
@@ -19,7 +22,7 @@ router.get('/', asyncHandler(async (req, res) => {
   res.json(response);
 }));
 
-router.get('/database', asyncHandler(async (req, res) => {
+router.get('/database', apiDoc({ summary: 'Database health check' }), asyncHandler(async (req, res) => {
   const prisma = getPrismaClient();
   
   try {
@@ -45,5 +48,42 @@ router.get('/database', asyncHandler(async (req, res) => {
   }
 }));
 
+// Relay progress: how far BTCRelay trails the Bitcoin tip
+router.get('/relayer', apiDoc({ summary: 'BTC relayer lag behind the Bitcoin tip' }), asyncHandler(async (req, res) => {
+  const maxLag = parseInt(process.env.BTC_RELAYER_MAX_LAG || '6');
+  const status = await btcRelayer.getStatus();
+  const healthy = status.status !== 'DIVERGED' && status.status !== 'ERROR' &&
+    (status.lag === null || status.lag <= maxLag);
+
+  const response: ApiResponse = {
+    success: healthy,
+    message: healthy ? 'BTC relayer is healthy' : 'BTC relayer is lagging or stalled',
+    data: {
+      ...status,
+      maxLag,
+      timestamp: new Date().toISOString(),
+    },
+  };
+
+  res.status(healthy ? 200 : 503).json(response);
+}));
+
+// Bitcoin data providers: health score and cooldown of each, in priority order
+router.get('/bitcoin', apiDoc({ summary: 'Health score and cooldown of each Bitcoin data provider' }), asyncHandler(async (req, res) => {
+  const providers = bitcoinTestnetService.getProviderHealth();
+  const healthy = providers.some(provider => provider.healthy);
+
+  const response: ApiResponse = {
+    success: healthy,
+    message: healthy ? 'Bitcoin data providers are available' : 'All Bitcoin data providers are cooling down',
+    data: {
+      providers,
+      timestamp: new Date().toISOString(),
+    },
+  };
+
+  res.status(healthy ? 200 : 503).json(response);
+}));
+
 export default router;
 
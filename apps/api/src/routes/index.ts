@@ -0,0 +1,33 @@
+import { RouteMount } from '../utils/openapi';
+import healthRoutes from './health';
+import authRoutes from './auth';
+import bridgeRoutes from './bridge';
+import bridgeTransactionsRoutes from './bridgeTransactions';
+import bitcoinRoutes from './bitcoin';
+import proofRoutes from './proofs';
+import ethereumRoutes from './ethereum';
+import zkRoutes from './zk';
+import payoutRoutes from './payouts';
+import signingRoutes from './signing';
+import custodyRoutes from './custody';
+import onchainRoutes from './onchain';
+import webhookRoutes from './webhooks';
+import eventRoutes from './events';
+
+// Every API router and where it is mounted, in order; the OpenAPI document is generated from these
+export const apiRoutes: RouteMount[] = [
+  { path: '/api/health', router: healthRoutes, tag: 'Health' },
+  { path: '/api/auth', router: authRoutes, tag: 'Auth' },
+  { path: '/api/bridge', router: bridgeRoutes, tag: 'Bridge' },
+  { path: '/api/bridge', router: bridgeTransactionsRoutes, tag: 'Bridge' },
+  { path: '/api/bitcoin', router: bitcoinRoutes, tag: 'Bitcoin' },
+  { path: '/api/proofs', router: proofRoutes, tag: 'Merkle Proofs' },
+  { path: '/api/ethereum', router: ethereumRoutes, tag: 'Ethereum' },
+  { path: '/api/zk', router: zkRoutes, tag: 'ZK Proofs' },
+  { path: '/api/payouts', router: payoutRoutes, tag: 'Payouts' },
+  { path: '/api/signing', router: signingRoutes, tag: 'Signing' },
+  { path: '/api/custody', router: custodyRoutes, tag: 'Custody' },
+  { path: '/api/onchain', router: onchainRoutes, tag: 'On-Chain Index' },
+  { path: '/api/webhooks', router: webhookRoutes, tag: 'Webhooks' },
+  { path: '/api/events', router: eventRoutes, tag: 'Events' },
+];
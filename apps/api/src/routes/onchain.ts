@@ -0,0 +1,156 @@
+import { Router } from 'express';
+import { param, query } from 'express-validator';
+import { apiDoc } from '../middleware/apiDoc';
+import { arrayOf, schemaRef } from '../utils/openapi';
+import { asyncHandler, CustomError } from '../middleware/errorHandler';
+import { validateRequest } from '../middleware/validation';
+import { ApiResponse } from '../types';
+import { ethereumIndexer } from '../services/ethereumIndexer';
+
+const router = Router();
+
+const pagination = [
+  query('limit').optional().isInt({ min: 1, max: 200 }),
+  query('offset').optional().isInt({ min: 0 }),
+];
+
+// GET /api/onchain/status - Indexer progress and lag behind the chain head
+router.get('/status', apiDoc({ summary: 'Ethereum event indexer progress and lag' }), asyncHandler(async (req, res) => {
+  const response: ApiResponse = {
+    success: true,
+    data: await ethereumIndexer.getStatus(),
+  };
+
+  res.json(response);
+}));
+
+// GET /api/onchain/bridges - Bridges recorded by BridgeContract, newest first
+router.get('/bridges', apiDoc({ summary: 'List BridgeContract bridges, newest first', response: arrayOf(schemaRef('IndexedBridge')) }), [
+  query('user').optional().isEthereumAddress(),
+  query('status').optional().isIn(['INITIATED', 'COMPLETED', 'CLAIMED', 'CANCELLED']),
+  query('btcTxHash').optional().matches(/^0x[0-9a-fA-F]{64}$/),
+  ...pagination,
+], validateRequest, asyncHandler(async (req, res) => {
+  const { user, status, btcTxHash, limit, offset } = req.query;
+
+  const result = await ethereumIndexer.listBridges({
+    user: user as string,
+    status: status as string,
+    btcTxHash: (btcTxHash as string)?.toLowerCase(),
+    limit: parseInt(limit as string) || 50,
+    offset: parseInt(offset as string) || 0,
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: result.bridges,
+    meta: {
+      total: result.total,
+      limit: parseInt(limit as string) || 50,
+      offset: parseInt(offset as string) || 0,
+    },
+  };
+
+  res.json(response);
+}));
+
+// GET /api/onchain/bridges/:bridgeId - A bridge with its events
+router.get('/bridges/:bridgeId', apiDoc({ summary: 'Get a BridgeContract bridge with its events' }), [
+  param('bridgeId').matches(/^0x[0-9a-fA-F]{64}$/),
+], validateRequest, asyncHandler(async (req, res) => {
+  const bridge = await ethereumIndexer.getBridge(req.params.bridgeId.toLowerCase());
+  if (!bridge) {
+    throw new CustomError('Bridge not found', 404);
+  }
+
+  const response: ApiResponse = {
+    success: true,
+    data: bridge,
+  };
+
+  res.json(response);
+}));
+
+// GET /api/onchain/transfers - WrappedBTC transfers to or from an address, including mints and burns
+router.get('/transfers', apiDoc({ summary: 'WrappedBTC transfers to or from an address, including mints and burns', response: arrayOf(schemaRef('ChainEvent')) }), [
+  query('address').isEthereumAddress(),
+  ...pagination,
+], validateRequest, asyncHandler(async (req, res) => {
+  const { address, limit, offset } = req.query;
+
+  const result = await ethereumIndexer.listEvents({
+    contract: 'WrappedBTC',
+    name: 'Transfer',
+    account: address as string,
+    limit: parseInt(limit as string) || 50,
+    offset: parseInt(offset as string) || 0,
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: result.events,
+    meta: {
+      total: result.total,
+      limit: parseInt(limit as string) || 50,
+      offset: parseInt(offset as string) || 0,
+    },
+  };
+
+  res.json(response);
+}));
+
+// GET /api/onchain/proofs/:proofHash - ProofVerifier verifications of a proof
+router.get('/proofs/:proofHash', apiDoc({ summary: 'ProofVerifier verifications of a proof', response: arrayOf(schemaRef('ChainEvent')) }), [
+  param('proofHash').matches(/^0x[0-9a-fA-F]{64}$/),
+], validateRequest, asyncHandler(async (req, res) => {
+  const result = await ethereumIndexer.listEvents({
+    contract: 'ProofVerifier',
+    name: 'ProofVerified',
+    key: req.params.proofHash.toLowerCase(),
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: result.events,
+  };
+
+  res.json(response);
+}));
+
+// GET /api/onchain/events - Indexed events by contract, name, address and block range
+router.get('/events', apiDoc({ summary: 'Indexed events by contract, name, address and block range', response: arrayOf(schemaRef('ChainEvent')) }), [
+  query('contract').optional().isIn(['BridgeContract', 'WrappedBTC', 'ProofVerifier']),
+  query('name').optional().isString(),
+  query('address').optional().isEthereumAddress(),
+  query('fromBlock').optional().isInt({ min: 0 }),
+  query('toBlock').optional().isInt({ min: 0 }),
+  query('confirmed').optional().isBoolean(),
+  ...pagination,
+], validateRequest, asyncHandler(async (req, res) => {
+  const { contract, name, address, fromBlock, toBlock, confirmed, limit, offset } = req.query;
+
+  const result = await ethereumIndexer.listEvents({
+    contract: contract as string,
+    name: name as string,
+    account: address as string,
+    fromBlock: fromBlock ? parseInt(fromBlock as string) : undefined,
+    toBlock: toBlock ? parseInt(toBlock as string) : undefined,
+    confirmed: confirmed !== undefined ? confirmed === 'true' : undefined,
+    limit: parseInt(limit as string) || 50,
+    offset: parseInt(offset as string) || 0,
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: result.events,
+    meta: {
+      total: result.total,
+      limit: parseInt(limit as string) || 50,
+      offset: parseInt(offset as string) || 0,
+    },
+  };
+
+  res.json(response);
+}));
+
+export default router;
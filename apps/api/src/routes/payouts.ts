@@ -0,0 +1,117 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { apiDoc } from '../middleware/apiDoc';
+import { asyncHandler, CustomError } from '../middleware/errorHandler';
+import { authenticateApiKey } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import { ApiResponse } from '../types';
+import { payoutService } from '../services/payoutService';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+// Payouts move custody funds, so every route is for operators only
+router.use(authenticateApiKey);
+
+// GET /api/payouts/batches - List payout batches
+router.get('/batches', apiDoc({ summary: 'List BTC payout batches' }), [
+  query('status').optional().isIn(['UNSIGNED', 'BROADCAST', 'CONFIRMED', 'REPLACED', 'FAILED']),
+  query('kind').optional().isIn(['PAYOUT', 'CONSOLIDATION', 'CPFP']),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+], validateRequest, asyncHandler(async (req, res) => {
+  const { status, kind, limit } = req.query;
+
+  const batches = await payoutService.getBatches(status as string, parseInt(limit as string) || 50, kind as string);
+
+  const response: ApiResponse = {
+    success: true,
+    data: batches,
+  };
+
+  res.json(response);
+}));
+
+// GET /api/payouts/batches/:id - Get a batch with its PSBT, withdrawals and inputs
+router.get('/batches/:id', apiDoc({ summary: 'Get a payout batch with its PSBT, withdrawals and inputs' }), [
+  param('id').isString().notEmpty(),
+], validateRequest, asyncHandler(async (req, res) => {
+  const batch = await payoutService.getBatch(req.params.id);
+
+  if (!batch) {
+    throw new CustomError('Payout batch not found', 404);
+  }
+
+  const response: ApiResponse = {
+    success: true,
+    data: batch,
+  };
+
+  res.json(response);
+}));
+
+// POST /api/payouts/batches/:id/signatures - Merge a signed PSBT; broadcasts once fully signed
+router.post('/batches/:id/signatures', apiDoc({ summary: 'Submit a signed payout PSBT; broadcasts once fully signed' }), [
+  param('id').isString().notEmpty(),
+  body('psbt').notEmpty().isBase64().withMessage('PSBT must be base64'),
+], validateRequest, asyncHandler(async (req, res) => {
+  const { id } = req.params;
+
+  logger.info('Signed payout PSBT submitted', { batchId: id });
+
+  const { batch, complete } = await payoutService.submitSignedPsbt(id, req.body.psbt);
+
+  const response: ApiResponse = {
+    success: true,
+    data: batch,
+    message: complete ? 'Payout broadcast' : 'Signatures recorded, payout still needs signatures',
+  };
+
+  res.json(response);
+}));
+
+// POST /api/payouts/batches/:id/rbf - Replace a stuck broadcast batch at a higher fee rate
+router.post('/batches/:id/rbf', apiDoc({ summary: 'Replace a stuck payout at a higher fee rate', status: 201 }), [
+  param('id').isString().notEmpty(),
+  body('feeRate').isFloat({ min: 1, max: 10000 }).withMessage('Fee rate must be in sat/vB'),
+], validateRequest, asyncHandler(async (req, res) => {
+  const replacement = await payoutService.bumpFee(req.params.id, parseFloat(req.body.feeRate));
+
+  const response: ApiResponse = {
+    success: true,
+    data: replacement,
+    message: 'Replacement batch built, awaiting signatures',
+  };
+
+  res.status(201).json(response);
+}));
+
+// POST /api/payouts/batches/:id/cpfp - Bump a stuck broadcast batch with a child spending its change
+router.post('/batches/:id/cpfp', apiDoc({ summary: 'Bump a stuck payout with a child spending its change', status: 201 }), [
+  param('id').isString().notEmpty(),
+  body('feeRate').isFloat({ min: 1, max: 10000 }).withMessage('Fee rate must be in sat/vB'),
+], validateRequest, asyncHandler(async (req, res) => {
+  const child = await payoutService.cpfp(req.params.id, parseFloat(req.body.feeRate));
+
+  const response: ApiResponse = {
+    success: true,
+    data: child,
+    message: 'Child batch built, awaiting signatures',
+  };
+
+  res.status(201).json(response);
+}));
+
+// POST /api/payouts/run - Run a payout round now instead of waiting for the interval
+router.post('/run', apiDoc({ summary: 'Run a payout round now' }), asyncHandler(async (req, res) => {
+  await payoutService.runOnce();
+
+  const response: ApiResponse = {
+    success: true,
+    data: await payoutService.getBatches('UNSIGNED'),
+    message: 'Payout round completed',
+  };
+
+  res.json(response);
+}));
+
+export default router;
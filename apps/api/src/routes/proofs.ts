@@ -0,0 +1,84 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import { apiDoc } from '../middleware/apiDoc';
+import { asyncHandler, CustomError } from '../middleware/errorHandler';
+import { validateRequest } from '../middleware/validation';
+import { ApiResponse } from '../types';
+import { bitcoinTestnetService, MerkleProof } from '../services/bitcoinTestnetService';
+import { rateLimit } from 'express-rate-limit';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+// Rate limiting for Merkle proof API, as for the Bitcoin API
+const proofRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 100, // limit each IP to 100 requests per windowMs
+  message: 'Too many Merkle proof requests, please try again later.',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+router.use(proofRateLimit);
+
+// POST /api/proofs/generate - Generate Merkle proof
+router.post('/generate', apiDoc({ summary: 'Generate a Merkle proof' }), [
+  body('txid').isString().notEmpty().withMessage('Transaction ID is required'),
+  body('blockHash').optional().isString().withMessage('Block hash must be a string'),
+], validateRequest, asyncHandler(async (req, res) => {
+  const { txid, blockHash } = req.body;
+
+  logger.info('Merkle proof generation requested', { txid, blockHash });
+
+  try {
+    const merkleProof = await bitcoinTestnetService.generateMerkleProof(txid);
+
+    const response: ApiResponse<MerkleProof> = {
+      success: true,
+      data: merkleProof,
+      message: 'Merkle proof generated successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    logger.error('Merkle proof generation error:', error);
+    throw new CustomError('Failed to generate Merkle proof', 500);
+  }
+}));
+
+// POST /api/proofs/verify - Verify Merkle proof
+router.post('/verify', apiDoc({ summary: 'Verify a Merkle proof' }), [
+  body('leaf').isString().notEmpty().withMessage('Leaf is required'),
+  body('path').isArray().withMessage('Path must be an array'),
+  body('indices').isArray().withMessage('Indices must be an array'),
+  body('root').isString().notEmpty().withMessage('Root is required'),
+], validateRequest, asyncHandler(async (req, res) => {
+  const { leaf, path, indices, root } = req.body;
+
+  logger.info('Merkle proof verification requested', { leaf, root });
+
+  try {
+    const merkleProof: MerkleProof = { 
+      merkleRoot: root, 
+      proofPath: path, 
+      proofIndex: indices[0] || 0, 
+      transactionHash: leaf, 
+      blockHeight: 0, 
+      blockHash: '' 
+    };
+    const isValid = bitcoinTestnetService.verifyMerkleProof(merkleProof);
+
+    const response: ApiResponse<{ isValid: boolean }> = {
+      success: true,
+      data: { isValid },
+      message: isValid ? 'Merkle proof verified successfully' : 'Merkle proof verification failed'
+    };
+
+    res.json(response);
+  } catch (error) {
+    logger.error('Merkle proof verification error:', error);
+    throw new CustomError('Failed to verify Merkle proof', 500);
+  }
+}));
+
+export default router;
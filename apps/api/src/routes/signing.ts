@@ -0,0 +1,177 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { apiDoc } from '../middleware/apiDoc';
+import { asyncHandler, CustomError } from '../middleware/errorHandler';
+import { authenticateApiKey, authenticateSigner, SignerRequest } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import { ApiResponse } from '../types';
+import { payoutService } from '../services/payoutService';
+import { signingCoordinator } from '../services/signingCoordinator';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+// Signer routes authenticate with the signer's own key (X-Signer-Key)
+
+// GET /api/signing/requests/pending - Signing requests waiting on the calling signer
+router.get('/requests/pending', apiDoc({ summary: 'Signing requests waiting on the calling signer' }), authenticateSigner, asyncHandler(async (req: SignerRequest, res) => {
+  const requests = await signingCoordinator.getPendingForSigner(req.signer!);
+
+  const response: ApiResponse = {
+    success: true,
+    data: requests,
+  };
+
+  res.json(response);
+}));
+
+// POST /api/signing/requests/:id/signature - Submit the calling signer's partially signed PSBT
+router.post('/requests/:id/signature', apiDoc({ summary: 'Submit a partially signed PSBT' }), authenticateSigner, [
+  param('id').isString().notEmpty(),
+  body('psbt').notEmpty().isBase64().withMessage('PSBT must be base64'),
+], validateRequest, asyncHandler(async (req: SignerRequest, res) => {
+  const { id } = req.params;
+
+  logger.info('Signer PSBT submitted', { requestId: id, signer: req.signer!.name });
+
+  const { batch, complete } = await payoutService.submitSignerPsbt(req.signer!, id, req.body.psbt);
+
+  const response: ApiResponse = {
+    success: true,
+    data: { requestId: id, batchId: batch.id, txid: batch.txid, complete },
+    message: complete ? 'Threshold reached, payout broadcast' : 'Signature recorded',
+  };
+
+  res.json(response);
+}));
+
+// POST /api/signing/requests/:id/reject - Decline to sign a request
+router.post('/requests/:id/reject', apiDoc({ summary: 'Decline a signing request' }), authenticateSigner, [
+  param('id').isString().notEmpty(),
+  body('reason').isString().trim().isLength({ min: 1, max: 500 }),
+], validateRequest, asyncHandler(async (req: SignerRequest, res) => {
+  const request = await signingCoordinator.rejectRequest(req.signer!, req.params.id, req.body.reason);
+
+  const response: ApiResponse = {
+    success: true,
+    data: request,
+    message: 'Rejection recorded',
+  };
+
+  res.json(response);
+}));
+
+// Operator routes authenticate with an API key (X-API-Key)
+
+// POST /api/signing/signers - Register a signer; its key is only returned here
+router.post('/signers', apiDoc({ summary: 'Register a custody signer; its key is only returned here', status: 201 }), authenticateApiKey, [
+  body('name').isString().trim().isLength({ min: 1, max: 100 }),
+  body('publicKey').matches(/^0[23][0-9a-fA-F]{64}$/).withMessage('Public key must be a compressed secp256k1 key in hex'),
+], validateRequest, asyncHandler(async (req, res) => {
+  const { signer, apiKey } = await signingCoordinator.registerSigner(req.body.name, req.body.publicKey);
+
+  const response: ApiResponse = {
+    success: true,
+    data: { id: signer.id, name: signer.name, publicKey: signer.publicKey, status: signer.status, apiKey },
+    message: 'Signer registered. Store the API key now, it cannot be retrieved again',
+  };
+
+  res.status(201).json(response);
+}));
+
+// GET /api/signing/signers - List signers
+router.get('/signers', apiDoc({ summary: 'List custody signers' }), authenticateApiKey, asyncHandler(async (req, res) => {
+  const response: ApiResponse = {
+    success: true,
+    data: await signingCoordinator.listSigners(),
+  };
+
+  res.json(response);
+}));
+
+// PATCH /api/signing/signers/:id - Enable or disable a signer
+router.patch('/signers/:id', apiDoc({ summary: 'Enable or disable a signer' }), authenticateApiKey, [
+  param('id').isString().notEmpty(),
+  body('status').isIn(['ACTIVE', 'DISABLED']),
+], validateRequest, asyncHandler(async (req, res) => {
+  const signer = await signingCoordinator.setSignerStatus(req.params.id, req.body.status);
+
+  const response: ApiResponse = {
+    success: true,
+    data: signer,
+    message: 'Signer updated. The custody address changes with the signer set',
+  };
+
+  res.json(response);
+}));
+
+// GET /api/signing/custody - Multisig custody address for the current signer set
+router.get('/custody', apiDoc({ summary: 'Multisig custody address for the current signer set' }), authenticateApiKey, asyncHandler(async (req, res) => {
+  const custody = await signingCoordinator.getMultisigCustody();
+
+  if (!custody) {
+    throw new CustomError('Multisig custody is not configured or has too few active signers', 404);
+  }
+
+  const response: ApiResponse = {
+    success: true,
+    data: { ...custody, witnessScript: custody.witnessScript.toString('hex') },
+  };
+
+  res.json(response);
+}));
+
+// GET /api/signing/requests - List signing requests with per-signer status
+router.get('/requests', apiDoc({ summary: 'List signing requests with per-signer status' }), authenticateApiKey, [
+  query('status').optional().isIn(['PENDING', 'COMPLETED', 'EXPIRED', 'FAILED']),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+], validateRequest, asyncHandler(async (req, res) => {
+  const { status, limit } = req.query;
+
+  const response: ApiResponse = {
+    success: true,
+    data: await signingCoordinator.listRequests(status as string, parseInt(limit as string) || 50),
+  };
+
+  res.json(response);
+}));
+
+// GET /api/signing/requests/:id - Get a signing request with per-signer status and audit trail
+router.get('/requests/:id', apiDoc({ summary: 'Get a signing request with per-signer status and audit trail' }), authenticateApiKey, [
+  param('id').isString().notEmpty(),
+], validateRequest, asyncHandler(async (req, res) => {
+  const request = await signingCoordinator.getRequest(req.params.id);
+
+  if (!request) {
+    throw new CustomError('Signing request not found', 404);
+  }
+
+  const response: ApiResponse = {
+    success: true,
+    data: request,
+  };
+
+  res.json(response);
+}));
+
+// GET /api/signing/audit - Audit trail, optionally for one request or signer
+router.get('/audit', apiDoc({ summary: 'Signing audit trail, optionally for one request or signer' }), authenticateApiKey, [
+  query('requestId').optional().isString(),
+  query('signerId').optional().isString(),
+  query('limit').optional().isInt({ min: 1, max: 500 }),
+], validateRequest, asyncHandler(async (req, res) => {
+  const { requestId, signerId, limit } = req.query;
+
+  const response: ApiResponse = {
+    success: true,
+    data: await signingCoordinator.getAuditTrail({
+      requestId: requestId as string,
+      signerId: signerId as string,
+      limit: parseInt(limit as string) || 100,
+    }),
+  };
+
+  res.json(response);
+}));
+
+export default router;
@@ -0,0 +1,181 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { apiDoc } from '../middleware/apiDoc';
+import { arrayOf, schemaRef } from '../utils/openapi';
+import { asyncHandler, CustomError } from '../middleware/errorHandler';
+import { authenticateApiKey } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import { ApiResponse } from '../types';
+import { webhookService } from '../services/webhookService';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+// Subscriptions receive every bridge event, so every route is for operators only
+router.use(authenticateApiKey);
+
+const urlValidator = (field: ReturnType<typeof body>) =>
+  field.isURL({ protocols: ['http', 'https'], require_protocol: true, require_tld: false }).withMessage('URL must be http or https');
+
+const eventsValidator = (field: ReturnType<typeof body>) =>
+  field.isArray().withMessage('Events must be an array of event types, or ["*"] for all')
+    .custom((events: unknown[]) => events.every(event => typeof event === 'string' && event.length > 0))
+    .withMessage('Events must be non-empty strings');
+
+// POST /api/webhooks - Register a subscription; the signing secret is only returned here
+router.post('/', apiDoc({ summary: 'Subscribe a URL to bridge transaction events; the signing secret is only returned here', status: 201, response: schemaRef('WebhookSubscription') }), [
+  urlValidator(body('url')),
+  eventsValidator(body('events').optional()),
+  body('description').optional().isString().isLength({ max: 255 }),
+], validateRequest, asyncHandler(async (req, res) => {
+  const { url, events, description } = req.body;
+
+  const subscription = await webhookService.createSubscription({ url, events, description });
+
+  const response: ApiResponse = {
+    success: true,
+    data: subscription,
+    message: 'Webhook subscription created. Store the secret now, it is not shown again',
+  };
+
+  res.status(201).json(response);
+}));
+
+// GET /api/webhooks - List subscriptions
+router.get('/', apiDoc({ summary: 'List webhook subscriptions', response: arrayOf(schemaRef('WebhookSubscription')) }), asyncHandler(async (req, res) => {
+  const subscriptions = await webhookService.listSubscriptions();
+
+  const response: ApiResponse = {
+    success: true,
+    data: subscriptions,
+  };
+
+  res.json(response);
+}));
+
+// GET /api/webhooks/:id - Get a subscription
+router.get('/:id', apiDoc({ summary: 'Get a webhook subscription', response: schemaRef('WebhookSubscription') }), [
+  param('id').isString().notEmpty(),
+], validateRequest, asyncHandler(async (req, res) => {
+  const subscription = await webhookService.getSubscription(req.params.id);
+
+  if (!subscription) {
+    throw new CustomError('Webhook subscription not found', 404);
+  }
+
+  const response: ApiResponse = {
+    success: true,
+    data: subscription,
+  };
+
+  res.json(response);
+}));
+
+// PATCH /api/webhooks/:id - Change the URL or event filter, or pause and resume deliveries
+router.patch('/:id', apiDoc({ summary: 'Change the URL or event filter, or pause and resume deliveries', response: schemaRef('WebhookSubscription') }), [
+  param('id').isString().notEmpty(),
+  urlValidator(body('url').optional()),
+  eventsValidator(body('events').optional()),
+  body('description').optional().isString().isLength({ max: 255 }),
+  body('active').optional().isBoolean(),
+], validateRequest, asyncHandler(async (req, res) => {
+  const { url, events, description, active } = req.body;
+
+  const subscription = await webhookService.updateSubscription(req.params.id, { url, events, description, active });
+
+  if (!subscription) {
+    throw new CustomError('Webhook subscription not found', 404);
+  }
+
+  logger.info('Webhook subscription updated', { subscriptionId: subscription.id, active: subscription.active });
+
+  const response: ApiResponse = {
+    success: true,
+    data: subscription,
+  };
+
+  res.json(response);
+}));
+
+// DELETE /api/webhooks/:id - Remove a subscription and its delivery log
+router.delete('/:id', apiDoc({ summary: 'Delete a subscription and its delivery log' }), [
+  param('id').isString().notEmpty(),
+], validateRequest, asyncHandler(async (req, res) => {
+  const deleted = await webhookService.deleteSubscription(req.params.id);
+
+  if (!deleted) {
+    throw new CustomError('Webhook subscription not found', 404);
+  }
+
+  logger.info('Webhook subscription deleted', { subscriptionId: req.params.id });
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Webhook subscription deleted',
+  };
+
+  res.json(response);
+}));
+
+// GET /api/webhooks/:id/deliveries - Delivery log, newest first
+router.get('/:id/deliveries', apiDoc({ summary: 'Delivery log of a subscription, newest first', response: arrayOf(schemaRef('WebhookDelivery')) }), [
+  param('id').isString().notEmpty(),
+  query('status').optional().isIn(['PENDING', 'DELIVERED', 'FAILED']),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+  query('offset').optional().isInt({ min: 0 }),
+], validateRequest, asyncHandler(async (req, res) => {
+  const subscription = await webhookService.getSubscription(req.params.id);
+
+  if (!subscription) {
+    throw new CustomError('Webhook subscription not found', 404);
+  }
+
+  const limit = parseInt(req.query.limit as string) || 50;
+  const offset = parseInt(req.query.offset as string) || 0;
+
+  const { deliveries, total } = await webhookService.listDeliveries(subscription.id, {
+    status: req.query.status as string,
+    limit,
+    offset,
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: deliveries,
+    meta: {
+      total,
+      limit,
+      offset,
+    },
+  };
+
+  res.json(response);
+}));
+
+// POST /api/webhooks/:id/deliveries/:deliveryId/redeliver - Send a logged event again now
+router.post('/:id/deliveries/:deliveryId/redeliver', apiDoc({ summary: 'Send a logged event again now', status: 201, response: schemaRef('WebhookDelivery') }), [
+  param('id').isString().notEmpty(),
+  param('deliveryId').isString().notEmpty(),
+], validateRequest, asyncHandler(async (req, res) => {
+  const delivery = await webhookService.redeliver(req.params.id, req.params.deliveryId);
+
+  if (!delivery) {
+    throw new CustomError('Webhook delivery not found', 404);
+  }
+
+  const messages: Record<string, string> = {
+    DELIVERED: 'Event redelivered',
+    PENDING: 'Redelivery failed, it will be retried',
+    FAILED: 'Redelivery failed',
+  };
+
+  const response: ApiResponse = {
+    success: true,
+    data: delivery,
+    message: messages[delivery.status],
+  };
+
+  res.status(201).json(response);
+}));
+
+export default router;
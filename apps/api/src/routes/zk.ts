@@ -1,12 +1,17 @@
 import { Router } from 'express';
-import { body, validationResult } from 'express-validator';
+import { body } from 'express-validator';
+import { apiDoc } from '../middleware/apiDoc';
 import { asyncHandler, CustomError } from '../middleware/errorHandler';
+import { validateRequest } from '../middleware/validation';
 import { ApiResponse, ZKProof } from '../types';
 import { ZKProofService } from '../services/zkProofService';
+import { ZKService } from '../services/zkService';
 import { rateLimit } from 'express-rate-limit';
 import { logger } from '../utils/logger';
 
 const router = Router();
+// Demo proofs of user-supplied inputs; bridge deposits are proven by zkProofService
+const zkService = new ZKService();
 const zkProofService = new ZKProofService();
 
 // Rate limiting for ZK API (more restrictive due to computational cost)
@@ -21,21 +26,8 @@ const zkRateLimit = rateLimit({
 // Apply rate limiting to all ZK routes
 router.use(zkRateLimit);
 
-// Input validation middleware
-const validateRequest = (req: any, res: any, next: any) => {
-  const errors = validationResult(req);
-  if (!errors.isEmpty()) {
-    return res.status(400).json({
-      success: false,
-      error: 'Validation failed',
-      details: errors.array()
-    });
-  }
-  next();
-};
-
 // POST /api/zk/prove - Generate ZK proof
-router.post('/prove', [
+router.post('/prove', apiDoc({ summary: 'Generate a ZK proof' }), [
   body('secret').isString().notEmpty().withMessage('Secret is required'),
   body('publicInput').isString().notEmpty().withMessage('Public input is required'),
   body('additionalData').optional().isObject().withMessage('Additional data must be an object'),
@@ -49,7 +41,7 @@ router.post('/prove', [
   });
 
   try {
-    const proof = await zkProofService.generateProof(secret, publicInput, additionalData);
+    const proof = await zkService.generateProof(secret, publicInput);
 
     const response: ApiResponse<ZKProof> = {
       success: true,
@@ -65,7 +57,7 @@ router.post('/prove', [
 }));
 
 // POST /api/zk/verify - Verify ZK proof
-router.post('/verify', [
+router.post('/verify', apiDoc({ summary: 'Verify a ZK proof' }), [
   body('proof').isObject().withMessage('Proof must be an object'),
   body('publicSignals').isArray().withMessage('Public signals must be an array'),
 ], validateRequest, asyncHandler(async (req, res) => {
@@ -93,7 +85,7 @@ router.post('/verify', [
 }));
 
 // POST /api/zk/bridge-proof - Generate bridge-specific ZK proof
-router.post('/bridge-proof', [
+router.post('/bridge-proof', apiDoc({ summary: 'Generate a bridge ZK proof' }), [
   body('bitcoinTxData').isObject().withMessage('Bitcoin transaction data is required'),
   body('bitcoinTxData.txid').isString().notEmpty().withMessage('Bitcoin transaction ID is required'),
   body('bitcoinTxData.amount').isNumeric().withMessage('Bitcoin amount must be numeric'),
@@ -111,7 +103,7 @@ router.post('/bridge-proof', [
   });
 
   try {
-    const proof = await zkProofService.generateBridgeProof(bitcoinTxData, ethereumData);
+    const proof = await zkService.generateBridgeProof(bitcoinTxData, ethereumData);
 
     const response: ApiResponse<ZKProof> = {
       success: true,
@@ -127,7 +119,7 @@ router.post('/bridge-proof', [
 }));
 
 // POST /api/zk/verify-bridge-proof - Verify bridge-specific ZK proof
-router.post('/verify-bridge-proof', [
+router.post('/verify-bridge-proof', apiDoc({ summary: 'Verify a bridge ZK proof' }), [
   body('proof').isObject().withMessage('Proof must be an object'),
   body('expectedData').isObject().withMessage('Expected data is required'),
   body('expectedData.bitcoinTxHash').isString().notEmpty().withMessage('Bitcoin transaction hash is required'),
@@ -143,12 +135,7 @@ router.post('/verify-bridge-proof', [
   });
 
   try {
-    const zkProof: ZKProof = {
-      proof,
-      publicSignals: [] // This would be extracted from the proof in a real implementation
-    };
-
-    const isValid = await zkProofService.verifyBridgeProof(zkProof, expectedData);
+    const isValid = await zkService.verifyBridgeProof(proof, expectedData);
 
     const response: ApiResponse<{ isValid: boolean }> = {
       success: true,
@@ -164,7 +151,7 @@ router.post('/verify-bridge-proof', [
 }));
 
 // POST /api/zk/demo/proof-of-knowledge - Demo proof of knowledge
-router.post('/demo/proof-of-knowledge', [
+router.post('/demo/proof-of-knowledge', apiDoc({ summary: 'Demo proof of knowledge' }), [
   body('secret').isString().notEmpty().withMessage('Secret is required'),
 ], validateRequest, asyncHandler(async (req, res) => {
   const { secret } = req.body;
@@ -172,7 +159,7 @@ router.post('/demo/proof-of-knowledge', [
   logger.info('Demo proof of knowledge requested', { secretLength: secret.length });
 
   try {
-    const result = await zkProofService.demoProofOfKnowledge(secret);
+    const result = await zkService.demoProofOfKnowledge(secret);
 
     const response: ApiResponse = {
       success: true,
@@ -192,7 +179,7 @@ router.post('/demo/proof-of-knowledge', [
 }));
 
 // POST /api/zk/generate-witness - Generate witness for circuit
-router.post('/generate-witness', [
+router.post('/generate-witness', apiDoc({ summary: 'Generate a witness for a circuit' }), [
   body('inputs').isObject().withMessage('Inputs must be an object'),
   body('inputs.secret').optional().isString().withMessage('Secret must be a string'),
   body('inputs.publicInput').optional().isString().withMessage('Public input must be a string'),
@@ -207,7 +194,7 @@ router.post('/generate-witness', [
   });
 
   try {
-    const witness = await zkProofService.generateWitness(inputs);
+    const witness = await zkService.generateWitness(inputs);
 
     const response: ApiResponse<{ witness: any }> = {
       success: true,
@@ -223,7 +210,7 @@ router.post('/generate-witness', [
 }));
 
 // GET /api/zk/circuit-info - Get circuit information
-router.get('/circuit-info', asyncHandler(async (req, res) => {
+router.get('/circuit-info', apiDoc({ summary: 'Get circuit information' }), asyncHandler(async (req, res) => {
   logger.info('Circuit info requested');
 
   try {
@@ -243,7 +230,7 @@ router.get('/circuit-info', asyncHandler(async (req, res) => {
 }));
 
 // GET /api/zk/health - Check ZK service health
-router.get('/health', asyncHandler(async (req, res) => {
+router.get('/health', apiDoc({ summary: 'ZK service health check' }), asyncHandler(async (req, res) => {
   logger.info('ZK service health check requested');
 
   try {
@@ -0,0 +1,49 @@
+import * as path from 'path';
+import * as bitcoin from 'bitcoinjs-lib';
+import { FixtureChainBuilder } from '../services/bitcoinProviders';
+import { buildBridgePayloadScript, EXPECTED_CHAIN_ID } from '../services/bridgePayload';
+
+/**
+ * Writes the deterministic demo chain used with BITCOIN_PROVIDERS=fixture:<dir>.
+ *
+ * Usage: npm run fixtures:bitcoin [-- <output directory>]
+ */
+
+const network = bitcoin.networks.testnet;
+const address = (fill: number) => bitcoin.payments.p2wpkh({ hash: Buffer.alloc(20, fill), network }).address!;
+
+const outputDirectory = path.resolve(process.argv[2] || 'fixtures/bitcoin');
+const bridgeAddress = address(0xb1);
+const depositor = address(0xd0);
+const recipient = '0x000000000000000000000000000000000000dEaD';
+const payload = { script: buildBridgePayloadScript({ recipient, chainId: EXPECTED_CHAIN_ID }), value: 0 };
+
+const chain = new FixtureChainBuilder({ startHeight: 2500000, startTime: 1700000000 });
+
+// Deep enough to pass the default 6-confirmation threshold
+const settled = chain.addTransaction({ from: depositor, outputs: [{ address: bridgeAddress, value: 100000 }, payload] });
+chain.mineBlocks(7);
+
+// Confirmed, but still waiting for depth
+const confirming = chain.addTransaction({
+  from: depositor,
+  outputs: [
+    { address: bridgeAddress, value: 250000 },
+    { address: depositor, value: 740000 },
+    payload,
+  ],
+});
+// Leaves the settled deposit's block ten below the tip, where /api/bitcoin/sample-transactions looks
+chain.mineBlocks(4);
+
+// Never mined
+const pending = chain.addTransaction({ from: depositor, outputs: [{ address: bridgeAddress, value: 50000 }, payload] });
+
+chain.writeToDirectory(outputDirectory);
+
+console.log(`Wrote Bitcoin fixtures to ${outputDirectory}`);
+console.log(`  bridge address: ${bridgeAddress}`);
+console.log(`  recipient:      ${recipient} (chain ${EXPECTED_CHAIN_ID})`);
+console.log(`  settled deposit:    ${settled.txid}`);
+console.log(`  confirming deposit: ${confirming.txid}`);
+console.log(`  pending deposit:    ${pending.txid}`);
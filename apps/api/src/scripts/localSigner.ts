@@ -0,0 +1,112 @@
+import { randomBytes } from 'crypto';
+import axios from 'axios';
+import dotenv from 'dotenv';
+import * as bitcoin from 'bitcoinjs-lib';
+import * as ecc from 'tiny-secp256k1';
+import { logger } from '../utils/logger';
+
+dotenv.config();
+
+/**
+ * Local stand-in for a custody signer, for development and test networks.
+ *
+ * Polls the signing API for pending requests, signs every input whose
+ * witness script includes its key and submits the partially signed PSBT.
+ * Run one per registered signer:
+ *
+ *   npm run signer:local -- --generate   print a new keypair to register
+ *   npm run signer:local                 sign until stopped
+ *   npm run signer:local -- --once       sign what is pending and exit
+ *
+ * Real signers keep their key on separate hardware and review each payout
+ * before signing; this one signs whatever it is sent.
+ */
+
+const apiUrl = process.env.SIGNER_API_URL || 'http://localhost:3001/api';
+const pollIntervalMs = parseInt(process.env.SIGNER_POLL_INTERVAL_MS || '10000');
+const network = process.env.BITCOIN_NETWORK === 'mainnet' ? bitcoin.networks.bitcoin : bitcoin.networks.testnet;
+
+interface PendingRequest {
+  requestId: string;
+  batchId: string;
+  psbt: string;
+}
+
+function loadSigner(): bitcoin.Signer {
+  const privateKey = Buffer.from(process.env.SIGNER_PRIVATE_KEY || '', 'hex');
+  if (!ecc.isPrivate(privateKey)) {
+    throw new Error('SIGNER_PRIVATE_KEY must be a 32-byte secp256k1 private key in hex');
+  }
+
+  return {
+    publicKey: Buffer.from(ecc.pointFromScalar(privateKey, true)!),
+    sign: (hash: Buffer) => Buffer.from(ecc.sign(hash, privateKey)),
+  };
+}
+
+async function signPending(signer: bitcoin.Signer, apiKey: string): Promise<void> {
+  const headers = { 'X-Signer-Key': apiKey };
+  const { data } = await axios.get(`${apiUrl}/signing/requests/pending`, { headers });
+
+  for (const request of data.data as PendingRequest[]) {
+    const psbt = bitcoin.Psbt.fromBase64(request.psbt, { network });
+
+    psbt.data.inputs.forEach((input, index) => {
+      const chunks = input.witnessScript ? bitcoin.script.decompile(input.witnessScript) || [] : [];
+      if (chunks.some(chunk => Buffer.isBuffer(chunk) && chunk.equals(signer.publicKey))) {
+        psbt.signInput(index, signer);
+      }
+    });
+
+    try {
+      const response = await axios.post(
+        `${apiUrl}/signing/requests/${request.requestId}/signature`,
+        { psbt: psbt.toBase64() },
+        { headers }
+      );
+      logger.info('Signed payout batch', { requestId: request.requestId, batchId: request.batchId, ...response.data.data });
+    } catch (error) {
+      const message = axios.isAxiosError(error) ? error.response?.data?.message || error.message : error;
+      logger.error('Signature was not accepted', { requestId: request.requestId, error: message });
+    }
+  }
+}
+
+async function main() {
+  if (process.argv.includes('--generate')) {
+    const privateKey = randomBytes(32);
+    console.log(`SIGNER_PRIVATE_KEY=${privateKey.toString('hex')}`);
+    console.log(`publicKey=${Buffer.from(ecc.pointFromScalar(privateKey, true)!).toString('hex')}`);
+    return;
+  }
+
+  const apiKey = process.env.SIGNER_API_KEY;
+  if (!apiKey) {
+    throw new Error('SIGNER_API_KEY is required; it is returned when the signer is registered');
+  }
+
+  const signer = loadSigner();
+  logger.info('Local signer started', { publicKey: signer.publicKey.toString('hex'), apiUrl });
+
+  if (process.argv.includes('--once')) {
+    await signPending(signer, apiKey);
+    return;
+  }
+
+  for (;;) {
+    try {
+      await signPending(signer, apiKey);
+    } catch (error) {
+      logger.warn('Signing poll failed', { error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+    await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+  }
+}
+
+process.on('SIGINT', () => process.exit(0));
+process.on('SIGTERM', () => process.exit(0));
+
+main().catch((error) => {
+  logger.error('Local signer failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,35 @@
+import dotenv from 'dotenv';
+import { connectDatabase, disconnectDatabase } from '../config/database';
+import { btcRelayer } from '../services/btcRelayer';
+import { transactionMonitor } from '../services/transactionSender';
+import { logger } from '../utils/logger';
+
+dotenv.config();
+
+async function main() {
+  await connectDatabase();
+
+  if (!btcRelayer.isConfigured()) {
+    logger.error('BTC relayer requires BTC_RELAY_ADDRESS and BTC_RELAYER_PRIVATE_KEY (or ETHEREUM_PRIVATE_KEY)');
+    process.exit(1);
+  }
+
+  btcRelayer.start();
+  transactionMonitor.start();
+}
+
+async function shutdown(signal: string) {
+  logger.info(`${signal} received, stopping BTC relayer`);
+  btcRelayer.stop();
+  transactionMonitor.stop();
+  await disconnectDatabase().catch(() => undefined);
+  process.exit(0);
+}
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
+
+main().catch((error) => {
+  logger.error('BTC relayer failed to start:', error);
+  process.exit(1);
+});
@@ -0,0 +1,241 @@
+import { createHash, randomBytes } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { getAddress, verifyMessage } from 'ethers';
+import { User } from '@prisma/client';
+import { parseSiweMessage, SiweMessage, SiweMessageError } from '@zkbridge/shared';
+import { getPrismaClient } from '../config/database';
+import { EXPECTED_CHAIN_ID } from './bridgePayload';
+import { logger } from '../utils/logger';
+
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Sign-in failures; 401 unless the request itself was malformed
+export class AuthError extends Error {
+  constructor(message: string, readonly statusCode = 401) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+export interface AuthSession {
+  accessToken: string;
+  tokenType: 'Bearer';
+  // Seconds until the access token expires
+  expiresIn: number;
+  // Single use: every refresh returns a new one
+  refreshToken: string;
+  refreshExpiresAt: Date;
+  user: { id: string; address: string };
+}
+
+/**
+ * Sign-In with Ethereum (EIP-4361) and the tokens it issues.
+ *
+ * A client fetches a nonce, has the wallet sign a SIWE message containing it,
+ * and exchanges the message and signature for a short-lived access JWT (read
+ * by authenticateToken) and a refresh token. The message must be for one of
+ * the SIWE_DOMAIN hosts and the bridge's chain, and each nonce signs in once.
+ * Users are created on their first sign-in, keyed by checksummed address.
+ *
+ * Refresh tokens rotate: using one revokes it and issues the next. A revoked
+ * token that comes back means it was copied, so every session of its user is
+ * revoked. Access tokens stay valid until they expire, even after logout.
+ */
+export class AuthService {
+  private prisma = getPrismaClient();
+  private readonly domains = (process.env.SIWE_DOMAIN || new URL(process.env.FRONTEND_URL || 'http://localhost:3000').host)
+    .split(',').map(domain => domain.trim()).filter(Boolean);
+  private readonly nonceTtlMs = parseInt(process.env.SIWE_NONCE_TTL_MS || '600000');
+  private readonly accessTokenTtlMs = parseInt(process.env.JWT_ACCESS_TOKEN_TTL_MS || '900000');
+  private readonly refreshTokenTtlMs = parseInt(process.env.JWT_REFRESH_TOKEN_TTL_MS || '2592000000');
+  private lastPrunedAt = 0;
+
+  /**
+   * A nonce for the next sign-in message
+   */
+  async issueNonce(): Promise<{ nonce: string; expiresAt: Date }> {
+    await this.pruneExpired();
+
+    const nonce = randomBytes(16).toString('hex');
+    const { expiresAt } = await this.prisma.authNonce.create({
+      data: { nonce, expiresAt: new Date(Date.now() + this.nonceTtlMs) },
+    });
+
+    return { nonce, expiresAt };
+  }
+
+  /**
+   * Check a signed SIWE message and sign its address in
+   */
+  async verify(message: string, signature: string): Promise<AuthSession> {
+    const secret = jwtSecret();
+
+    let siwe: SiweMessage;
+    let address: string;
+    try {
+      siwe = parseSiweMessage(message);
+      address = getAddress(siwe.address);
+    } catch (error) {
+      if (error instanceof SiweMessageError) {
+        throw new AuthError(`Invalid sign-in message: ${error.message}`, 400);
+      }
+      throw new AuthError('Invalid sign-in message: address checksum does not match', 400);
+    }
+
+    if (!this.domains.includes(siwe.domain)) {
+      throw new AuthError(`Sign-in message is for ${siwe.domain}, not this bridge`);
+    }
+    if (siwe.chainId !== EXPECTED_CHAIN_ID) {
+      throw new AuthError(`Sign-in message is for chain ${siwe.chainId}, expected ${EXPECTED_CHAIN_ID}`);
+    }
+
+    const now = new Date();
+    if (siwe.expirationTime && new Date(siwe.expirationTime) <= now) {
+      throw new AuthError('Sign-in message has expired');
+    }
+    if (siwe.notBefore && new Date(siwe.notBefore) > now) {
+      throw new AuthError('Sign-in message is not valid yet');
+    }
+
+    let signer: string;
+    try {
+      signer = verifyMessage(message, signature);
+    } catch {
+      throw new AuthError('Invalid signature', 400);
+    }
+    if (signer !== address) {
+      throw new AuthError('Signature is not from the address in the message');
+    }
+
+    // Claimed only once, so a replayed message cannot sign in again
+    const { count } = await this.prisma.authNonce.updateMany({
+      where: { nonce: siwe.nonce, usedAt: null, expiresAt: { gt: now } },
+      data: { usedAt: now },
+    });
+    if (count === 0) {
+      throw new AuthError('Nonce is unknown, expired or already used');
+    }
+
+    const user = await this.prisma.user.upsert({
+      where: { address },
+      create: { address },
+      update: {},
+    });
+
+    logger.info('User signed in', { userId: user.id, address });
+
+    return this.createSession(user, secret);
+  }
+
+  /**
+   * Exchange a refresh token for a new session, revoking it
+   */
+  async refresh(refreshToken: string): Promise<AuthSession> {
+    const secret = jwtSecret();
+    const stored = await this.prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(refreshToken) },
+      include: { user: true },
+    });
+
+    if (!stored || stored.expiresAt <= new Date()) {
+      throw new AuthError('Refresh token is invalid or expired');
+    }
+
+    if (stored.revokedAt) {
+      if (stored.replacedBy) {
+        await this.revokeAll(stored.userId);
+        logger.warn('Rotated refresh token reused, all sessions revoked', { userId: stored.userId });
+      }
+      throw new AuthError('Refresh token is invalid or expired');
+    }
+
+    // Two requests racing with the same token: only one gets a session
+    const { count } = await this.prisma.refreshToken.updateMany({
+      where: { id: stored.id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new AuthError('Refresh token is invalid or expired');
+    }
+
+    return this.createSession(stored.user, secret, stored.id);
+  }
+
+  /**
+   * Revoke a refresh token. Unknown tokens are ignored.
+   */
+  async logout(refreshToken: string): Promise<void> {
+    await this.prisma.refreshToken.updateMany({
+      where: { tokenHash: hashToken(refreshToken), revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  async getUser(id: string): Promise<User | null> {
+    return this.prisma.user.findUnique({ where: { id } });
+  }
+
+  private async createSession(user: User, secret: string, replaces?: string): Promise<AuthSession> {
+    const expiresIn = Math.floor(this.accessTokenTtlMs / 1000);
+    const accessToken = jwt.sign({ id: user.id, address: user.address, role: 'user' }, secret, { expiresIn });
+
+    const refreshToken = randomBytes(32).toString('base64url');
+    const stored = await this.prisma.refreshToken.create({
+      data: {
+        userId: user.id,
+        tokenHash: hashToken(refreshToken),
+        expiresAt: new Date(Date.now() + this.refreshTokenTtlMs),
+      },
+    });
+
+    if (replaces) {
+      await this.prisma.refreshToken.update({ where: { id: replaces }, data: { replacedBy: stored.id } });
+    }
+
+    return {
+      accessToken,
+      tokenType: 'Bearer',
+      expiresIn,
+      refreshToken,
+      refreshExpiresAt: stored.expiresAt,
+      user: { id: user.id, address: user.address },
+    };
+  }
+
+  private async revokeAll(userId: string): Promise<void> {
+    await this.prisma.refreshToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  private async pruneExpired(): Promise<void> {
+    if (Date.now() - this.lastPrunedAt < PRUNE_INTERVAL_MS) return;
+    this.lastPrunedAt = Date.now();
+
+    try {
+      const now = new Date();
+      await this.prisma.authNonce.deleteMany({ where: { expiresAt: { lte: now } } });
+      await this.prisma.refreshToken.deleteMany({ where: { expiresAt: { lte: now } } });
+    } catch (error) {
+      logger.warn('Failed to prune expired sign-in nonces and refresh tokens', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
+
+function jwtSecret(): string {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET not configured');
+  }
+  return secret;
+}
+
+// Refresh tokens are random, so a plain hash is enough to keep them out of the database
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export const authService = new AuthService();
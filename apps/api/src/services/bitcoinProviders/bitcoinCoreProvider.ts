@@ -0,0 +1,267 @@
+import Client from 'bitcoin-core';
+import {
+  AddressBalance,
+  AddressUtxo,
+  BitcoinBlock,
+  BitcoinDataProvider,
+  BitcoinNotFoundError,
+  BitcoinTransaction,
+  FeeEstimates,
+} from './types';
+
+// JSON-RPC error codes Bitcoin Core uses for unknown objects
+const RPC_INVALID_ADDRESS_OR_KEY = -5;
+const RPC_INVALID_PARAMETER = -8;
+
+// Confirmation targets asked of estimatesmartfee, matching Esplora's common ones
+const FEE_TARGETS = [1, 2, 3, 6, 12, 24, 144];
+
+// Core script types mapped to the names Esplora uses
+const SCRIPT_TYPES: Record<string, string> = {
+  pubkey: 'p2pk',
+  pubkeyhash: 'p2pkh',
+  scripthash: 'p2sh',
+  multisig: 'multisig',
+  nulldata: 'op_return',
+  witness_v0_keyhash: 'v0_p2wpkh',
+  witness_v0_scripthash: 'v0_p2wsh',
+  witness_v1_taproot: 'v1_p2tr',
+};
+
+export interface BitcoinCoreConfig {
+  host: string;
+  port: number;
+  username: string;
+  password: string;
+  network: string;
+  timeoutMs: number;
+}
+
+// Only the RPC result fields the provider reads; amounts are in BTC
+
+interface CoreScriptPubKey {
+  asm: string;
+  hex: string;
+  type: string;
+  address?: string;
+}
+
+// getrawtransaction with verbosity 2
+interface CoreTransaction {
+  txid: string;
+  version: number;
+  locktime: number;
+  size: number;
+  weight: number;
+  fee?: number;
+  blockhash?: string;
+  blocktime?: number;
+  vin: Array<{
+    txid?: string;
+    vout?: number;
+    coinbase?: string;
+    scriptSig?: { asm: string; hex: string };
+    txinwitness?: string[];
+    prevout?: { value: number; scriptPubKey: CoreScriptPubKey };
+    sequence: number;
+  }>;
+  vout: Array<{
+    value: number;
+    n: number;
+    scriptPubKey: CoreScriptPubKey;
+  }>;
+}
+
+// getblock with verbosity 1
+interface CoreBlock {
+  hash: string;
+  height: number;
+  version: number;
+  time: number;
+  bits: string;
+  nonce: number;
+  merkleroot: string;
+  previousblockhash?: string;
+  nTx: number;
+  size: number;
+  weight: number;
+  tx: string[];
+}
+
+// getblockheader with verbose true
+interface CoreBlockHeader {
+  hash: string;
+  height: number;
+}
+
+interface CoreUtxoScan {
+  total_amount: number;
+  unspents: Array<{ txid: string; vout: number; amount: number; height: number }>;
+}
+
+interface CoreFeeEstimate {
+  feerate?: number;
+}
+
+/**
+ * Provider backed by a Bitcoin Core node over JSON-RPC.
+ *
+ * Looking up arbitrary transactions needs `txindex=1`, and prevouts are only
+ * returned by Core 25+ (`getrawtransaction` verbosity 2). Core keeps no
+ * address index, so balances and unspent outputs come from a UTXO set scan
+ * and only include confirmed outputs.
+ */
+export class BitcoinCoreProvider implements BitcoinDataProvider {
+  private client: Client;
+
+  constructor(readonly name: string, config: BitcoinCoreConfig) {
+    this.client = new Client({
+      network: config.network,
+      host: config.host,
+      port: config.port,
+      username: config.username,
+      password: config.password,
+      timeout: config.timeoutMs,
+    });
+  }
+
+  async getTransaction(txid: string): Promise<BitcoinTransaction> {
+    const tx = await this.command<CoreTransaction>('getrawtransaction', txid, 2);
+    const blockHeight = tx.blockhash
+      ? (await this.command<CoreBlockHeader>('getblockheader', tx.blockhash, true)).height
+      : undefined;
+
+    const vin = tx.vin.map(input => ({
+      txid: input.txid || '0'.repeat(64),
+      vout: input.coinbase ? 0xffffffff : input.vout ?? 0,
+      prevout: input.prevout
+        ? {
+            ...this.mapScriptPubKey(input.prevout.scriptPubKey),
+            value: this.toSatoshis(input.prevout.value),
+          }
+        : null,
+      scriptsig: input.scriptSig?.hex || input.coinbase || '',
+      scriptsig_asm: input.scriptSig?.asm || '',
+      witness: input.txinwitness,
+      is_coinbase: !!input.coinbase,
+      sequence: input.sequence,
+    }));
+
+    return {
+      txid: tx.txid,
+      version: tx.version,
+      locktime: tx.locktime,
+      vin: vin as BitcoinTransaction['vin'],
+      vout: tx.vout.map(output => ({
+        ...this.mapScriptPubKey(output.scriptPubKey),
+        value: this.toSatoshis(output.value),
+      })),
+      size: tx.size,
+      weight: tx.weight,
+      fee: tx.fee !== undefined ? this.toSatoshis(tx.fee) : 0,
+      status: tx.blockhash
+        ? { confirmed: true, block_height: blockHeight, block_hash: tx.blockhash, block_time: tx.blocktime }
+        : { confirmed: false },
+    };
+  }
+
+  async getBlock(blockHash: string): Promise<BitcoinBlock> {
+    const block = await this.command<CoreBlock>('getblock', blockHash, 1);
+
+    return {
+      id: block.hash,
+      height: block.height,
+      version: block.version,
+      timestamp: block.time,
+      bits: parseInt(block.bits, 16),
+      nonce: block.nonce,
+      merkle_root: block.merkleroot,
+      previousblockhash: block.previousblockhash || '',
+      tx_count: block.nTx,
+      size: block.size,
+      weight: block.weight,
+    };
+  }
+
+  getBlockHash(height: number): Promise<string> {
+    return this.command<string>('getblockhash', height);
+  }
+
+  getBlockHeader(blockHash: string): Promise<string> {
+    return this.command<string>('getblockheader', blockHash, false);
+  }
+
+  async getBlockTxids(blockHash: string): Promise<string[]> {
+    const block = await this.command<CoreBlock>('getblock', blockHash, 1);
+    return block.tx;
+  }
+
+  getTipHeight(): Promise<number> {
+    return this.command<number>('getblockcount');
+  }
+
+  async getAddressBalance(address: string): Promise<AddressBalance> {
+    const scan = await this.command<CoreUtxoScan>('scantxoutset', 'start', [`addr(${address})`]);
+
+    return {
+      address,
+      confirmed: this.toSatoshis(scan.total_amount),
+      unconfirmed: 0,
+    };
+  }
+
+  async getAddressUtxos(address: string): Promise<AddressUtxo[]> {
+    const scan = await this.command<CoreUtxoScan>('scantxoutset', 'start', [`addr(${address})`]);
+
+    return scan.unspents.map(unspent => ({
+      txid: unspent.txid,
+      vout: unspent.vout,
+      value: this.toSatoshis(unspent.amount),
+      status: { confirmed: true, block_height: unspent.height },
+    }));
+  }
+
+  async getFeeEstimates(): Promise<FeeEstimates> {
+    const estimates: FeeEstimates = {};
+
+    for (const target of FEE_TARGETS) {
+      const estimate = await this.command<CoreFeeEstimate>('estimatesmartfee', target);
+      // Core reports BTC/kvB; targets it cannot estimate yet are left out
+      if (estimate.feerate !== undefined) {
+        estimates[target] = estimate.feerate * 100000;
+      }
+    }
+
+    return estimates;
+  }
+
+  broadcastTransaction(hex: string): Promise<string> {
+    return this.command<string>('sendrawtransaction', hex);
+  }
+
+  private async command<T>(method: string, ...params: unknown[]): Promise<T> {
+    try {
+      return await this.client.command<T>(method, ...params);
+    } catch (error) {
+      const code = (error as { code?: number } | undefined)?.code;
+      if (code === RPC_INVALID_ADDRESS_OR_KEY || code === RPC_INVALID_PARAMETER) {
+        throw new BitcoinNotFoundError((error as Error).message);
+      }
+      throw error;
+    }
+  }
+
+  private mapScriptPubKey(script: CoreScriptPubKey) {
+    return {
+      scriptpubkey: script.hex,
+      scriptpubkey_asm: script.asm,
+      scriptpubkey_type: SCRIPT_TYPES[script.type] || script.type,
+      scriptpubkey_address: script.address || '',
+    };
+  }
+
+  // Core reports amounts in BTC
+  private toSatoshis(btc: number): number {
+    return Math.round(btc * 100000000);
+  }
+}
@@ -0,0 +1,67 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import { BitcoinTransaction } from './types';
+
+export type EsploraPrevout = BitcoinTransaction['vin'][number]['prevout'];
+
+/**
+ * Esplora-shaped record for a bitcoinjs-lib transaction. Prevouts are given
+ * in input order; the record starts out unconfirmed.
+ */
+export function toEsploraTransaction(
+  tx: bitcoin.Transaction,
+  prevouts: EsploraPrevout[],
+  fee: number,
+  network: bitcoin.Network
+): BitcoinTransaction {
+  return {
+    txid: tx.getId(),
+    version: tx.version,
+    locktime: tx.locktime,
+    vin: tx.ins.map((input, index) => ({
+      txid: Buffer.from(input.hash).reverse().toString('hex'),
+      vout: input.index,
+      prevout: prevouts[index],
+      scriptsig: input.script.toString('hex'),
+      scriptsig_asm: bitcoin.script.toASM(input.script),
+      witness: input.witness.map(item => item.toString('hex')),
+      is_coinbase: false,
+      sequence: input.sequence,
+    })),
+    vout: tx.outs.map(output => describeOutput(output.script, output.value, network)),
+    size: tx.byteLength(),
+    weight: tx.weight(),
+    fee,
+    status: { confirmed: false },
+  };
+}
+
+/**
+ * Esplora description of an output script
+ */
+export function describeOutput(script: Buffer, value: number, network: bitcoin.Network): EsploraPrevout {
+  let address = '';
+  try {
+    address = bitcoin.address.fromOutputScript(script, network);
+  } catch {
+    // OP_RETURN and non-standard scripts have no address
+  }
+
+  return {
+    scriptpubkey: script.toString('hex'),
+    scriptpubkey_asm: script.length > 0 ? bitcoin.script.toASM(script) : '',
+    scriptpubkey_type: getScriptType(script),
+    scriptpubkey_address: address,
+    value,
+  };
+}
+
+// Esplora's names for standard output scripts
+function getScriptType(script: Buffer): string {
+  if (script[0] === bitcoin.opcodes.OP_RETURN) return 'op_return';
+  if (script.length === 22 && script[0] === 0x00 && script[1] === 0x14) return 'v0_p2wpkh';
+  if (script.length === 34 && script[0] === 0x00 && script[1] === 0x20) return 'v0_p2wsh';
+  if (script.length === 34 && script[0] === 0x51 && script[1] === 0x20) return 'v1_p2tr';
+  if (script.length === 25 && script[0] === bitcoin.opcodes.OP_DUP) return 'p2pkh';
+  if (script.length === 23 && script[0] === bitcoin.opcodes.OP_HASH160) return 'p2sh';
+  return 'unknown';
+}
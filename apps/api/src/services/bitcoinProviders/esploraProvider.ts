@@ -0,0 +1,83 @@
+import axios, { AxiosInstance } from 'axios';
+import {
+  AddressBalance,
+  AddressUtxo,
+  BitcoinBlock,
+  BitcoinDataProvider,
+  BitcoinNotFoundError,
+  BitcoinTransaction,
+  FeeEstimates,
+} from './types';
+
+/**
+ * Provider backed by an Esplora-compatible HTTP API (blockstream.info, mempool.space, self-hosted electrs)
+ */
+export class EsploraProvider implements BitcoinDataProvider {
+  private http: AxiosInstance;
+
+  constructor(readonly name: string, baseUrl: string, timeoutMs: number) {
+    this.http = axios.create({ baseURL: baseUrl.replace(/\/$/, ''), timeout: timeoutMs });
+  }
+
+  getTransaction(txid: string): Promise<BitcoinTransaction> {
+    return this.get(`/tx/${txid}`, 'Transaction not found');
+  }
+
+  getBlock(blockHash: string): Promise<BitcoinBlock> {
+    return this.get(`/block/${blockHash}`, 'Block not found');
+  }
+
+  async getBlockHash(height: number): Promise<string> {
+    return String(await this.get(`/block-height/${height}`, `No block at height ${height}`));
+  }
+
+  async getBlockHeader(blockHash: string): Promise<string> {
+    return String(await this.get(`/block/${blockHash}/header`, 'Block not found'));
+  }
+
+  getBlockTxids(blockHash: string): Promise<string[]> {
+    return this.get(`/block/${blockHash}/txids`, 'Block not found');
+  }
+
+  async getTipHeight(): Promise<number> {
+    return Number(await this.get('/blocks/tip/height', 'Tip height not available'));
+  }
+
+  async getAddressBalance(address: string): Promise<AddressBalance> {
+    const stats = await this.get<{
+      chain_stats: { funded_txo_sum: number; spent_txo_sum: number };
+      mempool_stats: { funded_txo_sum: number; spent_txo_sum: number };
+    }>(`/address/${address}`, 'Address not found');
+
+    return {
+      address,
+      confirmed: stats.chain_stats.funded_txo_sum - stats.chain_stats.spent_txo_sum,
+      unconfirmed: stats.mempool_stats.funded_txo_sum - stats.mempool_stats.spent_txo_sum,
+    };
+  }
+
+  getAddressUtxos(address: string): Promise<AddressUtxo[]> {
+    return this.get(`/address/${address}/utxo`, 'Address not found');
+  }
+
+  getFeeEstimates(): Promise<FeeEstimates> {
+    return this.get('/fee-estimates', 'Fee estimates not available');
+  }
+
+  async broadcastTransaction(hex: string): Promise<string> {
+    const response = await this.http.post<string>('/tx', hex, { headers: { 'Content-Type': 'text/plain' } });
+    return String(response.data);
+  }
+
+  private async get<T>(path: string, notFoundMessage: string): Promise<T> {
+    try {
+      const response = await this.http.get<T>(path);
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        throw new BitcoinNotFoundError(notFoundMessage);
+      }
+      throw error;
+    }
+  }
+}
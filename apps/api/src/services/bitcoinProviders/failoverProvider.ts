@@ -0,0 +1,184 @@
+import { logger } from '../../utils/logger';
+import {
+  AddressBalance,
+  AddressUtxo,
+  BitcoinBlock,
+  BitcoinDataProvider,
+  BitcoinNotFoundError,
+  BitcoinTransaction,
+  FeeEstimates,
+} from './types';
+
+// Weight of the latest call in the rolling health score
+const SCORE_DECAY = 0.2;
+// Providers scoring below this are benched for a cooldown
+const MIN_HEALTHY_SCORE = 0.5;
+const MAX_COOLDOWN_MS = 10 * 60 * 1000;
+
+export interface ProviderHealth {
+  name: string;
+  priority: number;
+  score: number;
+  healthy: boolean;
+  consecutiveFailures: number;
+  totalCalls: number;
+  totalFailures: number;
+  lastLatencyMs: number | null;
+  lastError: string | null;
+  cooldownUntil: Date | null;
+}
+
+/**
+ * Spreads calls over several providers in priority order.
+ *
+ * Each provider keeps a rolling success score. A provider that keeps failing
+ * drops below MIN_HEALTHY_SCORE and is skipped for an exponentially growing
+ * cooldown, after which it is tried again at its normal priority. Benched
+ * providers are still used as a last resort when every other one fails.
+ */
+export class FailoverBitcoinProvider implements BitcoinDataProvider {
+  readonly name = 'failover';
+  private health: ProviderHealth[];
+
+  constructor(private providers: BitcoinDataProvider[], private readonly cooldownMs: number) {
+    if (providers.length === 0) {
+      throw new Error('At least one Bitcoin data provider is required');
+    }
+
+    this.health = providers.map((provider, priority) => ({
+      name: provider.name,
+      priority,
+      score: 1,
+      healthy: true,
+      consecutiveFailures: 0,
+      totalCalls: 0,
+      totalFailures: 0,
+      lastLatencyMs: null,
+      lastError: null,
+      cooldownUntil: null,
+    }));
+  }
+
+  getTransaction(txid: string): Promise<BitcoinTransaction> {
+    return this.call('getTransaction', provider => provider.getTransaction(txid));
+  }
+
+  getBlock(blockHash: string): Promise<BitcoinBlock> {
+    return this.call('getBlock', provider => provider.getBlock(blockHash));
+  }
+
+  getBlockHash(height: number): Promise<string> {
+    return this.call('getBlockHash', provider => provider.getBlockHash(height));
+  }
+
+  getBlockHeader(blockHash: string): Promise<string> {
+    return this.call('getBlockHeader', provider => provider.getBlockHeader(blockHash));
+  }
+
+  getBlockTxids(blockHash: string): Promise<string[]> {
+    return this.call('getBlockTxids', provider => provider.getBlockTxids(blockHash));
+  }
+
+  getTipHeight(): Promise<number> {
+    return this.call('getTipHeight', provider => provider.getTipHeight());
+  }
+
+  getAddressBalance(address: string): Promise<AddressBalance> {
+    return this.call('getAddressBalance', provider => provider.getAddressBalance(address));
+  }
+
+  getAddressUtxos(address: string): Promise<AddressUtxo[]> {
+    return this.call('getAddressUtxos', provider => provider.getAddressUtxos(address));
+  }
+
+  getFeeEstimates(): Promise<FeeEstimates> {
+    return this.call('getFeeEstimates', provider => provider.getFeeEstimates());
+  }
+
+  broadcastTransaction(hex: string): Promise<string> {
+    return this.call('broadcastTransaction', provider => provider.broadcastTransaction(hex));
+  }
+
+  /**
+   * Current health of every provider, in priority order
+   */
+  getHealth(): ProviderHealth[] {
+    const now = Date.now();
+    return this.health.map(health => ({
+      ...health,
+      healthy: !health.cooldownUntil || health.cooldownUntil.getTime() <= now,
+    }));
+  }
+
+  private async call<T>(operation: string, fn: (provider: BitcoinDataProvider) => Promise<T>): Promise<T> {
+    const errors: string[] = [];
+
+    for (const index of this.getCallOrder()) {
+      const provider = this.providers[index];
+      const startedAt = Date.now();
+
+      try {
+        const result = await fn(provider);
+        this.recordSuccess(index, Date.now() - startedAt);
+        return result;
+      } catch (error) {
+        // A definitive "does not exist" is an answer, not an outage
+        if (error instanceof BitcoinNotFoundError) {
+          this.recordSuccess(index, Date.now() - startedAt);
+          throw error;
+        }
+
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        this.recordFailure(index, errorMessage);
+        errors.push(`${provider.name}: ${errorMessage}`);
+        logger.warn('Bitcoin data provider call failed', { provider: provider.name, operation, error: errorMessage });
+      }
+    }
+
+    throw new Error(`All Bitcoin data providers failed for ${operation}: ${errors.join('; ')}`);
+  }
+
+  private getCallOrder(): number[] {
+    const now = Date.now();
+    const available: number[] = [];
+    const benched: number[] = [];
+
+    this.health.forEach((health, index) => {
+      if (health.cooldownUntil && health.cooldownUntil.getTime() > now) {
+        benched.push(index);
+      } else {
+        available.push(index);
+      }
+    });
+
+    return [...available, ...benched];
+  }
+
+  private recordSuccess(index: number, latencyMs: number): void {
+    const health = this.health[index];
+    health.score = health.score * (1 - SCORE_DECAY) + SCORE_DECAY;
+    health.consecutiveFailures = 0;
+    health.totalCalls++;
+    health.lastLatencyMs = latencyMs;
+    health.cooldownUntil = null;
+  }
+
+  private recordFailure(index: number, errorMessage: string): void {
+    const health = this.health[index];
+    health.score = health.score * (1 - SCORE_DECAY);
+    health.consecutiveFailures++;
+    health.totalCalls++;
+    health.totalFailures++;
+    health.lastError = errorMessage;
+
+    if (health.score < MIN_HEALTHY_SCORE) {
+      const cooldown = Math.min(this.cooldownMs * Math.pow(2, health.consecutiveFailures - 1), MAX_COOLDOWN_MS);
+      health.cooldownUntil = new Date(Date.now() + cooldown);
+      logger.warn('Bitcoin data provider benched', {
+        provider: health.name,
+        score: health.score,
+        cooldownMs: cooldown,
+      });
+    }
+  }
+}
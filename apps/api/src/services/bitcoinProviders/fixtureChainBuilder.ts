@@ -0,0 +1,227 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as bitcoin from 'bitcoinjs-lib';
+import { FixtureBitcoinProvider, FixtureBlock } from './fixtureProvider';
+import { describeOutput, EsploraPrevout, toEsploraTransaction } from './esploraFormat';
+import { BitcoinTransaction } from './types';
+
+// Regtest difficulty: roughly every other nonce satisfies it
+const EASY_BITS = 0x207fffff;
+const BLOCK_SPACING_SECONDS = 600;
+const COINBASE_VALUE = 50 * 100000000;
+const DEFAULT_FEE = 1000;
+
+export interface FixtureOutputSpec {
+  value: number; // satoshis
+  address?: string;
+  script?: string; // hex output script, e.g. an OP_RETURN payload
+}
+
+export interface FixtureTransactionSpec {
+  outputs: FixtureOutputSpec[];
+  // Outputs to spend; when omitted a synthetic funding input is created
+  inputs?: Array<{ txid: string; vout: number }>;
+  // Owner of the synthetic funding input
+  from?: string;
+  fee?: number;
+}
+
+export interface FixtureBlockOptions {
+  // Compact difficulty target; regtest difficulty unless set
+  bits?: number;
+  // Seconds after the previous block
+  spacing?: number;
+}
+
+export interface FixtureChainOptions {
+  startHeight?: number;
+  startTime?: number; // unix seconds
+  network?: bitcoin.Network;
+}
+
+/**
+ * Builds a small, fully valid Bitcoin chain in memory.
+ *
+ * Transactions, merkle roots and headers are real bitcoinjs-lib objects, so
+ * txids, merkle proofs and proof-of-work all check out, and the same calls in
+ * the same order always produce the same chain.
+ */
+export class FixtureChainBuilder {
+  readonly provider: FixtureBitcoinProvider;
+  private readonly network: bitcoin.Network;
+  private transactions = new Map<string, bitcoin.Transaction>();
+  private mempool: string[] = [];
+  private time: number;
+  private height: number;
+  private tipHash = '0'.repeat(64);
+  private fundingCounter = 0;
+  private blockCounter = 0;
+
+  constructor(options: FixtureChainOptions = {}) {
+    this.network = options.network || bitcoin.networks.testnet;
+    this.provider = new FixtureBitcoinProvider('fixture:memory', this.network);
+    this.height = (options.startHeight ?? 2500000) - 1;
+    this.time = options.startTime ?? 1700000000;
+    this.mineBlock();
+  }
+
+  /**
+   * Add a transaction to the mempool; it confirms with the next mined block
+   */
+  addTransaction(spec: FixtureTransactionSpec): BitcoinTransaction {
+    const tx = new bitcoin.Transaction();
+    tx.version = 2;
+
+    const outputTotal = spec.outputs.reduce((sum, output) => sum + output.value, 0);
+    const fee = spec.fee ?? DEFAULT_FEE;
+    const prevouts: EsploraPrevout[] = [];
+
+    if (spec.inputs?.length) {
+      for (const input of spec.inputs) {
+        const previous = this.transactions.get(input.txid);
+        if (!previous || !previous.outs[input.vout]) {
+          throw new Error(`Unknown fixture output ${input.txid}:${input.vout}`);
+        }
+        tx.addInput(Buffer.from(input.txid, 'hex').reverse(), input.vout);
+        prevouts.push(describeOutput(previous.outs[input.vout].script, previous.outs[input.vout].value, this.network));
+      }
+    } else {
+      // Fund the transaction from an output the fixture never shows
+      const fundingTxid = bitcoin.crypto.sha256(Buffer.from(`fixture-funding-${this.fundingCounter++}`));
+      tx.addInput(fundingTxid, 0);
+      const fundingScript = spec.from ? bitcoin.address.toOutputScript(spec.from, this.network) : Buffer.alloc(0);
+      prevouts.push(describeOutput(fundingScript, outputTotal + fee, this.network));
+    }
+
+    for (const output of spec.outputs) {
+      const script = output.script
+        ? Buffer.from(output.script, 'hex')
+        : bitcoin.address.toOutputScript(output.address!, this.network);
+      tx.addOutput(script, output.value);
+    }
+
+    const inputTotal = prevouts.reduce((sum, prevout) => sum + prevout.value, 0);
+    const record = toEsploraTransaction(tx, prevouts, inputTotal - outputTotal, this.network);
+
+    this.transactions.set(record.txid, tx);
+    this.mempool.push(record.txid);
+    this.provider.addTransaction(record);
+    return record;
+  }
+
+  /**
+   * Mine every mempool transaction, including ones broadcast through the
+   * provider, into a new block on the tip
+   */
+  mineBlock(options: FixtureBlockOptions = {}): FixtureBlock {
+    for (const txid of this.provider.getMempoolTxids()) {
+      if (!this.transactions.has(txid)) {
+        this.transactions.set(txid, bitcoin.Transaction.fromHex(this.provider.getRawTransaction(txid)!));
+        this.mempool.push(txid);
+      }
+    }
+
+    this.height++;
+    this.time += options.spacing ?? BLOCK_SPACING_SECONDS;
+
+    const coinbase = this.createCoinbase();
+    const txs = [coinbase, ...this.mempool.map(txid => this.transactions.get(txid)!)];
+
+    const block = new bitcoin.Block();
+    block.version = 0x20000000;
+    block.prevHash = Buffer.from(this.tipHash, 'hex').reverse();
+    block.merkleRoot = bitcoin.Block.calculateMerkleRoot(txs);
+    block.timestamp = this.time;
+    block.bits = options.bits ?? EASY_BITS;
+    block.nonce = 0;
+
+    while (!block.checkProofOfWork()) {
+      block.nonce++;
+    }
+
+    const fixtureBlock: FixtureBlock = {
+      id: block.getId(),
+      height: this.height,
+      version: block.version,
+      timestamp: block.timestamp,
+      bits: block.bits,
+      nonce: block.nonce,
+      merkle_root: Buffer.from(block.merkleRoot).reverse().toString('hex'),
+      previousblockhash: this.tipHash,
+      tx_count: txs.length,
+      size: 80 + txs.reduce((sum, tx) => sum + tx.byteLength(), 0),
+      weight: 320 + txs.reduce((sum, tx) => sum + tx.weight(), 0),
+      txids: txs.map(tx => tx.getId()),
+      header: block.toHex(true),
+    };
+
+    this.provider.addBlock(fixtureBlock);
+    this.tipHash = fixtureBlock.id;
+    this.mempool = [];
+    return fixtureBlock;
+  }
+
+  mineBlocks(count: number, options: FixtureBlockOptions = {}): FixtureBlock[] {
+    return Array.from({ length: count }, () => this.mineBlock(options));
+  }
+
+  /**
+   * Orphan the top `depth` blocks, returned lowest first. Their transactions
+   * go back to the mempool unless listed in `drop`; mine again to build the
+   * competing branch.
+   */
+  reorg(depth: number, drop: string[] = []): FixtureBlock[] {
+    const forkHeight = this.height - depth;
+    // Disconnected tip first; walk them lowest first so transactions keep their order
+    const orphaned = this.provider.disconnectAbove(forkHeight).reverse();
+    if (orphaned.length === 0) {
+      return orphaned;
+    }
+
+    const returning = orphaned
+      .flatMap(block => block.txids.slice(1))
+      .filter(txid => !drop.includes(txid));
+
+    this.mempool = [...returning, ...this.mempool.filter(txid => !drop.includes(txid))];
+    drop.forEach(txid => this.provider.removeTransaction(txid));
+    orphaned.forEach(block => this.provider.removeTransaction(block.txids[0]));
+    this.height = forkHeight;
+    this.tipHash = orphaned[0].previousblockhash;
+    return orphaned;
+  }
+
+  /**
+   * Write the chain as an NDJSON fixture directory readable by FixtureBitcoinProvider
+   */
+  writeToDirectory(directory: string): void {
+    fs.mkdirSync(directory, { recursive: true });
+    const lines = this.provider.toRecords().map(record => JSON.stringify(record));
+    fs.writeFileSync(path.join(directory, 'chain.ndjson'), `${lines.join('\n')}\n`);
+  }
+
+  private createCoinbase(): bitcoin.Transaction {
+    const tx = new bitcoin.Transaction();
+    tx.version = 2;
+
+    // BIP34 height push, plus a counter so competing branches get distinct coinbases
+    const scriptSig = bitcoin.script.compile([
+      bitcoin.script.number.encode(this.height),
+      bitcoin.script.number.encode(this.blockCounter++),
+    ]);
+    tx.addInput(Buffer.alloc(32), 0xffffffff, 0xffffffff, scriptSig);
+    tx.addOutput(bitcoin.script.compile([bitcoin.opcodes.OP_TRUE]), COINBASE_VALUE);
+
+    const txid = tx.getId();
+    const record = toEsploraTransaction(tx, [], 0, this.network);
+    record.vin[0] = {
+      ...record.vin[0],
+      txid: '0'.repeat(64),
+      prevout: null as unknown as EsploraPrevout,
+      is_coinbase: true,
+    };
+
+    this.transactions.set(txid, tx);
+    this.provider.addTransaction(record);
+    return tx;
+  }
+}
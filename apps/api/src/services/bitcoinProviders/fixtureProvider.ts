@@ -0,0 +1,311 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as bitcoin from 'bitcoinjs-lib';
+import { EsploraPrevout, toEsploraTransaction } from './esploraFormat';
+import {
+  AddressBalance,
+  AddressUtxo,
+  BitcoinBlock,
+  BitcoinDataProvider,
+  BitcoinNotFoundError,
+  BitcoinTransaction,
+  FeeEstimates,
+} from './types';
+
+// Flat fee rate served for every confirmation target
+const FIXTURE_FEE_RATE = 1;
+
+// Block as stored in fixtures: the Esplora block plus its txids and raw header
+export interface FixtureBlock extends BitcoinBlock {
+  txids: string[];
+  header: string;
+}
+
+/**
+ * Offline provider serving a fixed chain from memory.
+ *
+ * Fixture directories hold `.json` files (one record or an array) and
+ * `.ndjson` files (one record per line). Records are Esplora-shaped blocks
+ * or transactions, told apart by their fields, so saved explorer responses
+ * can be dropped in as-is. Blocks need `txids` and `header`, which the
+ * chain builder writes out. Transaction confirmation status is derived from
+ * the blocks, not taken from the file. Broadcast transactions join the
+ * mempool, where a FixtureChainBuilder mining on this provider picks them up.
+ */
+export class FixtureBitcoinProvider implements BitcoinDataProvider {
+  private blocks = new Map<string, FixtureBlock>();
+  private chain: string[] = []; // best-chain block hashes, indexed by height - baseHeight
+  private baseHeight = 0;
+  private transactions = new Map<string, BitcoinTransaction>();
+  private txBlocks = new Map<string, string>();
+  private rawTransactions = new Map<string, string>(); // hex of broadcast transactions
+
+  constructor(readonly name = 'fixture', private readonly network: bitcoin.Network = bitcoin.networks.testnet) {}
+
+  /**
+   * Load every .json and .ndjson file in a directory
+   */
+  static fromDirectory(
+    directory: string,
+    network: bitcoin.Network = bitcoin.networks.testnet,
+    name = `fixture:${path.basename(directory)}`
+  ): FixtureBitcoinProvider {
+    const provider = new FixtureBitcoinProvider(name, network);
+    const records: unknown[] = [];
+
+    for (const file of fs.readdirSync(directory).sort()) {
+      const contents = fs.readFileSync(path.join(directory, file), 'utf8');
+
+      if (file.endsWith('.ndjson')) {
+        contents.split('\n').filter(line => line.trim()).forEach(line => records.push(JSON.parse(line)));
+      } else if (file.endsWith('.json')) {
+        const parsed = JSON.parse(contents);
+        records.push(...(Array.isArray(parsed) ? parsed : [parsed]));
+      }
+    }
+
+    for (const record of records) {
+      if (isBlock(record)) {
+        provider.addBlock(record);
+      } else if (isTransaction(record)) {
+        provider.addTransaction(record);
+      } else {
+        throw new Error(`Unrecognised Bitcoin fixture record in ${directory}`);
+      }
+    }
+
+    return provider;
+  }
+
+  /**
+   * Connect a block on top of the chain. Blocks must be added in height order.
+   */
+  addBlock(block: FixtureBlock): void {
+    if (this.chain.length === 0) {
+      this.baseHeight = block.height;
+    } else {
+      const tipHash = this.chain[this.chain.length - 1];
+      if (block.height !== this.baseHeight + this.chain.length || block.previousblockhash !== tipHash) {
+        throw new Error(`Fixture block ${block.id} at height ${block.height} does not extend the tip ${tipHash}`);
+      }
+    }
+
+    this.blocks.set(block.id, block);
+    this.chain.push(block.id);
+    block.txids.forEach(txid => this.txBlocks.set(txid, block.id));
+  }
+
+  /**
+   * Add a transaction; it shows as confirmed once a block lists its txid
+   */
+  addTransaction(transaction: BitcoinTransaction): void {
+    this.transactions.set(transaction.txid, transaction);
+  }
+
+  /**
+   * Forget a transaction entirely, e.g. one double-spent away in a reorg
+   */
+  removeTransaction(txid: string): void {
+    this.transactions.delete(txid);
+    this.txBlocks.delete(txid);
+    this.rawTransactions.delete(txid);
+  }
+
+  /**
+   * Unconfirmed transactions, in the order they arrived
+   */
+  getMempoolTxids(): string[] {
+    return [...this.transactions.keys()].filter(txid => !this.txBlocks.has(txid));
+  }
+
+  /**
+   * Raw hex of a transaction that came in through broadcastTransaction
+   */
+  getRawTransaction(txid: string): string | undefined {
+    return this.rawTransactions.get(txid);
+  }
+
+  /**
+   * Disconnect blocks above a height, returning them tip first. Their
+   * transactions stay known and fall back to the mempool, as after a reorg.
+   */
+  disconnectAbove(height: number): FixtureBlock[] {
+    const removed: FixtureBlock[] = [];
+
+    while (this.chain.length > 0 && this.baseHeight + this.chain.length - 1 > height) {
+      const block = this.blocks.get(this.chain.pop()!)!;
+      block.txids.forEach(txid => this.txBlocks.delete(txid));
+      removed.push(block);
+    }
+
+    return removed;
+  }
+
+  /**
+   * Every record in load order, for writing back out as fixtures
+   */
+  toRecords(): Array<FixtureBlock | BitcoinTransaction> {
+    const blocks = this.chain.map(hash => this.blocks.get(hash)!);
+    const transactions = [...this.transactions.keys()].map(txid => this.withStatus(this.transactions.get(txid)!));
+    return [...blocks, ...transactions];
+  }
+
+  async getTransaction(txid: string): Promise<BitcoinTransaction> {
+    const transaction = this.transactions.get(txid);
+    if (!transaction) {
+      throw new BitcoinNotFoundError('Transaction not found');
+    }
+    return this.withStatus(transaction);
+  }
+
+  async getBlock(blockHash: string): Promise<BitcoinBlock> {
+    const block: Partial<FixtureBlock> = { ...this.getFixtureBlock(blockHash) };
+    delete block.txids;
+    delete block.header;
+    return block as BitcoinBlock;
+  }
+
+  async getBlockHash(height: number): Promise<string> {
+    const hash = this.chain[height - this.baseHeight];
+    if (!hash) {
+      throw new BitcoinNotFoundError(`No block at height ${height}`);
+    }
+    return hash;
+  }
+
+  async getBlockHeader(blockHash: string): Promise<string> {
+    return this.getFixtureBlock(blockHash).header;
+  }
+
+  async getBlockTxids(blockHash: string): Promise<string[]> {
+    return [...this.getFixtureBlock(blockHash).txids];
+  }
+
+  async getTipHeight(): Promise<number> {
+    if (this.chain.length === 0) {
+      throw new Error('Fixture chain is empty');
+    }
+    return this.baseHeight + this.chain.length - 1;
+  }
+
+  async getAddressBalance(address: string): Promise<AddressBalance> {
+    const balance: AddressBalance = { address, confirmed: 0, unconfirmed: 0 };
+    const bucket = (txid: string) => (this.txBlocks.has(txid) ? 'confirmed' : 'unconfirmed');
+
+    for (const transaction of this.transactions.values()) {
+      for (const output of transaction.vout) {
+        if (output.scriptpubkey_address === address) {
+          balance[bucket(transaction.txid)] += output.value;
+        }
+      }
+
+      for (const input of transaction.vin) {
+        if (input.prevout?.scriptpubkey_address === address) {
+          balance[bucket(transaction.txid)] -= input.prevout.value;
+        }
+      }
+    }
+
+    return balance;
+  }
+
+  async getAddressUtxos(address: string): Promise<AddressUtxo[]> {
+    const spent = this.getSpentOutpoints();
+
+    const utxos: AddressUtxo[] = [];
+    for (const transaction of this.transactions.values()) {
+      transaction.vout.forEach((output, vout) => {
+        if (output.scriptpubkey_address === address && !spent.has(`${transaction.txid}:${vout}`)) {
+          utxos.push({
+            txid: transaction.txid,
+            vout,
+            value: output.value,
+            status: this.withStatus(transaction).status,
+          });
+        }
+      });
+    }
+
+    return utxos;
+  }
+
+  async getFeeEstimates(): Promise<FeeEstimates> {
+    return { '1': FIXTURE_FEE_RATE, '3': FIXTURE_FEE_RATE, '6': FIXTURE_FEE_RATE, '144': FIXTURE_FEE_RATE };
+  }
+
+  async broadcastTransaction(hex: string): Promise<string> {
+    const tx = bitcoin.Transaction.fromHex(hex);
+    const txid = tx.getId();
+    if (this.transactions.has(txid)) {
+      return txid;
+    }
+
+    const spent = this.getSpentOutpoints();
+    const prevouts: EsploraPrevout[] = tx.ins.map(input => {
+      const prevTxid = Buffer.from(input.hash).reverse().toString('hex');
+      const outpoint = `${prevTxid}:${input.index}`;
+      const prevout = this.transactions.get(prevTxid)?.vout[input.index];
+
+      if (!prevout) {
+        throw new Error(`Missing input ${outpoint}`);
+      }
+      if (spent.has(outpoint)) {
+        throw new Error(`Input ${outpoint} is already spent`);
+      }
+
+      return {
+        scriptpubkey: prevout.scriptpubkey,
+        scriptpubkey_asm: prevout.scriptpubkey_asm,
+        scriptpubkey_type: prevout.scriptpubkey_type,
+        scriptpubkey_address: prevout.scriptpubkey_address,
+        value: prevout.value,
+      };
+    });
+
+    const inputTotal = prevouts.reduce((sum, prevout) => sum + prevout.value, 0);
+    const outputTotal = tx.outs.reduce((sum, output) => sum + output.value, 0);
+    if (outputTotal > inputTotal) {
+      throw new Error('Transaction spends more than its inputs');
+    }
+
+    this.addTransaction(toEsploraTransaction(tx, prevouts, inputTotal - outputTotal, this.network));
+    this.rawTransactions.set(txid, hex);
+    return txid;
+  }
+
+  private getFixtureBlock(blockHash: string): FixtureBlock {
+    const block = this.blocks.get(blockHash);
+    if (!block) {
+      throw new BitcoinNotFoundError('Block not found');
+    }
+    return block;
+  }
+
+  private getSpentOutpoints(): Set<string> {
+    const spent = new Set<string>();
+    for (const transaction of this.transactions.values()) {
+      transaction.vin.forEach(input => spent.add(`${input.txid}:${input.vout}`));
+    }
+    return spent;
+  }
+
+  private withStatus(transaction: BitcoinTransaction): BitcoinTransaction {
+    const blockHash = this.txBlocks.get(transaction.txid);
+    const block = blockHash ? this.blocks.get(blockHash) : undefined;
+
+    return {
+      ...transaction,
+      status: block
+        ? { confirmed: true, block_height: block.height, block_hash: block.id, block_time: block.timestamp }
+        : { confirmed: false },
+    };
+  }
+}
+
+function isBlock(record: unknown): record is FixtureBlock {
+  return typeof record === 'object' && record !== null && 'merkle_root' in record && 'txids' in record;
+}
+
+function isTransaction(record: unknown): record is BitcoinTransaction {
+  return typeof record === 'object' && record !== null && 'txid' in record && 'vin' in record && 'vout' in record;
+}
@@ -0,0 +1,72 @@
+import * as path from 'path';
+import * as bitcoin from 'bitcoinjs-lib';
+import { BitcoinCoreProvider } from './bitcoinCoreProvider';
+import { EsploraProvider } from './esploraProvider';
+import { FailoverBitcoinProvider } from './failoverProvider';
+import { FixtureBitcoinProvider } from './fixtureProvider';
+import { BitcoinDataProvider } from './types';
+
+export * from './types';
+export { EsploraProvider } from './esploraProvider';
+export { BitcoinCoreProvider } from './bitcoinCoreProvider';
+export { FailoverBitcoinProvider } from './failoverProvider';
+export { FixtureBitcoinProvider } from './fixtureProvider';
+export type { FixtureBlock } from './fixtureProvider';
+export { FixtureChainBuilder } from './fixtureChainBuilder';
+export { describeOutput, toEsploraTransaction } from './esploraFormat';
+export type { EsploraPrevout } from './esploraFormat';
+export type { FixtureBlockOptions, FixtureChainOptions, FixtureOutputSpec, FixtureTransactionSpec } from './fixtureChainBuilder';
+export type { ProviderHealth } from './failoverProvider';
+
+const DEFAULT_ESPLORA_URL = 'https://blockstream.info/testnet/api';
+
+/**
+ * Build the provider chain from BITCOIN_PROVIDERS, a comma-separated list in
+ * priority order. Entries are `esplora` (BITCOIN_API_URL), `esplora:<url>`,
+ * `core` (BITCOIN_RPC_* settings) or `fixture:<directory>` for offline runs.
+ */
+export function createBitcoinDataProvider(): FailoverBitcoinProvider {
+  const timeoutMs = parseInt(process.env.BITCOIN_PROVIDER_TIMEOUT_MS || '10000');
+  const cooldownMs = parseInt(process.env.BITCOIN_PROVIDER_COOLDOWN_MS || '5000');
+  const entries = (process.env.BITCOIN_PROVIDERS || 'esplora')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+
+  const providers: BitcoinDataProvider[] = entries.map(entry => {
+    const separator = entry.indexOf(':');
+    const type = separator === -1 ? entry : entry.slice(0, separator);
+    const option = separator === -1 ? '' : entry.slice(separator + 1);
+
+    switch (type) {
+      case 'esplora': {
+        const url = option || process.env.BITCOIN_API_URL || DEFAULT_ESPLORA_URL;
+        return new EsploraProvider(`esplora:${new URL(url).host}`, url, timeoutMs);
+      }
+      case 'core': {
+        const host = process.env.BITCOIN_RPC_HOST || 'localhost';
+        const port = parseInt(process.env.BITCOIN_RPC_PORT || '18332');
+        return new BitcoinCoreProvider(`core:${host}:${port}`, {
+          host,
+          port,
+          username: process.env.BITCOIN_RPC_USER || 'bitcoin',
+          password: process.env.BITCOIN_RPC_PASSWORD || 'password',
+          network: process.env.BITCOIN_NETWORK || 'testnet',
+          timeoutMs,
+        });
+      }
+      case 'fixture':
+        if (!option) {
+          throw new Error('Fixture provider needs a directory, e.g. fixture:./fixtures/bitcoin');
+        }
+        return FixtureBitcoinProvider.fromDirectory(
+          path.resolve(option),
+          process.env.BITCOIN_NETWORK === 'mainnet' ? bitcoin.networks.bitcoin : bitcoin.networks.testnet
+        );
+      default:
+        throw new Error(`Unknown Bitcoin data provider "${type}" in BITCOIN_PROVIDERS`);
+    }
+  });
+
+  return new FailoverBitcoinProvider(providers, cooldownMs);
+}
@@ -0,0 +1,100 @@
+// Transaction and block shapes follow the Esplora API, which the bridge was first built against
+
+export interface BitcoinTransaction {
+  txid: string;
+  version: number;
+  locktime: number;
+  vin: Array<{
+    txid: string;
+    vout: number;
+    prevout: {
+      scriptpubkey: string;
+      scriptpubkey_asm: string;
+      scriptpubkey_type: string;
+      scriptpubkey_address: string;
+      value: number;
+    };
+    scriptsig: string;
+    scriptsig_asm: string;
+    witness?: string[];
+    is_coinbase: boolean;
+    sequence: number;
+  }>;
+  // Outputs are identified by their index in this array; Esplora does not number them
+  vout: Array<{
+    value: number;
+    scriptpubkey: string;
+    scriptpubkey_asm: string;
+    scriptpubkey_type: string;
+    scriptpubkey_address: string;
+  }>;
+  size: number;
+  weight: number;
+  fee: number;
+  status: {
+    confirmed: boolean;
+    block_height?: number;
+    block_hash?: string;
+    block_time?: number;
+  };
+}
+
+export interface BitcoinBlock {
+  id: string;
+  height: number;
+  version: number;
+  timestamp: number;
+  bits: number;
+  nonce: number;
+  merkle_root: string;
+  previousblockhash: string;
+  tx_count: number;
+  size: number;
+  weight: number;
+  fee?: number;
+}
+
+// Balances in satoshis
+export interface AddressBalance {
+  address: string;
+  confirmed: number;
+  unconfirmed: number;
+}
+
+// Unspent output of an address, value in satoshis
+export interface AddressUtxo {
+  txid: string;
+  vout: number;
+  value: number;
+  status: BitcoinTransaction['status'];
+}
+
+// Fee rates in sat/vB, keyed by confirmation target in blocks
+export type FeeEstimates = Record<string, number>;
+
+/**
+ * Source of Bitcoin chain data. Implementations must throw
+ * BitcoinNotFoundError when the backend positively reports that the
+ * requested object does not exist, so callers can tell that apart from an
+ * outage.
+ */
+export interface BitcoinDataProvider {
+  readonly name: string;
+  getTransaction(txid: string): Promise<BitcoinTransaction>;
+  getBlock(blockHash: string): Promise<BitcoinBlock>;
+  getBlockHash(height: number): Promise<string>;
+  getBlockHeader(blockHash: string): Promise<string>; // raw 80-byte header as hex
+  getBlockTxids(blockHash: string): Promise<string[]>;
+  getTipHeight(): Promise<number>;
+  getAddressBalance(address: string): Promise<AddressBalance>;
+  getAddressUtxos(address: string): Promise<AddressUtxo[]>;
+  getFeeEstimates(): Promise<FeeEstimates>;
+  broadcastTransaction(hex: string): Promise<string>; // returns the txid
+}
+
+export class BitcoinNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BitcoinNotFoundError';
+  }
+}
@@ -1,7 +1,4 @@
-// @ts-expect-error - bitcoin-core types not available
-import Client from 'bitcoin-core';
 import * as bitcoin from 'bitcoinjs-lib';
-import axios from 'axios';
 import { BitcoinTransaction, MerkleProof } from '../types';
 import { verifyMerkleProof } from '../types';
 import { logger } from '../utils/logger';
@@ -21,25 +18,11 @@ import { bitcoinTestnetService, BitcoinTransaction as TestnetTransaction, Merkle
 // };
 
 export class BitcoinService {
-  private client: Client;
   private network: bitcoin.Network;
-  private blockstreamApiUrl: string;
 
   constructor() {
     // Configure Bitcoin testnet
     this.network = bitcoin.networks.testnet;
-    
-    // Initialize Bitcoin Core client
-    this.client = new Client({
-      network: process.env.BITCOIN_NETWORK || 'testnet',
-      username: process.env.BITCOIN_RPC_USER || 'bitcoin',
-      password: process.env.BITCOIN_RPC_PASSWORD || 'password',
-      port: parseInt(process.env.BITCOIN_RPC_PORT || '18332'),
-      host: process.env.BITCOIN_RPC_HOST || 'localhost',
-    });
-
-    // Blockstream API for testnet
-    this.blockstreamApiUrl = process.env.BITCOIN_API_URL || 'https://blockstream.info/testnet/api';
   }
 
   async getTransaction(txid: string): Promise<BitcoinTransaction> {
@@ -56,10 +39,10 @@ export class BitcoinService {
         outputIndex: input.vout
       }));
 
-      const outputs = testnetTx.vout.map(output => ({
+      const outputs = testnetTx.vout.map((output, index) => ({
         address: output.scriptpubkey_address,
         amount: output.value / 100000000, // Convert satoshis to BTC
-        index: output.n
+        index
       }));
       
       return {
@@ -177,8 +160,7 @@ export class BitcoinService {
 
   private async getInputAddresses(txid: string): Promise<string[]> {
     try {
-      const response = await axios.get(`${this.blockstreamApiUrl}/tx/${txid}`);
-      const tx = response.data;
+      const tx = await bitcoinTestnetService.getTransaction(txid);
       
       const addresses: string[] = [];
       if (tx.vin) {
@@ -197,8 +179,7 @@ export class BitcoinService {
 
   private async getOutputAddresses(txid: string): Promise<string[]> {
     try {
-      const response = await axios.get(`${this.blockstreamApiUrl}/tx/${txid}`);
-      const tx = response.data;
+      const tx = await bitcoinTestnetService.getTransaction(txid);
       
       const addresses: string[] = [];
       if (tx.vout) {
@@ -248,14 +229,11 @@ export class BitcoinService {
 
   async getNetworkInfo(): Promise<any> {
     try {
-      const info = await this.client.getNetworkInfo();
+      const blocks = await bitcoinTestnetService.getTipHeight();
       return {
-        version: info.version,
-        subversion: info.subversion,
-        protocolversion: info.protocolversion,
-        connections: info.connections,
-        networkactive: info.networkactive,
-        networks: info.networks
+        network: process.env.BITCOIN_NETWORK || 'testnet',
+        blocks,
+        providers: bitcoinTestnetService.getProviderHealth()
       };
     } catch (error: unknown) {
       logger.error('Error getting Bitcoin network info:', error);
@@ -266,11 +244,8 @@ export class BitcoinService {
 
   async getBalance(address: string): Promise<number> {
     try {
-      // Note: This is a simplified implementation
-      // In a real application, you'd need to track UTXOs for the address
-      const unspent = await this.client.listUnspent(0, 9999999, [address]);
-      const balance = unspent.reduce((sum: number, utxo: any) => sum + utxo.amount, 0);
-      return balance * 100000000; // Convert to satoshis
+      const balance = await bitcoinTestnetService.getAddressBalance(address);
+      return balance.confirmed; // satoshis
     } catch (error: unknown) {
       logger.error('Error getting Bitcoin balance:', error);
       if (error instanceof Error) {
@@ -282,7 +257,7 @@ export class BitcoinService {
 
   async getBlockCount(): Promise<number> {
     try {
-      return await this.client.getBlockCount();
+      return await bitcoinTestnetService.getTipHeight();
     } catch (error: unknown) {
       logger.error('Error getting block count:', error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -292,7 +267,7 @@ export class BitcoinService {
 
   async getBlockHash(height: number): Promise<string> {
     try {
-      return await this.client.getBlockHash(height);
+      return await bitcoinTestnetService.getBlockHashAtHeight(height);
     } catch (error: unknown) {
       logger.error('Error getting block hash:', error);
       if (error instanceof Error) {
@@ -1,66 +1,22 @@
-import axios from 'axios';
 import * as bitcoin from 'bitcoinjs-lib';
 import * as crypto from 'crypto';
+import {
+  AddressBalance,
+  AddressUtxo,
+  BitcoinBlock,
+  BitcoinDataProvider,
+  BitcoinNotFoundError,
+  BitcoinTransaction,
+  createBitcoinDataProvider,
+  FailoverBitcoinProvider,
+  FeeEstimates,
+  ProviderHealth,
+} from './bitcoinProviders';
 
 // Bitcoin testnet network configuration
 const TESTNET = bitcoin.networks.testnet;
 
-// Blockstream testnet API endpoints
-const BLOCKSTREAM_API_BASE = 'https://blockstream.info/testnet/api';
-
-export interface BitcoinTransaction {
-  txid: string;
-  version: number;
-  locktime: number;
-  vin: Array<{
-    txid: string;
-    vout: number;
-    prevout: {
-      scriptpubkey: string;
-      scriptpubkey_asm: string;
-      scriptpubkey_type: string;
-      scriptpubkey_address: string;
-      value: number;
-    };
-    scriptsig: string;
-    scriptsig_asm: string;
-    witness?: string[];
-    is_coinbase: boolean;
-    sequence: number;
-  }>;
-  vout: Array<{
-    value: number;
-    n: number;
-    scriptpubkey: string;
-    scriptpubkey_asm: string;
-    scriptpubkey_type: string;
-    scriptpubkey_address: string;
-  }>;
-  size: number;
-  weight: number;
-  fee: number;
-  status: {
-    confirmed: boolean;
-    block_height?: number;
-    block_hash?: string;
-    block_time?: number;
-  };
-}
-
-export interface BitcoinBlock {
-  id: string;
-  height: number;
-  version: number;
-  timestamp: number;
-  bits: number;
-  nonce: number;
-  merkle_root: string;
-  previousblockhash: string;
-  tx_count: number;
-  size: number;
-  weight: number;
-  fee: number;
-}
+export type { BitcoinTransaction, BitcoinBlock, AddressBalance, AddressUtxo, FeeEstimates } from './bitcoinProviders';
 
 export interface MerkleProof {
   merkleRoot: string;
@@ -72,9 +28,20 @@ export interface MerkleProof {
 }
 
 export class BitcoinTestnetService {
+  private provider: FailoverBitcoinProvider = createBitcoinDataProvider();
   private cache = new Map<string, any>();
   private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
+  /**
+   * Replace the configured providers, e.g. with an in-memory fixture chain
+   */
+  setProvider(provider: BitcoinDataProvider): void {
+    this.provider = provider instanceof FailoverBitcoinProvider
+      ? provider
+      : new FailoverBitcoinProvider([provider], 0);
+    this.clearCache();
+  }
+
   /**
    * Validate Bitcoin testnet address
    */
@@ -95,7 +62,7 @@ export class BitcoinTestnetService {
   }
 
   /**
-   * Get transaction details from Blockstream API
+   * Get transaction details from the configured data providers
    */
   async getTransaction(txHash: string): Promise<BitcoinTransaction> {
     const cacheKey = `tx_${txHash}`;
@@ -103,13 +70,15 @@ export class BitcoinTestnetService {
     if (cached) return cached;
 
     try {
-      const response = await axios.get(`${BLOCKSTREAM_API_BASE}/tx/${txHash}`);
-      const tx = response.data;
-      
-      this.setCache(cacheKey, tx);
+      const tx = await this.provider.getTransaction(txHash);
+
+      // Unconfirmed transactions change state with the next block, so don't cache them
+      if (tx.status?.confirmed) {
+        this.setCache(cacheKey, tx);
+      }
       return tx;
     } catch (error) {
-      if (axios.isAxiosError(error) && error.response?.status === 404) {
+      if (error instanceof BitcoinNotFoundError) {
         throw new Error('Transaction not found');
       }
       throw new Error(`Failed to fetch transaction: ${error}`);
@@ -117,7 +86,7 @@ export class BitcoinTestnetService {
   }
 
   /**
-   * Get block details from Blockstream API
+   * Get block details from the configured data providers
    */
   async getBlock(blockHash: string): Promise<BitcoinBlock> {
     const cacheKey = `block_${blockHash}`;
@@ -125,9 +94,8 @@ export class BitcoinTestnetService {
     if (cached) return cached;
 
     try {
-      const response = await axios.get(`${BLOCKSTREAM_API_BASE}/block/${blockHash}`);
-      const block = response.data;
-      
+      const block = await this.provider.getBlock(blockHash);
+
       this.setCache(cacheKey, block);
       return block;
     } catch (error) {
@@ -144,8 +112,7 @@ export class BitcoinTestnetService {
     if (cached) return cached;
 
     try {
-      const response = await axios.get(`${BLOCKSTREAM_API_BASE}/block-height/${height}`);
-      const blockHash = response.data;
+      const blockHash = await this.provider.getBlockHash(height);
       const block = await this.getBlock(blockHash);
       
       this.setCache(cacheKey, block);
@@ -155,6 +122,17 @@ export class BitcoinTestnetService {
     }
   }
 
+  /**
+   * Hash of the best-chain block at a height. Not cached, since a reorg can replace it.
+   */
+  async getBlockHashAtHeight(height: number): Promise<string> {
+    try {
+      return await this.provider.getBlockHash(height);
+    } catch (error) {
+      throw new Error(`Failed to fetch block hash at height ${height}: ${error}`);
+    }
+  }
+
   /**
    * Get all transaction hashes in a block
    */
@@ -164,9 +142,8 @@ export class BitcoinTestnetService {
     if (cached) return cached;
 
     try {
-      const response = await axios.get(`${BLOCKSTREAM_API_BASE}/block/${blockHash}/txids`);
-      const txids = response.data;
-      
+      const txids = await this.provider.getBlockTxids(blockHash);
+
       this.setCache(cacheKey, txids);
       return txids;
     } catch (error) {
@@ -244,7 +221,7 @@ export class BitcoinTestnetService {
         }
         
         // Calculate parent hash
-        const parentHash = this.doubleSha256(left + right);
+        const parentHash = this.hashPair(left, right);
         nextHashes.push(parentHash);
       }
       
@@ -256,12 +233,17 @@ export class BitcoinTestnetService {
   }
 
   /**
-   * Double SHA256 hash
+   * Double SHA256 of two sibling nodes. Txids and merkle roots are displayed
+   * byte-reversed, so nodes are flipped to internal order before hashing.
    */
-  private doubleSha256(input: string): string {
-    const hash1 = crypto.createHash('sha256').update(Buffer.from(input, 'hex')).digest();
+  private hashPair(left: string, right: string): string {
+    const data = Buffer.concat([
+      Buffer.from(left, 'hex').reverse(),
+      Buffer.from(right, 'hex').reverse(),
+    ]);
+    const hash1 = crypto.createHash('sha256').update(data).digest();
     const hash2 = crypto.createHash('sha256').update(hash1).digest();
-    return hash2.toString('hex');
+    return hash2.reverse().toString('hex');
   }
 
   /**
@@ -276,9 +258,9 @@ export class BitcoinTestnetService {
         const isLeft = (((proof.proofIndex >> i) & 1) === 0);
         
         if (isLeft) {
-          currentHash = this.doubleSha256(currentHash + sibling);
+          currentHash = this.hashPair(currentHash, sibling);
         } else {
-          currentHash = this.doubleSha256(sibling + currentHash);
+          currentHash = this.hashPair(sibling, currentHash);
         }
       }
       
@@ -288,6 +270,79 @@ export class BitcoinTestnetService {
     }
   }
 
+  /**
+   * Get current chain tip height
+   */
+  async getTipHeight(): Promise<number> {
+    try {
+      return await this.provider.getTipHeight();
+    } catch (error) {
+      throw new Error(`Failed to fetch tip height: ${error}`);
+    }
+  }
+
+  /**
+   * Raw 80-byte header of a block, as hex
+   */
+  async getBlockHeader(blockHash: string): Promise<string> {
+    try {
+      return await this.provider.getBlockHeader(blockHash);
+    } catch (error) {
+      throw new Error(`Failed to fetch block header: ${error}`);
+    }
+  }
+
+  /**
+   * Confirmed and unconfirmed balance of an address, in satoshis
+   */
+  async getAddressBalance(address: string): Promise<AddressBalance> {
+    try {
+      return await this.provider.getAddressBalance(address);
+    } catch (error) {
+      throw new Error(`Failed to fetch address balance: ${error}`);
+    }
+  }
+
+  /**
+   * Unspent outputs of an address
+   */
+  async getAddressUtxos(address: string): Promise<AddressUtxo[]> {
+    try {
+      return await this.provider.getAddressUtxos(address);
+    } catch (error) {
+      throw new Error(`Failed to fetch address UTXOs: ${error}`);
+    }
+  }
+
+  /**
+   * Fee rates in sat/vB by confirmation target
+   */
+  async getFeeEstimates(): Promise<FeeEstimates> {
+    try {
+      return await this.provider.getFeeEstimates();
+    } catch (error) {
+      throw new Error(`Failed to fetch fee estimates: ${error}`);
+    }
+  }
+
+  /**
+   * Broadcast a signed raw transaction, returning its txid
+   */
+  async broadcastTransaction(hex: string): Promise<string> {
+    try {
+      return await this.provider.broadcastTransaction(hex);
+    } catch (error) {
+      throw new Error(`Failed to broadcast transaction: ${error}`);
+    }
+  }
+
+  /**
+   * Health of each configured data provider
+   */
+  getProviderHealth(): ProviderHealth[] {
+    return this.provider.getHealth();
+  }
+
   /**
    * Get transaction confirmation count
    */
@@ -300,8 +355,7 @@ export class BitcoinTestnetService {
       }
 
       // Get current block height
-      const currentBlockResponse = await axios.get(`${BLOCKSTREAM_API_BASE}/blocks/tip/height`);
-      const currentHeight = currentBlockResponse.data;
+      const currentHeight = await this.getTipHeight();
       
       return currentHeight - tx.status.block_height! + 1;
     } catch (error) {
@@ -319,25 +373,21 @@ export class BitcoinTestnetService {
 
     try {
       // Get the latest block height
-      const tipHeightResponse = await axios.get(`${BLOCKSTREAM_API_BASE}/blocks/tip/height`);
-      const tipHeight = tipHeightResponse.data;
-      
+      const tipHeight = await this.provider.getTipHeight();
+
       // Get a recent block (not the very latest to ensure confirmations)
       const targetHeight = tipHeight - 10; // Go back 10 blocks
-      const blockHashResponse = await axios.get(`${BLOCKSTREAM_API_BASE}/block-height/${targetHeight}`);
-      const blockHash = blockHashResponse.data;
+      const blockHash = await this.provider.getBlockHash(targetHeight);
       
-      // Get transactions from this block
-      const txsResponse = await axios.get(`${BLOCKSTREAM_API_BASE}/block/${blockHash}/txs`);
-      const transactions = txsResponse.data;
+      // Get the first few regular transactions from this block (txid 0 is the coinbase)
+      const txids = await this.provider.getBlockTxids(blockHash);
+      const transactions = await Promise.all(txids.slice(1, 5).map(txid => this.provider.getTransaction(txid)));
       
-      // Filter and format sample transactions (skip coinbase, take first 4 regular txs)
+      // Format sample transactions
       const sampleTxs = transactions
-        .filter((tx: any) => !tx.vin[0].is_coinbase)
-        .slice(0, 4)
-        .map((tx: any) => ({
+        .map(tx => ({
           txHash: tx.txid,
-          description: `✅ Real testnet transaction - ${(tx.vout.reduce((sum: number, out: any) => sum + out.value, 0) / 100000000).toFixed(8)} BTC (Block ${targetHeight})`
+          description: `✅ Real testnet transaction - ${(tx.vout.reduce((sum, out) => sum + out.value, 0) / 100000000).toFixed(8)} BTC (Block ${targetHeight})`
         }));
       
       // If we don't have enough real transactions, add some fallback guidance
@@ -389,6 +439,16 @@ export class BitcoinTestnetService {
     });
   }
 
+  /**
+   * Drop cached data for a transaction whose block has been orphaned
+   */
+  invalidateTransaction(txHash: string, blockHeight?: number): void {
+    this.cache.delete(`tx_${txHash}`);
+    if (blockHeight !== undefined) {
+      this.cache.delete(`block_height_${blockHeight}`);
+    }
+  }
+
   /**
    * Clear cache
    */
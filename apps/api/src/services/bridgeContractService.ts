@@ -0,0 +1,326 @@
+import { ethers } from 'ethers';
+import { BRIDGE_CONTRACT_ABI, BTC_RELAY_ABI, CONTRACT_ADDRESSES, PROOF_VERIFIER_ABI } from '../config/contracts';
+import { logger } from '../utils/logger';
+import { EthereumService } from './ethereumService';
+import { ZKProofResult } from './zkProofService';
+
+// ProofVerifier circuit that Bitcoin transaction proofs are registered under
+const BITCOIN_TX_CIRCUIT = ethers.id('bitcoin_tx_verify');
+
+export interface BridgeInitiation {
+  txHash: string;
+  bridgeId: string;
+}
+
+export interface ProofSubmission {
+  txHash: string;
+  proofHash: string;
+}
+
+// Merkle inclusion of a Bitcoin transaction in a header BTCRelay holds
+export interface RelayInclusionProof {
+  btcTxHash: string;
+  blockHash: string;
+  relayHeight: number;
+  index: number;
+  siblings: string[];
+}
+
+export interface BridgeCompletion {
+  txHash: string;
+  bridgeId: string;
+  amount: string;
+  fee: string;
+  gasUsed: string;
+  gasPrice: string;
+}
+
+type SentCallback = (txHash: string) => Promise<void>;
+
+/**
+ * Calls BridgeContract, BTCRelay and ProofVerifier from the EthereumService
+ * wallet. BridgeContract needs it to hold OPERATOR_ROLE to initiate bridges
+ * and RELAYER_ROLE to process them, BTCRelay OPERATOR_ROLE to record
+ * transactions, and ProofVerifier OPERATOR_ROLE and VERIFIER_ROLE to submit
+ * and verify proofs. Results are decoded from the receipts' events.
+ */
+export class BridgeContractService {
+  private ethereumService = new EthereumService();
+  private contract?: ethers.Contract;
+  private relay?: ethers.Contract;
+  private verifier?: ethers.Contract;
+  private readonly confirmations = parseInt(process.env.BRIDGE_TARGET_CONFIRMATIONS || '1');
+  private readonly timeoutMs = parseInt(process.env.BRIDGE_TARGET_TIMEOUT_MS || '300000');
+
+  constructor() {
+    if (!this.ethereumService.hasWallet()) {
+      return;
+    }
+
+    if (CONTRACT_ADDRESSES.bridgeContract) {
+      this.contract = this.ethereumService.getContract(CONTRACT_ADDRESSES.bridgeContract, BRIDGE_CONTRACT_ABI);
+    }
+    if (CONTRACT_ADDRESSES.btcRelay) {
+      this.relay = this.ethereumService.getContract(CONTRACT_ADDRESSES.btcRelay, BTC_RELAY_ABI);
+    }
+    if (CONTRACT_ADDRESSES.proofVerifier) {
+      this.verifier = this.ethereumService.getContract(CONTRACT_ADDRESSES.proofVerifier, PROOF_VERIFIER_ABI);
+    }
+  }
+
+  isConfigured(): boolean {
+    return !!this.contract && !!this.relay && !!this.verifier;
+  }
+
+  /**
+   * Height of BTCRelay's best header, in relay numbering
+   */
+  async getRelayHeight(): Promise<number> {
+    return Number(await this.getRelay().currentHeight());
+  }
+
+  /**
+   * Whether BTCRelay has recorded the Bitcoin transaction as verified, which
+   * BridgeContract requires before processing its bridge
+   */
+  async isTransactionRecorded(btcTxHash: string): Promise<boolean> {
+    return this.getRelay().isTransactionVerified(this.toBytes32(btcTxHash));
+  }
+
+  /**
+   * Record a Bitcoin transaction in BTCRelay. Returns false if the relay
+   * found the Merkle proof invalid and recorded nothing.
+   */
+  async recordTransaction(proof: RelayInclusionProof, onSent?: SentCallback): Promise<boolean> {
+    const relay = this.getRelay();
+
+    const receipt = await this.ethereumService.sendContractTransaction(
+      relay,
+      'verifyAndRecordTransaction',
+      [{
+        txHash: this.toBytes32(proof.btcTxHash),
+        blockHash: this.toBytes32(proof.blockHash),
+        height: proof.relayHeight,
+        index: proof.index,
+        siblings: proof.siblings.map(sibling => this.toBytes32(sibling)),
+      }],
+      { confirmations: this.confirmations, timeoutMs: this.timeoutMs, onSent }
+    );
+
+    return this.decodeRecord(receipt);
+  }
+
+  /**
+   * Pick up a verifyAndRecordTransaction call sent before a restart
+   */
+  async resumeRecord(txHash: string): Promise<boolean> {
+    const receipt = await this.ethereumService.waitForReceipt(txHash, this.confirmations, this.timeoutMs, this.getRelay().interface);
+    return this.decodeRecord(receipt);
+  }
+
+  /**
+   * Register a ZK proof of the Bitcoin transaction with ProofVerifier. The
+   * returned proof hash is how BridgeContract refers to it.
+   */
+  async submitProof(
+    params: { proof: ZKProofResult['proof']; publicSignals: string[]; btcTxHash: string },
+    onSent?: SentCallback
+  ): Promise<ProofSubmission> {
+    const verifier = this.getVerifier();
+
+    const receipt = await this.ethereumService.sendContractTransaction(
+      verifier,
+      'submitProof',
+      [BITCOIN_TX_CIRCUIT, this.encodeProof(params.proof), params.publicSignals.map(signal => this.toUint256(signal)), this.toBytes32(params.btcTxHash)],
+      { confirmations: this.confirmations, timeoutMs: this.timeoutMs, onSent }
+    );
+
+    return this.decodeSubmission(receipt);
+  }
+
+  /**
+   * Pick up a submitProof call sent before a restart
+   */
+  async resumeProofSubmission(txHash: string): Promise<ProofSubmission> {
+    const receipt = await this.ethereumService.waitForReceipt(txHash, this.confirmations, this.timeoutMs, this.getVerifier().interface);
+    return this.decodeSubmission(receipt);
+  }
+
+  async getProofStatus(proofHash: string): Promise<{ verified: boolean; valid: boolean }> {
+    const [verified, valid] = await this.getVerifier().isProofValid(proofHash);
+    return { verified, valid };
+  }
+
+  /**
+   * Have ProofVerifier check a submitted proof. Returns whether it was found valid.
+   */
+  async verifyProof(proofHash: string): Promise<boolean> {
+    const verifier = this.getVerifier();
+
+    const receipt = await this.ethereumService.sendContractTransaction(
+      verifier,
+      'verifyProof',
+      [proofHash],
+      { confirmations: this.confirmations, timeoutMs: this.timeoutMs }
+    );
+
+    const event = this.findEvent(receipt, verifier, CONTRACT_ADDRESSES.proofVerifier, 'ProofVerified');
+    logger.info('Proof verified on ProofVerifier', { txHash: receipt.hash, proofHash, isValid: event.args.isValid });
+    return event.args.isValid;
+  }
+
+  /**
+   * Register a BTC deposit with the contract. The amount is in satoshis and
+   * the Bitcoin txid in its usual byte order.
+   */
+  async initiateBridge(
+    params: { amount: string; btcTxHash: string; btcAddress: string; ethAddress: string },
+    onSent?: SentCallback
+  ): Promise<BridgeInitiation> {
+    const contract = this.getContract();
+
+    const receipt = await this.ethereumService.sendContractTransaction(
+      contract,
+      'initiateBridge',
+      [BigInt(params.amount), this.toBytes32(params.btcTxHash), params.btcAddress, params.ethAddress],
+      { confirmations: this.confirmations, timeoutMs: this.timeoutMs, onSent }
+    );
+
+    return this.decodeInitiation(receipt);
+  }
+
+  /**
+   * Mint the bridged amount for an initiated bridge
+   */
+  async processBridge(
+    params: { bridgeId: string; merkleProof: string; zkProof: string },
+    onSent?: SentCallback
+  ): Promise<BridgeCompletion> {
+    const contract = this.getContract();
+
+    const receipt = await this.ethereumService.sendContractTransaction(
+      contract,
+      'processBridge',
+      [params.bridgeId, this.toBytes32(params.merkleProof), this.toBytes32(params.zkProof)],
+      { confirmations: this.confirmations, timeoutMs: this.timeoutMs, onSent }
+    );
+
+    return this.decodeCompletion(receipt);
+  }
+
+  /**
+   * Pick up an initiateBridge transaction sent before a restart
+   */
+  async resumeInitiation(txHash: string): Promise<BridgeInitiation> {
+    const receipt = await this.ethereumService.waitForReceipt(txHash, this.confirmations, this.timeoutMs, this.getContract().interface);
+    return this.decodeInitiation(receipt);
+  }
+
+  /**
+   * Pick up a processBridge transaction sent before a restart
+   */
+  async resumeCompletion(txHash: string): Promise<BridgeCompletion> {
+    const receipt = await this.ethereumService.waitForReceipt(txHash, this.confirmations, this.timeoutMs, this.getContract().interface);
+    return this.decodeCompletion(receipt);
+  }
+
+  private decodeRecord(receipt: ethers.TransactionReceipt): boolean {
+    // The relay emits nothing when the proof does not check out
+    const recorded = receipt.logs.some(log =>
+      log.address.toLowerCase() === CONTRACT_ADDRESSES.btcRelay.toLowerCase() &&
+      this.getRelay().interface.parseLog(log)?.name === 'MerkleProofVerified'
+    );
+
+    logger.info('Bitcoin transaction submitted to BTCRelay', { txHash: receipt.hash, recorded });
+    return recorded;
+  }
+
+  private decodeSubmission(receipt: ethers.TransactionReceipt): ProofSubmission {
+    const event = this.findEvent(receipt, this.getVerifier(), CONTRACT_ADDRESSES.proofVerifier, 'ProofSubmitted');
+
+    logger.info('Proof submitted to ProofVerifier', { txHash: receipt.hash, proofHash: event.args.proofHash });
+    return { txHash: receipt.hash, proofHash: event.args.proofHash };
+  }
+
+  private decodeInitiation(receipt: ethers.TransactionReceipt): BridgeInitiation {
+    const event = this.findEvent(receipt, this.getContract(), CONTRACT_ADDRESSES.bridgeContract, 'BridgeInitiated');
+
+    logger.info('Bridge initiated on BridgeContract', { txHash: receipt.hash, bridgeId: event.args.bridgeId });
+    return { txHash: receipt.hash, bridgeId: event.args.bridgeId };
+  }
+
+  private decodeCompletion(receipt: ethers.TransactionReceipt): BridgeCompletion {
+    const event = this.findEvent(receipt, this.getContract(), CONTRACT_ADDRESSES.bridgeContract, 'BridgeCompleted');
+
+    const completion = {
+      txHash: receipt.hash,
+      bridgeId: event.args.bridgeId,
+      amount: event.args.amount.toString(),
+      fee: event.args.fee.toString(),
+      gasUsed: receipt.gasUsed.toString(),
+      gasPrice: receipt.gasPrice.toString(),
+    };
+
+    logger.info('Bridge completed on BridgeContract', completion);
+    return completion;
+  }
+
+  private findEvent(receipt: ethers.TransactionReceipt, contract: ethers.Contract, address: string, name: string): ethers.LogDescription {
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== address.toLowerCase()) continue;
+
+      const parsed = contract.interface.parseLog(log);
+      if (parsed?.name === name) {
+        return parsed;
+      }
+    }
+
+    throw new Error(`${name} event not found in transaction ${receipt.hash}`);
+  }
+
+  // Hex values that are not already 32 bytes, such as serialized proofs, are committed to by hash
+  private toBytes32(value: string): string {
+    const hex = value.startsWith('0x') ? value : `0x${value}`;
+    return ethers.isHexString(hex, 32) ? hex : ethers.keccak256(ethers.toUtf8Bytes(value));
+  }
+
+  // Groth16 proof as the eight field elements a Solidity verifier reads, 256 bytes; pi_b pairs are swapped to match
+  private encodeProof(proof: ZKProofResult['proof']): string {
+    const elements = [
+      proof.pi_a[0], proof.pi_a[1],
+      proof.pi_b[0][1], proof.pi_b[0][0],
+      proof.pi_b[1][1], proof.pi_b[1][0],
+      proof.pi_c[0], proof.pi_c[1],
+    ];
+    return ethers.concat(elements.map(element => ethers.toBeHex(BigInt(element), 32)));
+  }
+
+  // Circuit signals are decimal field elements; hashes and addresses are taken as hex
+  private toUint256(signal: string): bigint {
+    if (/^\d+$/.test(signal)) return BigInt(signal);
+    return BigInt(signal.startsWith('0x') ? signal : `0x${signal}`);
+  }
+
+  private getContract(): ethers.Contract {
+    if (!this.contract) {
+      throw new Error('Bridge contract not configured: set BRIDGE_CONTRACT_ADDRESS and ETHEREUM_PRIVATE_KEY');
+    }
+    return this.contract;
+  }
+
+  private getRelay(): ethers.Contract {
+    if (!this.relay) {
+      throw new Error('BTCRelay not configured: set BTC_RELAY_ADDRESS and ETHEREUM_PRIVATE_KEY');
+    }
+    return this.relay;
+  }
+
+  private getVerifier(): ethers.Contract {
+    if (!this.verifier) {
+      throw new Error('ProofVerifier not configured: set PROOF_VERIFIER_ADDRESS and ETHEREUM_PRIVATE_KEY');
+    }
+    return this.verifier;
+  }
+}
+
+export const bridgeContractService = new BridgeContractService();
@@ -0,0 +1,351 @@
+import { BridgeJob, Prisma } from '@prisma/client';
+import { TERMINAL_STATUSES, TransactionStatus } from '@zkbridge/shared';
+import { getPrismaClient } from '../config/database';
+import { logger } from '../utils/logger';
+
+export type BridgeJobStage =
+  | 'VERIFY_SOURCE'
+  | 'MERKLE_PROOF'
+  | 'ZK_PROOF'
+  | 'RELAY_RECORD'
+  | 'PROOF_REGISTRATION'
+  | 'TARGET_SUBMISSION';
+
+export type BridgeJobStatus = 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+
+// Stages each bridge direction goes through, in order
+export const PIPELINE_STAGES: Record<string, BridgeJobStage[]> = {
+  // BridgeContract only mints once BTCRelay and ProofVerifier vouch for the deposit and its proof
+  BITCOIN_TO_ETHEREUM: ['VERIFY_SOURCE', 'MERKLE_PROOF', 'ZK_PROOF', 'RELAY_RECORD', 'PROOF_REGISTRATION', 'TARGET_SUBMISSION'],
+  ETHEREUM_TO_BITCOIN: ['VERIFY_SOURCE', 'TARGET_SUBMISSION'],
+};
+
+// Parked transactions are re-driven by the confirmation watcher, not resumed on boot
+const WATCHED_STATUSES = [TransactionStatus.AWAITING_CONFIRMATIONS];
+
+// Statuses in which the source transaction has already been verified
+const VERIFIED_STATUSES: string[] = [TransactionStatus.CONFIRMED, TransactionStatus.PROOF_GENERATED, TransactionStatus.SUBMITTING];
+
+export interface BridgeJobFailure {
+  retryAt?: Date; // Unset once the retry budget is spent and the job failed for good
+  errorCount: number;
+  transactionMissing?: boolean; // The bridge transaction is gone; the job failed without retries
+}
+
+export interface BridgeJobRetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Persistent job queue for the bridge pipeline.
+ *
+ * Every pipeline stage is a row in `bridge_jobs` that a worker claims with a
+ * time-limited lease. Leases are renewed by heartbeats, so a job held by a
+ * crashed worker becomes claimable again once its lease expires.
+ */
+export class BridgeJobService {
+  private prisma = getPrismaClient();
+
+  readonly retryPolicy: BridgeJobRetryPolicy = {
+    maxRetries: parseInt(process.env.BRIDGE_JOB_MAX_RETRIES || '5'),
+    baseDelayMs: parseInt(process.env.BRIDGE_JOB_RETRY_BASE_MS || '15000'),
+    maxDelayMs: parseInt(process.env.BRIDGE_JOB_RETRY_MAX_MS || '900000'),
+  };
+
+  /**
+   * Queue a stage for a transaction, unless the same stage is already queued or running
+   */
+  async enqueue(transactionId: string, stage: BridgeJobStage, runAt: Date = new Date()): Promise<BridgeJob> {
+    const existing = await this.findActive(transactionId, stage);
+
+    if (existing) {
+      return existing;
+    }
+
+    try {
+      const job = await this.prisma.bridgeJob.create({
+        data: { transactionId, stage, runAt },
+      });
+
+      logger.info('Bridge job queued', { jobId: job.id, transactionId, stage });
+      return job;
+    } catch (error) {
+      // The partial unique index from the bridge_job_active_stage migration allows one queued or
+      // running job per stage, so a concurrent enqueue won
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const winner = await this.findActive(transactionId, stage);
+        if (winner) return winner;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Claim the next due job. Returns null when nothing is due or another worker won the race.
+   */
+  async claimNext(workerId: string, leaseMs: number): Promise<BridgeJob | null> {
+    const now = new Date();
+    const claimable = {
+      OR: [
+        { status: 'QUEUED', runAt: { lte: now } },
+        { status: 'RUNNING', leaseExpiresAt: { lt: now } },
+      ],
+    };
+
+    const candidate = await this.prisma.bridgeJob.findFirst({
+      where: claimable,
+      orderBy: { runAt: 'asc' },
+    });
+
+    if (!candidate) {
+      return null;
+    }
+
+    // Conditional update so only one worker can take the lease
+    const claimed = await this.prisma.bridgeJob.updateMany({
+      where: { id: candidate.id, ...claimable },
+      data: {
+        status: 'RUNNING',
+        lockedBy: workerId,
+        leaseExpiresAt: new Date(now.getTime() + leaseMs),
+      },
+    });
+
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    if (candidate.status === 'RUNNING') {
+      logger.warn('Reclaimed bridge job with expired lease', {
+        jobId: candidate.id,
+        previousWorker: candidate.lockedBy,
+      });
+    }
+
+    return this.prisma.bridgeJob.findUnique({ where: { id: candidate.id } });
+  }
+
+  /**
+   * Extend the lease on a running job. Returns false if the lease was lost.
+   */
+  async heartbeat(jobId: string, workerId: string, leaseMs: number): Promise<boolean> {
+    const result = await this.prisma.bridgeJob.updateMany({
+      where: { id: jobId, lockedBy: workerId, status: 'RUNNING' },
+      data: { leaseExpiresAt: new Date(Date.now() + leaseMs) },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Mark a job as done and release its lease. The transaction's errorCount is
+   * reset so the next stage gets a full retry budget.
+   * Returns false if the lease was lost, in which case nothing is changed.
+   */
+  async complete(jobId: string, workerId: string): Promise<boolean> {
+    return this.prisma.$transaction(async tx => {
+      const released = await tx.bridgeJob.updateMany({
+        where: { id: jobId, lockedBy: workerId, status: 'RUNNING' },
+        data: {
+          status: 'COMPLETED',
+          completedAt: new Date(),
+          lockedBy: null,
+          leaseExpiresAt: null,
+        },
+      });
+
+      if (released.count === 0) {
+        return false;
+      }
+
+      const job = await tx.bridgeJob.findUniqueOrThrow({ where: { id: jobId } });
+      await tx.bridgeTransaction.updateMany({
+        where: { id: job.transactionId },
+        data: { errorCount: 0 },
+      });
+
+      return true;
+    });
+  }
+
+  /**
+   * Record a failed attempt. The transaction's errorCount drives the backoff;
+   * once it exceeds the retry budget the job is failed for good.
+   * Returns null if the lease was lost, in which case nothing is recorded. A job
+   * whose transaction no longer exists is failed for good.
+   */
+  async fail(job: BridgeJob, workerId: string, errorMessage: string): Promise<BridgeJobFailure | null> {
+    return this.prisma.$transaction(async tx => {
+      const released = await tx.bridgeJob.updateMany({
+        where: { id: job.id, lockedBy: workerId, status: 'RUNNING' },
+        data: {
+          lastError: errorMessage,
+          lockedBy: null,
+          leaseExpiresAt: null,
+        },
+      });
+
+      if (released.count === 0) {
+        return null;
+      }
+
+      // Retrying cannot bring the transaction back; failing the job keeps it from being reclaimed forever
+      const transaction = await tx.bridgeTransaction.findUnique({ where: { id: job.transactionId }, select: { id: true } });
+      if (!transaction) {
+        await tx.bridgeJob.update({
+          where: { id: job.id },
+          data: { status: 'FAILED' },
+        });
+
+        return { errorCount: 0, transactionMissing: true };
+      }
+
+      const { errorCount } = await tx.bridgeTransaction.update({
+        where: { id: job.transactionId },
+        data: {
+          errorMessage,
+          errorCount: { increment: 1 },
+        },
+      });
+
+      if (errorCount > this.retryPolicy.maxRetries) {
+        await tx.bridgeJob.update({
+          where: { id: job.id },
+          data: { status: 'FAILED' },
+        });
+
+        return { errorCount };
+      }
+
+      const retryAt = new Date(Date.now() + this.getBackoffDelay(errorCount));
+
+      await tx.bridgeJob.update({
+        where: { id: job.id },
+        data: { status: 'QUEUED', runAt: retryAt },
+      });
+
+      return { retryAt, errorCount };
+    });
+  }
+
+  /**
+   * Cancel every queued stage of a transaction. Running jobs are left to finish.
+   */
+  async cancelQueued(transactionId: string, reason: string): Promise<number> {
+    const result = await this.prisma.bridgeJob.updateMany({
+      where: { transactionId, status: 'QUEUED' },
+      data: { status: 'CANCELLED', lastError: reason },
+    });
+
+    if (result.count > 0) {
+      logger.info('Cancelled queued bridge jobs', { transactionId, count: result.count, reason });
+    }
+
+    return result.count;
+  }
+
+  /**
+   * Whether a worker currently holds a job for the transaction
+   */
+  async hasRunningJob(transactionId: string): Promise<boolean> {
+    const running = await this.prisma.bridgeJob.count({
+      where: { transactionId, status: 'RUNNING' },
+    });
+
+    return running > 0;
+  }
+
+  /**
+   * Exponential backoff with jitter, capped at maxDelayMs
+   */
+  getBackoffDelay(errorCount: number): number {
+    const exponential = this.retryPolicy.baseDelayMs * Math.pow(2, Math.max(errorCount - 1, 0));
+    const jitter = Math.floor(Math.random() * this.retryPolicy.baseDelayMs);
+    return Math.min(exponential + jitter, this.retryPolicy.maxDelayMs);
+  }
+
+  /**
+   * Next stage after `stage` for the given direction, or null at the end of the pipeline
+   */
+  getNextStage(direction: string, stage: BridgeJobStage): BridgeJobStage | null {
+    const stages = PIPELINE_STAGES[direction] || [];
+    const index = stages.indexOf(stage);
+    return index >= 0 && index < stages.length - 1 ? stages[index + 1] : null;
+  }
+
+  /**
+   * Queue jobs for every unfinished transaction that has no live job, picking
+   * up from the first stage whose output is missing. Called on worker boot.
+   */
+  async resumeUnfinishedTransactions(): Promise<number> {
+    const transactions = await this.prisma.bridgeTransaction.findMany({
+      where: {
+        status: { notIn: [...TERMINAL_STATUSES, ...WATCHED_STATUSES] },
+        // Flagged transactions wait for an operator instead of being driven further
+        requiresReview: false,
+      },
+    });
+
+    let resumed = 0;
+
+    for (const transaction of transactions) {
+      const activeJobs = await this.prisma.bridgeJob.count({
+        where: {
+          transactionId: transaction.id,
+          status: { in: ['QUEUED', 'RUNNING'] },
+        },
+      });
+
+      if (activeJobs > 0) {
+        continue;
+      }
+
+      const stage = this.getResumeStage(transaction);
+      await this.enqueue(transaction.id, stage);
+      resumed++;
+    }
+
+    if (resumed > 0) {
+      logger.info('Resumed unfinished bridge transactions', { count: resumed });
+    }
+
+    return resumed;
+  }
+
+  private findActive(transactionId: string, stage: BridgeJobStage): Promise<BridgeJob | null> {
+    return this.prisma.bridgeJob.findFirst({
+      where: {
+        transactionId,
+        stage,
+        status: { in: ['QUEUED', 'RUNNING'] },
+      },
+    });
+  }
+
+  private getResumeStage(transaction: {
+    direction: string;
+    status: string;
+    merkleProof: string | null;
+    zkProof: string | null;
+    relayRecordedAt: Date | null;
+    proofVerifiedAt: Date | null;
+  }): BridgeJobStage {
+    // Anything that has not been confirmed on the source chain starts over from verification
+    if (!VERIFIED_STATUSES.includes(transaction.status)) {
+      return 'VERIFY_SOURCE';
+    }
+
+    if (transaction.direction === 'BITCOIN_TO_ETHEREUM') {
+      if (!transaction.merkleProof) return 'MERKLE_PROOF';
+      if (!transaction.zkProof) return 'ZK_PROOF';
+      if (!transaction.relayRecordedAt) return 'RELAY_RECORD';
+      if (!transaction.proofVerifiedAt) return 'PROOF_REGISTRATION';
+    }
+
+    return 'TARGET_SUBMISSION';
+  }
+}
+
+export const bridgeJobService = new BridgeJobService();
@@ -0,0 +1,172 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import { getAddress, isAddress } from 'ethers';
+import { BitcoinTransaction } from './bitcoinProviders';
+
+/**
+ * Bridge payload carried in an OP_RETURN output of a Bitcoin deposit.
+ *
+ * Layout (version 1):
+ *   bytes 0-2    magic "ZKB"
+ *   byte  3      version
+ *   bytes 4-23   recipient EVM address
+ *   bytes 24-31  target chain id, big-endian uint64
+ *   bytes 32-63  optional nonce, 1 to 32 bytes
+ *
+ * The depositor commits to the recipient when signing the Bitcoin
+ * transaction, so whoever later submits the bridge request cannot redirect
+ * the mint to another address.
+ */
+
+const MAGIC = Buffer.from('ZKB', 'ascii');
+export const BRIDGE_PAYLOAD_VERSION = 1;
+const HEADER_LENGTH = MAGIC.length + 1;
+const V1_LENGTH = HEADER_LENGTH + 20 + 8;
+const MAX_NONCE_LENGTH = 32;
+
+// Chain the bridge mints on; payloads for any other chain are rejected
+export const EXPECTED_CHAIN_ID = parseInt(process.env.ETHEREUM_CHAIN_ID || '11155111');
+
+export interface BridgePayload {
+  version: number;
+  recipient: string; // checksummed EVM address
+  chainId: number;
+  nonce?: string; // hex
+}
+
+export interface BridgePayloadVerification {
+  isValid: boolean;
+  payload?: BridgePayload;
+  error?: string;
+}
+
+// Client errors: the transaction does not commit to the requested recipient
+export class BridgePayloadError extends Error {
+  readonly statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'BridgePayloadError';
+  }
+}
+
+/**
+ * Encode the OP_RETURN data for a deposit (without the OP_RETURN opcode)
+ */
+export function encodeBridgePayload(payload: Omit<BridgePayload, 'version'>): Buffer {
+  if (!isAddress(payload.recipient)) {
+    throw new BridgePayloadError('Recipient must be an Ethereum address');
+  }
+
+  const nonce = payload.nonce ? Buffer.from(payload.nonce.replace(/^0x/, ''), 'hex') : Buffer.alloc(0);
+  if (nonce.length > MAX_NONCE_LENGTH) {
+    throw new BridgePayloadError(`Nonce must be at most ${MAX_NONCE_LENGTH} bytes`);
+  }
+
+  const chainId = Buffer.alloc(8);
+  chainId.writeBigUInt64BE(BigInt(payload.chainId));
+
+  return Buffer.concat([
+    MAGIC,
+    Buffer.from([BRIDGE_PAYLOAD_VERSION]),
+    Buffer.from(getAddress(payload.recipient).slice(2), 'hex'),
+    chainId,
+    nonce,
+  ]);
+}
+
+/**
+ * Full OP_RETURN output script for a deposit, as hex
+ */
+export function buildBridgePayloadScript(payload: Omit<BridgePayload, 'version'>): string {
+  return bitcoin.script.compile([bitcoin.opcodes.OP_RETURN, encodeBridgePayload(payload)]).toString('hex');
+}
+
+/**
+ * Decode OP_RETURN data. Returns null when the data is not a bridge payload
+ * at all (another protocol's OP_RETURN) and throws when it is a malformed one.
+ */
+export function decodeBridgePayload(data: Buffer): BridgePayload | null {
+  if (data.length < HEADER_LENGTH || !data.subarray(0, MAGIC.length).equals(MAGIC)) {
+    return null;
+  }
+
+  const version = data[MAGIC.length];
+  if (version !== BRIDGE_PAYLOAD_VERSION) {
+    throw new BridgePayloadError(`Unsupported bridge payload version ${version}`);
+  }
+
+  if (data.length < V1_LENGTH || data.length > V1_LENGTH + MAX_NONCE_LENGTH) {
+    throw new BridgePayloadError('Malformed bridge payload');
+  }
+
+  const chainId = data.readBigUInt64BE(HEADER_LENGTH + 20);
+  if (chainId > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new BridgePayloadError('Bridge payload chain id out of range');
+  }
+
+  const nonce = data.subarray(V1_LENGTH);
+
+  return {
+    version,
+    recipient: getAddress(`0x${data.subarray(HEADER_LENGTH, HEADER_LENGTH + 20).toString('hex')}`),
+    chainId: Number(chainId),
+    nonce: nonce.length > 0 ? nonce.toString('hex') : undefined,
+  };
+}
+
+/**
+ * Find the bridge payload among a transaction's outputs. A transaction may
+ * carry at most one.
+ */
+export function extractBridgePayload(tx: BitcoinTransaction): BridgePayload | null {
+  const payloads: BridgePayload[] = [];
+
+  for (const output of tx.vout) {
+    const chunks = bitcoin.script.decompile(Buffer.from(output.scriptpubkey, 'hex'));
+    if (!chunks || chunks[0] !== bitcoin.opcodes.OP_RETURN) {
+      continue;
+    }
+
+    // Bridge payloads are a single data push
+    if (chunks.length !== 2 || !Buffer.isBuffer(chunks[1])) {
+      continue;
+    }
+
+    const payload = decodeBridgePayload(chunks[1]);
+    if (payload) {
+      payloads.push(payload);
+    }
+  }
+
+  if (payloads.length > 1) {
+    throw new BridgePayloadError('Transaction carries more than one bridge payload');
+  }
+
+  return payloads[0] || null;
+}
+
+/**
+ * Check that a Bitcoin transaction commits to the recipient and chain of a bridge request
+ */
+export function verifyBridgePayload(tx: BitcoinTransaction, targetAddress: string): BridgePayloadVerification {
+  let payload: BridgePayload | null;
+  try {
+    payload = extractBridgePayload(tx);
+  } catch (error) {
+    return { isValid: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+
+  if (!payload) {
+    return { isValid: false, error: 'Source transaction has no bridge OP_RETURN payload' };
+  }
+
+  if (payload.chainId !== EXPECTED_CHAIN_ID) {
+    return { isValid: false, payload, error: `Bridge payload targets chain ${payload.chainId}, expected ${EXPECTED_CHAIN_ID}` };
+  }
+
+  if (payload.recipient.toLowerCase() !== targetAddress.toLowerCase()) {
+    return { isValid: false, payload, error: 'Target address does not match the recipient in the bridge payload' };
+  }
+
+  return { isValid: true, payload };
+}
@@ -0,0 +1,181 @@
+import { randomBytes } from 'crypto';
+import { hostname } from 'os';
+import { BridgeJob } from '@prisma/client';
+import { getPrismaClient } from '../config/database';
+import { logger } from '../utils/logger';
+import { BridgeService } from './bridgeService';
+import { bridgeJobService, BridgeJobStage } from './bridgeJobService';
+import { bridgeTransactionService } from './bridgeTransactionService';
+import { bridgeStatusService, StatusTransitionError } from './bridgeStatusService';
+
+type StageHandler = (transactionId: string) => Promise<boolean>;
+
+/**
+ * Background worker that drives bridge transactions through the pipeline.
+ *
+ * Jobs are claimed from the database, so work queued before a restart or held
+ * by a crashed process is picked up again instead of being lost.
+ */
+export class BridgePipelineWorker {
+  private prisma = getPrismaClient();
+  private bridgeService = new BridgeService();
+  private readonly workerId = `${hostname()}-${process.pid}-${randomBytes(4).toString('hex')}`;
+  private readonly pollIntervalMs = parseInt(process.env.BRIDGE_WORKER_POLL_INTERVAL_MS || '5000');
+  private readonly leaseMs = parseInt(process.env.BRIDGE_WORKER_LEASE_MS || '60000');
+  private running = false;
+  private pollTimer?: NodeJS.Timeout;
+  private currentJob?: Promise<void>;
+
+  private readonly handlers: Record<BridgeJobStage, StageHandler> = {
+    VERIFY_SOURCE: id => this.bridgeService.verifySourceTransaction(id),
+    MERKLE_PROOF: id => this.bridgeService.generateAndStoreMerkleProof(id),
+    ZK_PROOF: id => this.bridgeService.generateAndStoreZKProof(id),
+    RELAY_RECORD: id => this.bridgeService.recordSourceOnRelay(id),
+    PROOF_REGISTRATION: id => this.bridgeService.registerZKProof(id),
+    TARGET_SUBMISSION: id => this.bridgeService.initiateTargetTransaction(id),
+  };
+
+  /**
+   * Re-queue unfinished transactions and start polling for jobs
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      await bridgeJobService.resumeUnfinishedTransactions();
+    } catch (error) {
+      logger.error('Failed to resume unfinished bridge transactions', { error });
+    }
+
+    logger.info('Bridge pipeline worker started', { workerId: this.workerId });
+    this.schedulePoll(0);
+  }
+
+  /**
+   * Stop polling and wait for the job in progress to settle
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+    }
+    await this.currentJob;
+    logger.info('Bridge pipeline worker stopped', { workerId: this.workerId });
+  }
+
+  private schedulePoll(delayMs: number): void {
+    if (!this.running) return;
+    this.pollTimer = setTimeout(() => this.poll(), delayMs);
+  }
+
+  private async poll(): Promise<void> {
+    let job: BridgeJob | null = null;
+
+    try {
+      job = await bridgeJobService.claimNext(this.workerId, this.leaseMs);
+      if (job) {
+        this.currentJob = this.runJob(job);
+        await this.currentJob;
+      }
+    } catch (error) {
+      logger.error('Bridge pipeline worker poll failed', { error });
+    } finally {
+      this.currentJob = undefined;
+      // Drain the queue without waiting while there is work
+      this.schedulePoll(job ? 0 : this.pollIntervalMs);
+    }
+  }
+
+  private async runJob(job: BridgeJob): Promise<void> {
+    const stage = job.stage as BridgeJobStage;
+    const handler = this.handlers[stage];
+
+    const heartbeat = setInterval(async () => {
+      const renewed = await bridgeJobService.heartbeat(job.id, this.workerId, this.leaseMs).catch(() => false);
+      if (!renewed) {
+        logger.warn('Lost lease on bridge job', { jobId: job.id, stage });
+      }
+    }, Math.floor(this.leaseMs / 3));
+
+    logger.info('Running bridge job', { jobId: job.id, transactionId: job.transactionId, stage });
+
+    try {
+      if (!handler) {
+        throw new Error(`Unknown pipeline stage: ${job.stage}`);
+      }
+
+      const advance = await handler(job.transactionId);
+
+      // Another worker reclaimed the job; the stage's outcome is theirs to act on
+      if (!(await bridgeJobService.complete(job.id, this.workerId))) {
+        logger.warn('Lost lease before completing bridge job', { jobId: job.id, stage });
+        return;
+      }
+
+      if (advance) {
+        await this.enqueueNextStage(job.transactionId, stage);
+      }
+    } catch (error) {
+      // The transaction moved on (or was cancelled) under the job; retrying cannot help
+      if (error instanceof StatusTransitionError) {
+        logger.warn('Dropping bridge job for transaction in another status', { jobId: job.id, stage, error: error.message });
+        await bridgeJobService.complete(job.id, this.workerId);
+        return;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await this.handleFailure(job, errorMessage);
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async enqueueNextStage(transactionId: string, stage: BridgeJobStage): Promise<void> {
+    const transaction = await this.prisma.bridgeTransaction.findUnique({
+      where: { id: transactionId },
+    });
+
+    if (!transaction) return;
+
+    const nextStage = bridgeJobService.getNextStage(transaction.direction, stage);
+    if (nextStage) {
+      await bridgeJobService.enqueue(transactionId, nextStage);
+    }
+  }
+
+  private async handleFailure(job: BridgeJob, errorMessage: string): Promise<void> {
+    logger.error('Bridge job failed', { jobId: job.id, stage: job.stage, error: errorMessage });
+
+    const failure = await bridgeJobService.fail(job, this.workerId, errorMessage);
+
+    if (!failure) {
+      logger.warn('Lost lease before recording bridge job failure', { jobId: job.id, stage: job.stage });
+      return;
+    }
+
+    if (failure.transactionMissing) {
+      logger.warn('Failed bridge job for a transaction that no longer exists', { jobId: job.id, stage: job.stage });
+      return;
+    }
+
+    const { retryAt, errorCount } = failure;
+
+    if (retryAt) {
+      await bridgeTransactionService.createEvent(job.transactionId, 'RETRY_SCHEDULED', {
+        message: `${job.stage} failed, retrying at ${retryAt.toISOString()}`,
+        stage: job.stage,
+        attempt: errorCount,
+        error: errorMessage,
+      });
+      return;
+    }
+
+    await bridgeStatusService.fail(job.transactionId, errorMessage, {
+      message: `${job.stage} failed after ${errorCount} attempts`,
+      details: { stage: job.stage },
+    });
+  }
+}
+
+export const bridgePipelineWorker = new BridgePipelineWorker();
@@ -1,10 +1,30 @@
-import { PrismaClient } from '@prisma/client';
+import { BridgeTransaction, Prisma, PrismaClient } from '@prisma/client';
 import { bitcoinTestnetService } from './bitcoinTestnetService';
-import { EthereumService } from './ethereumService';
-import { ZKProofService } from './zkProofService';
+import { ContractRevertError, EthereumService } from './ethereumService';
+import { bridgeContractService } from './bridgeContractService';
+import { bridgeTransactionService, DuplicateBridgeError } from './bridgeTransactionService';
+import { bridgeStatusService } from './bridgeStatusService';
+import { ZKProofService, ZKProofResult, toTransactionProof } from './zkProofService';
+import { btcRelayer } from './btcRelayer';
+import { bridgeJobService } from './bridgeJobService';
+import { depositAddressService, DepositAddressError } from './depositAddressService';
+import { verifyBridgePayload, BridgePayloadError } from './bridgePayload';
+import { payoutService } from './payoutService';
 import { logger } from '../utils/logger';
+import { generateNonce, TransactionStatus } from '../types';
 import { BitcoinTransaction, MerkleProof } from './bitcoinTestnetService';
 
+type BridgeDirection = 'BITCOIN_TO_ETHEREUM' | 'ETHEREUM_TO_BITCOIN';
+
+// BTCRelay.MIN_CONFIRMATIONS: relayed headers needed on top of a block before its transactions can be recorded
+const RELAY_MIN_CONFIRMATIONS = 6;
+
+// Source-chain confirmations required before a bridge transaction advances, per direction
+export const REQUIRED_CONFIRMATIONS: Record<BridgeDirection, number> = {
+  BITCOIN_TO_ETHEREUM: parseInt(process.env.BITCOIN_REQUIRED_CONFIRMATIONS || '6'),
+  ETHEREUM_TO_BITCOIN: parseInt(process.env.ETHEREUM_REQUIRED_CONFIRMATIONS || '6'),
+};
+
 export interface BridgeInitiationData {
   fromChain: 'bitcoin' | 'ethereum';
   toChain: 'bitcoin' | 'ethereum';
@@ -13,6 +33,7 @@ export interface BridgeInitiationData {
   sourceAddress: string;
   targetAddress: string;
   userId?: string;
+  depositAddress?: string;
 }
 
 export interface BridgeStatus {
@@ -47,26 +68,34 @@ export class BridgeService {
       // Validate input data
       this.validateBridgeData(data);
 
+      // Bitcoin deposits must go to the custody address issued for this request
+      const depositAddress = data.fromChain === 'bitcoin'
+        ? await depositAddressService.resolveForBridge(data.depositAddress, data.targetAddress)
+        : null;
+
       // Create bridge transaction record
       const bridgeTx = await this.prisma.bridgeTransaction.create({
         data: {
           direction: this.getBridgeDirection(data.fromChain, data.toChain),
-          status: 'PENDING',
+          status: TransactionStatus.PENDING,
           sourceTxHash: data.sourceTxHash,
           sourceAmount: data.sourceAmount,
           sourceAddress: data.sourceAddress,
           targetAddress: data.targetAddress,
           userId: data.userId,
+          depositAddressId: depositAddress?.id,
           confirmations: 0
         }
       });
 
+      if (depositAddress) {
+        await depositAddressService.markUsed(depositAddress.id);
+      }
+
       logger.info('Bridge transaction created', { id: bridgeTx.id });
 
-      // Start async verification process
-      this.verifySourceTransaction(bridgeTx.id).catch(error => {
-        logger.error('Error in async verification:', error);
-      });
+      // Queue source verification; the pipeline worker picks it up from the database
+      await bridgeJobService.enqueue(bridgeTx.id, 'VERIFY_SOURCE');
 
       return {
         id: bridgeTx.id,
@@ -81,7 +110,13 @@ export class BridgeService {
       };
     } catch (error) {
       logger.error('Error initiating bridge:', error);
-      throw new Error(`Failed to initiate bridge: ${error.message}`);
+      if (error instanceof DepositAddressError) {
+        throw error;
+      }
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new DuplicateBridgeError(data.sourceTxHash);
+      }
+      throw new Error(`Failed to initiate bridge: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
@@ -95,160 +130,461 @@ export class BridgeService {
         throw new Error('Bridge transaction not found');
       }
 
-      return {
-        id: bridgeTx.id,
-        status: bridgeTx.status,
-        fromChain: this.getChainName(bridgeTx.direction, 'from'),
-        toChain: this.getChainName(bridgeTx.direction, 'to'),
-        sourceTxHash: bridgeTx.sourceTxHash,
-        targetTxHash: bridgeTx.targetTxHash || undefined,
-        amount: bridgeTx.sourceAmount,
-        confirmations: bridgeTx.confirmations,
-        createdAt: bridgeTx.createdAt,
-        updatedAt: bridgeTx.updatedAt
-      };
+      return this.mapToBridgeStatus(bridgeTx);
     } catch (error) {
       logger.error('Error getting bridge status:', error);
-      throw new Error(`Failed to get bridge status: ${error.message}`);
+      throw new Error(`Failed to get bridge status: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async verifySourceTransaction(bridgeTxId: string): Promise<void> {
-    try {
-      const bridgeTx = await this.prisma.bridgeTransaction.findUnique({
-        where: { id: bridgeTxId }
-      });
+  /**
+   * Pipeline stage: verify the source transaction and record its confirmations.
+   * Returns true when the transaction is deep enough to move on to the next stage;
+   * otherwise it is parked as AWAITING_CONFIRMATIONS for the confirmation watcher.
+   * Transient errors are thrown so the pipeline worker can retry them.
+   */
+  async verifySourceTransaction(bridgeTxId: string): Promise<boolean> {
+    const bridgeTx = await this.prisma.bridgeTransaction.findUnique({
+      where: { id: bridgeTxId }
+    });
 
-      if (!bridgeTx) {
-        throw new Error('Bridge transaction not found');
+    if (!bridgeTx) {
+      throw new Error('Bridge transaction not found');
+    }
+
+    logger.info('Verifying source transaction', { bridgeTxId, sourceTxHash: bridgeTx.sourceTxHash });
+
+    await bridgeStatusService.transition(bridgeTxId, TransactionStatus.VERIFYING, {
+      message: 'Verifying source transaction'
+    });
+
+    // Verify based on source chain
+    let isValid: boolean;
+    let confirmations: number;
+    let failureReason = 'Source transaction verification failed';
+    if (bridgeTx.direction === 'BITCOIN_TO_ETHEREUM') {
+      // A transaction still in the mempool is valid but has to wait for confirmations
+      const bitcoinTx = await bitcoinTestnetService.getTransaction(bridgeTx.sourceTxHash);
+      confirmations = await bitcoinTestnetService.getConfirmationCount(bridgeTx.sourceTxHash);
+
+      // The recipient comes from the depositor's OP_RETURN commitment, not from the request
+      const payload = verifyBridgePayload(bitcoinTx, bridgeTx.targetAddress);
+      const deposit = await depositAddressService.verifyDeposit(bitcoinTx, bridgeTx.depositAddressId, bridgeTx.sourceAmount);
+      isValid = bitcoinTx.txid === bridgeTx.sourceTxHash && payload.isValid && deposit.isValid;
+      failureReason = payload.error || deposit.error || failureReason;
+
+      // Bridge what actually reached custody, not the sum of every output
+      if (isValid) {
+        await this.prisma.bridgeTransaction.update({
+          where: { id: bridgeTxId },
+          data: {
+            targetAmount: deposit.creditedAmount!.toString(),
+            depositOutpoints: JSON.stringify(deposit.outpoints)
+          }
+        });
       }
+    } else {
+      // The source is a wrapped BTC burn, so the decoded event is checked rather than the ETH value
+      const verification = await this.ethereumService.verifyBurn(bridgeTx.sourceTxHash, {
+        burner: bridgeTx.sourceAddress,
+        amount: bridgeTx.sourceAmount,
+        btcAddress: bridgeTx.targetAddress
+      });
+      failureReason = verification.error || failureReason;
 
-      logger.info('Verifying source transaction', { bridgeTxId, sourceTxHash: bridgeTx.sourceTxHash });
-
-      // Update status to processing
-      await this.updateBridgeStatus(bridgeTxId, 'PROCESSING');
-
-      // Verify based on source chain
-      let verificationResult;
-      if (bridgeTx.direction === 'BITCOIN_TO_ETHEREUM') {
-        // Verify Bitcoin transaction using testnet service
-        const bitcoinTx = await bitcoinTestnetService.getTransaction(bridgeTx.sourceTxHash);
-        const confirmations = await bitcoinTestnetService.getConfirmationCount(bridgeTx.sourceTxHash);
-        verificationResult = {
-          isValid: bitcoinTx.status.confirmed && confirmations > 0,
-          transaction: bitcoinTx,
-          confirmations
-        };
+      if (verification.pending) {
+        // Verified in full once it is mined and confirmed
+        isValid = true;
+        confirmations = 0;
       } else {
-        verificationResult = await this.ethereumService.verifyTransaction(
-          bridgeTx.sourceTxHash,
-          bridgeTx.sourceAddress,
-          bridgeTx.sourceAmount
-        );
+        isValid = verification.isValid;
+        confirmations = isValid ? await this.ethereumService.getConfirmationCount(bridgeTx.sourceTxHash) : 0;
       }
 
-      if (!verificationResult.isValid) {
-        await this.updateBridgeStatus(bridgeTxId, 'FAILED', 'Source transaction verification failed');
-        return;
+      if (verification.isValid) {
+        await this.prisma.bridgeTransaction.update({
+          where: { id: bridgeTxId },
+          data: {
+            targetAmount: verification.burn!.amount,
+            contractBridgeId: verification.burn!.bridgeId
+          }
+        });
       }
+    }
 
-      // Update confirmations
-      await this.updateBridgeConfirmations(bridgeTxId, verificationResult.confirmations || 0);
+    if (!isValid) {
+      await bridgeStatusService.fail(bridgeTxId, failureReason, { details: { stage: 'VERIFY_SOURCE' } });
+      return false;
+    }
 
-      // Wait for sufficient confirmations
-      if (verificationResult.confirmations < 6) {
-        logger.info('Waiting for more confirmations', { 
-          bridgeTxId, 
-          confirmations: verificationResult.confirmations 
-        });
-        return;
-      }
+    await this.updateBridgeConfirmations(bridgeTxId, confirmations);
+
+    const required = REQUIRED_CONFIRMATIONS[bridgeTx.direction as BridgeDirection];
+    if (confirmations < required) {
+      logger.info('Waiting for more confirmations', { bridgeTxId, confirmations, required });
+      await bridgeStatusService.transition(bridgeTxId, TransactionStatus.AWAITING_CONFIRMATIONS, {
+        message: `${confirmations}/${required} confirmations`,
+        details: { confirmations, required }
+      });
+      return false;
+    }
 
-      // Generate ZK proof
-      await this.generateAndStoreZKProof(bridgeTxId);
+    await bridgeStatusService.transition(bridgeTxId, TransactionStatus.CONFIRMED, {
+      message: 'Source transaction verified and confirmed',
+      details: { confirmations, required }
+    });
+    return true;
+  }
 
-      // Update status to confirmed
-      await this.updateBridgeStatus(bridgeTxId, TransactionStatus.CONFIRMED);
+  /**
+   * Pipeline stage: build and store the Merkle inclusion proof for a Bitcoin source transaction
+   */
+  async generateAndStoreMerkleProof(bridgeTxId: string): Promise<boolean> {
+    const bridgeTx = await this.prisma.bridgeTransaction.findUnique({
+      where: { id: bridgeTxId }
+    });
 
-      // Start target chain transaction
-      await this.initiateTargetTransaction(bridgeTxId);
+    if (!bridgeTx) {
+      throw new Error('Bridge transaction not found');
+    }
 
-    } catch (error) {
-      logger.error('Error verifying source transaction:', error);
-      await this.updateBridgeStatus(bridgeTxId, TransactionStatus.FAILED, error.message);
+    logger.info('Generating Merkle proof for bridge transaction', { bridgeTxId });
+
+    const merkleProof = await bitcoinTestnetService.generateMerkleProof(bridgeTx.sourceTxHash);
+
+    if (!bitcoinTestnetService.verifyMerkleProof(merkleProof)) {
+      throw new Error('Generated Merkle proof does not match the block merkle root');
     }
+
+    await this.prisma.bridgeTransaction.update({
+      where: { id: bridgeTxId },
+      data: {
+        merkleProof: JSON.stringify(merkleProof),
+        merkleRoot: merkleProof.merkleRoot,
+        blockHeight: merkleProof.blockHeight,
+        blockHash: merkleProof.blockHash
+      }
+    });
+
+    logger.info('Merkle proof generated and stored', { bridgeTxId, merkleRoot: merkleProof.merkleRoot });
+    return true;
   }
 
-  async generateAndStoreZKProof(bridgeTxId: string): Promise<void> {
-    try {
-      const bridgeTx = await this.prisma.bridgeTransaction.findUnique({
-        where: { id: bridgeTxId }
-      });
+  /**
+   * Pipeline stage: generate the ZK proof from the stored Merkle proof
+   */
+  async generateAndStoreZKProof(bridgeTxId: string): Promise<boolean> {
+    const bridgeTx = await this.prisma.bridgeTransaction.findUnique({
+      where: { id: bridgeTxId }
+    });
 
-      if (!bridgeTx) {
-        throw new Error('Bridge transaction not found');
+    if (!bridgeTx) {
+      throw new Error('Bridge transaction not found');
+    }
+
+    if (!bridgeTx.merkleProof) {
+      throw new Error('Merkle proof must be generated before the ZK proof');
+    }
+
+    logger.info('Generating ZK proof for bridge transaction', { bridgeTxId });
+
+    const merkleProof: MerkleProof = JSON.parse(bridgeTx.merkleProof);
+    const bitcoinTx = await bitcoinTestnetService.getTransaction(bridgeTx.sourceTxHash);
+
+    const zkProof = await this.zkProofService.generateBitcoinTransactionProof(
+      toTransactionProof(bitcoinTx, merkleProof),
+      bridgeTx.targetAmount || bridgeTx.sourceAmount,
+      bridgeTx.targetAddress,
+      generateNonce()
+    );
+
+    await bridgeStatusService.transition(bridgeTxId, TransactionStatus.PROOF_GENERATED, {
+      message: 'Zero-Knowledge proof generated',
+      data: {
+        zkProof: JSON.stringify(zkProof),
+        proofGeneratedAt: new Date()
       }
+    });
 
-      logger.info('Generating ZK proof for bridge transaction', { bridgeTxId });
+    logger.info('ZK proof generated and stored', { bridgeTxId });
+    return true;
+  }
 
-      // Prepare proof data
-      const proofData = {
-        bitcoinTxHash: bridgeTx.sourceTxHash,
-        bitcoinAmount: bridgeTx.sourceAmount,
-        ethereumAddress: bridgeTx.targetAddress,
-        ethereumAmount: bridgeTx.targetAmount || bridgeTx.sourceAmount
-      };
+  /**
+   * Pipeline stage: record the source transaction in BTCRelay, which
+   * BridgeContract checks before it processes the bridge
+   */
+  async recordSourceOnRelay(bridgeTxId: string): Promise<boolean> {
+    const bridgeTx = await this.prisma.bridgeTransaction.findUnique({
+      where: { id: bridgeTxId }
+    });
 
-      // Generate ZK proof
-      const zkProof = await this.zkProofService.generateBridgeProof(proofData, {
-        address: bridgeTx.targetAddress,
-        amount: bridgeTx.targetAmount || bridgeTx.sourceAmount
-      });
+    if (!bridgeTx) {
+      throw new Error('Bridge transaction not found');
+    }
 
-      // Store proof in database
-      await this.prisma.bridgeTransaction.update({
-        where: { id: bridgeTxId },
-        data: {
-          zkProof: JSON.stringify(zkProof)
+    if (!bridgeTx.merkleProof) {
+      throw new Error('Merkle proof must be generated before recording the transaction in BTCRelay');
+    }
+
+    // Already recorded, e.g. by a call that was still in flight when the last attempt gave up
+    if (!(await bridgeContractService.isTransactionRecorded(bridgeTx.sourceTxHash))) {
+      const merkleProof: MerkleProof = JSON.parse(bridgeTx.merkleProof);
+      const relayHeight = btcRelayer.toRelayHeight(merkleProof.blockHeight);
+
+      // Not an error in the proof: the relayer has yet to submit enough headers, so retry later
+      const relayTip = await bridgeContractService.getRelayHeight();
+      if (relayTip < relayHeight + RELAY_MIN_CONFIRMATIONS) {
+        throw new Error(`BTCRelay is at height ${relayTip}, block ${relayHeight} needs ${RELAY_MIN_CONFIRMATIONS} headers on top`);
+      }
+
+      logger.info('Recording source transaction in BTCRelay', { bridgeTxId, relayHeight });
+
+      let recorded: boolean;
+      try {
+        recorded = bridgeTx.relayTxHash
+          ? await bridgeContractService.resumeRecord(bridgeTx.relayTxHash)
+          : await bridgeContractService.recordTransaction({
+              btcTxHash: bridgeTx.sourceTxHash,
+              blockHash: merkleProof.blockHash,
+              relayHeight,
+              index: merkleProof.proofIndex,
+              siblings: merkleProof.proofPath
+            }, async txHash => {
+              await this.prisma.bridgeTransaction.update({
+                where: { id: bridgeTxId },
+                data: { relayTxHash: txHash }
+              });
+              await bridgeTransactionService.createEvent(bridgeTxId, 'RELAY_SUBMITTED', {
+                message: 'verifyAndRecordTransaction sent to BTCRelay',
+                txHash
+              });
+            });
+      } catch (error) {
+        if (!(error instanceof ContractRevertError)) {
+          throw error;
         }
-      });
+        // Losing a race to record the same transaction is fine; any other revert is final
+        recorded = await bridgeContractService.isTransactionRecorded(bridgeTx.sourceTxHash);
+        if (!recorded) {
+          await bridgeStatusService.fail(bridgeTxId, error.message, {
+            details: { stage: 'RELAY_RECORD', reason: error.reason, txHash: error.txHash }
+          });
+          return false;
+        }
+      }
 
-      logger.info('ZK proof generated and stored', { bridgeTxId });
-    } catch (error) {
-      logger.error('Error generating ZK proof:', error);
-      throw error;
+      if (!recorded) {
+        await bridgeStatusService.fail(bridgeTxId, 'BTCRelay rejected the Merkle proof', {
+          details: { stage: 'RELAY_RECORD' }
+        });
+        return false;
+      }
     }
+
+    await this.prisma.bridgeTransaction.update({
+      where: { id: bridgeTxId },
+      data: { relayRecordedAt: new Date() }
+    });
+    await bridgeTransactionService.createEvent(bridgeTxId, 'RELAY_RECORDED', {
+      message: 'Source transaction recorded in BTCRelay'
+    });
+
+    logger.info('Source transaction recorded in BTCRelay', { bridgeTxId });
+    return true;
   }
 
-  async initiateTargetTransaction(bridgeTxId: string): Promise<void> {
-    try {
-      const bridgeTx = await this.prisma.bridgeTransaction.findUnique({
-        where: { id: bridgeTxId }
-      });
+  /**
+   * Pipeline stage: submit the ZK proof to ProofVerifier and have it
+   * verified. BridgeContract refers to the proof by the hash it is stored under.
+   */
+  async registerZKProof(bridgeTxId: string): Promise<boolean> {
+    const bridgeTx = await this.prisma.bridgeTransaction.findUnique({
+      where: { id: bridgeTxId }
+    });
 
-      if (!bridgeTx) {
-        throw new Error('Bridge transaction not found');
+    if (!bridgeTx) {
+      throw new Error('Bridge transaction not found');
+    }
+
+    if (!bridgeTx.zkProof) {
+      throw new Error('ZK proof must be generated before it is registered');
+    }
+
+    let proofHash = bridgeTx.zkProofHash;
+
+    try {
+      if (!proofHash) {
+        const zkProof: ZKProofResult = JSON.parse(bridgeTx.zkProof);
+
+        logger.info('Submitting ZK proof to ProofVerifier', { bridgeTxId });
+
+        const submission = bridgeTx.proofTxHash
+          ? await bridgeContractService.resumeProofSubmission(bridgeTx.proofTxHash)
+          : await bridgeContractService.submitProof({
+              proof: zkProof.proof,
+              publicSignals: zkProof.publicSignals,
+              btcTxHash: bridgeTx.sourceTxHash
+            }, async txHash => {
+              await this.prisma.bridgeTransaction.update({
+                where: { id: bridgeTxId },
+                data: { proofTxHash: txHash }
+              });
+              await bridgeTransactionService.createEvent(bridgeTxId, 'PROOF_SUBMITTED', {
+                message: 'submitProof sent to ProofVerifier',
+                txHash
+              });
+            });
+
+        proofHash = submission.proofHash;
+        await this.prisma.bridgeTransaction.update({
+          where: { id: bridgeTxId },
+          data: { zkProofHash: proofHash }
+        });
       }
 
-      logger.info('Initiating target chain transaction', { bridgeTxId });
+      const status = await bridgeContractService.getProofStatus(proofHash);
+      const valid = status.verified ? status.valid : await bridgeContractService.verifyProof(proofHash);
 
-      // For demo purposes, we'll simulate the target transaction
-      // In a real implementation, this would interact with Ethereum smart contracts
-      const targetTxHash = `0x${generateNonce()}${Date.now().toString(16)}`;
+      if (!valid) {
+        await bridgeStatusService.fail(bridgeTxId, 'ProofVerifier rejected the ZK proof', {
+          details: { stage: 'PROOF_REGISTRATION', proofHash }
+        });
+        return false;
+      }
+    } catch (error) {
+      if (!(error instanceof ContractRevertError)) {
+        throw error;
+      }
 
-      // Update with target transaction hash
+      // A submitted proof has to be verified within ProofVerifier's timeout; start over with a fresh submission
       await this.prisma.bridgeTransaction.update({
         where: { id: bridgeTxId },
+        data: { zkProofHash: null, proofTxHash: null }
+      });
+      throw error;
+    }
+
+    await this.prisma.bridgeTransaction.update({
+      where: { id: bridgeTxId },
+      data: { proofVerifiedAt: new Date() }
+    });
+    await bridgeTransactionService.createEvent(bridgeTxId, 'PROOF_VERIFIED', {
+      message: 'ZK proof verified by ProofVerifier',
+      proofHash
+    });
+
+    logger.info('ZK proof registered with ProofVerifier', { bridgeTxId, proofHash });
+    return true;
+  }
+
+  /**
+   * Pipeline stage: submit the bridge to the target chain
+   */
+  async initiateTargetTransaction(bridgeTxId: string): Promise<boolean> {
+    const bridgeTx = await this.prisma.bridgeTransaction.findUnique({
+      where: { id: bridgeTxId }
+    });
+
+    if (!bridgeTx) {
+      throw new Error('Bridge transaction not found');
+    }
+
+    // BTC goes out in batches; the payout service completes the transaction once its payout confirms
+    if (bridgeTx.direction === 'ETHEREUM_TO_BITCOIN') {
+      await payoutService.queueWithdrawal(bridgeTxId);
+      return false;
+    }
+
+    if (!bridgeTx.merkleRoot || !bridgeTx.relayRecordedAt || !bridgeTx.zkProofHash || !bridgeTx.proofVerifiedAt) {
+      throw new Error('The source transaction must be recorded in BTCRelay and its ZK proof verified before target submission');
+    }
+
+    logger.info('Submitting bridge to BridgeContract', { bridgeTxId });
+
+    await bridgeStatusService.transition(bridgeTxId, TransactionStatus.SUBMITTING, {
+      message: 'Submitting bridge to BridgeContract',
+      data: { submittedAt: bridgeTx.submittedAt || new Date() }
+    });
+
+    try {
+      // A retry after a restart waits for a call already in flight instead of sending it again
+      let bridgeId = bridgeTx.contractBridgeId;
+      if (!bridgeId) {
+        const initiation = bridgeTx.initiateTxHash
+          ? await bridgeContractService.resumeInitiation(bridgeTx.initiateTxHash)
+          : await bridgeContractService.initiateBridge({
+              amount: bridgeTx.targetAmount || bridgeTx.sourceAmount,
+              btcTxHash: bridgeTx.sourceTxHash,
+              btcAddress: bridgeTx.sourceAddress,
+              ethAddress: bridgeTx.targetAddress
+            }, async txHash => {
+              await this.prisma.bridgeTransaction.update({
+                where: { id: bridgeTxId },
+                data: { initiateTxHash: txHash }
+              });
+              await bridgeTransactionService.createEvent(bridgeTxId, 'TARGET_SUBMITTED', {
+                message: 'initiateBridge sent to BridgeContract',
+                txHash
+              });
+            });
+
+        bridgeId = initiation.bridgeId;
+        await this.prisma.bridgeTransaction.update({
+          where: { id: bridgeTxId },
+          data: { contractBridgeId: bridgeId, initiateTxHash: initiation.txHash }
+        });
+      }
+
+      const completion = bridgeTx.targetTxHash
+        ? await bridgeContractService.resumeCompletion(bridgeTx.targetTxHash)
+        : await bridgeContractService.processBridge({
+            bridgeId,
+            merkleProof: bridgeTx.merkleRoot,
+            zkProof: bridgeTx.zkProofHash
+          }, async txHash => {
+            await this.prisma.bridgeTransaction.update({
+              where: { id: bridgeTxId },
+              data: { targetTxHash: txHash }
+            });
+            await bridgeTransactionService.createEvent(bridgeTxId, 'TARGET_SUBMITTED', {
+              message: 'processBridge sent to BridgeContract',
+              txHash
+            });
+          });
+
+      await bridgeStatusService.transition(bridgeTxId, TransactionStatus.COMPLETED, {
+        message: 'Wrapped BTC minted by BridgeContract',
+        details: {
+          txHash: completion.txHash,
+          bridgeId,
+          amount: completion.amount,
+          fee: completion.fee
+        },
         data: {
-          targetTxHash,
-          status: TransactionStatus.COMPLETED
+          targetTxHash: completion.txHash,
+          targetAmount: completion.amount,
+          fee: completion.fee,
+          gasUsed: completion.gasUsed,
+          gasPrice: completion.gasPrice,
+          completedAt: new Date()
         }
       });
 
-      logger.info('Target transaction initiated', { bridgeTxId, targetTxHash });
+      logger.info('Target transaction confirmed', { bridgeTxId, targetTxHash: completion.txHash });
+      return true;
     } catch (error) {
-      logger.error('Error initiating target transaction:', error);
-      await this.updateBridgeStatus(bridgeTxId, TransactionStatus.FAILED, error.message);
+      // Reverts are final; anything else is retried by the pipeline
+      if (!(error instanceof ContractRevertError)) {
+        throw error;
+      }
+
+      await bridgeStatusService.fail(bridgeTxId, error.message, {
+        details: { stage: 'TARGET_SUBMISSION', reason: error.reason, txHash: error.txHash }
+      });
+
+      logger.warn('Target transaction reverted', { bridgeTxId, reason: error.reason, txHash: error.txHash });
+      return false;
     }
   }
 
@@ -265,6 +601,11 @@ export class BridgeService {
       throw new Error('Source amount must be positive');
     }
 
+    // Deposits are matched output by output, so the amount has to be exact
+    if (data.fromChain === 'bitcoin' && !/^\d+$/.test(data.sourceAmount)) {
+      throw new Error('Bitcoin source amount must be a whole number of satoshis');
+    }
+
     // Validate addresses based on chain
     if (data.fromChain === 'bitcoin') {
       if (!this.isValidBitcoinAddress(data.sourceAddress)) {
@@ -289,19 +630,19 @@ export class BridgeService {
 
   private getBridgeDirection(fromChain: string, toChain: string): BridgeDirection {
     if (fromChain === 'bitcoin' && toChain === 'ethereum') {
-      return BridgeDirection.BITCOIN_TO_ETHEREUM;
+      return 'BITCOIN_TO_ETHEREUM';
     } else if (fromChain === 'ethereum' && toChain === 'bitcoin') {
-      return BridgeDirection.ETHEREUM_TO_BITCOIN;
+      return 'ETHEREUM_TO_BITCOIN';
     } else {
       throw new Error('Invalid bridge direction');
     }
   }
 
-  private getChainName(direction: BridgeDirection, side: 'from' | 'to'): string {
+  private getChainName(direction: string, side: 'from' | 'to'): string {
     if (side === 'from') {
-      return direction === BridgeDirection.BITCOIN_TO_ETHEREUM ? 'bitcoin' : 'ethereum';
+      return direction === 'BITCOIN_TO_ETHEREUM' ? 'bitcoin' : 'ethereum';
     } else {
-      return direction === BridgeDirection.BITCOIN_TO_ETHEREUM ? 'ethereum' : 'bitcoin';
+      return direction === 'BITCOIN_TO_ETHEREUM' ? 'ethereum' : 'bitcoin';
     }
   }
 
@@ -320,18 +661,23 @@ export class BridgeService {
            testnetBech32Regex.test(address);
   }
 
-  private isValidEthereumAddress(address: string): boolean {
-    return /^0x[a-fA-F0-9]{40}$/.test(address);
+  private mapToBridgeStatus(bridgeTx: BridgeTransaction): BridgeStatus {
+    return {
+      id: bridgeTx.id,
+      status: bridgeTx.status,
+      fromChain: this.getChainName(bridgeTx.direction, 'from'),
+      toChain: this.getChainName(bridgeTx.direction, 'to'),
+      sourceTxHash: bridgeTx.sourceTxHash,
+      targetTxHash: bridgeTx.targetTxHash || undefined,
+      amount: bridgeTx.sourceAmount,
+      confirmations: bridgeTx.confirmations,
+      createdAt: bridgeTx.createdAt,
+      updatedAt: bridgeTx.updatedAt
+    };
   }
 
-  private async updateBridgeStatus(txId: string, status: TransactionStatus, error?: string): Promise<void> {
-    await this.prisma.bridgeTransaction.update({
-      where: { id: txId },
-      data: {
-        status,
-        ...(error && { error })
-      }
-    });
+  private isValidEthereumAddress(address: string): boolean {
+    return /^0x[a-fA-F0-9]{40}$/.test(address);
   }
 
   private async updateBridgeConfirmations(txId: string, confirmations: number): Promise<void> {
@@ -358,42 +704,59 @@ export class BridgeService {
       return transactions;
     } catch (error) {
       logger.error('Error getting bridge transactions:', error);
-      throw new Error(`Failed to get bridge transactions: ${error.message}`);
+      throw new Error(`Failed to get bridge transactions: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Store a bridge attempt with real Bitcoin transaction data
+   * Store a bridge attempt with real Bitcoin transaction data. `amount` is the
+   * requested amount in satoshis; without it the deposit is taken at what
+   * reached custody.
    */
   async storeBridgeAttempt(
     bitcoinTx: BitcoinTransaction,
     merkleProof: MerkleProof,
     ethereumAddress: string,
-    userId?: string
+    userId?: string,
+    amount?: string
   ): Promise<string> {
+    const payload = verifyBridgePayload(bitcoinTx, ethereumAddress);
+    if (!payload.isValid) {
+      throw new BridgePayloadError(payload.error!);
+    }
+
+    const custody = await depositAddressService.findCustodyOutputs(bitcoinTx, null);
+    if (custody.error) {
+      throw new DepositAddressError(custody.error);
+    }
+
+    const sourceAmount = amount ?? custody.receivedAmount.toString();
+    const deposit = await depositAddressService.verifyDeposit(bitcoinTx, null, sourceAmount);
+    if (!deposit.isValid) {
+      throw new DepositAddressError(deposit.error!);
+    }
+
+    const confirmations = bitcoinTx.status.confirmed
+      ? await bitcoinTestnetService.getConfirmationCount(bitcoinTx.txid)
+      : 0;
+
     try {
       const bridge = await this.prisma.bridgeTransaction.create({
         data: {
           direction: 'BITCOIN_TO_ETHEREUM',
-          status: 'PENDING',
+          status: TransactionStatus.PENDING,
           sourceTxHash: bitcoinTx.txid,
-          sourceAmount: bitcoinTx.amount.toString(),
-          sourceAddress: bitcoinTx.inputs[0]?.address || '',
+          sourceAmount,
+          // Bridge what the payment policies credit, not the sum of every output
+          targetAmount: deposit.creditedAmount!.toString(),
+          depositOutpoints: JSON.stringify(deposit.outpoints),
+          sourceAddress: bitcoinTx.vin[0]?.prevout?.scriptpubkey_address || '',
           targetAddress: ethereumAddress,
           merkleProof: JSON.stringify(merkleProof),
-          blockHeight: bitcoinTx.blockHeight?.toString(),
-          blockHash: bitcoinTx.blockHash,
-          confirmations: bitcoinTx.confirmations,
-          userId: userId || null,
-          metadata: JSON.stringify({
-            inputs: bitcoinTx.inputs,
-            outputs: bitcoinTx.outputs,
-            fee: bitcoinTx.fee,
-            size: bitcoinTx.size,
-            merkleRoot: merkleProof.merkleRoot,
-            proofPath: merkleProof.proofPath,
-            proofIndex: merkleProof.proofIndex
-          })
+          blockHeight: bitcoinTx.status.block_height,
+          blockHash: bitcoinTx.status.block_hash,
+          confirmations,
+          userId: userId || null
         }
       });
 
@@ -401,6 +764,9 @@ export class BridgeService {
       return bridge.id;
     } catch (error) {
       logger.error('Error storing bridge attempt:', error);
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new DuplicateBridgeError(bitcoinTx.txid);
+      }
       throw new Error('Failed to store bridge attempt');
     }
   }
@@ -413,10 +779,7 @@ export class BridgeService {
       const bridges = await this.prisma.bridgeTransaction.findMany({
         where: userId ? { userId } : {},
         orderBy: { createdAt: 'desc' },
-        take: limit,
-        include: {
-          user: true
-        }
+        take: limit
       });
 
       return bridges.map(bridge => this.mapToBridgeStatus(bridge));
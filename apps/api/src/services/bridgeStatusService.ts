@@ -0,0 +1,130 @@
+import { BridgeTransaction, Prisma } from '@prisma/client';
+import { canTransition, TransactionStatus } from '@zkbridge/shared';
+import { getPrismaClient } from '../config/database';
+import { logger } from '../utils/logger';
+import { webhookService } from './webhookService';
+
+export interface StatusTransitionOptions {
+  // Event message; defaults to describing the transition
+  message?: string;
+  // Event type; defaults to the new status
+  eventType?: string;
+  // Extra event data
+  details?: Record<string, unknown>;
+  // Other fields to write together with the status
+  data?: Omit<Prisma.BridgeTransactionUpdateManyMutationInput, 'status'>;
+}
+
+// A status change the bridge state machine does not allow
+export class StatusTransitionError extends Error {
+  readonly statusCode = 409;
+
+  constructor(
+    readonly transactionId: string,
+    readonly from: string,
+    readonly to: string
+  ) {
+    super(`Bridge transaction ${transactionId} cannot move from ${from} to ${to}`);
+    this.name = 'StatusTransitionError';
+  }
+}
+
+/**
+ * The only writer of bridge transaction statuses.
+ *
+ * Every change is checked against the shared state machine for the
+ * transaction's direction and recorded as a TransactionEvent in the same
+ * database transaction, so the event log always explains the current status.
+ * Setting the status a transaction already has is a no-op.
+ */
+export class BridgeStatusService {
+  private prisma = getPrismaClient();
+
+  /**
+   * Move a transaction to `to`. Pass `tx` to take part in a caller's database transaction.
+   */
+  async transition(
+    transactionId: string,
+    to: TransactionStatus,
+    options: StatusTransitionOptions = {},
+    tx?: Prisma.TransactionClient
+  ): Promise<BridgeTransaction> {
+    if (tx) {
+      return this.apply(tx, transactionId, to, options);
+    }
+
+    return this.prisma.$transaction(client => this.apply(client, transactionId, to, options));
+  }
+
+  /**
+   * Fail a transaction unless it has already reached a final status
+   */
+  async fail(transactionId: string, errorMessage: string, options: StatusTransitionOptions = {}): Promise<BridgeTransaction | null> {
+    try {
+      return await this.transition(transactionId, TransactionStatus.FAILED, {
+        message: errorMessage,
+        ...options,
+        details: { error: errorMessage, ...options.details },
+        data: { errorMessage, ...options.data },
+      });
+    } catch (error) {
+      if (error instanceof StatusTransitionError) {
+        logger.warn('Not failing bridge transaction', { transactionId, status: error.from, error: errorMessage });
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async apply(
+    client: Prisma.TransactionClient,
+    transactionId: string,
+    to: TransactionStatus,
+    options: StatusTransitionOptions
+  ): Promise<BridgeTransaction> {
+    const transaction = await client.bridgeTransaction.findUnique({ where: { id: transactionId } });
+    if (!transaction) {
+      throw new Error('Bridge transaction not found');
+    }
+
+    const from = transaction.status;
+
+    if (from === to) {
+      if (!options.data) {
+        return transaction;
+      }
+      await client.bridgeTransaction.updateMany({ where: { id: transactionId }, data: options.data });
+      return client.bridgeTransaction.findUniqueOrThrow({ where: { id: transactionId } });
+    }
+
+    if (!canTransition(transaction.direction, from, to)) {
+      throw new StatusTransitionError(transactionId, from, to);
+    }
+
+    // Guarded on the status read above so a concurrent writer cannot be overwritten
+    const { count } = await client.bridgeTransaction.updateMany({
+      where: { id: transactionId, status: from },
+      data: { ...options.data, status: to },
+    });
+
+    if (count === 0) {
+      throw new StatusTransitionError(transactionId, from, to);
+    }
+
+    const event = await client.transactionEvent.create({
+      data: {
+        transactionId,
+        eventType: options.eventType || to,
+        eventData: JSON.stringify({ previousStatus: from, status: to, ...options.details }),
+        message: options.message || `Status changed from ${from} to ${to}`,
+      },
+    });
+    await webhookService.enqueue(event, client);
+
+    logger.info('Bridge transaction status changed', { transactionId, from, to });
+
+    return client.bridgeTransaction.findUniqueOrThrow({ where: { id: transactionId } });
+  }
+}
+
+export const bridgeStatusService = new BridgeStatusService();
@@ -1,9 +1,25 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { logger } from '../utils/logger';
 import { bitcoinTestnetService } from './bitcoinTestnetService';
-import { zkProofService } from './zkProofService';
+import { ZKProofService, toTransactionProof } from './zkProofService';
+import { depositAddressService } from './depositAddressService';
+import { verifyBridgePayload } from './bridgePayload';
+import { bridgeStatusService } from './bridgeStatusService';
+import { webhookService } from './webhookService';
+import { generateNonce, TransactionStatus } from '../types';
 
 const prisma = new PrismaClient();
+const zkProofService = new ZKProofService();
+
+// Each source transaction can be bridged once
+export class DuplicateBridgeError extends Error {
+  readonly statusCode = 409;
+
+  constructor(sourceTxHash: string) {
+    super(`A bridge transaction already exists for source transaction ${sourceTxHash}`);
+    this.name = 'DuplicateBridgeError';
+  }
+}
 
 export interface CreateBridgeTransactionInput {
   direction: 'BITCOIN_TO_ETHEREUM' | 'ETHEREUM_TO_BITCOIN';
@@ -13,12 +29,15 @@ export interface CreateBridgeTransactionInput {
   targetAddress: string;
   userId?: string;
   network?: string;
+  depositAddress?: string;
 }
 
+// Statuses change only through bridgeStatusService
 export interface UpdateBridgeTransactionInput {
   id: string;
-  status?: string;
   targetTxHash?: string;
+  targetAmount?: string;
+  depositOutpoints?: string[];
   zkProof?: any;
   zkProofHash?: string;
   merkleProof?: any;
@@ -35,6 +54,11 @@ export class BridgeTransactionService {
    * Create a new bridge transaction
    */
   async createTransaction(input: CreateBridgeTransactionInput) {
+    // Resolved outside the try so deposit address problems reach the caller as-is
+    const depositAddress = input.direction === 'BITCOIN_TO_ETHEREUM'
+      ? await depositAddressService.resolveForBridge(input.depositAddress, input.targetAddress)
+      : null;
+
     try {
       const transaction = await prisma.bridgeTransaction.create({
         data: {
@@ -45,10 +69,15 @@ export class BridgeTransactionService {
           targetAddress: input.targetAddress,
           userId: input.userId,
           network: input.network || 'testnet',
-          status: 'PENDING',
+          status: TransactionStatus.PENDING,
+          depositAddressId: depositAddress?.id,
         },
       });
 
+      if (depositAddress) {
+        await depositAddressService.markUsed(depositAddress.id);
+      }
+
       // Create initial event
       await this.createEvent(transaction.id, 'CREATED', {
         message: 'Bridge transaction created',
@@ -59,6 +88,9 @@ export class BridgeTransactionService {
       logger.info('Bridge transaction created', { transactionId: transaction.id });
       return transaction;
     } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new DuplicateBridgeError(input.sourceTxHash);
+      }
       logger.error('Failed to create bridge transaction', { error });
       throw new Error('Failed to create bridge transaction');
     }
@@ -71,8 +103,9 @@ export class BridgeTransactionService {
     try {
       const updateData: any = {};
 
-      if (input.status) updateData.status = input.status;
       if (input.targetTxHash) updateData.targetTxHash = input.targetTxHash;
+      if (input.targetAmount) updateData.targetAmount = input.targetAmount;
+      if (input.depositOutpoints) updateData.depositOutpoints = JSON.stringify(input.depositOutpoints);
       if (input.zkProof) updateData.zkProof = JSON.stringify(input.zkProof);
       if (input.zkProofHash) updateData.zkProofHash = input.zkProofHash;
       if (input.merkleProof) updateData.merkleProof = JSON.stringify(input.merkleProof);
@@ -90,7 +123,7 @@ export class BridgeTransactionService {
         data: updateData,
       });
 
-      logger.info('Bridge transaction updated', { transactionId: input.id, status: input.status });
+      logger.info('Bridge transaction updated', { transactionId: input.id });
       return transaction;
     } catch (error) {
       logger.error('Failed to update bridge transaction', { error, transactionId: input.id });
@@ -134,33 +167,11 @@ export class BridgeTransactionService {
     }
   }
 
-  /**
-   * Get all transactions for a user
-   */
-  async getUserTransactions(userId: string, limit = 50, offset = 0) {
-    try {
-      const transactions = await prisma.bridgeTransaction.findMany({
-        where: { userId },
-        orderBy: { createdAt: 'desc' },
-        take: limit,
-        skip: offset,
-      });
-
-      const total = await prisma.bridgeTransaction.count({
-        where: { userId },
-      });
-
-      return { transactions, total };
-    } catch (error) {
-      logger.error('Failed to get user transactions', { error, userId });
-      throw new Error('Failed to get user transactions');
-    }
-  }
-
   /**
    * Get all transactions with filters
    */
   async getAllTransactions(filters: {
+    userId?: string;
     status?: string;
     direction?: string;
     limit?: number;
@@ -168,6 +179,7 @@ export class BridgeTransactionService {
   }) {
     try {
       const where: any = {};
+      if (filters.userId) where.userId = filters.userId;
       if (filters.status) where.status = filters.status;
       if (filters.direction) where.direction = filters.direction;
 
@@ -192,24 +204,41 @@ export class BridgeTransactionService {
    * Process Bitcoin to Ethereum bridge
    */
   async processBitcoinToEthereum(transactionId: string) {
-    try {
-      const transaction = await this.getTransaction(transactionId);
+    const transaction = await this.getTransaction(transactionId);
 
-      // Step 1: Verify Bitcoin transaction
-      await this.updateTransaction({
-        id: transactionId,
-        status: 'VERIFYING',
-      });
-      await this.createEvent(transactionId, 'VERIFYING', {
-        message: 'Verifying Bitcoin transaction',
-      });
+    // Outside the try so a transaction that cannot be processed again is left as it is
+    await bridgeStatusService.transition(transactionId, TransactionStatus.VERIFYING, {
+      message: 'Verifying Bitcoin transaction',
+    });
 
+    try {
+      // Step 1: Verify Bitcoin transaction
       const btcTx = await bitcoinTestnetService.getTransaction(transaction.sourceTxHash);
       
       if (!btcTx.status.confirmed) {
         throw new Error('Bitcoin transaction not confirmed');
       }
 
+      const payload = verifyBridgePayload(btcTx, transaction.targetAddress);
+      if (!payload.isValid) {
+        throw new Error(payload.error);
+      }
+
+      const deposit = await depositAddressService.verifyDeposit(btcTx, transaction.depositAddressId, transaction.sourceAmount);
+      if (!deposit.isValid) {
+        throw new Error(deposit.error);
+      }
+
+      await this.updateTransaction({
+        id: transactionId,
+        targetAmount: deposit.creditedAmount!.toString(),
+        depositOutpoints: deposit.outpoints,
+      });
+
+      await bridgeStatusService.transition(transactionId, TransactionStatus.CONFIRMED, {
+        message: 'Bitcoin transaction verified',
+      });
+
       // Step 2: Generate Merkle proof
       await this.createEvent(transactionId, 'GENERATING_MERKLE_PROOF', {
         message: 'Generating Merkle proof',
@@ -230,23 +259,21 @@ export class BridgeTransactionService {
         message: 'Generating Zero-Knowledge proof',
       });
 
-      const zkProof = await zkProofService.generateProof({
-        transactionHash: transaction.sourceTxHash,
-        merkleProof: merkleProof.proofPath,
-        merkleRoot: merkleProof.merkleRoot,
-        blockHeight: merkleProof.blockHeight,
-      });
+      // The proof hash is assigned by ProofVerifier once the proof is registered on-chain
+      const zkProof = await zkProofService.generateBitcoinTransactionProof(
+        toTransactionProof(btcTx, merkleProof),
+        deposit.creditedAmount!.toString(),
+        transaction.targetAddress,
+        generateNonce()
+      );
 
       await this.updateTransaction({
         id: transactionId,
         zkProof: zkProof,
-        zkProofHash: zkProof.proofHash,
-        status: 'PROOF_GENERATED',
       });
 
-      await this.createEvent(transactionId, 'PROOF_GENERATED', {
+      await bridgeStatusService.transition(transactionId, TransactionStatus.PROOF_GENERATED, {
         message: 'Zero-Knowledge proof generated successfully',
-        proofHash: zkProof.proofHash,
       });
 
       logger.info('Bitcoin to Ethereum bridge processed', { transactionId });
@@ -254,15 +281,9 @@ export class BridgeTransactionService {
     } catch (error) {
       logger.error('Failed to process Bitcoin to Ethereum bridge', { error, transactionId });
       
-      await this.updateTransaction({
-        id: transactionId,
-        status: 'FAILED',
-        errorMessage: error instanceof Error ? error.message : 'Unknown error',
-      });
-
-      await this.createEvent(transactionId, 'FAILED', {
+      await bridgeStatusService.fail(transactionId, error instanceof Error ? error.message : 'Unknown error', {
         message: 'Bridge processing failed',
-        error: error instanceof Error ? error.message : 'Unknown error',
+        data: { errorCount: { increment: 1 } },
       });
 
       throw error;
@@ -274,13 +295,16 @@ export class BridgeTransactionService {
    */
   async createEvent(transactionId: string, eventType: string, data: any) {
     try {
-      await prisma.transactionEvent.create({
-        data: {
-          transactionId,
-          eventType,
-          eventData: JSON.stringify(data),
-          message: data.message || '',
-        },
+      await prisma.$transaction(async tx => {
+        const event = await tx.transactionEvent.create({
+          data: {
+            transactionId,
+            eventType,
+            eventData: JSON.stringify(data),
+            message: data.message || '',
+          },
+        });
+        await webhookService.enqueue(event, tx);
       });
     } catch (error) {
       logger.error('Failed to create transaction event', { error, transactionId, eventType });
@@ -302,27 +326,40 @@ export class BridgeTransactionService {
     }
   }
 
+  /**
+   * Sum of the source amounts of completed transactions. Amounts are stored as
+   * strings, which the database cannot sum; ones that are not whole numbers are skipped.
+   */
+  async getCompletedVolume(): Promise<string> {
+    const completed = await prisma.bridgeTransaction.findMany({
+      where: { status: TransactionStatus.COMPLETED },
+      select: { sourceAmount: true },
+    });
+
+    return completed
+      .filter(({ sourceAmount }) => /^\d+$/.test(sourceAmount))
+      .reduce((sum, { sourceAmount }) => sum + BigInt(sourceAmount), BigInt(0))
+      .toString();
+  }
+
   /**
    * Get transaction statistics
    */
   async getStatistics() {
     try {
       const total = await prisma.bridgeTransaction.count();
-      const pending = await prisma.bridgeTransaction.count({ where: { status: 'PENDING' } });
-      const completed = await prisma.bridgeTransaction.count({ where: { status: 'COMPLETED' } });
-      const failed = await prisma.bridgeTransaction.count({ where: { status: 'FAILED' } });
+      const pending = await prisma.bridgeTransaction.count({ where: { status: TransactionStatus.PENDING } });
+      const completed = await prisma.bridgeTransaction.count({ where: { status: TransactionStatus.COMPLETED } });
+      const failed = await prisma.bridgeTransaction.count({ where: { status: TransactionStatus.FAILED } });
 
-      const totalVolume = await prisma.bridgeTransaction.aggregate({
-        _sum: { sourceAmount: true },
-        where: { status: 'COMPLETED' },
-      });
+      const totalVolume = await this.getCompletedVolume();
 
       return {
         total,
         pending,
         completed,
         failed,
-        totalVolume: totalVolume._sum.sourceAmount || '0',
+        totalVolume,
       };
     } catch (error) {
       logger.error('Failed to get statistics', { error });
@@ -0,0 +1,265 @@
+import { ethers } from 'ethers';
+import { RelayCheckpoint } from '@prisma/client';
+import { getPrismaClient } from '../config/database';
+import { BTC_RELAY_ABI, CONTRACT_ADDRESSES } from '../config/contracts';
+import { logger } from '../utils/logger';
+import { bitcoinTestnetService } from './bitcoinTestnetService';
+import { TransactionSender, getTransactionSender } from './transactionSender';
+
+const CHECKPOINT_ID = 'btc-relay';
+
+export interface RelayerStatus {
+  status: string;
+  relayHeight: number;
+  bitcoinHeight: number;
+  bitcoinTipHeight: number | null;
+  lag: number | null;
+  pendingTxHash: string | null;
+  lastSubmittedAt: Date | null;
+  lastError: string | null;
+  updatedAt: Date | null;
+}
+
+/**
+ * Follows the Bitcoin tip and submits missing block headers to BTCRelay.
+ *
+ * BTCRelay numbers its headers from the block it was deployed with, so relay
+ * height 0 is Bitcoin height BTC_RELAY_START_HEIGHT. Headers are submitted
+ * one at a time, in order, and every submission is checkpointed so a restart
+ * waits for an in-flight transaction instead of sending a duplicate.
+ */
+export class BTCRelayer {
+  private prisma = getPrismaClient();
+  private contract?: ethers.Contract;
+  private sender?: TransactionSender;
+  private readonly startHeight = parseInt(process.env.BTC_RELAY_START_HEIGHT || '0');
+  private readonly intervalMs = parseInt(process.env.BTC_RELAYER_INTERVAL_MS || '60000');
+  private readonly batchSize = parseInt(process.env.BTC_RELAYER_BATCH_SIZE || '10');
+  private readonly confirmations = parseInt(process.env.BTC_RELAYER_TX_CONFIRMATIONS || '1');
+  private running = false;
+  private timer?: NodeJS.Timeout;
+
+  constructor() {
+    const privateKey = process.env.BTC_RELAYER_PRIVATE_KEY || process.env.ETHEREUM_PRIVATE_KEY;
+
+    if (!CONTRACT_ADDRESSES.btcRelay || !privateKey || privateKey === 'your_private_key_here') {
+      return;
+    }
+
+    try {
+      const provider = new ethers.JsonRpcProvider(process.env.ETHEREUM_RPC_URL || 'http://localhost:8545');
+      const wallet = new ethers.Wallet(privateKey, provider);
+      this.contract = new ethers.Contract(CONTRACT_ADDRESSES.btcRelay, BTC_RELAY_ABI, wallet);
+      this.sender = getTransactionSender(wallet);
+    } catch (error) {
+      logger.warn('Invalid relayer key, BTC relayer not initialized');
+    }
+  }
+
+  isConfigured(): boolean {
+    return !!this.contract;
+  }
+
+  /**
+   * BTCRelay's height for a Bitcoin block height
+   */
+  toRelayHeight(bitcoinHeight: number): number {
+    return bitcoinHeight - this.startHeight;
+  }
+
+  start(): void {
+    if (this.running) return;
+
+    if (!this.contract) {
+      logger.warn('BTC relayer not started: BTC_RELAY_ADDRESS or relayer key not configured');
+      return;
+    }
+
+    this.running = true;
+    logger.info('BTC relayer started', { startHeight: this.startHeight, intervalMs: this.intervalMs });
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) return;
+    this.timer = setTimeout(async () => {
+      let caughtUp = true;
+      try {
+        caughtUp = await this.sync();
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error('BTC relayer sync failed', { error: errorMessage });
+        await this.saveCheckpoint({ status: 'ERROR', lastError: errorMessage }).catch(() => undefined);
+      }
+      // Keep going straight away while there is a backlog
+      this.schedule(caughtUp ? this.intervalMs : 0);
+    }, delayMs);
+  }
+
+  /**
+   * Submit up to batchSize missing headers. Returns true once the relay has caught up with the tip.
+   */
+  async sync(): Promise<boolean> {
+    if (!this.contract) {
+      throw new Error('BTC relayer not configured');
+    }
+
+    const checkpoint = await this.getCheckpoint();
+
+    if (checkpoint.pendingTxHash && !(await this.settlePending(checkpoint))) {
+      return true;
+    }
+
+    // The contract is the source of truth for how far the relay has got
+    const relayHeight = Number(await this.contract.currentHeight());
+    const relayHead = await this.contract.getBlockHeader(relayHeight);
+    let bitcoinHeight = this.startHeight + relayHeight;
+    let headHash = this.fromBytes32(relayHead.hash);
+
+    const canonical = await bitcoinTestnetService.getBlockByHeight(bitcoinHeight);
+    if (canonical.id !== headHash) {
+      // BTCRelay cannot roll back, so an orphaned head needs operator attention
+      await this.saveCheckpoint({
+        relayHeight,
+        bitcoinHeight,
+        blockHash: headHash,
+        status: 'DIVERGED',
+        lastError: `Relay head ${headHash} at height ${bitcoinHeight} is not on the best chain (${canonical.id})`,
+      });
+      logger.error('BTC relay head is not on the best Bitcoin chain', { bitcoinHeight, headHash, canonical: canonical.id });
+      return true;
+    }
+
+    const tipHeight = await bitcoinTestnetService.getTipHeight();
+    await this.saveCheckpoint({
+      relayHeight,
+      bitcoinHeight,
+      blockHash: headHash,
+      bitcoinTipHeight: tipHeight,
+      status: bitcoinHeight >= tipHeight ? 'IN_SYNC' : 'SYNCING',
+      lastError: null,
+    });
+
+    const target = Math.min(tipHeight, bitcoinHeight + this.batchSize);
+
+    while (this.running && bitcoinHeight < target) {
+      const block = await bitcoinTestnetService.getBlockByHeight(bitcoinHeight + 1);
+
+      if (block.previousblockhash !== headHash) {
+        throw new Error(`Block ${block.id} at height ${block.height} does not extend relay head ${headHash}`);
+      }
+
+      const tx = await this.sender!.send({
+        to: CONTRACT_ADDRESSES.btcRelay,
+        data: this.contract.interface.encodeFunctionData('addBlockHeader', [
+          this.toBytes32(block.id),
+          this.toBytes32(block.previousblockhash),
+          block.timestamp,
+          block.bits,
+        ]),
+        label: 'BTCRelay.addBlockHeader',
+      });
+
+      await this.saveCheckpoint({
+        pendingTxHash: tx.hash,
+        pendingHeight: block.height,
+        lastSubmittedAt: new Date(),
+      });
+
+      logger.info('Submitted Bitcoin header to BTCRelay', { height: block.height, blockHash: block.id, txHash: tx.hash });
+
+      // Sped up in place if it gets stuck
+      const receipt = await this.sender!.waitForReceipt(tx.id, this.confirmations);
+      if (receipt.status !== 1) {
+        throw new Error(`Header submission ${receipt.hash} reverted`);
+      }
+
+      bitcoinHeight = block.height;
+      headHash = block.id;
+      await this.saveCheckpoint({
+        relayHeight: bitcoinHeight - this.startHeight,
+        bitcoinHeight,
+        blockHash: headHash,
+        pendingTxHash: null,
+        pendingHeight: null,
+      });
+    }
+
+    const caughtUp = bitcoinHeight >= tipHeight;
+    await this.saveCheckpoint({ status: caughtUp ? 'IN_SYNC' : 'SYNCING' });
+    return caughtUp;
+  }
+
+  /**
+   * Resolve a submission left over from a previous run. Returns false while it is still unmined.
+   */
+  private async settlePending(checkpoint: RelayCheckpoint): Promise<boolean> {
+    // Follows the submission through any replacement that sped it up
+    const receipt = await this.sender!.getReceipt(checkpoint.pendingTxHash!);
+
+    if (!receipt) {
+      logger.info('Waiting for pending BTCRelay submission', { txHash: checkpoint.pendingTxHash });
+      return false;
+    }
+
+    if (receipt.status !== 1) {
+      logger.warn('Pending BTCRelay submission reverted', { txHash: checkpoint.pendingTxHash });
+    }
+
+    await this.saveCheckpoint({ pendingTxHash: null, pendingHeight: null });
+    return true;
+  }
+
+  /**
+   * Current relay progress and lag, as last recorded by the relayer
+   */
+  async getStatus(): Promise<RelayerStatus> {
+    const checkpoint = await this.prisma.relayCheckpoint.findUnique({ where: { id: CHECKPOINT_ID } });
+
+    return {
+      status: checkpoint?.status || (this.isConfigured() ? 'IDLE' : 'NOT_CONFIGURED'),
+      relayHeight: checkpoint?.relayHeight || 0,
+      bitcoinHeight: checkpoint?.bitcoinHeight || this.startHeight,
+      bitcoinTipHeight: checkpoint?.bitcoinTipHeight ?? null,
+      lag: checkpoint?.bitcoinTipHeight != null ? checkpoint.bitcoinTipHeight - checkpoint.bitcoinHeight : null,
+      pendingTxHash: checkpoint?.pendingTxHash || null,
+      lastSubmittedAt: checkpoint?.lastSubmittedAt || null,
+      lastError: checkpoint?.lastError || null,
+      updatedAt: checkpoint?.updatedAt || null,
+    };
+  }
+
+  private async getCheckpoint(): Promise<RelayCheckpoint> {
+    return this.prisma.relayCheckpoint.upsert({
+      where: { id: CHECKPOINT_ID },
+      create: { id: CHECKPOINT_ID, bitcoinHeight: this.startHeight },
+      update: {},
+    });
+  }
+
+  private async saveCheckpoint(data: Partial<Omit<RelayCheckpoint, 'id' | 'createdAt' | 'updatedAt'>>): Promise<RelayCheckpoint> {
+    return this.prisma.relayCheckpoint.upsert({
+      where: { id: CHECKPOINT_ID },
+      create: { id: CHECKPOINT_ID, bitcoinHeight: this.startHeight, ...data },
+      update: data,
+    });
+  }
+
+  // Hashes are relayed in the same byte order the Bitcoin APIs display them
+  private toBytes32(hash: string): string {
+    return `0x${hash}`;
+  }
+
+  private fromBytes32(value: string): string {
+    return value.replace(/^0x/, '').toLowerCase();
+  }
+}
+
+export const btcRelayer = new BTCRelayer();
@@ -0,0 +1,243 @@
+/**
+ * Coin selection for custody spends, after Bitcoin Core's wallet.
+ *
+ * Branch-and-bound looks for a set of coins that pays the target with no
+ * change, wasting at most what a change output would cost. When no such set
+ * exists the knapsack solver picks a set leaving at least MIN_CHANGE as
+ * change. Coins are compared by effective value: their value less the fee
+ * of spending them at the given rate.
+ */
+
+// Outputs below this are rejected by relay policy
+export const DUST_LIMIT = 546;
+// Change the knapsack solver aims to leave, so change is never dust
+const MIN_CHANGE = 10000;
+const BNB_MAX_TRIES = 100000;
+const KNAPSACK_ITERATIONS = 1000;
+
+export interface CoinCandidate {
+  value: number;
+  inputVbytes: number;
+}
+
+export interface CoinSelectionParams<T extends CoinCandidate> {
+  // Satoshis paid to the non-change outputs
+  target: number;
+  // sat/vB
+  feeRate: number;
+  // Overhead plus the non-change outputs
+  baseVbytes: number;
+  changeOutputVbytes: number;
+  // Size of the input that will later spend the change
+  changeSpendVbytes: number;
+  // Coins that must be spent, such as the inputs of a transaction being replaced
+  required?: T[];
+}
+
+export interface CoinSelection<T extends CoinCandidate> {
+  inputs: T[];
+  fee: number;
+  change: number;
+  algorithm: 'required' | 'bnb' | 'knapsack';
+}
+
+/**
+ * Select coins paying `target` at `feeRate`. Returns null when the candidates
+ * cannot cover it.
+ */
+export function selectCoins<T extends CoinCandidate>(
+  candidates: T[],
+  params: CoinSelectionParams<T>
+): CoinSelection<T> | null {
+  const required = params.required || [];
+  const effectiveValue = (coin: T) => coin.value - Math.ceil(coin.inputVbytes * params.feeRate);
+
+  const baseFee = Math.ceil(params.baseVbytes * params.feeRate);
+  const changeFee = Math.ceil(params.changeOutputVbytes * params.feeRate);
+  const costOfChange = changeFee + Math.ceil(params.changeSpendVbytes * params.feeRate);
+
+  // What the optional coins still have to cover
+  const requiredEffective = required.reduce((sum, coin) => sum + effectiveValue(coin), 0);
+  const target = params.target + baseFee - requiredEffective;
+
+  if (target <= 0) {
+    return finish(required, params, 'required');
+  }
+
+  // Coins that cost more to spend than they are worth never help
+  const pool = candidates
+    .filter(coin => !required.includes(coin) && effectiveValue(coin) > 0)
+    .map(coin => ({ coin, effective: effectiveValue(coin) }));
+
+  const exact = branchAndBound(pool, target, costOfChange);
+  if (exact) {
+    return finish([...required, ...exact], params, 'bnb');
+  }
+
+  const withChange = knapsack(pool, target + changeFee);
+  if (withChange) {
+    return finish([...required, ...withChange], params, 'knapsack');
+  }
+
+  return null;
+}
+
+interface PoolCoin<T> {
+  coin: T;
+  effective: number;
+}
+
+/**
+ * Depth-first search over coins by descending effective value for a sum in
+ * [target, target + costOfChange], keeping the one with the least excess
+ */
+function branchAndBound<T>(pool: PoolCoin<T>[], target: number, costOfChange: number): T[] | null {
+  const coins = [...pool].sort((a, b) => b.effective - a.effective);
+  let available = coins.reduce((sum, coin) => sum + coin.effective, 0);
+  if (available < target) {
+    return null;
+  }
+
+  const included: boolean[] = [];
+  let best: boolean[] | null = null;
+  let bestExcess = Infinity;
+  let selected = 0;
+
+  for (let tries = 0, depth = 0; tries < BNB_MAX_TRIES; tries++) {
+    let backtrack = false;
+
+    if (selected + available < target || selected > target + costOfChange) {
+      // Cannot reach the target from here, or already past the window
+      backtrack = true;
+    } else if (selected >= target) {
+      if (selected - target < bestExcess) {
+        bestExcess = selected - target;
+        best = included.slice(0, depth);
+        if (bestExcess === 0) break;
+      }
+      backtrack = true;
+    }
+
+    if (backtrack) {
+      // Walk back to the last included coin and try excluding it instead
+      while (depth > 0 && !included[depth - 1]) {
+        depth--;
+        available += coins[depth].effective;
+      }
+      if (depth === 0) break;
+
+      included[depth - 1] = false;
+      selected -= coins[depth - 1].effective;
+    } else {
+      available -= coins[depth].effective;
+
+      // Skipping a coin equal to one just excluded only repeats that branch
+      const duplicate = depth > 0
+        && !included[depth - 1]
+        && coins[depth].effective === coins[depth - 1].effective;
+
+      included[depth] = !duplicate;
+      if (!duplicate) {
+        selected += coins[depth].effective;
+      }
+      depth++;
+    }
+  }
+
+  return best ? coins.filter((_, index) => best![index]).map(({ coin }) => coin) : null;
+}
+
+/**
+ * Knapsack solver: an exact single coin, else every smaller coin if that is
+ * just enough, else the better of the smallest larger coin and a randomized
+ * approximate best subset of the smaller ones aiming for MIN_CHANGE
+ */
+function knapsack<T>(pool: PoolCoin<T>[], target: number): T[] | null {
+  const exact = pool.find(coin => coin.effective === target);
+  if (exact) {
+    return [exact.coin];
+  }
+
+  const smaller = pool.filter(coin => coin.effective < target + MIN_CHANGE).sort((a, b) => b.effective - a.effective);
+  const larger = pool
+    .filter(coin => coin.effective >= target + MIN_CHANGE)
+    .sort((a, b) => a.effective - b.effective)[0];
+
+  const smallerTotal = smaller.reduce((sum, coin) => sum + coin.effective, 0);
+  if (smallerTotal === target) {
+    return smaller.map(({ coin }) => coin);
+  }
+
+  if (smallerTotal < target) {
+    return larger ? [larger.coin] : null;
+  }
+
+  let subset = approximateBestSubset(smaller, target);
+  if (subset.total !== target && smallerTotal >= target + MIN_CHANGE) {
+    subset = approximateBestSubset(smaller, target + MIN_CHANGE);
+  }
+
+  // A single larger coin wins if the subset falls short or overshoots it
+  if (larger && (subset.total < target || larger.effective <= subset.total)) {
+    return [larger.coin];
+  }
+
+  return subset.total >= target ? subset.coins : null;
+}
+
+function approximateBestSubset<T>(coins: PoolCoin<T>[], target: number): { coins: T[]; total: number } {
+  let best = coins.map(() => true);
+  let bestTotal = coins.reduce((sum, coin) => sum + coin.effective, 0);
+
+  for (let iteration = 0; iteration < KNAPSACK_ITERATIONS && bestTotal !== target; iteration++) {
+    const included = coins.map(() => false);
+    let total = 0;
+    let reached = false;
+
+    // First pass includes coins at random, the second fills in what is left
+    for (let pass = 0; pass < 2 && !reached; pass++) {
+      for (let index = 0; index < coins.length; index++) {
+        if (pass === 0 ? Math.random() < 0.5 : !included[index]) {
+          total += coins[index].effective;
+          included[index] = true;
+
+          if (total >= target) {
+            reached = true;
+            if (total < bestTotal) {
+              bestTotal = total;
+              best = [...included];
+            }
+            total -= coins[index].effective;
+            included[index] = false;
+          }
+        }
+      }
+    }
+  }
+
+  return { coins: coins.filter((_, index) => best[index]).map(({ coin }) => coin), total: bestTotal };
+}
+
+function finish<T extends CoinCandidate>(
+  inputs: T[],
+  params: CoinSelectionParams<T>,
+  algorithm: CoinSelection<T>['algorithm']
+): CoinSelection<T> | null {
+  const inputTotal = inputs.reduce((sum, coin) => sum + coin.value, 0);
+  const inputVbytes = inputs.reduce((sum, coin) => sum + coin.inputVbytes, 0);
+
+  const feeWithoutChange = Math.ceil((params.baseVbytes + inputVbytes) * params.feeRate);
+  const feeWithChange = Math.ceil((params.baseVbytes + inputVbytes + params.changeOutputVbytes) * params.feeRate);
+
+  if (inputTotal < params.target + feeWithoutChange) {
+    return null;
+  }
+
+  // Change too small to be worth an output goes to the miners
+  const change = inputTotal - params.target - feeWithChange;
+  if (algorithm === 'bnb' || change < DUST_LIMIT) {
+    return { inputs, fee: inputTotal - params.target, change: 0, algorithm };
+  }
+
+  return { inputs, fee: feeWithChange, change, algorithm };
+}
@@ -0,0 +1,106 @@
+import { BridgeTransaction } from '@prisma/client';
+import { getPrismaClient } from '../config/database';
+import { TransactionStatus } from '../types';
+import { logger } from '../utils/logger';
+import { bitcoinTestnetService } from './bitcoinTestnetService';
+import { EthereumService } from './ethereumService';
+import { REQUIRED_CONFIRMATIONS } from './bridgeService';
+import { bridgeJobService } from './bridgeJobService';
+import { bridgeTransactionService } from './bridgeTransactionService';
+
+/**
+ * Background tracker for transactions waiting on source-chain depth.
+ *
+ * Polls the confirmation count of every AWAITING_CONFIRMATIONS transaction,
+ * records each change as a TransactionEvent, and re-queues source
+ * verification once the required depth is reached.
+ */
+export class ConfirmationWatcher {
+  private prisma = getPrismaClient();
+  private ethereumService = new EthereumService();
+  private readonly intervalMs = parseInt(process.env.CONFIRMATION_WATCHER_INTERVAL_MS || '60000');
+  private running = false;
+  private timer?: NodeJS.Timeout;
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    logger.info('Confirmation watcher started', { intervalMs: this.intervalMs });
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) return;
+    this.timer = setTimeout(async () => {
+      try {
+        await this.checkAll();
+      } catch (error) {
+        logger.error('Confirmation watcher run failed', { error });
+      }
+      this.schedule(this.intervalMs);
+    }, delayMs);
+  }
+
+  /**
+   * Refresh confirmations for every waiting transaction
+   */
+  async checkAll(): Promise<void> {
+    const waiting = await this.prisma.bridgeTransaction.findMany({
+      where: { status: TransactionStatus.AWAITING_CONFIRMATIONS },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    for (const transaction of waiting) {
+      try {
+        await this.checkTransaction(transaction);
+      } catch (error) {
+        // One unreachable transaction must not hold up the rest
+        logger.warn('Failed to refresh confirmations', {
+          transactionId: transaction.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  }
+
+  private async checkTransaction(transaction: BridgeTransaction): Promise<void> {
+    const confirmations = await this.getConfirmationCount(transaction);
+    const required = REQUIRED_CONFIRMATIONS[transaction.direction as keyof typeof REQUIRED_CONFIRMATIONS];
+
+    if (confirmations !== transaction.confirmations) {
+      await this.prisma.bridgeTransaction.update({
+        where: { id: transaction.id },
+        data: { confirmations },
+      });
+
+      await bridgeTransactionService.createEvent(transaction.id, 'CONFIRMATIONS_UPDATED', {
+        message: `${confirmations}/${required} confirmations`,
+        previousConfirmations: transaction.confirmations,
+        confirmations,
+        required,
+      });
+    }
+
+    if (confirmations >= required) {
+      logger.info('Confirmation threshold reached', { transactionId: transaction.id, confirmations });
+      await bridgeJobService.enqueue(transaction.id, 'VERIFY_SOURCE');
+    }
+  }
+
+  private async getConfirmationCount(transaction: BridgeTransaction): Promise<number> {
+    if (transaction.direction === 'BITCOIN_TO_ETHEREUM') {
+      return bitcoinTestnetService.getConfirmationCount(transaction.sourceTxHash);
+    }
+
+    return this.ethereumService.getConfirmationCount(transaction.sourceTxHash);
+  }
+}
+
+export const confirmationWatcher = new ConfirmationWatcher();
@@ -0,0 +1,234 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import { CustodyUtxo, PayoutBatch, Prisma } from '@prisma/client';
+import { getPrismaClient } from '../config/database';
+import { logger } from '../utils/logger';
+import { bitcoinTestnetService } from './bitcoinTestnetService';
+import { depositAddressService } from './depositAddressService';
+import { signingCoordinator } from './signingCoordinator';
+
+export interface CustodySummary {
+  status: string;
+  count: number;
+  value: string;
+  reservedCount: number;
+}
+
+/**
+ * Ledger of the bridge's own Bitcoin outputs.
+ *
+ * Outputs at the custody addresses are tracked as PENDING until they confirm,
+ * then CONFIRMED, and SPENT once a transaction spending them is broadcast.
+ * Confirmed outputs are spendable unless an open payout batch holds them.
+ * Change from our own payouts is recorded at broadcast, before the provider
+ * sees it, so it can be spent by a CPFP child straight away. Every sync
+ * reconciles the ledger with the provider's view of each custody address.
+ */
+export class CustodyLedger {
+  private prisma = getPrismaClient();
+  private readonly network = process.env.BITCOIN_NETWORK === 'mainnet' ? bitcoin.networks.bitcoin : bitcoin.networks.testnet;
+
+  /**
+   * Bring the ledger in line with the provider's unspent outputs for every
+   * custody address, including addresses that still hold tracked outputs
+   */
+  async sync(): Promise<{ added: number; confirmed: number; spent: number }> {
+    const multisig = await signingCoordinator.getMultisigCustody();
+    const witnessScripts = new Map<string, string | null>(
+      depositAddressService.getCustodyAddresses().map(address => [address, null])
+    );
+    if (multisig) {
+      witnessScripts.set(multisig.address, multisig.witnessScript.toString('hex'));
+    }
+
+    // Custody from an earlier signer set stays tracked until it is spent
+    const tracked = await this.prisma.custodyUtxo.findMany({
+      where: { status: { not: 'SPENT' } },
+      distinct: ['address'],
+      select: { address: true, witnessScript: true },
+    });
+    for (const { address, witnessScript } of tracked) {
+      if (!witnessScripts.has(address)) {
+        witnessScripts.set(address, witnessScript);
+      }
+    }
+
+    const result = { added: 0, confirmed: 0, spent: 0 };
+
+    for (const [address, witnessScript] of witnessScripts) {
+      const scriptPubKey = bitcoin.address.toOutputScript(address, this.network).toString('hex');
+      const utxos = await bitcoinTestnetService.getAddressUtxos(address);
+      const existing = await this.prisma.custodyUtxo.findMany({ where: { address } });
+      const known = new Map(existing.map(row => [`${row.txid}:${row.vout}`, row]));
+
+      for (const utxo of utxos) {
+        const status = utxo.status.confirmed ? 'CONFIRMED' : 'PENDING';
+        const row = known.get(`${utxo.txid}:${utxo.vout}`);
+
+        if (!row) {
+          await this.prisma.custodyUtxo.create({
+            data: {
+              txid: utxo.txid,
+              vout: utxo.vout,
+              address,
+              scriptPubKey,
+              witnessScript,
+              value: utxo.value.toString(),
+              status,
+              blockHeight: utxo.status.block_height,
+            },
+          });
+          result.added++;
+        } else if (row.status === 'PENDING' && status === 'CONFIRMED') {
+          await this.prisma.custodyUtxo.update({
+            where: { id: row.id },
+            data: { status, blockHeight: utxo.status.block_height },
+          });
+          result.confirmed++;
+        }
+      }
+
+      // Confirmed outputs the provider no longer lists were spent elsewhere or
+      // reorged out. Pending ones are left alone: Core only lists confirmed outputs.
+      const unspent = new Set(utxos.map(utxo => `${utxo.txid}:${utxo.vout}`));
+      const gone = existing.filter(row => row.status === 'CONFIRMED' && !unspent.has(`${row.txid}:${row.vout}`));
+      if (gone.length > 0) {
+        await this.prisma.custodyUtxo.updateMany({
+          where: { id: { in: gone.map(row => row.id) } },
+          data: { status: 'SPENT' },
+        });
+        result.spent += gone.length;
+        logger.warn('Custody outputs spent outside the payout service', {
+          address,
+          outpoints: gone.map(row => `${row.txid}:${row.vout}`),
+        });
+      }
+    }
+
+    if (result.added || result.confirmed || result.spent) {
+      logger.info('Custody ledger synced', result);
+    }
+    return result;
+  }
+
+  /**
+   * Confirmed outputs no open batch holds, largest first
+   */
+  async getSpendable(): Promise<CustodyUtxo[]> {
+    const utxos = await this.prisma.custodyUtxo.findMany({
+      where: { status: 'CONFIRMED', batchId: null },
+    });
+    return utxos.sort((a, b) => parseInt(b.value) - parseInt(a.value));
+  }
+
+  async getOutputsOf(txid: string): Promise<CustodyUtxo[]> {
+    return this.prisma.custodyUtxo.findMany({ where: { txid } });
+  }
+
+  async getSpentBy(txid: string): Promise<CustodyUtxo[]> {
+    return this.prisma.custodyUtxo.findMany({ where: { spentTxid: txid } });
+  }
+
+  /**
+   * Hold outputs for a batch, inside the transaction that creates it
+   */
+  async reserve(tx: Prisma.TransactionClient, ids: string[], batchId: string): Promise<void> {
+    await tx.custodyUtxo.updateMany({
+      where: { id: { in: ids } },
+      data: { batchId },
+    });
+  }
+
+  /**
+   * Let go of an abandoned batch's outputs. A replacement's inputs go back to
+   * the batch it would have replaced.
+   */
+  async release(batch: PayoutBatch): Promise<void> {
+    await this.prisma.custodyUtxo.updateMany({
+      where: { batchId: batch.id },
+      data: { batchId: batch.replacesId },
+    });
+  }
+
+  /**
+   * Record a broadcast spend: its inputs are spent and any outputs back to
+   * custody are tracked as pending. Multisig change carries its witness
+   * script in the PSBT output.
+   */
+  async recordBroadcast(psbt: bitcoin.Psbt, transaction: bitcoin.Transaction): Promise<void> {
+    const txid = transaction.getId();
+    const custodyScripts = new Set(
+      depositAddressService.getCustodyAddresses().map(address => bitcoin.address.toOutputScript(address, this.network).toString('hex'))
+    );
+
+    await this.prisma.$transaction(async tx => {
+      for (const input of transaction.ins) {
+        await tx.custodyUtxo.updateMany({
+          where: { txid: Buffer.from(input.hash).reverse().toString('hex'), vout: input.index },
+          data: { status: 'SPENT', spentTxid: txid },
+        });
+      }
+
+      for (const [vout, output] of transaction.outs.entries()) {
+        const witnessScript = psbt.data.outputs[vout]?.witnessScript;
+        if (!witnessScript && !custodyScripts.has(output.script.toString('hex'))) {
+          continue;
+        }
+
+        await tx.custodyUtxo.upsert({
+          where: { txid_vout: { txid, vout } },
+          create: {
+            txid,
+            vout,
+            address: bitcoin.address.fromOutputScript(output.script, this.network),
+            scriptPubKey: output.script.toString('hex'),
+            witnessScript: witnessScript?.toString('hex'),
+            value: output.value.toString(),
+          },
+          update: {},
+        });
+      }
+    });
+  }
+
+  /**
+   * Drop the outputs of a transaction that was replaced before confirming
+   */
+  async forgetTransaction(txid: string): Promise<void> {
+    await this.prisma.custodyUtxo.deleteMany({ where: { txid, status: 'PENDING' } });
+  }
+
+  async list(filters: { status?: string; address?: string; limit?: number }): Promise<CustodyUtxo[]> {
+    return this.prisma.custodyUtxo.findMany({
+      where: { status: filters.status, address: filters.address },
+      orderBy: { createdAt: 'desc' },
+      take: filters.limit || 100,
+    });
+  }
+
+  /**
+   * Output count and value per status
+   */
+  async getSummary(): Promise<CustodySummary[]> {
+    const utxos = await this.prisma.custodyUtxo.findMany({
+      select: { status: true, value: true, batchId: true },
+    });
+
+    const summary = new Map<string, { count: number; value: bigint; reservedCount: number }>();
+    for (const utxo of utxos) {
+      const entry = summary.get(utxo.status) || { count: 0, value: 0n, reservedCount: 0 };
+      entry.count++;
+      entry.value += BigInt(utxo.value);
+      if (utxo.batchId && utxo.status !== 'SPENT') entry.reservedCount++;
+      summary.set(utxo.status, entry);
+    }
+
+    return [...summary.entries()].map(([status, entry]) => ({
+      status,
+      count: entry.count,
+      value: entry.value.toString(),
+      reservedCount: entry.reservedCount,
+    }));
+  }
+}
+
+export const custodyLedger = new CustodyLedger();
@@ -0,0 +1,290 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import { BIP32Factory, BIP32Interface } from 'bip32';
+import * as ecc from 'tiny-secp256k1';
+import { DepositAddress, Prisma } from '@prisma/client';
+import { getPrismaClient } from '../config/database';
+import { logger } from '../utils/logger';
+import { BitcoinTransaction } from './bitcoinTestnetService';
+
+bitcoin.initEccLib(ecc);
+const bip32 = BIP32Factory(ecc);
+
+export type DepositAddressType = 'P2WPKH' | 'P2TR';
+
+export const DEPOSIT_ADDRESS_TYPES: DepositAddressType[] = ['P2WPKH', 'P2TR'];
+
+// What to bridge when the custody outputs do not add up to the requested amount
+export type OverpaymentPolicy = 'reject' | 'credit_requested' | 'credit_received';
+export type UnderpaymentPolicy = 'reject' | 'credit_received';
+
+// Receive addresses live on the external chain of the configured account xpub
+const EXTERNAL_CHAIN = 0;
+const MAX_ALLOCATION_ATTEMPTS = 5;
+
+export interface CreateDepositAddressInput {
+  targetAddress: string;
+  userId?: string;
+  addressType?: DepositAddressType;
+}
+
+export interface CustodyOutputs {
+  outputs: BitcoinTransaction['vout'];
+  outpoints: string[]; // txid:vout
+  receivedAmount: number; // satoshis
+  error?: string;
+}
+
+export interface DepositVerification extends CustodyOutputs {
+  isValid: boolean;
+  creditedAmount?: number; // satoshis to bridge, after the payment policies
+}
+
+// Client errors: the request referenced a deposit address it may not use
+export class DepositAddressError extends Error {
+  readonly statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'DepositAddressError';
+  }
+}
+
+/**
+ * Bridge custody deposit addresses.
+ *
+ * Every bridge request gets its own address, derived from BRIDGE_DEPOSIT_XPUB
+ * at the next free index, so a deposit can be tied to exactly one request and
+ * verification can insist the coins actually reached bridge custody. Only the
+ * public key is held here; spending is done by the custody signers.
+ */
+export class DepositAddressService {
+  private prisma = getPrismaClient();
+  private node?: BIP32Interface;
+  private readonly network = process.env.BITCOIN_NETWORK === 'mainnet' ? bitcoin.networks.bitcoin : bitcoin.networks.testnet;
+  private readonly defaultType = (process.env.BRIDGE_DEPOSIT_ADDRESS_TYPE || 'P2WPKH').toUpperCase() as DepositAddressType;
+  // Fixed custody addresses, used when no xpub is configured
+  private readonly custodyAddresses = (process.env.BRIDGE_CUSTODY_ADDRESSES || '')
+    .split(',')
+    .map(address => address.trim())
+    .filter(Boolean);
+  private readonly overpaymentPolicy = (process.env.BRIDGE_OVERPAYMENT_POLICY || 'credit_received') as OverpaymentPolicy;
+  private readonly underpaymentPolicy = (process.env.BRIDGE_UNDERPAYMENT_POLICY || 'reject') as UnderpaymentPolicy;
+
+  constructor() {
+    const xpub = process.env.BRIDGE_DEPOSIT_XPUB;
+    if (!xpub) {
+      return;
+    }
+
+    try {
+      const node = bip32.fromBase58(xpub, this.network);
+      if (!node.isNeutered()) {
+        logger.error('BRIDGE_DEPOSIT_XPUB must be an extended public key, deposit addresses disabled');
+        return;
+      }
+      this.node = node;
+    } catch (error) {
+      logger.error('Invalid BRIDGE_DEPOSIT_XPUB, deposit addresses disabled', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Whether BTC deposits must go to a derived deposit address
+   */
+  isConfigured(): boolean {
+    return !!this.node;
+  }
+
+  /**
+   * Fixed custody addresses, in configured order
+   */
+  getCustodyAddresses(): string[] {
+    return [...this.custodyAddresses];
+  }
+
+  /**
+   * Derive the address at an index of the external chain
+   */
+  deriveAddress(index: number, type: DepositAddressType = this.defaultType): string {
+    if (!this.node) {
+      throw new Error('Deposit addresses are not configured');
+    }
+
+    const child = this.node.derive(EXTERNAL_CHAIN).derive(index);
+
+    const payment = type === 'P2TR'
+      // BIP86 key-path-only taproot output
+      ? bitcoin.payments.p2tr({ internalPubkey: child.publicKey.subarray(1, 33), network: this.network })
+      : bitcoin.payments.p2wpkh({ pubkey: child.publicKey, network: this.network });
+
+    return payment.address!;
+  }
+
+  /**
+   * Allocate the next unused index and record the address for a bridge request
+   */
+  async createDepositAddress(input: CreateDepositAddressInput): Promise<DepositAddress> {
+    if (!this.node) {
+      throw new Error('Deposit addresses are not configured');
+    }
+
+    const addressType = input.addressType || this.defaultType;
+    const keyFingerprint = this.node.fingerprint.toString('hex');
+
+    for (let attempt = 1; attempt <= MAX_ALLOCATION_ATTEMPTS; attempt++) {
+      const last = await this.prisma.depositAddress.findFirst({
+        where: { keyFingerprint },
+        orderBy: { derivationIndex: 'desc' },
+      });
+      const derivationIndex = last ? last.derivationIndex + 1 : 0;
+
+      try {
+        const depositAddress = await this.prisma.depositAddress.create({
+          data: {
+            address: this.deriveAddress(derivationIndex, addressType),
+            keyFingerprint,
+            derivationIndex,
+            derivationPath: `${EXTERNAL_CHAIN}/${derivationIndex}`,
+            addressType,
+            targetAddress: input.targetAddress,
+            userId: input.userId,
+          },
+        });
+
+        logger.info('Deposit address allocated', {
+          id: depositAddress.id,
+          address: depositAddress.address,
+          derivationIndex,
+        });
+        return depositAddress;
+      } catch (error) {
+        // Another request took the same index; go again with the next one
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    throw new Error('Could not allocate a deposit address, please retry');
+  }
+
+  /**
+   * Look up an unused deposit address for a new Bitcoin-source bridge request.
+   * Returns null when deposit addresses are not configured.
+   */
+  async resolveForBridge(address: string | undefined, targetAddress: string): Promise<DepositAddress | null> {
+    if (!this.node) {
+      return null;
+    }
+
+    if (!address) {
+      throw new DepositAddressError('A deposit address is required; request one from POST /api/bridge/deposit-address');
+    }
+
+    const depositAddress = await this.prisma.depositAddress.findUnique({ where: { address } });
+
+    if (!depositAddress) {
+      throw new DepositAddressError('Unknown deposit address');
+    }
+
+    if (depositAddress.status !== 'ACTIVE') {
+      throw new DepositAddressError('Deposit address has already been used');
+    }
+
+    if (depositAddress.targetAddress.toLowerCase() !== targetAddress.toLowerCase()) {
+      throw new DepositAddressError('Target address does not match the deposit address request');
+    }
+
+    return depositAddress;
+  }
+
+  /**
+   * Retire a deposit address once a bridge transaction has claimed it
+   */
+  async markUsed(id: string): Promise<void> {
+    await this.prisma.depositAddress.update({
+      where: { id },
+      data: { status: 'USED' },
+    });
+  }
+
+  /**
+   * Find the outputs of a Bitcoin transaction that pay bridge custody: the
+   * deposit address assigned to the bridge transaction, or the fixed custody
+   * addresses when deposit addresses are not configured. Change and any other
+   * outputs are ignored.
+   */
+  async findCustodyOutputs(tx: BitcoinTransaction, depositAddressId: string | null): Promise<CustodyOutputs> {
+    let custody: string[];
+
+    if (depositAddressId) {
+      const depositAddress = await this.prisma.depositAddress.findUnique({ where: { id: depositAddressId } });
+      if (!depositAddress) {
+        return { outputs: [], outpoints: [], receivedAmount: 0, error: 'Deposit address not found' };
+      }
+      custody = [depositAddress.address];
+    } else if (this.node) {
+      return { outputs: [], outpoints: [], receivedAmount: 0, error: 'Bridge transaction has no deposit address' };
+    } else if (this.custodyAddresses.length > 0) {
+      custody = this.custodyAddresses;
+    } else {
+      return { outputs: [], outpoints: [], receivedAmount: 0, error: 'No bridge custody address is configured' };
+    }
+
+    const outputs: CustodyOutputs['outputs'] = [];
+    const outpoints: string[] = [];
+    tx.vout.forEach((output, index) => {
+      if (custody.includes(output.scriptpubkey_address)) {
+        outputs.push(output);
+        outpoints.push(`${tx.txid}:${index}`);
+      }
+    });
+
+    return {
+      outputs,
+      outpoints,
+      receivedAmount: outputs.reduce((sum, output) => sum + output.value, 0),
+      error: outputs.length === 0 ? `Source transaction does not pay bridge custody (${custody.join(', ')})` : undefined,
+    };
+  }
+
+  /**
+   * Check that a Bitcoin transaction pays bridge custody the requested amount
+   * in satoshis, applying the over- and under-payment policies
+   */
+  async verifyDeposit(tx: BitcoinTransaction, depositAddressId: string | null, sourceAmount: string): Promise<DepositVerification> {
+    const custody = await this.findCustodyOutputs(tx, depositAddressId);
+    if (custody.error) {
+      return { ...custody, isValid: false };
+    }
+
+    if (!/^\d+$/.test(sourceAmount)) {
+      return { ...custody, isValid: false, error: 'Source amount must be a whole number of satoshis' };
+    }
+
+    const requested = parseInt(sourceAmount);
+    const received = custody.receivedAmount;
+
+    if (received > requested) {
+      if (this.overpaymentPolicy === 'reject') {
+        return { ...custody, isValid: false, error: `Deposit overpaid: received ${received} sats, expected ${requested}` };
+      }
+      const creditedAmount = this.overpaymentPolicy === 'credit_requested' ? requested : received;
+      return { ...custody, isValid: true, creditedAmount };
+    }
+
+    if (received < requested) {
+      if (this.underpaymentPolicy === 'reject') {
+        return { ...custody, isValid: false, error: `Deposit underpaid: received ${received} sats, expected ${requested}` };
+      }
+      return { ...custody, isValid: true, creditedAmount: received };
+    }
+
+    return { ...custody, isValid: true, creditedAmount: requested };
+  }
+}
+
+export const depositAddressService = new DepositAddressService();
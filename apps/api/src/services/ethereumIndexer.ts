@@ -0,0 +1,523 @@
+import { ethers } from 'ethers';
+import { ChainEvent, IndexedBridge, IndexerCheckpoint, Prisma } from '@prisma/client';
+import { getPrismaClient } from '../config/database';
+import { BRIDGE_CONTRACT_ABI, CONTRACT_ADDRESSES, PROOF_VERIFIER_ABI, WRAPPED_BTC_ABI } from '../config/contracts';
+import { logger } from '../utils/logger';
+
+const CHECKPOINT_ID = 'ethereum-events';
+
+const BRIDGE_EVENTS = ['BridgeInitiated', 'BridgeCompleted', 'BridgeClaimed', 'BridgeCancelled'];
+
+interface IndexedContract {
+  name: string;
+  address: string;
+  iface: ethers.Interface;
+  events: string[];
+}
+
+export interface ChainEventView extends Omit<ChainEvent, 'args'> {
+  args: Record<string, unknown>;
+}
+
+export interface IndexerStatus {
+  status: string;
+  lastBlock: number;
+  confirmedBlock: number;
+  headBlock: number | null;
+  lag: number | null;
+  confirmations: number;
+  contracts: { name: string; address: string }[];
+  lastError: string | null;
+  updatedAt: Date | null;
+}
+
+export interface EventFilters {
+  contract?: string;
+  name?: string;
+  // Matches either address the event concerns
+  account?: string;
+  key?: string;
+  fromBlock?: number;
+  toBlock?: number;
+  confirmed?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Indexes BridgeContract, WrappedBTC Transfer and ProofVerifier events into
+ * the database so the web app can query them instead of scanning logs.
+ *
+ * Blocks are indexed in order from ETHEREUM_INDEXER_START_BLOCK, which should
+ * be the contracts' deployment block. The hash of every block the indexer
+ * stops at or takes logs from is kept until it is final, and each run first
+ * checks the latest against the chain: after a reorg the indexer rewinds to
+ * the newest block still on the best chain, deletes everything above it and
+ * indexes again from there. Events become confirmed once they are
+ * ETHEREUM_INDEXER_CONFIRMATIONS deep.
+ */
+export class EthereumIndexer {
+  private prisma = getPrismaClient();
+  private provider: ethers.JsonRpcProvider;
+  private contracts: IndexedContract[];
+  private readonly startBlock = parseInt(process.env.ETHEREUM_INDEXER_START_BLOCK || '0');
+  private readonly intervalMs = parseInt(process.env.ETHEREUM_INDEXER_INTERVAL_MS || '15000');
+  private readonly batchBlocks = parseInt(process.env.ETHEREUM_INDEXER_BATCH_BLOCKS || '2000');
+  private readonly confirmations = parseInt(
+    process.env.ETHEREUM_INDEXER_CONFIRMATIONS || process.env.ETHEREUM_REQUIRED_CONFIRMATIONS || '6'
+  );
+  private running = false;
+  private timer?: NodeJS.Timeout;
+
+  constructor() {
+    this.provider = new ethers.JsonRpcProvider(process.env.ETHEREUM_RPC_URL || 'http://localhost:8545');
+
+    this.contracts = [
+      { name: 'BridgeContract', address: CONTRACT_ADDRESSES.bridgeContract, abi: BRIDGE_CONTRACT_ABI, events: BRIDGE_EVENTS },
+      { name: 'WrappedBTC', address: CONTRACT_ADDRESSES.wrappedBTC, abi: WRAPPED_BTC_ABI, events: ['Transfer'] },
+      { name: 'ProofVerifier', address: CONTRACT_ADDRESSES.proofVerifier, abi: PROOF_VERIFIER_ABI, events: ['ProofVerified'] },
+    ]
+      .filter(contract => contract.address)
+      .map(({ abi, ...contract }) => ({
+        ...contract,
+        address: contract.address.toLowerCase(),
+        iface: new ethers.Interface(abi),
+      }));
+  }
+
+  isConfigured(): boolean {
+    return this.contracts.length > 0;
+  }
+
+  start(): void {
+    if (this.running) return;
+
+    if (!this.isConfigured()) {
+      logger.warn('Ethereum indexer not started: no contract addresses configured');
+      return;
+    }
+
+    this.running = true;
+    logger.info('Ethereum indexer started', {
+      startBlock: this.startBlock,
+      confirmations: this.confirmations,
+      contracts: this.contracts.map(contract => contract.name),
+    });
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) return;
+    this.timer = setTimeout(async () => {
+      let caughtUp = true;
+      try {
+        caughtUp = await this.sync();
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error('Ethereum indexer sync failed', { error: errorMessage });
+        await this.saveCheckpoint({ status: 'ERROR', lastError: errorMessage }).catch(() => undefined);
+      }
+      // Keep going straight away while there is a backlog
+      this.schedule(caughtUp ? this.intervalMs : 0);
+    }, delayMs);
+  }
+
+  /**
+   * Index up to batchBlocks blocks. Returns true once the indexer has reached the head.
+   */
+  async sync(): Promise<boolean> {
+    if (!this.isConfigured()) {
+      throw new Error('Ethereum indexer not configured');
+    }
+
+    let checkpoint = await this.getCheckpoint();
+    checkpoint = await this.rewindReorged(checkpoint);
+
+    const head = await this.provider.getBlockNumber();
+    const fromBlock = checkpoint.lastBlock + 1;
+    const toBlock = Math.min(head, fromBlock + this.batchBlocks - 1);
+
+    if (fromBlock <= toBlock) {
+      await this.indexRange(fromBlock, toBlock);
+    }
+
+    const lastBlock = Math.max(checkpoint.lastBlock, toBlock);
+    await this.confirm(head);
+    await this.saveCheckpoint({
+      headBlock: head,
+      status: lastBlock >= head ? 'IN_SYNC' : 'SYNCING',
+      lastError: null,
+    });
+
+    return lastBlock >= head;
+  }
+
+  /**
+   * Fetch, decode and store the logs of a block range, and move the checkpoint to its end
+   */
+  private async indexRange(fromBlock: number, toBlock: number): Promise<void> {
+    const contracts = new Map(this.contracts.map(contract => [contract.address, contract]));
+    const topics = this.contracts.flatMap(contract =>
+      contract.events.map(name => contract.iface.getEvent(name)!.topicHash)
+    );
+
+    // A reorg while the logs are fetched could mix two chains, so the end block is looked up either side
+    const endBefore = await this.provider.getBlock(toBlock);
+    const logs = await this.provider.getLogs({
+      address: [...contracts.keys()],
+      topics: [topics],
+      fromBlock,
+      toBlock,
+    });
+    const endAfter = await this.provider.getBlock(toBlock);
+
+    if (!endBefore || !endAfter || endBefore.hash !== endAfter.hash) {
+      throw new Error(`Block ${toBlock} changed while its logs were fetched`);
+    }
+
+    const blocks = new Map<number, ethers.Block>([[toBlock, endAfter]]);
+    for (const log of logs) {
+      if (!blocks.has(log.blockNumber)) {
+        const block = await this.provider.getBlock(log.blockNumber);
+        if (!block) {
+          throw new Error(`Block ${log.blockNumber} not found`);
+        }
+        blocks.set(log.blockNumber, block);
+      }
+      if (blocks.get(log.blockNumber)!.hash !== log.blockHash) {
+        throw new Error(`Log in block ${log.blockNumber} is not on the best chain`);
+      }
+    }
+
+    await this.prisma.$transaction(async tx => {
+      const bridgeIds = new Set<string>();
+
+      for (const log of logs) {
+        const contract = contracts.get(log.address.toLowerCase());
+        const parsed = contract?.iface.parseLog(log);
+        if (!contract || !parsed) continue;
+
+        const fields = this.describe(contract.name, parsed);
+        await tx.chainEvent.upsert({
+          where: { txHash_logIndex: { txHash: log.transactionHash, logIndex: log.index } },
+          create: {
+            contract: contract.name,
+            address: contract.address,
+            name: parsed.name,
+            blockNumber: log.blockNumber,
+            blockHash: log.blockHash,
+            txHash: log.transactionHash,
+            logIndex: log.index,
+            args: JSON.stringify(this.toArgs(parsed)),
+            ...fields,
+            timestamp: new Date(blocks.get(log.blockNumber)!.timestamp * 1000),
+          },
+          update: {},
+        });
+
+        if (contract.name === 'BridgeContract' && fields.key) {
+          bridgeIds.add(fields.key);
+        }
+      }
+
+      for (const bridgeId of bridgeIds) {
+        await this.rebuildBridge(tx, bridgeId);
+      }
+
+      for (const [number, block] of blocks) {
+        await tx.indexedBlock.upsert({
+          where: { number },
+          create: { number, hash: block.hash! },
+          update: { hash: block.hash! },
+        });
+      }
+
+      await tx.indexerCheckpoint.update({
+        where: { id: CHECKPOINT_ID },
+        data: { lastBlock: toBlock, lastBlockHash: endAfter.hash },
+      });
+    });
+
+    if (logs.length > 0) {
+      logger.info('Indexed Ethereum events', { fromBlock, toBlock, events: logs.length });
+    }
+  }
+
+  /**
+   * Compare the newest kept block hashes with the chain and rewind past any
+   * that were reorged out
+   */
+  private async rewindReorged(checkpoint: IndexerCheckpoint): Promise<IndexerCheckpoint> {
+    const kept = await this.prisma.indexedBlock.findMany({ orderBy: { number: 'desc' } });
+    if (kept.length === 0) {
+      return checkpoint;
+    }
+
+    let forkBlock: number | null = null;
+    for (const [index, block] of kept.entries()) {
+      const canonical = await this.provider.getBlock(block.number);
+      if (canonical?.hash === block.hash) {
+        // A block's hash commits to all its ancestors, so the newest one matching means no reorg
+        if (index === 0) {
+          return checkpoint;
+        }
+        forkBlock = block.number;
+        break;
+      }
+    }
+
+    const rewindTo = forkBlock ?? kept[kept.length - 1].number - 1;
+    if (forkBlock === null) {
+      logger.error('Ethereum reorg is deeper than the confirmation depth; confirmed events are being re-indexed', {
+        lastBlock: checkpoint.lastBlock,
+        rewindTo,
+      });
+    } else {
+      logger.warn('Ethereum reorg detected, rewinding indexer', { lastBlock: checkpoint.lastBlock, rewindTo });
+    }
+
+    return this.rewind(rewindTo);
+  }
+
+  /**
+   * Forget everything above a block and index again from the one after it
+   */
+  private async rewind(toBlock: number): Promise<IndexerCheckpoint> {
+    return this.prisma.$transaction(async tx => {
+      const orphaned = await tx.chainEvent.findMany({
+        where: { blockNumber: { gt: toBlock }, contract: 'BridgeContract' },
+        distinct: ['key'],
+        select: { key: true },
+      });
+
+      await tx.chainEvent.deleteMany({ where: { blockNumber: { gt: toBlock } } });
+      await tx.indexedBlock.deleteMany({ where: { number: { gt: toBlock } } });
+
+      for (const { key } of orphaned) {
+        if (key) {
+          await this.rebuildBridge(tx, key);
+        }
+      }
+
+      const checkpoint = await tx.indexerCheckpoint.findUniqueOrThrow({ where: { id: CHECKPOINT_ID } });
+      const anchor = await tx.indexedBlock.findUnique({ where: { number: toBlock } });
+      return tx.indexerCheckpoint.update({
+        where: { id: CHECKPOINT_ID },
+        data: {
+          lastBlock: toBlock,
+          lastBlockHash: anchor?.hash || null,
+          confirmedBlock: Math.min(checkpoint.confirmedBlock, toBlock),
+        },
+      });
+    });
+  }
+
+  /**
+   * Mark events deep enough as final and drop block hashes no longer needed to spot a reorg
+   */
+  private async confirm(head: number): Promise<void> {
+    const confirmedBlock = head - this.confirmations + 1;
+    if (confirmedBlock < 0) {
+      return;
+    }
+
+    await this.prisma.chainEvent.updateMany({
+      where: { confirmed: false, blockNumber: { lte: confirmedBlock } },
+      data: { confirmed: true },
+    });
+    await this.prisma.indexedBridge.updateMany({
+      where: { confirmed: false, lastBlockNumber: { lte: confirmedBlock } },
+      data: { confirmed: true },
+    });
+
+    // Keep a confirmation window of final blocks to rewind to
+    await this.prisma.indexedBlock.deleteMany({
+      where: { number: { lt: confirmedBlock - this.confirmations } },
+    });
+    await this.saveCheckpoint({ confirmedBlock });
+  }
+
+  /**
+   * Derive a bridge's current state from its events, or remove it if its initiation is gone
+   */
+  private async rebuildBridge(tx: Prisma.TransactionClient, bridgeId: string): Promise<void> {
+    const events = await tx.chainEvent.findMany({
+      where: { contract: 'BridgeContract', key: bridgeId },
+      orderBy: [{ blockNumber: 'asc' }, { logIndex: 'asc' }],
+    });
+
+    const initiated = events.find(event => event.name === 'BridgeInitiated');
+    if (!initiated) {
+      await tx.indexedBridge.deleteMany({ where: { bridgeId } });
+      return;
+    }
+
+    const initiation = JSON.parse(initiated.args);
+    const bridge: Omit<IndexedBridge, 'createdAt' | 'updatedAt'> = {
+      bridgeId,
+      user: initiated.account!,
+      amount: initiation.amount,
+      fee: null,
+      btcTxHash: initiation.btcTxHash,
+      btcAddress: initiation.btcAddress,
+      claimAddress: null,
+      cancelReason: null,
+      status: 'INITIATED',
+      initiatedTxHash: initiated.txHash,
+      initiatedAt: initiated.timestamp,
+      completedAt: null,
+      claimedAt: null,
+      cancelledAt: null,
+      lastBlockNumber: events[events.length - 1].blockNumber,
+      confirmed: events.every(event => event.confirmed),
+    };
+
+    for (const event of events) {
+      const args = JSON.parse(event.args);
+      switch (event.name) {
+        case 'BridgeCompleted':
+          bridge.status = 'COMPLETED';
+          bridge.fee = args.fee;
+          bridge.completedAt = event.timestamp;
+          break;
+        case 'BridgeClaimed':
+          bridge.status = 'CLAIMED';
+          bridge.claimAddress = args.btcAddress;
+          bridge.claimedAt = event.timestamp;
+          break;
+        case 'BridgeCancelled':
+          bridge.status = 'CANCELLED';
+          bridge.cancelReason = args.reason;
+          bridge.cancelledAt = event.timestamp;
+          break;
+      }
+    }
+
+    await tx.indexedBridge.upsert({
+      where: { bridgeId },
+      create: bridge,
+      update: bridge,
+    });
+  }
+
+  // Columns events are looked up by
+  private describe(contract: string, event: ethers.LogDescription): Pick<ChainEvent, 'account' | 'counterparty' | 'key'> {
+    if (contract === 'BridgeContract') {
+      return { account: event.args.user.toLowerCase(), counterparty: null, key: event.args.bridgeId };
+    }
+    if (event.name === 'Transfer') {
+      return { account: event.args.from.toLowerCase(), counterparty: event.args.to.toLowerCase(), key: null };
+    }
+    return { account: event.args.verifier.toLowerCase(), counterparty: null, key: event.args.proofHash };
+  }
+
+  private toArgs(event: ethers.LogDescription): Record<string, unknown> {
+    return Object.fromEntries(
+      event.fragment.inputs.map((input, index) => {
+        const value = event.args[index];
+        return [input.name, typeof value === 'bigint' ? value.toString() : value];
+      })
+    );
+  }
+
+  async getStatus(): Promise<IndexerStatus> {
+    const checkpoint = await this.prisma.indexerCheckpoint.findUnique({ where: { id: CHECKPOINT_ID } });
+
+    return {
+      status: checkpoint?.status || (this.isConfigured() ? 'IDLE' : 'NOT_CONFIGURED'),
+      lastBlock: checkpoint?.lastBlock ?? this.startBlock - 1,
+      confirmedBlock: checkpoint?.confirmedBlock || 0,
+      headBlock: checkpoint?.headBlock ?? null,
+      lag: checkpoint?.headBlock != null ? checkpoint.headBlock - checkpoint.lastBlock : null,
+      confirmations: this.confirmations,
+      contracts: this.contracts.map(({ name, address }) => ({ name, address })),
+      lastError: checkpoint?.lastError || null,
+      updatedAt: checkpoint?.updatedAt || null,
+    };
+  }
+
+  async listBridges(filters: {
+    user?: string;
+    status?: string;
+    btcTxHash?: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<{ bridges: IndexedBridge[]; total: number }> {
+    const where: Prisma.IndexedBridgeWhereInput = {
+      user: filters.user?.toLowerCase(),
+      status: filters.status,
+      btcTxHash: filters.btcTxHash,
+    };
+
+    const [bridges, total] = await Promise.all([
+      this.prisma.indexedBridge.findMany({
+        where,
+        orderBy: { initiatedAt: 'desc' },
+        take: filters.limit || 50,
+        skip: filters.offset || 0,
+      }),
+      this.prisma.indexedBridge.count({ where }),
+    ]);
+
+    return { bridges, total };
+  }
+
+  async getBridge(bridgeId: string): Promise<(IndexedBridge & { events: ChainEventView[] }) | null> {
+    const bridge = await this.prisma.indexedBridge.findUnique({ where: { bridgeId } });
+    if (!bridge) {
+      return null;
+    }
+
+    const { events } = await this.listEvents({ contract: 'BridgeContract', key: bridgeId, limit: 100 });
+    return { ...bridge, events };
+  }
+
+  async listEvents(filters: EventFilters): Promise<{ events: ChainEventView[]; total: number }> {
+    const account = filters.account?.toLowerCase();
+    const where: Prisma.ChainEventWhereInput = {
+      contract: filters.contract,
+      name: filters.name,
+      key: filters.key,
+      confirmed: filters.confirmed,
+      blockNumber: { gte: filters.fromBlock, lte: filters.toBlock },
+      OR: account ? [{ account }, { counterparty: account }] : undefined,
+    };
+
+    const [events, total] = await Promise.all([
+      this.prisma.chainEvent.findMany({
+        where,
+        orderBy: [{ blockNumber: 'desc' }, { logIndex: 'desc' }],
+        take: filters.limit || 50,
+        skip: filters.offset || 0,
+      }),
+      this.prisma.chainEvent.count({ where }),
+    ]);
+
+    return { events: events.map(event => ({ ...event, args: JSON.parse(event.args) })), total };
+  }
+
+  private async getCheckpoint(): Promise<IndexerCheckpoint> {
+    return this.prisma.indexerCheckpoint.upsert({
+      where: { id: CHECKPOINT_ID },
+      create: { id: CHECKPOINT_ID, lastBlock: this.startBlock - 1 },
+      update: {},
+    });
+  }
+
+  private async saveCheckpoint(data: Partial<Omit<IndexerCheckpoint, 'id' | 'createdAt' | 'updatedAt'>>): Promise<IndexerCheckpoint> {
+    return this.prisma.indexerCheckpoint.upsert({
+      where: { id: CHECKPOINT_ID },
+      create: { id: CHECKPOINT_ID, lastBlock: this.startBlock - 1, ...data },
+      update: data,
+    });
+  }
+}
+
+export const ethereumIndexer = new EthereumIndexer();
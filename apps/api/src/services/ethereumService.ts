@@ -1,10 +1,41 @@
 import { ethers } from 'ethers';
+import { BRIDGE_CONTRACT_ABI, CONTRACT_ADDRESSES, WRAPPED_BTC_ABI } from '../config/contracts';
 import { EthereumTransaction } from '../types';
 import { logger } from '../utils/logger';
+import { TransactionSender, getTransactionSender } from './transactionSender';
+
+// A contract call that reverted, with the decoded reason. Reverts are final, so callers should not retry.
+export class ContractRevertError extends Error {
+  constructor(readonly reason: string, readonly txHash?: string) {
+    super(`Transaction reverted: ${reason}`);
+    this.name = 'ContractRevertError';
+  }
+}
+
+// A WrappedBTC burn or BridgeContract claim releasing BTC
+export interface BurnDetails {
+  event: 'BitcoinUnlocked' | 'BridgeClaimed';
+  contract: string;
+  burner: string;
+  // Satoshis; wrapped BTC has 8 decimals
+  amount: string;
+  btcAddress: string;
+  bridgeId?: string;
+  blockNumber: number;
+}
+
+export interface BurnVerification {
+  isValid: boolean;
+  // Sent but not mined yet, so there is no receipt to check
+  pending?: boolean;
+  burn?: BurnDetails;
+  error?: string;
+}
 
 export class EthereumService {
   private provider: ethers.JsonRpcProvider;
   private wallet?: ethers.Wallet;
+  private sender?: TransactionSender;
 
   constructor() {
     const rpcUrl = process.env.ETHEREUM_RPC_URL || 'http://localhost:8545';
@@ -13,6 +44,7 @@ export class EthereumService {
     if (process.env.ETHEREUM_PRIVATE_KEY && process.env.ETHEREUM_PRIVATE_KEY !== 'your_private_key_here') {
       try {
         this.wallet = new ethers.Wallet(process.env.ETHEREUM_PRIVATE_KEY, this.provider);
+        this.sender = getTransactionSender(this.wallet);
       } catch (error) {
         logger.warn('Invalid ETHEREUM_PRIVATE_KEY, wallet not initialized');
       }
@@ -42,10 +74,11 @@ export class EthereumService {
       };
     } catch (error) {
       logger.error('Error getting Ethereum transaction:', error);
-      throw new Error(`Failed to get Ethereum transaction: ${error.message}`);
+      throw new Error(`Failed to get Ethereum transaction: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  // Plain ETH transfers only; bridge burns carry no ETH value and go through verifyBurn
   async verifyTransaction(hash: string, address: string, amount: string): Promise<boolean> {
     try {
       const tx = await this.getTransaction(hash);
@@ -62,21 +95,111 @@ export class EthereumService {
     }
   }
 
+  /**
+   * Verify the source of an Ethereum-to-Bitcoin bridge: a successful
+   * transaction emitting WrappedBTC BitcoinUnlocked or BridgeContract
+   * BridgeClaimed from the expected burner, for the expected amount in
+   * satoshis and BTC destination. RPC failures throw so the caller can retry.
+   */
+  async verifyBurn(
+    hash: string,
+    expected: { burner: string; amount: string; btcAddress: string }
+  ): Promise<BurnVerification> {
+    if (!CONTRACT_ADDRESSES.wrappedBTC && !CONTRACT_ADDRESSES.bridgeContract) {
+      return { isValid: false, error: 'WRAPPED_BTC_ADDRESS or BRIDGE_CONTRACT_ADDRESS must be set to verify burns' };
+    }
+
+    const receipt = await this.provider.getTransactionReceipt(hash);
+    if (!receipt) {
+      const tx = await this.provider.getTransaction(hash);
+      return tx ? { isValid: false, pending: true } : { isValid: false, error: `Transaction ${hash} not found` };
+    }
+
+    if (receipt.status !== 1) {
+      return { isValid: false, error: 'Source transaction reverted' };
+    }
+
+    const burns = this.decodeBurns(receipt).filter(burn => burn.burner.toLowerCase() === expected.burner.toLowerCase());
+    if (burns.length === 0) {
+      return { isValid: false, error: `Source transaction has no WrappedBTC burn or BridgeContract claim by ${expected.burner}` };
+    }
+
+    const burn = burns.find(candidate => candidate.amount === expected.amount && candidate.btcAddress === expected.btcAddress);
+    if (!burn) {
+      const [first] = burns;
+      return {
+        isValid: false,
+        burn: first,
+        error: first.amount !== expected.amount
+          ? `Burned ${first.amount} satoshis, expected ${expected.amount}`
+          : `Burn releases BTC to ${first.btcAddress}, not ${expected.btcAddress}`,
+      };
+    }
+
+    return { isValid: true, burn };
+  }
+
+  /**
+   * Burns and claims in a receipt, from the configured WrappedBTC and BridgeContract only
+   */
+  decodeBurns(receipt: ethers.TransactionReceipt): BurnDetails[] {
+    const sources = [
+      { address: CONTRACT_ADDRESSES.wrappedBTC, iface: new ethers.Interface(WRAPPED_BTC_ABI), event: 'BitcoinUnlocked' },
+      { address: CONTRACT_ADDRESSES.bridgeContract, iface: new ethers.Interface(BRIDGE_CONTRACT_ABI), event: 'BridgeClaimed' },
+    ].filter(source => source.address);
+
+    const burns: BurnDetails[] = [];
+    for (const log of receipt.logs) {
+      const source = sources.find(candidate => candidate.address.toLowerCase() === log.address.toLowerCase());
+      const parsed = source?.iface.parseLog(log);
+      if (!source || parsed?.name !== source.event) continue;
+
+      burns.push({
+        event: source.event as BurnDetails['event'],
+        contract: log.address,
+        burner: parsed.args.user,
+        amount: parsed.args.amount.toString(),
+        btcAddress: parsed.args.btcAddress,
+        bridgeId: parsed.name === 'BridgeClaimed' ? parsed.args.bridgeId : undefined,
+        blockNumber: receipt.blockNumber,
+      });
+    }
+
+    return burns;
+  }
+
+  async getConfirmationCount(hash: string): Promise<number> {
+    try {
+      const receipt = await this.provider.getTransactionReceipt(hash);
+      if (!receipt) {
+        return 0;
+      }
+
+      return await receipt.confirmations();
+    } catch (error) {
+      logger.error('Error getting Ethereum confirmation count:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to get confirmation count: ${errorMessage}`);
+    }
+  }
+
   async getNetworkInfo(): Promise<any> {
     try {
       const network = await this.provider.getNetwork();
       const blockNumber = await this.provider.getBlockNumber();
-      const gasPrice = await this.provider.getGasPrice();
+      const feeData = await this.provider.getFeeData();
 
       return {
         chainId: network.chainId.toString(),
         name: network.name,
         blockNumber,
-        gasPrice: gasPrice.toString()
+        gasPrice: feeData.gasPrice?.toString(),
+        maxFeePerGas: feeData.maxFeePerGas?.toString(),
+        maxPriorityFeePerGas: feeData.maxPriorityFeePerGas?.toString()
       };
     } catch (error) {
       logger.error('Error getting Ethereum network info:', error);
-      throw new Error(`Failed to get network info: ${error.message}`);
+      throw new Error(`Failed to get network info: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
@@ -86,17 +209,20 @@ export class EthereumService {
       return balance.toString();
     } catch (error) {
       logger.error('Error getting Ethereum balance:', error);
-      throw new Error(`Failed to get balance: ${error.message}`);
+      throw new Error(`Failed to get balance: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   async getGasPrice(): Promise<string> {
     try {
-      const gasPrice = await this.provider.getGasPrice();
+      const { gasPrice } = await this.provider.getFeeData();
+      if (gasPrice === null) {
+        throw new Error('Node returned no gas price');
+      }
       return gasPrice.toString();
     } catch (error) {
       logger.error('Error getting gas price:', error);
-      throw new Error(`Failed to get gas price: ${error.message}`);
+      throw new Error(`Failed to get gas price: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
@@ -114,7 +240,7 @@ export class EthereumService {
       return gasEstimate.toString();
     } catch (error) {
       logger.error('Error estimating gas:', error);
-      throw new Error(`Failed to estimate gas: ${error.message}`);
+      throw new Error(`Failed to estimate gas: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
@@ -123,21 +249,21 @@ export class EthereumService {
     value: string;
     data?: string;
   }): Promise<string> {
-    if (!this.wallet) {
+    if (!this.sender) {
       throw new Error('Wallet not configured');
     }
 
     try {
-      const tx = await this.wallet.sendTransaction({
+      const tx = await this.sender.send({
         to: transaction.to,
         value: ethers.parseEther(transaction.value),
         data: transaction.data
       });
 
-      return tx.hash;
+      return tx.hash!;
     } catch (error) {
       logger.error('Error sending transaction:', error);
-      throw new Error(`Failed to send transaction: ${error.message}`);
+      throw new Error(`Failed to send transaction: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
@@ -153,7 +279,7 @@ export class EthereumService {
       };
     } catch (error) {
       logger.error('Error getting block:', error);
-      throw new Error(`Failed to get block: ${error.message}`);
+      throw new Error(`Failed to get block: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
@@ -162,8 +288,139 @@ export class EthereumService {
       return await this.provider.getBlockNumber();
     } catch (error) {
       logger.error('Error getting block number:', error);
-      throw new Error(`Failed to get block number: ${error.message}`);
+      throw new Error(`Failed to get block number: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
-}
 
+  hasWallet(): boolean {
+    return !!this.wallet;
+  }
+
+  /**
+   * Contract bound to the service wallet
+   */
+  getContract(address: string, abi: ethers.InterfaceAbi): ethers.Contract {
+    if (!this.wallet) {
+      throw new Error('Wallet not configured');
+    }
+
+    return new ethers.Contract(address, abi, this.wallet);
+  }
+
+  /**
+   * Send a contract call from the service wallet and wait for its receipt.
+   * `onSent` runs with the hash before waiting, so callers can record it; if
+   * the transaction is later replaced to speed it up, waiting on that hash
+   * still finds the replacement's receipt. Calls that would revert are caught
+   * when gas is estimated, before anything is sent; either way a revert throws
+   * ContractRevertError.
+   */
+  async sendContractTransaction(
+    contract: ethers.Contract,
+    method: string,
+    args: unknown[],
+    options: { confirmations?: number; timeoutMs?: number; onSent?: (txHash: string) => Promise<void> } = {}
+  ): Promise<ethers.TransactionReceipt> {
+    if (!this.sender) {
+      throw new Error('Wallet not configured');
+    }
+
+    let hash: string;
+    try {
+      const tx = await this.sender.send({
+        to: await contract.getAddress(),
+        data: contract.interface.encodeFunctionData(method, args),
+        label: method,
+      });
+      hash = tx.hash!;
+    } catch (error) {
+      const reason = this.decodeRevertReason(error, contract.interface);
+      if (reason) {
+        throw new ContractRevertError(reason);
+      }
+      throw error;
+    }
+
+    await options.onSent?.(hash);
+
+    return this.waitForReceipt(hash, options.confirmations, options.timeoutMs, contract.interface);
+  }
+
+  /**
+   * Wait for a transaction's receipt, throwing ContractRevertError with the
+   * decoded reason if it reverted. Transactions sent from the service wallet
+   * are followed through replacements and sped up while they wait.
+   */
+  async waitForReceipt(
+    hash: string,
+    confirmations = 1,
+    timeoutMs?: number,
+    contractInterface?: ethers.Interface
+  ): Promise<ethers.TransactionReceipt> {
+    const sent = await this.sender?.findByHash(hash);
+    const receipt = sent
+      ? await this.sender!.waitForReceipt(sent.id, confirmations, timeoutMs)
+      : await this.provider.waitForTransaction(hash, confirmations, timeoutMs);
+    if (!receipt) {
+      throw new Error(`Transaction ${hash} not found`);
+    }
+
+    if (receipt.status !== 1) {
+      throw new ContractRevertError(await this.getRevertReason(receipt, contractInterface), receipt.hash);
+    }
+
+    return receipt;
+  }
+
+  /**
+   * Receipts keep no revert data, so the call is replayed at its block to get it
+   */
+  private async getRevertReason(receipt: ethers.TransactionReceipt, contractInterface?: ethers.Interface): Promise<string> {
+    const tx = await this.provider.getTransaction(receipt.hash);
+    if (!tx) {
+      return 'unknown reason';
+    }
+
+    try {
+      await this.provider.call({
+        to: tx.to,
+        from: tx.from,
+        data: tx.data,
+        value: tx.value,
+        gasLimit: tx.gasLimit,
+        blockTag: receipt.blockNumber,
+      });
+    } catch (error) {
+      return this.decodeRevertReason(error, contractInterface) || 'unknown reason';
+    }
+
+    // The replay succeeded, so it most likely ran out of gas
+    return `no reason given (gas used ${receipt.gasUsed} of ${tx.gasLimit})`;
+  }
+
+  /**
+   * Reason string, panic or custom error from a call exception, or null if the error is not a revert
+   */
+  private decodeRevertReason(error: unknown, contractInterface?: ethers.Interface): string | null {
+    if (!ethers.isError(error, 'CALL_EXCEPTION')) {
+      return null;
+    }
+
+    if (error.reason) {
+      return error.reason;
+    }
+
+    if (error.data && contractInterface) {
+      try {
+        const custom = contractInterface.parseError(error.data);
+        if (custom) {
+          return `${custom.name}(${custom.args.map(arg => String(arg)).join(', ')})`;
+        }
+      } catch {
+        // Data that does not decode against the ABI is reported raw below
+      }
+    }
+
+    return error.data ? `unrecognized revert data ${error.data}` : 'no reason given';
+  }
+}
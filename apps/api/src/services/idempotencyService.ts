@@ -0,0 +1,147 @@
+import { createHash } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { getPrismaClient } from '../config/database';
+import { logger } from '../utils/logger';
+
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface IdempotentReplay {
+  statusCode: number;
+  body: unknown;
+}
+
+export interface IdempotencyClaim {
+  id: string;
+  // Set when the key has already been answered
+  replay?: IdempotentReplay;
+}
+
+// A key that cannot be used for this request: still running, or reused with another body
+export class IdempotencyError extends Error {
+  constructor(message: string, readonly statusCode: number) {
+    super(message);
+    this.name = 'IdempotencyError';
+  }
+}
+
+/**
+ * Persists Idempotency-Key headers together with the response each one got.
+ *
+ * The first request with a key claims it; retries with the same key and body
+ * get the stored response back, while a retry with a different body is
+ * rejected. Server errors release the key so the request can be retried.
+ */
+export class IdempotencyService {
+  private prisma = getPrismaClient();
+  private readonly ttlMs = parseFloat(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24') * 60 * 60 * 1000;
+  private lastPrunedAt = 0;
+
+  /**
+   * Claim `key` for a request, or return the response it already produced
+   */
+  async claim(scope: string, key: string, requestHash: string): Promise<IdempotencyClaim> {
+    await this.pruneExpired();
+
+    let existing = await this.prisma.idempotencyKey.findUnique({ where: { scope_key: { scope, key } } });
+
+    if (existing && existing.expiresAt <= new Date()) {
+      await this.prisma.idempotencyKey.deleteMany({ where: { id: existing.id } });
+      existing = null;
+    }
+
+    if (!existing) {
+      try {
+        const created = await this.prisma.idempotencyKey.create({
+          data: { scope, key, requestHash, expiresAt: new Date(Date.now() + this.ttlMs) },
+        });
+        return { id: created.id };
+      } catch (error) {
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+          throw error;
+        }
+        // Claimed by a concurrent request with the same key
+        existing = await this.prisma.idempotencyKey.findUniqueOrThrow({ where: { scope_key: { scope, key } } });
+      }
+    }
+
+    if (existing.requestHash !== requestHash) {
+      throw new IdempotencyError('Idempotency-Key has already been used with a different request body', 422);
+    }
+
+    if (existing.status !== 'COMPLETED') {
+      throw new IdempotencyError('A request with this Idempotency-Key is still being processed', 409);
+    }
+
+    return {
+      id: existing.id,
+      replay: {
+        statusCode: existing.statusCode!,
+        body: existing.responseBody ? JSON.parse(existing.responseBody) : null,
+      },
+    };
+  }
+
+  /**
+   * Store the response to a claimed key. Server errors release the key instead.
+   */
+  async complete(id: string, statusCode: number, body: unknown): Promise<void> {
+    if (statusCode >= 500) {
+      await this.release(id);
+      return;
+    }
+
+    await this.prisma.idempotencyKey.update({
+      where: { id },
+      data: {
+        status: 'COMPLETED',
+        statusCode,
+        responseBody: body === undefined ? null : JSON.stringify(body),
+      },
+    });
+  }
+
+  async release(id: string): Promise<void> {
+    await this.prisma.idempotencyKey.deleteMany({ where: { id } });
+  }
+
+  /**
+   * SHA-256 of a request body, independent of key order
+   */
+  hashRequest(body: unknown): string {
+    return createHash('sha256').update(this.canonicalize(body)).digest('hex');
+  }
+
+  private canonicalize(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map(item => this.canonicalize(item)).join(',')}]`;
+    }
+
+    if (value && typeof value === 'object') {
+      const entries = Object.keys(value)
+        .sort()
+        .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+        .map(key => `${JSON.stringify(key)}:${this.canonicalize((value as Record<string, unknown>)[key])}`);
+      return `{${entries.join(',')}}`;
+    }
+
+    return JSON.stringify(value ?? null);
+  }
+
+  private async pruneExpired(): Promise<void> {
+    if (Date.now() - this.lastPrunedAt < PRUNE_INTERVAL_MS) return;
+    this.lastPrunedAt = Date.now();
+
+    try {
+      const { count } = await this.prisma.idempotencyKey.deleteMany({ where: { expiresAt: { lte: new Date() } } });
+      if (count > 0) {
+        logger.info('Pruned expired idempotency keys', { count });
+      }
+    } catch (error) {
+      logger.warn('Failed to prune idempotency keys', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
+
+export const idempotencyService = new IdempotencyService();
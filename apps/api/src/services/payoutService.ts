@@ -0,0 +1,961 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import * as ecc from 'tiny-secp256k1';
+import { CustodyUtxo, PayoutBatch, Signer, Withdrawal } from '@prisma/client';
+import { getPrismaClient } from '../config/database';
+import { TransactionStatus } from '../types';
+import { logger } from '../utils/logger';
+import { bitcoinTestnetService } from './bitcoinTestnetService';
+import { bridgeStatusService } from './bridgeStatusService';
+import { bridgeTransactionService } from './bridgeTransactionService';
+import { CoinCandidate, DUST_LIMIT, selectCoins } from './coinSelection';
+import { custodyLedger } from './custodyLedger';
+import { depositAddressService } from './depositAddressService';
+import { signingCoordinator } from './signingCoordinator';
+
+bitcoin.initEccLib(ecc);
+
+// Signals BIP125 replaceability so a stuck payout can be fee-bumped
+const RBF_SEQUENCE = 0xfffffffd;
+// Version, locktime, input/output counts and the segwit marker
+const TX_OVERHEAD_VBYTES = 10.5;
+// A replacement must pay for its own size at this rate on top of the original fee (sat/vB)
+const INCREMENTAL_RELAY_FEE_RATE = 1;
+// Signers submitting at the same moment are merged one after the other, retrying on a lost race
+const PSBT_MERGE_ATTEMPTS = 5;
+
+interface SpendableInput extends CoinCandidate {
+  utxoId: string;
+  txid: string;
+  vout: number;
+  script: Buffer;
+  witnessScript?: Buffer;
+}
+
+interface ChangeDestination {
+  script: Buffer;
+  witnessScript?: Buffer;
+}
+
+interface BatchPlan {
+  kind: 'PAYOUT' | 'CONSOLIDATION' | 'CPFP';
+  inputs: SpendableInput[];
+  outputs: { script: Buffer; value: number }[];
+  change: ChangeDestination;
+  changeAmount: number;
+  fee: number;
+  feeRate: number;
+  totalAmount: number;
+  withdrawals?: Withdrawal[];
+  replacesId?: string;
+  parentId?: string;
+}
+
+export interface SignedPsbtResult {
+  batch: PayoutBatch;
+  complete: boolean;
+}
+
+// Client errors: a submitted PSBT that cannot be applied to the batch
+export class PayoutError extends Error {
+  constructor(message: string, readonly statusCode = 400) {
+    super(message);
+    this.name = 'PayoutError';
+  }
+}
+
+/**
+ * Pays out Ethereum-to-Bitcoin bridges.
+ *
+ * Once a burn is verified the pipeline queues a withdrawal. Every interval the
+ * queued withdrawals are batched into one PSBT, with one output per
+ * destination, at the configured fee target. Inputs come from the custody
+ * ledger, picked by branch-and-bound with a knapsack fallback.
+ * The PSBT is signed outside this service and handed back; the payout is
+ * then broadcast and the bridge transactions complete once it confirms. The
+ * payout txid is recorded as `targetTxHash` as soon as the batch is built.
+ *
+ * When an M-of-N signer set is configured, batches spending the multisig
+ * custody go out as signing requests. A batch whose request expires or fails
+ * is abandoned and its withdrawals are queued again.
+ *
+ * Stuck payouts can be fee-bumped by replacement (RBF) or by a child spending
+ * their change (CPFP). When fees are low and custody holds many small
+ * outputs, they are consolidated into one.
+ */
+export class PayoutService {
+  private prisma = getPrismaClient();
+  private readonly network = process.env.BITCOIN_NETWORK === 'mainnet' ? bitcoin.networks.bitcoin : bitcoin.networks.testnet;
+  private readonly intervalMs = parseInt(process.env.BRIDGE_PAYOUT_INTERVAL_MS || '600000');
+  private readonly maxBatchSize = parseInt(process.env.BRIDGE_PAYOUT_MAX_BATCH_SIZE || '50');
+  private readonly feeTarget = parseInt(process.env.BRIDGE_PAYOUT_FEE_TARGET || '6'); // blocks
+  private readonly minFeeRate = parseFloat(process.env.BRIDGE_PAYOUT_MIN_FEE_RATE || '1'); // sat/vB
+  private readonly maxFeeRate = parseFloat(process.env.BRIDGE_PAYOUT_MAX_FEE_RATE || '100'); // sat/vB
+  private readonly requiredConfirmations = parseInt(process.env.BRIDGE_PAYOUT_CONFIRMATIONS || '1');
+  private readonly bumpAfterMs = parseInt(process.env.BRIDGE_PAYOUT_BUMP_AFTER_MS || '0'); // 0 disables
+  private readonly consolidationMinUtxos = parseInt(process.env.BRIDGE_CONSOLIDATION_MIN_UTXOS || '20'); // 0 disables
+  private readonly consolidationMaxInputs = parseInt(process.env.BRIDGE_CONSOLIDATION_MAX_INPUTS || '100');
+  private readonly consolidationMaxFeeRate = parseFloat(process.env.BRIDGE_CONSOLIDATION_MAX_FEE_RATE || '2'); // sat/vB
+  private running = false;
+  private timer?: NodeJS.Timeout;
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    logger.info('Payout service started', { intervalMs: this.intervalMs, feeTarget: this.feeTarget });
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) return;
+    this.timer = setTimeout(async () => {
+      try {
+        await this.runOnce();
+      } catch (error) {
+        logger.error('Payout run failed', { error });
+      }
+      this.schedule(this.intervalMs);
+    }, delayMs);
+  }
+
+  /**
+   * One payout round: track broadcast batches, then batch whatever is queued,
+   * or consolidate custody if nothing is
+   */
+  async runOnce(): Promise<void> {
+    await this.trackBroadcastBatches();
+    await this.abandonUnsignedSigningRequests();
+    await custodyLedger.sync();
+    await this.bumpStuckBatches();
+
+    const batch = await this.buildBatch();
+    if (!batch) {
+      await this.consolidateIfCheap();
+    }
+  }
+
+  /**
+   * Queue the BTC payout for a verified Ethereum-to-Bitcoin bridge transaction.
+   * Safe to call again for a transaction that is already queued.
+   */
+  async queueWithdrawal(transactionId: string): Promise<Withdrawal> {
+    const existing = await this.prisma.withdrawal.findUnique({ where: { transactionId } });
+    if (existing) {
+      return existing;
+    }
+
+    const transaction = await this.prisma.bridgeTransaction.findUnique({ where: { id: transactionId } });
+    if (!transaction) {
+      throw new Error('Bridge transaction not found');
+    }
+
+    if (transaction.direction !== 'ETHEREUM_TO_BITCOIN') {
+      throw new Error('Only Ethereum-to-Bitcoin transactions are paid out in BTC');
+    }
+
+    // Burned wrapped BTC has 8 decimals, so its base units are satoshis
+    const amount = transaction.targetAmount || transaction.sourceAmount;
+    if (!/^\d+$/.test(amount) || parseInt(amount) < DUST_LIMIT) {
+      throw new Error(`Withdrawal amount must be a whole number of satoshis of at least ${DUST_LIMIT}`);
+    }
+
+    try {
+      bitcoin.address.toOutputScript(transaction.targetAddress, this.network);
+    } catch {
+      throw new Error(`Invalid Bitcoin destination address ${transaction.targetAddress}`);
+    }
+
+    const withdrawal = await this.prisma.$transaction(async tx => {
+      const created = await tx.withdrawal.create({
+        data: {
+          transactionId,
+          destination: transaction.targetAddress,
+          amount,
+        },
+      });
+
+      await bridgeStatusService.transition(transactionId, TransactionStatus.SUBMITTING, {
+        eventType: 'WITHDRAWAL_QUEUED',
+        message: 'BTC payout queued for the next batch',
+        details: { withdrawalId: created.id, destination: created.destination, amount },
+      }, tx);
+
+      return created;
+    });
+
+    logger.info('Withdrawal queued', { transactionId, withdrawalId: withdrawal.id, amount });
+    return withdrawal;
+  }
+
+  /**
+   * Batch queued withdrawals into an unsigned payout PSBT. Returns null when
+   * nothing is queued or custody cannot cover the batch yet.
+   */
+  async buildBatch(): Promise<PayoutBatch | null> {
+    const withdrawals = await this.prisma.withdrawal.findMany({
+      where: { status: 'QUEUED' },
+      orderBy: { createdAt: 'asc' },
+      take: this.maxBatchSize,
+    });
+
+    if (withdrawals.length === 0) {
+      return null;
+    }
+
+    const change = await this.getChangeDestination();
+    if (!change) {
+      logger.warn('Withdrawals queued but no custody address is configured', { queued: withdrawals.length });
+      return null;
+    }
+
+    // One output per destination, however many withdrawals it has queued
+    const payouts = new Map<string, number>();
+    for (const withdrawal of withdrawals) {
+      payouts.set(withdrawal.destination, (payouts.get(withdrawal.destination) || 0) + parseInt(withdrawal.amount));
+    }
+
+    const outputs = [...payouts.entries()].map(([address, value]) => ({
+      script: bitcoin.address.toOutputScript(address, this.network),
+      value,
+    }));
+    const totalAmount = outputs.reduce((sum, output) => sum + output.value, 0);
+
+    const feeRate = await this.getFeeRate();
+    const candidates = (await custodyLedger.getSpendable()).map(utxo => this.toSpendable(utxo));
+    const selection = selectCoins(candidates, {
+      target: totalAmount,
+      feeRate,
+      baseVbytes: this.baseVbytes(outputs.map(output => output.script)),
+      changeOutputVbytes: this.outputVbytes(change.script),
+      changeSpendVbytes: this.estimateInputVbytes(change.script, change.witnessScript),
+    });
+
+    if (!selection) {
+      logger.warn('Custody balance does not cover queued withdrawals', {
+        queued: withdrawals.length,
+        required: totalAmount,
+        available: candidates.reduce((sum, input) => sum + input.value, 0),
+      });
+      return null;
+    }
+
+    const batch = await this.createBatch({
+      kind: 'PAYOUT',
+      inputs: selection.inputs,
+      outputs,
+      change,
+      changeAmount: selection.change,
+      fee: selection.fee,
+      feeRate,
+      totalAmount,
+      withdrawals,
+    });
+
+    logger.info('Payout batch built', {
+      batchId: batch.id,
+      txid: batch.txid,
+      withdrawals: withdrawals.length,
+      inputs: selection.inputs.length,
+      selection: selection.algorithm,
+      feeRate,
+      fee: selection.fee,
+    });
+    return batch;
+  }
+
+  /**
+   * Consolidate small custody outputs into one while fees are low. Skipped
+   * while withdrawals are queued or another consolidation is open.
+   */
+  async consolidateIfCheap(): Promise<PayoutBatch | null> {
+    if (this.consolidationMinUtxos <= 0) {
+      return null;
+    }
+
+    const [queued, open, spendable] = await Promise.all([
+      this.prisma.withdrawal.count({ where: { status: 'QUEUED' } }),
+      this.prisma.payoutBatch.count({ where: { kind: 'CONSOLIDATION', status: { in: ['UNSIGNED', 'BROADCAST'] } } }),
+      custodyLedger.getSpendable(),
+    ]);
+
+    if (queued > 0 || open > 0 || spendable.length < this.consolidationMinUtxos) {
+      return null;
+    }
+
+    const feeRate = await this.getFeeRate();
+    if (feeRate > this.consolidationMaxFeeRate) {
+      return null;
+    }
+
+    return this.consolidate(feeRate);
+  }
+
+  /**
+   * Spend the smallest spendable custody outputs back to custody as one output
+   */
+  async consolidate(feeRate: number, maxInputs = this.consolidationMaxInputs): Promise<PayoutBatch> {
+    const change = await this.getChangeDestination();
+    if (!change) {
+      throw new PayoutError('No custody address is configured');
+    }
+
+    // Outputs that cost more to spend than they hold are left alone
+    const inputs = (await custodyLedger.getSpendable())
+      .map(utxo => this.toSpendable(utxo))
+      .filter(input => input.value > Math.ceil(input.inputVbytes * feeRate))
+      .sort((a, b) => a.value - b.value)
+      .slice(0, maxInputs);
+
+    if (inputs.length < 2) {
+      throw new PayoutError('Not enough spendable custody outputs to consolidate');
+    }
+
+    const selection = selectCoins([], {
+      target: 0,
+      feeRate,
+      baseVbytes: this.baseVbytes([]),
+      changeOutputVbytes: this.outputVbytes(change.script),
+      changeSpendVbytes: this.estimateInputVbytes(change.script, change.witnessScript),
+      required: inputs,
+    });
+
+    if (!selection || selection.change === 0) {
+      throw new PayoutError('Consolidation would leave nothing after fees');
+    }
+
+    const batch = await this.createBatch({
+      kind: 'CONSOLIDATION',
+      inputs,
+      outputs: [],
+      change,
+      changeAmount: selection.change,
+      fee: selection.fee,
+      feeRate,
+      totalAmount: 0,
+    });
+
+    logger.info('Consolidation batch built', { batchId: batch.id, txid: batch.txid, inputs: inputs.length, feeRate, fee: selection.fee });
+    return batch;
+  }
+
+  /**
+   * Replace a stuck broadcast batch with one paying a higher fee rate (BIP125).
+   * The replacement spends the same inputs, plus more if needed, and pays the
+   * same destinations; its change shrinks to cover the fee.
+   */
+  async bumpFee(batchId: string, feeRate: number): Promise<PayoutBatch> {
+    const batch = await this.getBumpableBatch(batchId);
+
+    const minFeeRate = batch.feeRate + INCREMENTAL_RELAY_FEE_RATE;
+    if (feeRate < minFeeRate) {
+      throw new PayoutError(`Fee rate must be at least ${minFeeRate} sat/vB to replace this batch`);
+    }
+
+    const original = bitcoin.Transaction.fromBuffer(bitcoin.Psbt.fromBase64(batch.psbt, { network: this.network }).data.getTransaction());
+    const required = (await custodyLedger.getSpentBy(batch.txid)).map(utxo => this.toSpendable(utxo));
+    if (required.length !== original.ins.length) {
+      throw new PayoutError('The custody ledger does not hold every input of this batch');
+    }
+
+    // Outputs back to custody are change; everything else is paid again unchanged
+    const changeOutputs = await custodyLedger.getOutputsOf(batch.txid);
+    const changeVouts = new Set(changeOutputs.map(utxo => utxo.vout));
+    const outputs = original.outs
+      .filter((_, vout) => !changeVouts.has(vout))
+      .map(output => ({ script: output.script, value: output.value }));
+    const totalAmount = outputs.reduce((sum, output) => sum + output.value, 0);
+
+    const change = changeOutputs.length > 0
+      ? this.toChangeDestination(changeOutputs[0])
+      : await this.getChangeDestination();
+    if (!change) {
+      throw new PayoutError('No custody address is configured');
+    }
+
+    const baseVbytes = this.baseVbytes(outputs.map(output => output.script));
+    const changeOutputVbytes = this.outputVbytes(change.script);
+    const selection = selectCoins((await custodyLedger.getSpendable()).map(utxo => this.toSpendable(utxo)), {
+      target: totalAmount,
+      feeRate,
+      baseVbytes,
+      changeOutputVbytes,
+      changeSpendVbytes: this.estimateInputVbytes(change.script, change.witnessScript),
+      required,
+    });
+
+    if (!selection) {
+      throw new PayoutError('Custody balance does not cover the higher fee');
+    }
+
+    const vbytes = baseVbytes
+      + selection.inputs.reduce((sum, input) => sum + input.inputVbytes, 0)
+      + (selection.change > 0 ? changeOutputVbytes : 0);
+    const minFee = parseInt(batch.fee) + Math.ceil(vbytes * INCREMENTAL_RELAY_FEE_RATE);
+    if (selection.fee < minFee) {
+      throw new PayoutError(`Replacement fee ${selection.fee} is below the ${minFee} sat BIP125 minimum; raise the fee rate`);
+    }
+
+    const replacement = await this.createBatch({
+      kind: batch.kind as BatchPlan['kind'],
+      inputs: selection.inputs,
+      outputs,
+      change,
+      changeAmount: selection.change,
+      fee: selection.fee,
+      feeRate,
+      totalAmount,
+      replacesId: batch.id,
+      parentId: batch.parentId || undefined,
+    });
+
+    logger.info('Replacement batch built', { batchId: replacement.id, replaces: batch.id, txid: replacement.txid, feeRate });
+    return replacement;
+  }
+
+  /**
+   * Bump a stuck broadcast batch by spending its change in a child paying for
+   * both, so the package reaches the given fee rate
+   */
+  async cpfp(batchId: string, feeRate: number): Promise<PayoutBatch> {
+    const batch = await this.getBumpableBatch(batchId);
+
+    const changeOutput = (await custodyLedger.getOutputsOf(batch.txid))
+      .find(utxo => utxo.status !== 'SPENT' && !utxo.batchId);
+    if (!changeOutput) {
+      throw new PayoutError('Batch has no unspent change output to bump it with');
+    }
+
+    const parentVbytes = bitcoin.Psbt.fromBase64(batch.psbt, { network: this.network }).extractTransaction().virtualSize();
+    const input = this.toSpendable(changeOutput);
+    const change = this.toChangeDestination(changeOutput);
+    const childVbytes = this.baseVbytes([change.script]) + input.inputVbytes;
+
+    const fee = Math.ceil((parentVbytes + childVbytes) * feeRate) - parseInt(batch.fee);
+    if (fee < Math.ceil(childVbytes * feeRate)) {
+      throw new PayoutError(`Fee rate must be above the batch's own ${batch.feeRate} sat/vB`);
+    }
+
+    if (input.value - fee < DUST_LIMIT) {
+      throw new PayoutError('Change output is too small to pay for the bump');
+    }
+
+    const child = await this.createBatch({
+      kind: 'CPFP',
+      inputs: [input],
+      outputs: [],
+      change,
+      changeAmount: input.value - fee,
+      fee,
+      feeRate,
+      totalAmount: 0,
+      parentId: batch.id,
+    });
+
+    logger.info('CPFP batch built', { batchId: child.id, parent: batch.id, txid: child.txid, feeRate, fee });
+    return child;
+  }
+
+  /**
+   * Merge signatures into a batch's PSBT. Once every input is signed the
+   * payout is finalized and broadcast.
+   */
+  async submitSignedPsbt(batchId: string, signedPsbt: string): Promise<SignedPsbtResult> {
+    const { batch, psbt } = await this.mergeSignedPsbt(batchId, signedPsbt);
+
+    try {
+      psbt.finalizeAllInputs();
+    } catch {
+      // Still missing signatures; what was added so far is saved
+      return { batch, complete: false };
+    }
+
+    const transaction = psbt.extractTransaction();
+    if (transaction.getId() !== batch.txid) {
+      throw new PayoutError('Finalized transaction does not match the batch txid');
+    }
+
+    try {
+      await bitcoinTestnetService.broadcastTransaction(transaction.toHex());
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await this.prisma.payoutBatch.update({
+        where: { id: batchId },
+        data: { psbt: psbt.toBase64(), lastError: errorMessage },
+      });
+      throw error;
+    }
+
+    const updated = await this.prisma.$transaction(async tx => {
+      // A concurrent submission that also completed the signatures may have recorded the broadcast already
+      const claimed = await tx.payoutBatch.updateMany({
+        where: { id: batchId, status: 'UNSIGNED' },
+        data: { psbt: psbt.toBase64(), status: 'BROADCAST', broadcastAt: new Date(), lastError: null },
+      });
+
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      await tx.withdrawal.updateMany({
+        where: { batchId },
+        data: { status: 'BROADCAST' },
+      });
+
+      return tx.payoutBatch.findUniqueOrThrow({ where: { id: batchId } });
+    });
+
+    if (!updated) {
+      throw new PayoutError('Payout batch is already broadcast', 409);
+    }
+
+    await custodyLedger.recordBroadcast(psbt, transaction);
+
+    for (const withdrawal of await this.prisma.withdrawal.findMany({ where: { batchId } })) {
+      await bridgeTransactionService.createEvent(withdrawal.transactionId, 'PAYOUT_BROADCAST', {
+        message: 'BTC payout broadcast',
+        batchId,
+        txid: batch.txid,
+      });
+    }
+
+    if (batch.replacesId) {
+      await this.completeReplacement(batch);
+    }
+
+    logger.info('Payout batch broadcast', { batchId, txid: batch.txid });
+    return { batch: updated, complete: true };
+  }
+
+  /**
+   * Combine a signed PSBT into the batch's stored one. The write only goes
+   * through if the stored PSBT is still the one combined with, so concurrent
+   * submissions are applied on top of each other instead of overwriting.
+   */
+  private async mergeSignedPsbt(batchId: string, signedPsbt: string): Promise<{ batch: PayoutBatch; psbt: bitcoin.Psbt }> {
+    for (let attempt = 1; attempt <= PSBT_MERGE_ATTEMPTS; attempt++) {
+      const batch = await this.prisma.payoutBatch.findUnique({ where: { id: batchId } });
+      if (!batch) {
+        throw new PayoutError('Payout batch not found');
+      }
+
+      if (batch.status !== 'UNSIGNED') {
+        throw new PayoutError(`Payout batch is already ${batch.status.toLowerCase()}`);
+      }
+
+      let psbt: bitcoin.Psbt;
+      try {
+        psbt = bitcoin.Psbt.fromBase64(batch.psbt, { network: this.network });
+        // Combining refuses PSBTs for a different unsigned transaction
+        psbt.combine(bitcoin.Psbt.fromBase64(signedPsbt, { network: this.network }));
+      } catch (error) {
+        throw new PayoutError(`Invalid PSBT for this batch: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
+      const saved = await this.prisma.payoutBatch.updateMany({
+        where: { id: batchId, status: 'UNSIGNED', psbt: batch.psbt },
+        data: { psbt: psbt.toBase64() },
+      });
+
+      if (saved.count > 0) {
+        return { batch: await this.prisma.payoutBatch.findUniqueOrThrow({ where: { id: batchId } }), psbt };
+      }
+
+      logger.debug('Payout batch PSBT changed while merging signatures, retrying', { batchId, attempt });
+    }
+
+    throw new PayoutError('Payout batch is busy with other signatures, try again', 409);
+  }
+
+  /**
+   * Apply a signer's partial signatures to the batch behind a signing request.
+   * Broadcasts, and completes the request, once the threshold is reached.
+   */
+  async submitSignerPsbt(signer: Signer, requestId: string, signedPsbt: string): Promise<SignedPsbtResult> {
+    const { request, psbt } = await signingCoordinator.recordSignature(signer, requestId, signedPsbt);
+    const result = await this.submitSignedPsbt(request.batchId, psbt);
+
+    if (result.complete) {
+      await signingCoordinator.completeRequest(requestId, result.batch.txid);
+    }
+
+    return result;
+  }
+
+  /**
+   * Give up on unsigned batches whose signing request expired or failed
+   */
+  async abandonUnsignedSigningRequests(): Promise<void> {
+    const expired = await signingCoordinator.expireRequests();
+    const failed = await this.prisma.signingRequest.findMany({
+      where: { status: 'FAILED' },
+      select: { batchId: true },
+    });
+
+    await this.abandonUnsignedBatches(
+      [...new Set([...expired, ...failed.map(request => request.batchId)])],
+      'Signing request expired or was rejected'
+    );
+  }
+
+  /**
+   * Mark unsigned batches failed and free their inputs. Their withdrawals go
+   * back in the queue for the next batch.
+   */
+  async abandonUnsignedBatches(batchIds: string[], reason: string): Promise<void> {
+    const batches = await this.prisma.payoutBatch.findMany({
+      where: { id: { in: batchIds }, status: 'UNSIGNED' },
+      include: { withdrawals: true },
+    });
+
+    for (const batch of batches) {
+      await this.prisma.$transaction([
+        this.prisma.payoutBatch.update({
+          where: { id: batch.id },
+          data: { status: 'FAILED', lastError: reason },
+        }),
+        this.prisma.withdrawal.updateMany({
+          where: { batchId: batch.id },
+          data: { status: 'QUEUED', batchId: null },
+        }),
+        this.prisma.bridgeTransaction.updateMany({
+          where: { id: { in: batch.withdrawals.map(withdrawal => withdrawal.transactionId) } },
+          data: { targetTxHash: null, fee: null },
+        }),
+      ]);
+
+      await custodyLedger.release(batch);
+
+      for (const withdrawal of batch.withdrawals) {
+        await bridgeTransactionService.createEvent(withdrawal.transactionId, 'PAYOUT_ABANDONED', {
+          message: `${reason}, withdrawal queued again`,
+          batchId: batch.id,
+          txid: batch.txid,
+        });
+      }
+
+      logger.warn('Payout batch abandoned', { batchId: batch.id, txid: batch.txid, reason });
+    }
+  }
+
+  /**
+   * Complete the bridge transactions of broadcast batches that have confirmed
+   */
+  async trackBroadcastBatches(): Promise<void> {
+    const batches = await this.prisma.payoutBatch.findMany({ where: { status: 'BROADCAST' } });
+
+    for (const batch of batches) {
+      try {
+        const confirmations = await bitcoinTestnetService.getConfirmationCount(batch.txid);
+
+        if (confirmations < this.requiredConfirmations) {
+          if (confirmations !== batch.confirmations) {
+            await this.prisma.payoutBatch.update({ where: { id: batch.id }, data: { confirmations } });
+          }
+          continue;
+        }
+
+        const withdrawals = await this.prisma.withdrawal.findMany({ where: { batchId: batch.id } });
+        const completedAt = new Date();
+
+        await this.prisma.$transaction(async tx => {
+          await tx.payoutBatch.update({
+            where: { id: batch.id },
+            data: { status: 'CONFIRMED', confirmations, confirmedAt: completedAt },
+          });
+          await tx.withdrawal.updateMany({
+            where: { batchId: batch.id },
+            data: { status: 'CONFIRMED' },
+          });
+
+          for (const withdrawal of withdrawals) {
+            await bridgeStatusService.transition(withdrawal.transactionId, TransactionStatus.COMPLETED, {
+              message: 'BTC payout confirmed',
+              details: { txid: batch.txid, confirmations },
+              data: { completedAt },
+            }, tx);
+          }
+        });
+
+        // Replacements still awaiting signatures can no longer be broadcast
+        const replacements = await this.prisma.payoutBatch.findMany({
+          where: { replacesId: batch.id, status: 'UNSIGNED' },
+          select: { id: true },
+        });
+        await this.abandonUnsignedBatches(replacements.map(replacement => replacement.id), 'Original batch confirmed first');
+
+        logger.info('Payout batch confirmed', { batchId: batch.id, txid: batch.txid, confirmations });
+      } catch (error) {
+        logger.warn('Failed to check payout batch', {
+          batchId: batch.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  }
+
+  async getBatches(status?: string, limit = 50, kind?: string): Promise<PayoutBatch[]> {
+    return this.prisma.payoutBatch.findMany({
+      where: { status, kind },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  async getBatch(id: string) {
+    return this.prisma.payoutBatch.findUnique({
+      where: { id },
+      include: { withdrawals: true, utxos: true },
+    });
+  }
+
+  /**
+   * Build the PSBT for a plan and store it as an unsigned batch holding its
+   * inputs. Multisig inputs go out for signatures.
+   */
+  private async createBatch(plan: BatchPlan): Promise<PayoutBatch> {
+    const psbt = new bitcoin.Psbt({ network: this.network });
+    psbt.setVersion(2);
+    for (const input of plan.inputs) {
+      psbt.addInput({
+        hash: input.txid,
+        index: input.vout,
+        sequence: RBF_SEQUENCE,
+        witnessUtxo: { script: input.script, value: input.value },
+        ...(input.witnessScript ? { witnessScript: input.witnessScript } : {}),
+      });
+    }
+    plan.outputs.forEach(output => psbt.addOutput(output));
+    if (plan.changeAmount > 0) {
+      // The witness script lets the ledger track multisig change once broadcast
+      psbt.addOutput({
+        script: plan.change.script,
+        value: plan.changeAmount,
+        ...(plan.change.witnessScript ? { witnessScript: plan.change.witnessScript } : {}),
+      });
+    }
+
+    const txid = bitcoin.Transaction.fromBuffer(psbt.data.getTransaction()).getId();
+    const withdrawals = plan.replacesId ? [] : plan.withdrawals || [];
+
+    const batch = await this.prisma.$transaction(async tx => {
+      const created = await tx.payoutBatch.create({
+        data: {
+          txid,
+          kind: plan.kind,
+          replacesId: plan.replacesId,
+          parentId: plan.parentId,
+          psbt: psbt.toBase64(),
+          inputs: JSON.stringify(plan.inputs.map(input => `${input.txid}:${input.vout}`)),
+          feeRate: plan.feeRate,
+          fee: plan.fee.toString(),
+          totalAmount: plan.totalAmount.toString(),
+          changeAmount: plan.changeAmount.toString(),
+        },
+      });
+
+      await custodyLedger.reserve(tx, plan.inputs.map(input => input.utxoId), created.id);
+
+      if (withdrawals.length > 0) {
+        await tx.withdrawal.updateMany({
+          where: { id: { in: withdrawals.map(withdrawal => withdrawal.id) } },
+          data: { status: 'BATCHED', batchId: created.id },
+        });
+
+        await tx.bridgeTransaction.updateMany({
+          where: { id: { in: withdrawals.map(withdrawal => withdrawal.transactionId) } },
+          data: { targetTxHash: txid, fee: plan.fee.toString() },
+        });
+      }
+
+      return created;
+    });
+
+    for (const withdrawal of withdrawals) {
+      await bridgeTransactionService.createEvent(withdrawal.transactionId, 'PAYOUT_BATCHED', {
+        message: 'BTC payout batched, awaiting signatures',
+        batchId: batch.id,
+        txid,
+        feeRate: plan.feeRate,
+      });
+    }
+
+    // Inputs from an earlier signer set may need a different number of signatures
+    const thresholds = plan.inputs
+      .filter(input => input.witnessScript)
+      .map(input => bitcoin.payments.p2ms({ output: input.witnessScript }).m!);
+    if (thresholds.length > 0) {
+      await signingCoordinator.requestSignatures(batch.id, batch.psbt, Math.max(...thresholds));
+    }
+
+    return batch;
+  }
+
+  /**
+   * Once a replacement is broadcast the batch it replaces is dead: its
+   * withdrawals move over and the bridge transactions get the new txid
+   */
+  private async completeReplacement(batch: PayoutBatch): Promise<void> {
+    const replaced = await this.prisma.payoutBatch.findUniqueOrThrow({ where: { id: batch.replacesId! } });
+    const withdrawals = await this.prisma.withdrawal.findMany({ where: { batchId: replaced.id } });
+
+    await this.prisma.$transaction([
+      this.prisma.payoutBatch.update({
+        where: { id: replaced.id },
+        data: { status: 'REPLACED' },
+      }),
+      this.prisma.withdrawal.updateMany({
+        where: { batchId: replaced.id },
+        data: { batchId: batch.id, status: 'BROADCAST' },
+      }),
+      this.prisma.bridgeTransaction.updateMany({
+        where: { id: { in: withdrawals.map(withdrawal => withdrawal.transactionId) } },
+        data: { targetTxHash: batch.txid, fee: batch.fee },
+      }),
+    ]);
+
+    await custodyLedger.forgetTransaction(replaced.txid);
+
+    for (const withdrawal of withdrawals) {
+      await bridgeTransactionService.createEvent(withdrawal.transactionId, 'PAYOUT_REPLACED', {
+        message: 'BTC payout fee-bumped by a replacement transaction',
+        batchId: batch.id,
+        txid: batch.txid,
+        replacedTxid: replaced.txid,
+        feeRate: batch.feeRate,
+      });
+    }
+
+    logger.info('Payout batch replaced', { batchId: batch.id, replaced: replaced.id, txid: batch.txid });
+  }
+
+  /**
+   * Replace broadcast batches left unconfirmed longer than
+   * BRIDGE_PAYOUT_BUMP_AFTER_MS if the fee estimate has risen past them
+   */
+  private async bumpStuckBatches(): Promise<void> {
+    if (this.bumpAfterMs <= 0) return;
+
+    const stuck = await this.prisma.payoutBatch.findMany({
+      where: { status: 'BROADCAST', broadcastAt: { lte: new Date(Date.now() - this.bumpAfterMs) } },
+    });
+    if (stuck.length === 0) return;
+
+    const feeRate = await this.getFeeRate();
+
+    for (const batch of stuck) {
+      if (feeRate < batch.feeRate + INCREMENTAL_RELAY_FEE_RATE) continue;
+
+      try {
+        await this.bumpFee(batch.id, feeRate);
+      } catch (error) {
+        logger.warn('Failed to bump stuck payout batch', {
+          batchId: batch.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  }
+
+  /**
+   * A broadcast, unconfirmed batch with no replacement already awaiting signatures
+   */
+  private async getBumpableBatch(batchId: string): Promise<PayoutBatch> {
+    const batch = await this.prisma.payoutBatch.findUnique({ where: { id: batchId } });
+    if (!batch) {
+      throw new PayoutError('Payout batch not found');
+    }
+
+    if (batch.status !== 'BROADCAST') {
+      throw new PayoutError(`Only broadcast batches can be fee-bumped, this one is ${batch.status.toLowerCase()}`);
+    }
+
+    if (await bitcoinTestnetService.getConfirmationCount(batch.txid) > 0) {
+      throw new PayoutError('Payout batch has already confirmed');
+    }
+
+    const pending = await this.prisma.payoutBatch.count({
+      where: { status: 'UNSIGNED', OR: [{ replacesId: batchId }, { parentId: batchId }] },
+    });
+    if (pending > 0) {
+      throw new PayoutError('A fee bump for this batch is already awaiting signatures');
+    }
+
+    return batch;
+  }
+
+  // Change returns to the multisig custody when there is one
+  private async getChangeDestination(): Promise<ChangeDestination | null> {
+    const multisig = await signingCoordinator.getMultisigCustody();
+    if (multisig) {
+      return { script: bitcoin.address.toOutputScript(multisig.address, this.network), witnessScript: multisig.witnessScript };
+    }
+
+    const address = depositAddressService.getCustodyAddresses()[0];
+    return address ? { script: bitcoin.address.toOutputScript(address, this.network) } : null;
+  }
+
+  private toChangeDestination(utxo: CustodyUtxo): ChangeDestination {
+    return {
+      script: Buffer.from(utxo.scriptPubKey, 'hex'),
+      witnessScript: utxo.witnessScript ? Buffer.from(utxo.witnessScript, 'hex') : undefined,
+    };
+  }
+
+  private toSpendable(utxo: CustodyUtxo): SpendableInput {
+    const { script, witnessScript } = this.toChangeDestination(utxo);
+    return {
+      utxoId: utxo.id,
+      txid: utxo.txid,
+      vout: utxo.vout,
+      value: parseInt(utxo.value),
+      script,
+      witnessScript,
+      inputVbytes: this.estimateInputVbytes(script, witnessScript),
+    };
+  }
+
+  /**
+   * Fee rate for the configured confirmation target, clamped to the configured bounds
+   */
+  private async getFeeRate(): Promise<number> {
+    const estimates = await bitcoinTestnetService.getFeeEstimates();
+
+    // Closest target at or under the configured one, so the payout is never slower than asked
+    const targets = Object.keys(estimates)
+      .map(Number)
+      .filter(target => target <= this.feeTarget)
+      .sort((a, b) => b - a);
+    const estimate = targets.length > 0 ? estimates[targets[0]] : this.minFeeRate;
+
+    return Math.min(Math.max(estimate, this.minFeeRate), this.maxFeeRate);
+  }
+
+  private baseVbytes(outputScripts: Buffer[]): number {
+    return TX_OVERHEAD_VBYTES + outputScripts.reduce((sum, script) => sum + this.outputVbytes(script), 0);
+  }
+
+  // Value, script length and script
+  private outputVbytes(script: Buffer): number {
+    return 9 + script.length;
+  }
+
+  private estimateInputVbytes(script: Buffer, witnessScript?: Buffer): number {
+    if (script.length === 22 && script[0] === 0x00) return 68; // P2WPKH
+    if (script.length === 34 && script[0] === 0x51) return 57.5; // P2TR key path
+    if (script.length === 34 && script[0] === 0x00 && witnessScript) {
+      // P2WSH multisig: outpoint, sequence and empty scriptSig, then a witness of
+      // the CHECKMULTISIG dummy, M signatures and the script, at a quarter weight
+      const threshold = bitcoin.payments.p2ms({ output: witnessScript }).m!;
+      return 41 + (1 + 1 + threshold * 73 + 1 + witnessScript.length) / 4;
+    }
+    throw new Error(`Unsupported custody script ${script.toString('hex')}`);
+  }
+}
+
+export const payoutService = new PayoutService();
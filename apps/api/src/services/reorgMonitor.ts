@@ -0,0 +1,172 @@
+import { BridgeTransaction } from '@prisma/client';
+import { getPrismaClient } from '../config/database';
+import { TransactionStatus } from '../types';
+import { logger } from '../utils/logger';
+import { bitcoinTestnetService } from './bitcoinTestnetService';
+import { bridgeJobService } from './bridgeJobService';
+import { bridgeTransactionService } from './bridgeTransactionService';
+import { bridgeStatusService } from './bridgeStatusService';
+
+// Statuses where wrapped BTC may already have been minted on Ethereum
+const MINTED_STATUSES: string[] = [TransactionStatus.SUBMITTING, TransactionStatus.COMPLETED];
+
+/**
+ * Watches for Bitcoin reorgs that orphan the block a deposit was proven in.
+ *
+ * Transactions that have not been minted yet are rolled back to
+ * AWAITING_CONFIRMATIONS so the confirmation watcher re-drives them once the
+ * deposit is buried again. Minted transactions cannot be undone by the
+ * bridge and are flagged for operator review instead.
+ */
+export class ReorgMonitor {
+  private prisma = getPrismaClient();
+  private readonly intervalMs = parseInt(process.env.REORG_MONITOR_INTERVAL_MS || '120000');
+  private readonly depth = parseInt(process.env.REORG_MONITOR_DEPTH || '100');
+  private running = false;
+  private timer?: NodeJS.Timeout;
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    logger.info('Reorg monitor started', { intervalMs: this.intervalMs, depth: this.depth });
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) return;
+    this.timer = setTimeout(async () => {
+      try {
+        await this.checkAll();
+      } catch (error) {
+        logger.error('Reorg monitor run failed', { error });
+      }
+      this.schedule(this.intervalMs);
+    }, delayMs);
+  }
+
+  /**
+   * Compare the stored block of every recent Bitcoin deposit against the best chain.
+   * Returns the number of transactions affected by a reorg.
+   */
+  async checkAll(): Promise<number> {
+    const tipHeight = await bitcoinTestnetService.getTipHeight();
+
+    // Blocks deeper than the monitored depth are treated as final
+    const transactions = await this.prisma.bridgeTransaction.findMany({
+      where: {
+        direction: 'BITCOIN_TO_ETHEREUM',
+        status: { notIn: [TransactionStatus.FAILED, TransactionStatus.CANCELLED] },
+        requiresReview: false,
+        blockHash: { not: null },
+        blockHeight: { gte: tipHeight - this.depth },
+      },
+      orderBy: { blockHeight: 'asc' },
+    });
+
+    let affected = 0;
+
+    for (const transaction of transactions) {
+      try {
+        if (await this.checkTransaction(transaction, tipHeight)) {
+          affected++;
+        }
+      } catch (error) {
+        logger.warn('Failed to check transaction for reorg', {
+          transactionId: transaction.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return affected;
+  }
+
+  private async checkTransaction(transaction: BridgeTransaction, tipHeight: number): Promise<boolean> {
+    const blockHeight = transaction.blockHeight!;
+    const storedHash = transaction.blockHash!;
+
+    // The chain can get shorter in a reorg, leaving nothing at the stored height
+    const canonicalHash = blockHeight > tipHeight
+      ? null
+      : await bitcoinTestnetService.getBlockHashAtHeight(blockHeight);
+
+    if (canonicalHash === storedHash) {
+      return false;
+    }
+
+    // Let an in-flight stage settle first; the next run will see its result
+    if (await bridgeJobService.hasRunningJob(transaction.id)) {
+      logger.info('Deferring reorg handling until running job finishes', { transactionId: transaction.id });
+      return false;
+    }
+
+    logger.warn('Bridge deposit block orphaned by reorg', {
+      transactionId: transaction.id,
+      blockHeight,
+      storedHash,
+      canonicalHash,
+    });
+
+    bitcoinTestnetService.invalidateTransaction(transaction.sourceTxHash, blockHeight);
+    await bridgeJobService.cancelQueued(transaction.id, 'Source block orphaned by reorg');
+
+    const details = {
+      previousStatus: transaction.status,
+      blockHeight,
+      orphanedBlockHash: storedHash,
+      canonicalBlockHash: canonicalHash,
+    };
+
+    if (MINTED_STATUSES.includes(transaction.status)) {
+      const reviewReason = `Source block ${storedHash} at height ${blockHeight} was orphaned after minting`;
+
+      await this.prisma.bridgeTransaction.update({
+        where: { id: transaction.id },
+        data: { requiresReview: true, reviewReason },
+      });
+
+      await bridgeTransactionService.createEvent(transaction.id, 'REORG_DETECTED', {
+        message: `${reviewReason}; flagged for operator review`,
+        action: 'FLAGGED_FOR_REVIEW',
+        ...details,
+      });
+
+      return true;
+    }
+
+    // Proofs built against the orphaned block are worthless now, as is the BTCRelay
+    // record made from them and any BridgeContract bridge opened on the strength of it
+    await bridgeStatusService.transition(transaction.id, TransactionStatus.AWAITING_CONFIRMATIONS, {
+      eventType: 'REORG_DETECTED',
+      message: `Source block ${storedHash} at height ${blockHeight} was orphaned; waiting for the deposit to confirm again`,
+      details: { action: 'ROLLED_BACK', ...details },
+      data: {
+        confirmations: 0,
+        blockHash: null,
+        blockHeight: null,
+        merkleProof: null,
+        merkleRoot: null,
+        zkProof: null,
+        zkProofHash: null,
+        proofTxHash: null,
+        proofGeneratedAt: null,
+        proofVerifiedAt: null,
+        relayTxHash: null,
+        relayRecordedAt: null,
+        contractBridgeId: null,
+        initiateTxHash: null,
+      },
+    });
+
+    return true;
+  }
+}
+
+export const reorgMonitor = new ReorgMonitor();
@@ -0,0 +1,442 @@
+import { createHash, randomBytes } from 'crypto';
+import * as bitcoin from 'bitcoinjs-lib';
+import * as ecc from 'tiny-secp256k1';
+import { Prisma, Signer, SigningRequest } from '@prisma/client';
+import { getPrismaClient } from '../config/database';
+import { logger } from '../utils/logger';
+
+// Responses that still count towards the threshold
+const OPEN_RESPONSE_STATUSES = ['PENDING', 'FETCHED'];
+
+// Everything about a signer except its key hash
+const SIGNER_FIELDS = {
+  id: true,
+  name: true,
+  publicKey: true,
+  status: true,
+  lastSeenAt: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+export interface MultisigCustody {
+  address: string;
+  witnessScript: Buffer;
+  threshold: number;
+  publicKeys: string[];
+}
+
+export interface PendingSigningRequest {
+  requestId: string;
+  batchId: string;
+  psbt: string;
+  threshold: number;
+  expiresAt: Date;
+}
+
+// Client errors: a signer request the coordinator refuses
+export class SigningError extends Error {
+  constructor(message: string, readonly statusCode = 400) {
+    super(message);
+    this.name = 'SigningError';
+  }
+}
+
+/**
+ * M-of-N signing coordinator for bridge custody.
+ *
+ * Custody is a P2WSH sorted multisig over the active signers' keys with
+ * BRIDGE_SIGNING_THRESHOLD required signatures. Each payout PSBT becomes a
+ * signing request that signers fetch and answer with partial signatures over
+ * the signer API; every signature is checked against the signer's registered
+ * key before it is accepted. Requests not signed in time expire. Everything
+ * a signer or the coordinator does is written to the audit trail.
+ *
+ * Changing the signer set changes the custody address, so funds must be moved
+ * before a signer is disabled.
+ */
+export class SigningCoordinator {
+  private prisma = getPrismaClient();
+  private readonly network = process.env.BITCOIN_NETWORK === 'mainnet' ? bitcoin.networks.bitcoin : bitcoin.networks.testnet;
+  private readonly threshold = parseInt(process.env.BRIDGE_SIGNING_THRESHOLD || '0');
+  private readonly timeoutMs = parseInt(process.env.BRIDGE_SIGNING_TIMEOUT_MS || '3600000');
+
+  /**
+   * Register a signer. The returned API key is only ever shown here.
+   */
+  async registerSigner(name: string, publicKey: string): Promise<{ signer: Signer; apiKey: string }> {
+    const key = Buffer.from(publicKey, 'hex');
+    if (key.length !== 33 || !ecc.isPoint(key)) {
+      throw new SigningError('Public key must be a compressed secp256k1 point in hex');
+    }
+
+    const apiKey = randomBytes(32).toString('hex');
+
+    try {
+      const signer = await this.prisma.signer.create({
+        data: { name, publicKey: key.toString('hex'), apiKeyHash: this.hashApiKey(apiKey) },
+      });
+
+      await this.audit('SIGNER_REGISTERED', { signerId: signer.id, detail: { name, publicKey: signer.publicKey } });
+      logger.info('Signer registered', { signerId: signer.id, name });
+      return { signer, apiKey };
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new SigningError('A signer with this name or public key is already registered', 409);
+      }
+      throw error;
+    }
+  }
+
+  async setSignerStatus(id: string, status: 'ACTIVE' | 'DISABLED') {
+    const signer = await this.prisma.signer.findUnique({ where: { id } });
+    if (!signer) {
+      throw new SigningError('Signer not found', 404);
+    }
+
+    const updated = await this.prisma.signer.update({ where: { id }, data: { status }, select: SIGNER_FIELDS });
+    await this.audit(status === 'ACTIVE' ? 'SIGNER_ENABLED' : 'SIGNER_DISABLED', { signerId: id });
+    return updated;
+  }
+
+  async listSigners() {
+    return this.prisma.signer.findMany({ select: SIGNER_FIELDS, orderBy: { createdAt: 'asc' } });
+  }
+
+  /**
+   * Resolve an active signer from its API key, recording that it was seen
+   */
+  async authenticate(apiKey: string): Promise<Signer | null> {
+    const signer = await this.prisma.signer.findUnique({ where: { apiKeyHash: this.hashApiKey(apiKey) } });
+    if (!signer || signer.status !== 'ACTIVE') {
+      return null;
+    }
+
+    return this.prisma.signer.update({ where: { id: signer.id }, data: { lastSeenAt: new Date() } });
+  }
+
+  /**
+   * Custody address for the current signer set, or null while there are
+   * fewer active signers than the threshold
+   */
+  async getMultisigCustody(): Promise<MultisigCustody | null> {
+    if (this.threshold < 1) {
+      return null;
+    }
+
+    const signers = await this.prisma.signer.findMany({ where: { status: 'ACTIVE' } });
+    if (signers.length < this.threshold) {
+      return null;
+    }
+
+    // Sorted keys (BIP67) so the address does not depend on registration order
+    const publicKeys = signers.map(signer => signer.publicKey).sort();
+    const redeem = bitcoin.payments.p2ms({
+      m: this.threshold,
+      pubkeys: publicKeys.map(key => Buffer.from(key, 'hex')),
+      network: this.network,
+    });
+    const payment = bitcoin.payments.p2wsh({ redeem, network: this.network });
+
+    return { address: payment.address!, witnessScript: redeem.output!, threshold: this.threshold, publicKeys };
+  }
+
+  /**
+   * Open a signing request for a payout batch, addressed to every active
+   * signer whose key appears in one of the PSBT's witness scripts
+   */
+  async requestSignatures(batchId: string, psbtBase64: string, threshold: number): Promise<SigningRequest> {
+    const psbt = bitcoin.Psbt.fromBase64(psbtBase64, { network: this.network });
+    const signers = await this.prisma.signer.findMany({ where: { status: 'ACTIVE' } });
+    const eligible = signers.filter(signer => this.signableInputs(psbt, signer.publicKey).length > 0);
+
+    if (eligible.length < threshold) {
+      throw new Error(`Only ${eligible.length} active signers can sign batch ${batchId}, ${threshold} required`);
+    }
+
+    const request = await this.prisma.signingRequest.create({
+      data: {
+        batchId,
+        psbt: psbtBase64,
+        threshold,
+        expiresAt: new Date(Date.now() + this.timeoutMs),
+        responses: {
+          create: eligible.map(signer => ({ signerId: signer.id })),
+        },
+      },
+    });
+
+    await this.audit('REQUESTED', {
+      requestId: request.id,
+      detail: { batchId, threshold, signers: eligible.map(signer => signer.name), expiresAt: request.expiresAt },
+    });
+
+    logger.info('Signing request opened', { requestId: request.id, batchId, threshold, signers: eligible.length });
+    return request;
+  }
+
+  /**
+   * Open requests still waiting on this signer. The first fetch is recorded.
+   */
+  async getPendingForSigner(signer: Signer): Promise<PendingSigningRequest[]> {
+    const responses = await this.prisma.signingResponse.findMany({
+      where: {
+        signerId: signer.id,
+        status: { in: OPEN_RESPONSE_STATUSES },
+        request: { status: 'PENDING', expiresAt: { gt: new Date() } },
+      },
+      include: { request: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    for (const response of responses.filter(response => response.status === 'PENDING')) {
+      await this.prisma.signingResponse.update({
+        where: { id: response.id },
+        data: { status: 'FETCHED', fetchedAt: new Date() },
+      });
+      await this.audit('FETCHED', { requestId: response.requestId, signerId: signer.id });
+    }
+
+    return responses.map(({ request }) => ({
+      requestId: request.id,
+      batchId: request.batchId,
+      psbt: request.psbt,
+      threshold: request.threshold,
+      expiresAt: request.expiresAt,
+    }));
+  }
+
+  /**
+   * Accept a signer's partially signed PSBT. The signer must have signed
+   * every input its key can sign, with valid signatures over this request's
+   * transaction. Returns the request, and the request's PSBT carrying only the
+   * signer's checked signatures for the caller to merge; anything else the
+   * signer put in its PSBT is dropped.
+   */
+  async recordSignature(signer: Signer, requestId: string, signedPsbt: string): Promise<{ request: SigningRequest; psbt: string }> {
+    const { request } = await this.getOpenResponse(signer, requestId);
+
+    let psbt: bitcoin.Psbt;
+    try {
+      psbt = bitcoin.Psbt.fromBase64(signedPsbt, { network: this.network });
+    } catch {
+      throw new SigningError('Invalid PSBT');
+    }
+
+    const original = bitcoin.Psbt.fromBase64(request.psbt, { network: this.network });
+    const error = this.checkSignatures(original, psbt, signer.publicKey);
+    if (error) {
+      await this.audit('INVALID_SIGNATURE', { requestId, signerId: signer.id, detail: { error } });
+      throw new SigningError(error);
+    }
+
+    await this.prisma.signingResponse.update({
+      where: { requestId_signerId: { requestId, signerId: signer.id } },
+      data: { status: 'SIGNED', respondedAt: new Date() },
+    });
+    await this.audit('SIGNED', { requestId, signerId: signer.id });
+
+    logger.info('Signature recorded', { requestId, signer: signer.name });
+    return { request, psbt: this.withSignaturesOf(original, psbt, signer.publicKey).toBase64() };
+  }
+
+  /**
+   * Record a signer declining a request. The request fails once the
+   * threshold can no longer be reached.
+   */
+  async rejectRequest(signer: Signer, requestId: string, reason: string): Promise<SigningRequest> {
+    const { request } = await this.getOpenResponse(signer, requestId);
+
+    await this.prisma.signingResponse.update({
+      where: { requestId_signerId: { requestId, signerId: signer.id } },
+      data: { status: 'REJECTED', reason, respondedAt: new Date() },
+    });
+    await this.audit('REJECTED', { requestId, signerId: signer.id, detail: { reason } });
+
+    const reachable = await this.prisma.signingResponse.count({
+      where: { requestId, status: { in: [...OPEN_RESPONSE_STATUSES, 'SIGNED'] } },
+    });
+
+    if (reachable < request.threshold) {
+      await this.prisma.signingRequest.update({ where: { id: requestId }, data: { status: 'FAILED' } });
+      await this.audit('FAILED', { requestId, detail: { reason: 'Too many signers rejected the request' } });
+      logger.warn('Signing request failed', { requestId, batchId: request.batchId });
+    }
+
+    return this.prisma.signingRequest.findUniqueOrThrow({ where: { id: requestId } });
+  }
+
+  /**
+   * Mark a request done once its transaction has been finalized and broadcast
+   */
+  async completeRequest(requestId: string, txid: string): Promise<void> {
+    await this.prisma.signingRequest.update({
+      where: { id: requestId },
+      data: { status: 'COMPLETED', completedAt: new Date() },
+    });
+    await this.audit('COMPLETED', { requestId, detail: { txid } });
+  }
+
+  /**
+   * Time out signers that did not answer and expire their requests.
+   * Returns the batch ids of the expired requests.
+   */
+  async expireRequests(): Promise<string[]> {
+    const expired = await this.prisma.signingRequest.findMany({
+      where: { status: 'PENDING', expiresAt: { lte: new Date() } },
+      include: { responses: true },
+    });
+
+    for (const request of expired) {
+      for (const response of request.responses.filter(response => OPEN_RESPONSE_STATUSES.includes(response.status))) {
+        await this.prisma.signingResponse.update({ where: { id: response.id }, data: { status: 'TIMED_OUT' } });
+        await this.audit('TIMED_OUT', { requestId: request.id, signerId: response.signerId });
+      }
+
+      await this.prisma.signingRequest.update({ where: { id: request.id }, data: { status: 'EXPIRED' } });
+      await this.audit('EXPIRED', { requestId: request.id, detail: { batchId: request.batchId } });
+      logger.warn('Signing request expired', { requestId: request.id, batchId: request.batchId });
+    }
+
+    return expired.map(request => request.batchId);
+  }
+
+  async getRequestForBatch(batchId: string): Promise<SigningRequest | null> {
+    return this.prisma.signingRequest.findUnique({ where: { batchId } });
+  }
+
+  async listRequests(status?: string, limit = 50) {
+    return this.prisma.signingRequest.findMany({
+      where: status ? { status } : {},
+      include: { responses: { include: { signer: { select: { id: true, name: true } } } } },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * A request with per-signer status and its audit trail
+   */
+  async getRequest(id: string) {
+    return this.prisma.signingRequest.findUnique({
+      where: { id },
+      include: {
+        responses: { include: { signer: { select: { id: true, name: true, publicKey: true } } } },
+        events: { orderBy: { createdAt: 'asc' } },
+      },
+    });
+  }
+
+  async getAuditTrail(filters: { requestId?: string; signerId?: string; limit?: number }) {
+    return this.prisma.signingAuditEvent.findMany({
+      where: { requestId: filters.requestId, signerId: filters.signerId },
+      orderBy: { createdAt: 'desc' },
+      take: filters.limit || 100,
+    });
+  }
+
+  private async getOpenResponse(signer: Signer, requestId: string) {
+    const response = await this.prisma.signingResponse.findUnique({
+      where: { requestId_signerId: { requestId, signerId: signer.id } },
+      include: { request: true },
+    });
+
+    if (!response) {
+      throw new SigningError('Signing request not found', 404);
+    }
+
+    if (response.request.status !== 'PENDING' || response.request.expiresAt <= new Date()) {
+      throw new SigningError(`Signing request is ${response.request.status === 'PENDING' ? 'expired' : response.request.status.toLowerCase()}`, 409);
+    }
+
+    if (!OPEN_RESPONSE_STATUSES.includes(response.status)) {
+      throw new SigningError(`Signer already ${response.status.toLowerCase()} this request`, 409);
+    }
+
+    return response;
+  }
+
+  /**
+   * Check a signer's PSBT against the distributed one. Returns an error message, or null when valid.
+   */
+  private checkSignatures(original: bitcoin.Psbt, signed: bitcoin.Psbt, publicKey: string): string | null {
+    const originalTx = original.data.getTransaction();
+    if (!originalTx.equals(signed.data.getTransaction())) {
+      return 'PSBT is for a different transaction';
+    }
+
+    const key = Buffer.from(publicKey, 'hex');
+    const inputs = this.signableInputs(original, publicKey);
+
+    if (inputs.length === 0) {
+      return 'Signer has no inputs to sign in this PSBT';
+    }
+
+    for (const index of inputs) {
+      const signature = signed.data.inputs[index].partialSig?.find(sig => sig.pubkey.equals(key));
+      if (!signature) {
+        return `Input ${index} is not signed by this signer`;
+      }
+
+      try {
+        const valid = signed.validateSignaturesOfInput(index, (pubkey, msghash, sig) => ecc.verify(msghash, pubkey, sig), key);
+        if (!valid) {
+          return `Invalid signature on input ${index}`;
+        }
+      } catch (error) {
+        return `Invalid signature on input ${index}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      }
+    }
+
+    return null;
+  }
+
+  // Copy of the original PSBT with the key's partial signatures taken from the signed one
+  private withSignaturesOf(original: bitcoin.Psbt, signed: bitcoin.Psbt, publicKey: string): bitcoin.Psbt {
+    const key = Buffer.from(publicKey, 'hex');
+    const merged = original.clone();
+
+    for (const index of this.signableInputs(original, publicKey)) {
+      const signature = signed.data.inputs[index].partialSig!.find(sig => sig.pubkey.equals(key))!;
+      merged.updateInput(index, { partialSig: [signature] });
+    }
+
+    return merged;
+  }
+
+  // Inputs whose witness script includes the key
+  private signableInputs(psbt: bitcoin.Psbt, publicKey: string): number[] {
+    const key = Buffer.from(publicKey, 'hex');
+    const indexes: number[] = [];
+
+    psbt.data.inputs.forEach((input, index) => {
+      if (!input.witnessScript) return;
+      const chunks = bitcoin.script.decompile(input.witnessScript) || [];
+      if (chunks.some(chunk => Buffer.isBuffer(chunk) && chunk.equals(key))) {
+        indexes.push(index);
+      }
+    });
+
+    return indexes;
+  }
+
+  private hashApiKey(apiKey: string): string {
+    return createHash('sha256').update(apiKey).digest('hex');
+  }
+
+  private async audit(
+    action: string,
+    data: { requestId?: string; signerId?: string; detail?: Record<string, unknown> }
+  ): Promise<void> {
+    await this.prisma.signingAuditEvent.create({
+      data: {
+        action,
+        requestId: data.requestId,
+        signerId: data.signerId,
+        detail: data.detail ? JSON.stringify(data.detail) : undefined,
+      },
+    });
+  }
+}
+
+export const signingCoordinator = new SigningCoordinator();
@@ -0,0 +1,527 @@
+import { ethers } from 'ethers';
+import { OutgoingTransaction, Prisma } from '@prisma/client';
+import { getPrismaClient } from '../config/database';
+import { getFeeCap } from '../config/gas';
+import { logger } from '../utils/logger';
+
+export interface SendRequest {
+  to: string;
+  data?: string;
+  value?: bigint;
+  // Estimated, with headroom, when not given
+  gasLimit?: bigint;
+  label?: string;
+}
+
+export type FeeQuote =
+  | { type: 2; maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+  | { type: 0; gasPrice: bigint };
+
+// Nodes only accept a replacement paying at least 10% more on every fee field
+const MIN_REPLACEMENT_BUMP_PERCENT = 10n;
+const GAS_LIMIT_HEADROOM_PERCENT = 20n;
+const NONCE_ATTEMPTS = 5;
+const RECEIPT_POLL_INTERVAL_MS = 4000;
+
+/**
+ * Sends transactions from one wallet with nonces it tracks itself.
+ *
+ * Each transaction is recorded before it is signed and the record's unique
+ * (chain, sender, nonce) reserves the nonce, so concurrent sends, in this
+ * process or another sharing the key, never pick the same one. Fees follow
+ * EIP-1559: the next block's base fee and a percentile of recent priority fees
+ * from eth_feeHistory, capped per network. A transaction unmined after
+ * ETHEREUM_TX_STUCK_AFTER_MS is re-sent at the same nonce with higher fees;
+ * every hash sent is kept, so callers holding an earlier one still find the
+ * receipt of whichever was mined.
+ */
+export class TransactionSender {
+  private prisma = getPrismaClient();
+  private chainId?: number;
+  readonly address: string;
+  private readonly stuckAfterMs = parseInt(process.env.ETHEREUM_TX_STUCK_AFTER_MS || '180000');
+  private readonly bumpPercent = BigInt(Math.max(parseInt(process.env.ETHEREUM_FEE_BUMP_PERCENT || '20'), Number(MIN_REPLACEMENT_BUMP_PERCENT)));
+  private readonly feeHistoryBlocks = parseInt(process.env.ETHEREUM_FEE_HISTORY_BLOCKS || '10');
+  private readonly priorityFeePercentile = parseInt(process.env.ETHEREUM_PRIORITY_FEE_PERCENTILE || '50');
+  private readonly receiptTimeoutMs = parseInt(process.env.ETHEREUM_TX_RECEIPT_TIMEOUT_MS || '1800000');
+
+  constructor(private readonly wallet: ethers.Wallet) {
+    this.address = wallet.address.toLowerCase();
+  }
+
+  /**
+   * Estimate, reserve a nonce, sign and broadcast. Calls that would revert
+   * throw from gas estimation, before a nonce is taken. A broadcast that fails
+   * in a way that leaves it unknown whether the transaction went out still
+   * returns the record; the transaction is re-sent once it counts as stuck.
+   */
+  async send(request: SendRequest): Promise<OutgoingTransaction> {
+    const data = request.data || '0x';
+    const value = request.value ?? 0n;
+    const gasLimit = request.gasLimit
+      ?? (await this.wallet.estimateGas({ to: request.to, data, value })) * (100n + GAS_LIMIT_HEADROOM_PERCENT) / 100n;
+    const fees = await this.estimateFees();
+
+    for (let attempt = 1; ; attempt++) {
+      const record = await this.reserveNonce({ ...request, data, value, gasLimit });
+
+      let signed: string;
+      try {
+        signed = await this.sign(record, fees);
+      } catch (error) {
+        // Nothing was sent, so the nonce can go to the next transaction
+        await this.prisma.outgoingTransaction.delete({ where: { id: record.id } });
+        throw error;
+      }
+
+      try {
+        await this.getProvider().broadcastTransaction(signed);
+      } catch (error) {
+        // Something else sending from this key used the nonce first
+        if (ethers.isError(error, 'NONCE_EXPIRED')) {
+          await this.prisma.outgoingTransaction.delete({ where: { id: record.id } });
+          if (attempt < NONCE_ATTEMPTS) {
+            continue;
+          }
+          throw error;
+        }
+
+        // It may have reached the network anyway. Releasing the nonce could
+        // leave a gap or reuse it, so the record stays pending.
+        logger.warn('Ethereum transaction broadcast failed, leaving it to be re-sent', {
+          label: record.label,
+          nonce: record.nonce,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+
+      return this.recordSent(record, ethers.keccak256(signed), fees);
+    }
+  }
+
+  /**
+   * Wait for a sent transaction, or a replacement of it, to be mined with
+   * `confirmations` confirmations, speeding it up if it gets stuck. Reverted
+   * transactions resolve too; check the receipt's status.
+   */
+  async waitForReceipt(id: string, confirmations = 1, timeoutMs = this.receiptTimeoutMs): Promise<ethers.TransactionReceipt> {
+    const deadline = Date.now() + timeoutMs;
+
+    for (;;) {
+      const record = await this.prisma.outgoingTransaction.findUniqueOrThrow({ where: { id } });
+      if (record.status === 'DROPPED') {
+        throw new Error(`Transaction ${record.hash} was dropped: nonce ${record.nonce} was used by another transaction`);
+      }
+
+      const receipt = await this.settle(record);
+      if (receipt && (await receipt.confirmations()) >= confirmations) {
+        return receipt;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out waiting for transaction ${record.hash}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, RECEIPT_POLL_INTERVAL_MS));
+    }
+  }
+
+  /**
+   * The sent transaction any of whose hashes is `hash`
+   */
+  async findByHash(hash: string): Promise<OutgoingTransaction | null> {
+    return this.prisma.outgoingTransaction.findFirst({
+      where: { from: this.address, hashes: { contains: hash.toLowerCase() } },
+    });
+  }
+
+  /**
+   * Receipt for a hash without waiting, following replacements of
+   * transactions this sender sent
+   */
+  async getReceipt(hash: string): Promise<ethers.TransactionReceipt | null> {
+    const record = await this.findByHash(hash);
+    return record ? this.settle(record) : this.getProvider().getTransactionReceipt(hash);
+  }
+
+  /**
+   * Settle every pending transaction from this wallet, speeding up stuck ones
+   */
+  async checkPending(): Promise<void> {
+    const pending = await this.prisma.outgoingTransaction.findMany({
+      where: { chainId: await this.getChainId(), from: this.address, status: 'PENDING' },
+      orderBy: { nonce: 'asc' },
+    });
+
+    for (const record of pending) {
+      try {
+        await this.settle(record);
+      } catch (error) {
+        logger.error('Failed to check pending Ethereum transaction', {
+          id: record.id,
+          nonce: record.nonce,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  }
+
+  /**
+   * Fees for a transaction in the next few blocks: twice the next base fee,
+   * so it stays valid through a run of full blocks, plus the priority fee
+   */
+  async estimateFees(): Promise<FeeQuote> {
+    const provider = this.getProvider();
+    await this.getChainId();
+    const feeData = await provider.getFeeData();
+
+    // Networks without EIP-1559
+    if (feeData.maxFeePerGas === null || feeData.maxPriorityFeePerGas === null) {
+      return this.capFees({ type: 0, gasPrice: feeData.gasPrice ?? 0n });
+    }
+
+    // getFeeData suggests twice the latest base fee plus a fixed priority fee
+    let baseFee = (feeData.maxFeePerGas - feeData.maxPriorityFeePerGas) / 2n;
+    let priorityFee = feeData.maxPriorityFeePerGas;
+
+    try {
+      const history = await provider.send('eth_feeHistory', [
+        ethers.toQuantity(this.feeHistoryBlocks),
+        'latest',
+        [this.priorityFeePercentile],
+      ]);
+
+      // The last base fee is the one for the next block
+      baseFee = BigInt(history.baseFeePerGas[history.baseFeePerGas.length - 1]);
+
+      const rewards = ((history.reward || []) as string[][])
+        .map(reward => BigInt(reward[0]))
+        .filter(reward => reward > 0n)
+        .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+      if (rewards.length > 0) {
+        priorityFee = rewards[Math.floor(rewards.length / 2)];
+      }
+    } catch (error) {
+      logger.debug('eth_feeHistory unavailable, using getFeeData', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    return this.capFees({ type: 2, maxFeePerGas: baseFee * 2n + priorityFee, maxPriorityFeePerGas: priorityFee });
+  }
+
+  /**
+   * Check a transaction's hashes for a receipt and record the outcome. One
+   * that is still unmined past the deadline is sped up.
+   */
+  private async settle(record: OutgoingTransaction): Promise<ethers.TransactionReceipt | null> {
+    const receipt = await this.findReceipt(record);
+    if (receipt) {
+      return receipt;
+    }
+
+    if (record.status !== 'PENDING') {
+      if (record.status === 'DROPPED') {
+        return null;
+      }
+
+      // Mined, then reorged out: it is back in the mempool or needs sending again
+      logger.warn('Mined Ethereum transaction no longer has a receipt', { txHash: record.hash, nonce: record.nonce });
+      record = await this.prisma.outgoingTransaction.update({
+        where: { id: record.id },
+        data: { status: 'PENDING', blockNumber: null },
+      });
+    }
+
+    // The nonce went to a transaction we did not send. Look once more in case
+    // ours was mined since the first check.
+    const minedCount = await this.getProvider().getTransactionCount(this.wallet.address, 'latest');
+    if (minedCount > record.nonce) {
+      const mined = await this.findReceipt(record);
+      if (mined) {
+        return mined;
+      }
+
+      await this.prisma.outgoingTransaction.update({ where: { id: record.id }, data: { status: 'DROPPED' } });
+      logger.error('Ethereum transaction dropped: its nonce was used by another transaction', {
+        label: record.label,
+        nonce: record.nonce,
+        hashes: record.hashes,
+      });
+      return null;
+    }
+
+    // A record without a hash is a send that never finished, unless it is still in progress
+    const sentAt = record.lastSentAt || record.createdAt;
+    if (Date.now() - sentAt.getTime() >= this.stuckAfterMs) {
+      await this.speedUp(record);
+    }
+
+    return null;
+  }
+
+  private async findReceipt(record: OutgoingTransaction): Promise<ethers.TransactionReceipt | null> {
+    const hashes: string[] = JSON.parse(record.hashes);
+
+    // Later hashes are likelier to be the one mined
+    for (const hash of [...hashes].reverse()) {
+      const receipt = await this.getProvider().getTransactionReceipt(hash);
+      if (!receipt) continue;
+
+      const status = receipt.status === 1 ? 'CONFIRMED' : 'REVERTED';
+      if (record.status !== status || record.hash !== receipt.hash || record.blockNumber !== receipt.blockNumber) {
+        await this.prisma.outgoingTransaction.update({
+          where: { id: record.id },
+          data: { status, hash: receipt.hash, blockNumber: receipt.blockNumber },
+        });
+
+        if (record.status === 'PENDING') {
+          logger.info('Ethereum transaction mined', {
+            label: record.label,
+            nonce: record.nonce,
+            txHash: receipt.hash,
+            status,
+            replaced: hashes.length > 1,
+          });
+        }
+      }
+      return receipt;
+    }
+
+    return null;
+  }
+
+  /**
+   * Re-send at the same nonce, paying the larger of the bumped fees and the
+   * current estimate. At the fee cap the same transaction is sent again
+   * instead, in case nodes have dropped it.
+   */
+  private async speedUp(record: OutgoingTransaction): Promise<void> {
+    const previous = this.getFees(record);
+    const current = await this.estimateFees();
+    const bump = (fee: bigint) => (fee * (100n + this.bumpPercent) + 99n) / 100n;
+    const max = (a: bigint, b: bigint) => (a > b ? a : b);
+
+    let next: FeeQuote;
+    if (previous.type === 2) {
+      const estimate = current.type === 2 ? current : { maxFeePerGas: current.gasPrice, maxPriorityFeePerGas: current.gasPrice };
+      next = this.capFees({
+        type: 2,
+        maxFeePerGas: max(bump(previous.maxFeePerGas), estimate.maxFeePerGas),
+        maxPriorityFeePerGas: max(bump(previous.maxPriorityFeePerGas), estimate.maxPriorityFeePerGas),
+      });
+    } else {
+      const estimate = current.type === 2 ? current.maxFeePerGas : current.gasPrice;
+      next = this.capFees({ type: 0, gasPrice: max(bump(previous.gasPrice), estimate) });
+    }
+
+    if (record.hash && !this.isReplacement(previous, next)) {
+      logger.warn('Stuck Ethereum transaction is at the fee cap, re-sending unchanged', {
+        label: record.label,
+        nonce: record.nonce,
+        txHash: record.hash,
+      });
+      next = previous;
+    }
+
+    try {
+      const tx = await this.getProvider().broadcastTransaction(await this.sign(record, next));
+      await this.recordSent(record, tx.hash, next);
+    } catch (error) {
+      // Usually already known, or mined since the last check; the next check settles it
+      await this.prisma.outgoingTransaction.update({ where: { id: record.id }, data: { lastSentAt: new Date() } });
+      logger.warn('Failed to re-send stuck Ethereum transaction', {
+        label: record.label,
+        nonce: record.nonce,
+        txHash: record.hash,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  private async reserveNonce(request: Required<Omit<SendRequest, 'label'>> & { label?: string }): Promise<OutgoingTransaction> {
+    const chainId = await this.getChainId();
+
+    for (let attempt = 1; ; attempt++) {
+      const [pendingCount, highest] = await Promise.all([
+        this.getProvider().getTransactionCount(this.wallet.address, 'pending'),
+        this.prisma.outgoingTransaction.findFirst({
+          where: { chainId, from: this.address, status: 'PENDING' },
+          orderBy: { nonce: 'desc' },
+        }),
+      ]);
+
+      // Our own pending transactions count even if the node has lost them,
+      // so a dropped one is re-sent rather than leaving a gap
+      const nonce = Math.max(pendingCount, highest ? highest.nonce + 1 : 0);
+
+      try {
+        return await this.prisma.outgoingTransaction.create({
+          data: {
+            chainId,
+            from: this.address,
+            nonce,
+            to: request.to,
+            data: request.data,
+            value: request.value.toString(),
+            gasLimit: request.gasLimit.toString(),
+            label: request.label,
+          },
+        });
+      } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002' && attempt < NONCE_ATTEMPTS) {
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  private async sign(record: OutgoingTransaction, fees: FeeQuote): Promise<string> {
+    return this.wallet.signTransaction({
+      chainId: record.chainId,
+      nonce: record.nonce,
+      to: record.to,
+      data: record.data,
+      value: BigInt(record.value),
+      gasLimit: BigInt(record.gasLimit),
+      ...fees,
+    });
+  }
+
+  private async recordSent(record: OutgoingTransaction, hash: string, fees: FeeQuote): Promise<OutgoingTransaction> {
+    const hashes: string[] = JSON.parse(record.hashes);
+    const sent = await this.prisma.outgoingTransaction.update({
+      where: { id: record.id },
+      data: {
+        hash,
+        hashes: JSON.stringify(hashes.includes(hash) ? hashes : [...hashes, hash]),
+        maxFeePerGas: fees.type === 2 ? fees.maxFeePerGas.toString() : null,
+        maxPriorityFeePerGas: fees.type === 2 ? fees.maxPriorityFeePerGas.toString() : null,
+        gasPrice: fees.type === 0 ? fees.gasPrice.toString() : null,
+        attempts: { increment: 1 },
+        lastSentAt: new Date(),
+      },
+    });
+
+    logger.info(sent.attempts > 1 ? 'Ethereum transaction re-sent' : 'Ethereum transaction sent', {
+      label: record.label,
+      nonce: record.nonce,
+      txHash: hash,
+      attempt: sent.attempts,
+      ...(fees.type === 2
+        ? { maxFeeGwei: ethers.formatUnits(fees.maxFeePerGas, 'gwei'), priorityFeeGwei: ethers.formatUnits(fees.maxPriorityFeePerGas, 'gwei') }
+        : { gasPriceGwei: ethers.formatUnits(fees.gasPrice, 'gwei') }),
+    });
+
+    return sent;
+  }
+
+  private getFees(record: OutgoingTransaction): FeeQuote {
+    if (record.gasPrice) {
+      return { type: 0, gasPrice: BigInt(record.gasPrice) };
+    }
+    return {
+      type: 2,
+      maxFeePerGas: BigInt(record.maxFeePerGas || '0'),
+      maxPriorityFeePerGas: BigInt(record.maxPriorityFeePerGas || '0'),
+    };
+  }
+
+  private isReplacement(previous: FeeQuote, next: FeeQuote): boolean {
+    const enough = (before: bigint, after: bigint) => after * 100n >= before * (100n + MIN_REPLACEMENT_BUMP_PERCENT);
+
+    if (previous.type === 2 && next.type === 2) {
+      return enough(previous.maxFeePerGas, next.maxFeePerGas) && enough(previous.maxPriorityFeePerGas, next.maxPriorityFeePerGas);
+    }
+    return previous.type === 0 && next.type === 0 && enough(previous.gasPrice, next.gasPrice);
+  }
+
+  private capFees(fees: FeeQuote): FeeQuote {
+    const cap = getFeeCap(this.chainId!);
+    const min = (a: bigint, b: bigint) => (a < b ? a : b);
+
+    if (fees.type === 0) {
+      return { type: 0, gasPrice: min(fees.gasPrice, cap.maxFeePerGas) };
+    }
+
+    const maxFeePerGas = min(fees.maxFeePerGas, cap.maxFeePerGas);
+    return {
+      type: 2,
+      maxFeePerGas,
+      maxPriorityFeePerGas: min(min(fees.maxPriorityFeePerGas, cap.maxPriorityFeePerGas), maxFeePerGas),
+    };
+  }
+
+  private async getChainId(): Promise<number> {
+    if (this.chainId === undefined) {
+      this.chainId = Number((await this.getProvider().getNetwork()).chainId);
+    }
+    return this.chainId;
+  }
+
+  private getProvider(): ethers.JsonRpcProvider {
+    if (!(this.wallet.provider instanceof ethers.JsonRpcProvider)) {
+      throw new Error('Transaction sender needs a wallet connected to a JSON-RPC provider');
+    }
+    return this.wallet.provider;
+  }
+}
+
+const senders = new Map<string, TransactionSender>();
+
+/**
+ * The sender for a wallet. Services sharing a key share one sender.
+ */
+export function getTransactionSender(wallet: ethers.Wallet): TransactionSender {
+  const address = wallet.address.toLowerCase();
+  let sender = senders.get(address);
+  if (!sender) {
+    sender = new TransactionSender(wallet);
+    senders.set(address, sender);
+  }
+  return sender;
+}
+
+/**
+ * Periodically settles and speeds up pending transactions from every wallet
+ * with a sender, including those sent before a restart
+ */
+export class TransactionMonitor {
+  private readonly intervalMs = parseInt(process.env.ETHEREUM_TX_MONITOR_INTERVAL_MS || '30000');
+  private running = false;
+  private timer?: NodeJS.Timeout;
+
+  start(): void {
+    if (this.running) return;
+
+    this.running = true;
+    logger.info('Ethereum transaction monitor started', { intervalMs: this.intervalMs });
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) return;
+    this.timer = setTimeout(async () => {
+      for (const sender of senders.values()) {
+        try {
+          await sender.checkPending();
+        } catch (error) {
+          logger.error('Ethereum transaction monitor failed', {
+            address: sender.address,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+      this.schedule(this.intervalMs);
+    }, delayMs);
+  }
+}
+
+export const transactionMonitor = new TransactionMonitor();
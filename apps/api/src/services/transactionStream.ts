@@ -0,0 +1,245 @@
+import { Prisma, TransactionEvent } from '@prisma/client';
+import { BridgeDirection, TransactionStatus, TransactionStreamMessage } from '@zkbridge/shared';
+import { getPrismaClient } from '../config/database';
+import { logger } from '../utils/logger';
+
+// Events committed out of order are still picked up if they are at most this much older than the newest seen
+const OVERLAP_MS = 5000;
+const BATCH_SIZE = 500;
+
+const SNAPSHOT_SELECT = {
+  id: true,
+  userId: true,
+  direction: true,
+  status: true,
+  confirmations: true,
+  targetTxHash: true,
+  targetAmount: true,
+  errorMessage: true,
+  completedAt: true,
+  updatedAt: true,
+} as const;
+
+type TransactionSnapshot = Prisma.BridgeTransactionGetPayload<{ select: typeof SNAPSHOT_SELECT }>;
+
+export interface TransactionStreamFilter {
+  // Only these transactions
+  transactionIds?: string[];
+  // Only transactions belonging to this user
+  userId?: string;
+}
+
+export interface StreamedEvent {
+  id: string;
+  message: TransactionStreamMessage;
+}
+
+type Listener = (event: StreamedEvent) => void;
+
+interface Subscriber {
+  filter: TransactionStreamFilter;
+  listener: Listener;
+}
+
+/**
+ * Fan-out of TransactionEvents to live subscribers.
+ *
+ * Events are written by the API, the relayer and the workers, often inside
+ * database transactions, so rather than hooking each writer this tails the
+ * transaction_events table with one query per interval and hands new events
+ * to every subscriber whose filter matches. Subscribers that reconnect catch
+ * up with `replay` from the last event they received.
+ */
+export class TransactionStream {
+  private prisma = getPrismaClient();
+  private readonly intervalMs = parseInt(process.env.TRANSACTION_STREAM_INTERVAL_MS || '2000');
+  private subscribers = new Set<Subscriber>();
+  private cursor = new Date();
+  // Ids already handed out, by createdAt, for the overlap window
+  private seen = new Map<string, number>();
+  private running = false;
+  private timer?: NodeJS.Timeout;
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.cursor = new Date();
+    logger.info('Transaction stream started', { intervalMs: this.intervalMs });
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) return;
+    this.timer = setTimeout(async () => {
+      try {
+        await this.poll();
+      } catch (error) {
+        logger.error('Transaction stream poll failed', { error });
+      }
+      this.schedule(this.intervalMs);
+    }, delayMs);
+  }
+
+  get subscriberCount(): number {
+    return this.subscribers.size;
+  }
+
+  /**
+   * Call `listener` for every new event matching `filter`. Returns the unsubscribe function.
+   */
+  subscribe(filter: TransactionStreamFilter, listener: Listener): () => void {
+    const subscriber = { filter, listener };
+    this.subscribers.add(subscriber);
+    return () => {
+      this.subscribers.delete(subscriber);
+    };
+  }
+
+  /**
+   * Events matching `filter` recorded after `lastEventId`, oldest first.
+   * Returns nothing if the event is unknown.
+   */
+  async replay(filter: TransactionStreamFilter, lastEventId: string, limit = BATCH_SIZE): Promise<StreamedEvent[]> {
+    const last = await this.prisma.transactionEvent.findUnique({ where: { id: lastEventId } });
+    if (!last) {
+      return [];
+    }
+
+    let transactionIds = filter.transactionIds;
+    if (filter.userId) {
+      const owned = await this.prisma.bridgeTransaction.findMany({
+        where: { userId: filter.userId, id: transactionIds ? { in: transactionIds } : undefined },
+        select: { id: true },
+      });
+      transactionIds = owned.map(transaction => transaction.id);
+    }
+
+    const events = await this.prisma.transactionEvent.findMany({
+      where: {
+        transactionId: transactionIds ? { in: transactionIds } : undefined,
+        OR: [
+          { createdAt: { gt: last.createdAt } },
+          { createdAt: last.createdAt, id: { gt: last.id } },
+        ],
+      },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      take: limit,
+    });
+
+    const snapshots = await this.loadSnapshots(events);
+    return events.map(event => this.toStreamedEvent(event, snapshots.get(event.transactionId)));
+  }
+
+  /**
+   * Read events recorded since the last poll and hand them to matching subscribers
+   */
+  async poll(): Promise<number> {
+    const events = await this.prisma.transactionEvent.findMany({
+      where: {
+        createdAt: { gte: new Date(this.cursor.getTime() - OVERLAP_MS) },
+        id: { notIn: [...this.seen.keys()] },
+      },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      take: BATCH_SIZE,
+    });
+
+    for (const event of events) {
+      this.seen.set(event.id, event.createdAt.getTime());
+      if (event.createdAt > this.cursor) {
+        this.cursor = event.createdAt;
+      }
+    }
+
+    const horizon = this.cursor.getTime() - OVERLAP_MS;
+    for (const [id, createdAt] of this.seen) {
+      if (createdAt < horizon) {
+        this.seen.delete(id);
+      }
+    }
+
+    if (events.length === 0 || this.subscribers.size === 0) {
+      return 0;
+    }
+
+    const snapshots = await this.loadSnapshots(events);
+
+    for (const event of events) {
+      const snapshot = snapshots.get(event.transactionId);
+      const streamed = this.toStreamedEvent(event, snapshot);
+
+      for (const subscriber of this.subscribers) {
+        if (!this.matches(subscriber.filter, event.transactionId, snapshot?.userId ?? null)) continue;
+
+        try {
+          subscriber.listener(streamed);
+        } catch (error) {
+          logger.warn('Transaction stream listener failed', {
+            eventId: event.id,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+    }
+
+    return events.length;
+  }
+
+  private async loadSnapshots(events: TransactionEvent[]): Promise<Map<string, TransactionSnapshot>> {
+    const ids = [...new Set(events.map(event => event.transactionId))];
+    const transactions = await this.prisma.bridgeTransaction.findMany({
+      where: { id: { in: ids } },
+      select: SNAPSHOT_SELECT,
+    });
+    return new Map(transactions.map(transaction => [transaction.id, transaction]));
+  }
+
+  private matches(filter: TransactionStreamFilter, transactionId: string, userId: string | null): boolean {
+    if (filter.transactionIds && !filter.transactionIds.includes(transactionId)) {
+      return false;
+    }
+    return !filter.userId || filter.userId === userId;
+  }
+
+  private toStreamedEvent(event: TransactionEvent, snapshot?: TransactionSnapshot): StreamedEvent {
+    let data: Record<string, unknown> | null = null;
+    try {
+      data = event.eventData ? JSON.parse(event.eventData) : null;
+    } catch {
+      data = { raw: event.eventData };
+    }
+
+    return {
+      id: event.id,
+      message: {
+        event: {
+          id: event.id,
+          transactionId: event.transactionId,
+          eventType: event.eventType,
+          data,
+          message: event.message,
+          createdAt: event.createdAt.toISOString(),
+        },
+        transaction: snapshot ? {
+          id: snapshot.id,
+          direction: snapshot.direction as BridgeDirection,
+          status: snapshot.status as TransactionStatus,
+          confirmations: snapshot.confirmations,
+          targetTxHash: snapshot.targetTxHash,
+          targetAmount: snapshot.targetAmount,
+          errorMessage: snapshot.errorMessage,
+          completedAt: snapshot.completedAt?.toISOString() ?? null,
+          updatedAt: snapshot.updatedAt.toISOString(),
+        } : null,
+      },
+    };
+  }
+}
+
+export const transactionStream = new TransactionStream();
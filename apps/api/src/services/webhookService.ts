@@ -0,0 +1,357 @@
+import { randomBytes } from 'crypto';
+import axios from 'axios';
+import { Prisma, PrismaClient, TransactionEvent, WebhookDelivery, WebhookSubscription } from '@prisma/client';
+import {
+  signWebhookPayload,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from '@zkbridge/shared';
+import { getPrismaClient } from '../config/database';
+import { logger } from '../utils/logger';
+
+// Matches every event type
+const ALL_EVENTS = '*';
+// Response bodies are kept in the delivery log up to this length
+const MAX_RESPONSE_LENGTH = 1000;
+
+export interface WebhookSubscriptionInput {
+  url: string;
+  events?: string[];
+  description?: string;
+}
+
+export interface WebhookSubscriptionUpdate {
+  url?: string;
+  events?: string[];
+  description?: string;
+  active?: boolean;
+}
+
+// A subscription as returned by the API; the secret is only shown when it is created
+export type PublicWebhookSubscription = Omit<WebhookSubscription, 'secret' | 'events'> & { events: string[] };
+
+export interface WebhookPayload {
+  id: string;
+  type: string;
+  createdAt: string;
+  data: {
+    transactionId: string;
+    message: string | null;
+    details: Record<string, unknown> | null;
+    transaction: {
+      id: string;
+      direction: string;
+      status: string;
+      sourceTxHash: string;
+      targetTxHash: string | null;
+    } | null;
+  };
+}
+
+/**
+ * Webhook subscriptions and delivery of TransactionEvents to them.
+ *
+ * Deliveries are written when an event is recorded, in the same database
+ * transaction where there is one, and sent by a polling loop. Each attempt is
+ * signed with the subscription secret (see utils/webhook in @zkbridge/shared).
+ * Failed attempts are retried with exponential backoff until the attempt
+ * limit, after which the delivery is marked FAILED and can be redelivered by hand.
+ */
+export class WebhookService {
+  private prisma = getPrismaClient();
+  private readonly intervalMs = parseInt(process.env.WEBHOOK_DISPATCH_INTERVAL_MS || '10000');
+  private readonly timeoutMs = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000');
+  private readonly maxAttempts = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8');
+  private readonly retryBaseMs = parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '30000');
+  private readonly retryMaxMs = parseInt(process.env.WEBHOOK_RETRY_MAX_MS || '21600000');
+  private readonly batchSize = 50;
+  private running = false;
+  private timer?: NodeJS.Timeout;
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    logger.info('Webhook dispatcher started', { intervalMs: this.intervalMs });
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) return;
+    this.timer = setTimeout(async () => {
+      try {
+        await this.dispatchDue();
+      } catch (error) {
+        logger.error('Webhook dispatch failed', { error });
+      }
+      this.schedule(this.intervalMs);
+    }, delayMs);
+  }
+
+  async createSubscription(input: WebhookSubscriptionInput): Promise<PublicWebhookSubscription & { secret: string }> {
+    const subscription = await this.prisma.webhookSubscription.create({
+      data: {
+        url: input.url,
+        events: JSON.stringify(input.events?.length ? input.events : [ALL_EVENTS]),
+        description: input.description,
+        secret: `whsec_${randomBytes(24).toString('hex')}`,
+      },
+    });
+
+    logger.info('Webhook subscription created', { subscriptionId: subscription.id, url: subscription.url });
+    return { ...this.toPublic(subscription), secret: subscription.secret };
+  }
+
+  async listSubscriptions(): Promise<PublicWebhookSubscription[]> {
+    const subscriptions = await this.prisma.webhookSubscription.findMany({ orderBy: { createdAt: 'desc' } });
+    return subscriptions.map(subscription => this.toPublic(subscription));
+  }
+
+  async getSubscription(id: string): Promise<PublicWebhookSubscription | null> {
+    const subscription = await this.prisma.webhookSubscription.findUnique({ where: { id } });
+    return subscription ? this.toPublic(subscription) : null;
+  }
+
+  async updateSubscription(id: string, update: WebhookSubscriptionUpdate): Promise<PublicWebhookSubscription | null> {
+    const { count } = await this.prisma.webhookSubscription.updateMany({
+      where: { id },
+      data: {
+        url: update.url,
+        events: update.events ? JSON.stringify(update.events.length ? update.events : [ALL_EVENTS]) : undefined,
+        description: update.description,
+        active: update.active,
+      },
+    });
+
+    return count > 0 ? this.getSubscription(id) : null;
+  }
+
+  async deleteSubscription(id: string): Promise<boolean> {
+    const { count } = await this.prisma.webhookSubscription.deleteMany({ where: { id } });
+    return count > 0;
+  }
+
+  async listDeliveries(subscriptionId: string, filters: { status?: string; limit?: number; offset?: number }) {
+    const where = { subscriptionId, status: filters.status };
+
+    const [deliveries, total] = await Promise.all([
+      this.prisma.webhookDelivery.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: filters.limit || 50,
+        skip: filters.offset || 0,
+      }),
+      this.prisma.webhookDelivery.count({ where }),
+    ]);
+
+    return { deliveries, total };
+  }
+
+  async getDelivery(subscriptionId: string, deliveryId: string): Promise<WebhookDelivery | null> {
+    return this.prisma.webhookDelivery.findFirst({ where: { id: deliveryId, subscriptionId } });
+  }
+
+  /**
+   * Queue a delivery of `event` to every active subscription that wants it.
+   * Pass the client of an open database transaction to queue atomically with the event.
+   */
+  async enqueue(event: TransactionEvent, client: Prisma.TransactionClient | PrismaClient = this.prisma): Promise<number> {
+    const subscriptions = await client.webhookSubscription.findMany({ where: { active: true } });
+    const matching = subscriptions.filter(subscription => this.matches(subscription, event.eventType));
+
+    if (matching.length === 0) {
+      return 0;
+    }
+
+    const transaction = await client.bridgeTransaction.findUnique({
+      where: { id: event.transactionId },
+      select: { id: true, direction: true, status: true, sourceTxHash: true, targetTxHash: true },
+    });
+
+    const payload: WebhookPayload = {
+      id: event.id,
+      type: event.eventType,
+      createdAt: event.createdAt.toISOString(),
+      data: {
+        transactionId: event.transactionId,
+        message: event.message,
+        details: event.eventData ? JSON.parse(event.eventData) : null,
+        transaction,
+      },
+    };
+
+    const { count } = await client.webhookDelivery.createMany({
+      data: matching.map(subscription => ({
+        subscriptionId: subscription.id,
+        eventId: event.id,
+        eventType: event.eventType,
+        payload: JSON.stringify(payload),
+      })),
+    });
+
+    return count;
+  }
+
+  /**
+   * Send a failed or delivered event again, as a new delivery, and return its outcome
+   */
+  async redeliver(subscriptionId: string, deliveryId: string): Promise<WebhookDelivery | null> {
+    const original = await this.getDelivery(subscriptionId, deliveryId);
+    if (!original) {
+      return null;
+    }
+
+    const delivery = await this.prisma.webhookDelivery.create({
+      data: {
+        subscriptionId: original.subscriptionId,
+        eventId: original.eventId,
+        eventType: original.eventType,
+        payload: original.payload,
+        redeliveryOf: original.id,
+        // Sent below rather than by the dispatcher
+        nextAttemptAt: new Date(Date.now() + this.timeoutMs * 2),
+      },
+    });
+
+    logger.info('Webhook redelivery requested', { subscriptionId, deliveryId, redeliveryId: delivery.id });
+    return this.attempt(delivery);
+  }
+
+  /**
+   * Send every delivery that is due. Returns the number attempted.
+   */
+  async dispatchDue(): Promise<number> {
+    const due = await this.prisma.webhookDelivery.findMany({
+      where: { status: 'PENDING', nextAttemptAt: { lte: new Date() } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: this.batchSize,
+    });
+
+    let attempted = 0;
+
+    for (const delivery of due) {
+      // Push the next attempt past this one, so another process polling the table skips it
+      const { count } = await this.prisma.webhookDelivery.updateMany({
+        where: { id: delivery.id, status: 'PENDING', nextAttemptAt: delivery.nextAttemptAt },
+        data: { nextAttemptAt: new Date(Date.now() + this.timeoutMs * 2) },
+      });
+
+      if (count === 0) continue;
+
+      await this.attempt(delivery);
+      attempted++;
+    }
+
+    return attempted;
+  }
+
+  private async attempt(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const subscription = await this.prisma.webhookSubscription.findUnique({ where: { id: delivery.subscriptionId } });
+    const attempts = delivery.attempts + 1;
+
+    if (!subscription?.active) {
+      return this.prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: { status: 'FAILED', lastError: 'Subscription is disabled' },
+      });
+    }
+
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    try {
+      const response = await axios.post(subscription.url, delivery.payload, {
+        timeout: this.timeoutMs,
+        maxRedirects: 0,
+        // Any status is recorded; only 2xx counts as delivered
+        validateStatus: () => true,
+        transformResponse: data => data,
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'ZKBridge-Webhooks/1.0',
+          [WEBHOOK_EVENT_HEADER]: delivery.eventType,
+          [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+          [WEBHOOK_TIMESTAMP_HEADER]: timestamp.toString(),
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(subscription.secret, timestamp, delivery.payload),
+        },
+      });
+
+      const lastResponse = this.truncate(response.data);
+
+      if (response.status >= 200 && response.status < 300) {
+        logger.info('Webhook delivered', { deliveryId: delivery.id, eventType: delivery.eventType, status: response.status });
+        return this.prisma.webhookDelivery.update({
+          where: { id: delivery.id },
+          data: { status: 'DELIVERED', attempts, lastStatusCode: response.status, lastError: null, lastResponse, deliveredAt: new Date() },
+        });
+      }
+
+      return this.scheduleRetry(delivery, attempts, `Endpoint responded with ${response.status}`, response.status, lastResponse);
+    } catch (error) {
+      return this.scheduleRetry(delivery, attempts, error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  private async scheduleRetry(
+    delivery: WebhookDelivery,
+    attempts: number,
+    lastError: string,
+    lastStatusCode?: number,
+    lastResponse?: string
+  ): Promise<WebhookDelivery> {
+    const exhausted = attempts >= this.maxAttempts;
+    const delayMs = Math.min(this.retryBaseMs * Math.pow(2, attempts - 1), this.retryMaxMs);
+
+    logger.warn('Webhook delivery failed', {
+      deliveryId: delivery.id,
+      subscriptionId: delivery.subscriptionId,
+      attempts,
+      error: lastError,
+      retryInMs: exhausted ? undefined : delayMs,
+    });
+
+    return this.prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: exhausted ? 'FAILED' : 'PENDING',
+        attempts,
+        lastError,
+        lastStatusCode: lastStatusCode ?? null,
+        lastResponse: lastResponse ?? null,
+        nextAttemptAt: new Date(Date.now() + delayMs),
+      },
+    });
+  }
+
+  private matches(subscription: WebhookSubscription, eventType: string): boolean {
+    const events: string[] = JSON.parse(subscription.events);
+    return events.includes(ALL_EVENTS) || events.includes(eventType);
+  }
+
+  private truncate(data: unknown): string | undefined {
+    if (data === undefined || data === null || data === '') return undefined;
+    const text = typeof data === 'string' ? data : JSON.stringify(data);
+    return text.length > MAX_RESPONSE_LENGTH ? text.slice(0, MAX_RESPONSE_LENGTH) : text;
+  }
+
+  private toPublic(subscription: WebhookSubscription): PublicWebhookSubscription {
+    return {
+      id: subscription.id,
+      url: subscription.url,
+      events: JSON.parse(subscription.events),
+      description: subscription.description,
+      active: subscription.active,
+      createdAt: subscription.createdAt,
+      updatedAt: subscription.updatedAt,
+    };
+  }
+}
+
+export const webhookService = new WebhookService();
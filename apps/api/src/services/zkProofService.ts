@@ -1,7 +1,9 @@
 // import { ZKProofGenerator, ZKProofInputs, ZKProofResult } from '@zkbridge/zk';
 // @ts-expect-error - snarkjs types not available
 import { groth16 } from 'snarkjs'; 
+import * as fs from 'fs';
 import { logger } from '../utils/logger';
+import { BitcoinTransaction, MerkleProof } from './bitcoinTestnetService';
 // Mark groth16 as used for future real implementation
 void groth16;
 
@@ -26,6 +28,32 @@ export interface BitcoinTransactionProof {
   size: number;
 }
 
+/**
+ * Proof input for a Bitcoin transaction and its Merkle proof; amounts in satoshis
+ */
+export function toTransactionProof(bitcoinTx: BitcoinTransaction, merkleProof: MerkleProof): BitcoinTransactionProof {
+  return {
+    txHash: bitcoinTx.txid,
+    merkleRoot: merkleProof.merkleRoot,
+    merkleProof: merkleProof.proofPath,
+    proofIndex: merkleProof.proofIndex,
+    blockHeight: merkleProof.blockHeight,
+    blockHash: merkleProof.blockHash,
+    inputs: bitcoinTx.vin.map(input => ({
+      address: input.prevout?.scriptpubkey_address || '',
+      amount: (input.prevout?.value || 0).toString(),
+      txHash: input.txid,
+      outputIndex: input.vout
+    })),
+    outputs: bitcoinTx.vout.map(output => ({
+      address: output.scriptpubkey_address || '',
+      amount: output.value.toString()
+    })),
+    fee: bitcoinTx.fee.toString(),
+    size: bitcoinTx.size
+  };
+}
+
 export interface ZKCircuitInputs {
   // Bitcoin transaction data
   btcTxHash: string;
@@ -64,6 +92,9 @@ export interface ZKProofResult {
 
 export class ZKProofService {
   private isCircuitAvailable: boolean;
+  private readonly circuitPath = './circuits/bridge.wasm';
+  private readonly provingKeyPath = './circuits/bridge_0001.zkey';
+  private readonly verificationKeyPath = './circuits/verification_key.json';
 
   constructor() {
     this.isCircuitAvailable = this.checkCircuitFiles();
@@ -123,7 +154,7 @@ export class ZKProofService {
       return mockProof;
     } catch (error) {
       logger.error('Error generating Bitcoin transaction ZK proof:', error);
-      throw new Error(`Failed to generate Bitcoin transaction ZK proof: ${error.message}`);
+      throw new Error(`Failed to generate Bitcoin transaction ZK proof: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
@@ -168,7 +199,7 @@ export class ZKProofService {
       return mockProof;
     } catch (error) {
       logger.error('Error generating Merkle proof ZK proof:', error);
-      throw new Error(`Failed to generate Merkle proof ZK proof: ${error.message}`);
+      throw new Error(`Failed to generate Merkle proof ZK proof: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
@@ -191,7 +222,7 @@ export class ZKProofService {
       return isValid;
     } catch (error) {
       logger.error('Error verifying ZK proof:', error);
-      throw new Error(`Failed to verify ZK proof: ${error.message}`);
+      throw new Error(`Failed to verify ZK proof: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
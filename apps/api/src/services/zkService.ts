@@ -7,6 +7,25 @@ import { ZKProof } from '../types';
 import { logger } from '../utils/logger';
 import { generateNonce } from '../types';
 
+export interface BridgeProofDeposit {
+  txid: string;
+  amount: number | string;
+  fromAddress: string;
+  confirmations: number;
+}
+
+export interface BridgeProofMint {
+  address: string;
+  amount: string;
+}
+
+export interface BridgeProofExpectation {
+  bitcoinTxHash: string;
+  bitcoinAmount: number | string;
+  ethereumAddress: string;
+  ethereumAmount: string;
+}
+
 export class ZKService {
   private circuitPath: string;
   private provingKeyPath: string;
@@ -71,7 +90,7 @@ export class ZKService {
       };
     } catch (error) {
       logger.error('Error generating ZK proof:', error);
-      throw new Error(`Failed to generate ZK proof: ${error.message}`);
+      throw new Error(`Failed to generate ZK proof: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
@@ -100,6 +119,29 @@ export class ZKService {
     }
   }
 
+  /**
+   * Prove that a Bitcoin deposit backs an Ethereum mint. The public input
+   * commits to both sides, so the proof only verifies against the same data.
+   */
+  async generateBridgeProof(bitcoinTxData: BridgeProofDeposit, ethereumData: BridgeProofMint): Promise<ZKProof> {
+    const publicInput = this.bridgeCommitment(bitcoinTxData.txid, bitcoinTxData.amount, ethereumData.address, ethereumData.amount);
+    return this.generateProof(bitcoinTxData.txid, publicInput);
+  }
+
+  /**
+   * Verify a bridge proof against the deposit and mint it should commit to
+   */
+  async verifyBridgeProof(proof: any, expectedData: BridgeProofExpectation): Promise<boolean> {
+    const publicInput = this.bridgeCommitment(
+      expectedData.bitcoinTxHash,
+      expectedData.bitcoinAmount,
+      expectedData.ethereumAddress,
+      expectedData.ethereumAmount
+    );
+
+    return this.verifyProof(proof, [publicInput]);
+  }
+
   async generateWitness(inputs: any): Promise<any> {
     try {
       // This is a simplified implementation for demo purposes
@@ -119,7 +161,7 @@ export class ZKService {
       return witness;
     } catch (error) {
       logger.error('Error generating witness:', error);
-      throw new Error(`Failed to generate witness: ${error.message}`);
+      throw new Error(`Failed to generate witness: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
@@ -143,7 +185,7 @@ export class ZKService {
       };
     } catch (error) {
       logger.error('Error getting circuit info:', error);
-      throw new Error(`Failed to get circuit info: ${error.message}`);
+      throw new Error(`Failed to get circuit info: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
@@ -164,10 +206,14 @@ export class ZKService {
       };
     } catch (error) {
       logger.error('Error in demo proof of knowledge:', error);
-      throw new Error(`Failed to demonstrate proof of knowledge: ${error.message}`);
+      throw new Error(`Failed to demonstrate proof of knowledge: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  private bridgeCommitment(txid: string, bitcoinAmount: number | string, ethereumAddress: string, ethereumAmount: string): string {
+    return this.simpleHash(`${txid}:${bitcoinAmount}:${ethereumAddress.toLowerCase()}:${ethereumAmount}`);
+  }
+
   private simpleHash(input: string): string {
     // Simple hash function for demo purposes
     // In production, use proper cryptographic hash functions
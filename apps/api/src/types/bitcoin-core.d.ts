@@ -0,0 +1,17 @@
+// bitcoin-core ships no type declarations; only the parts the API uses are declared
+declare module 'bitcoin-core' {
+  interface ClientOptions {
+    network?: string;
+    host?: string;
+    port?: number;
+    username?: string;
+    password?: string;
+    timeout?: number;
+  }
+
+  export default class Client {
+    constructor(options: ClientOptions);
+    // Results are unchecked JSON; callers pick the result type for the RPC they make
+    command<T = unknown>(method: string, ...params: unknown[]): Promise<T>;
+  }
+}
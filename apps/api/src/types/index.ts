@@ -1,22 +1,22 @@
+import { BridgeDirection, TransactionStatus } from '@zkbridge/shared';
+
 export interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
   error?: string;
   message?: string;
+  meta?: {
+    total: number;
+    limit: number;
+    offset: number;
+  };
 }
 
-export enum BridgeDirection {
-  BITCOIN_TO_ETHEREUM = 'bitcoin_to_ethereum',
-  ETHEREUM_TO_BITCOIN = 'ethereum_to_bitcoin'
-}
+// Statuses and directions are shared with the web app, together with the transitions between them
+export { BridgeDirection, TransactionStatus };
 
-export enum TransactionStatus {
-  PENDING = 'pending',
-  PROCESSING = 'processing',
-  COMPLETED = 'completed',
-  FAILED = 'failed',
-  CANCELLED = 'cancelled'
-}
+// Response shapes the SDK reads
+export type { EthereumTransaction, ZKProof } from '@zkbridge/shared';
 
 export interface BridgeTransaction {
   id: string;
@@ -63,25 +63,6 @@ export interface MerkleProof {
   index: number;
 }
 
-export interface EthereumTransaction {
-  txHash: string;
-  blockNumber: number;
-  blockHash: string;
-  from: string;
-  to: string;
-  value: string;
-  gasUsed: number;
-  gasPrice: string;
-  timestamp: number;
-}
-
-export interface ZKProof {
-  circuitId: string;
-  proof: string;
-  publicInputs: string[];
-  verificationKey: string;
-}
-
 // Utility functions
 export function generateNonce(): string {
   return Math.random().toString(36).substring(2) + Date.now().toString(36);
@@ -0,0 +1,543 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import { BridgeDirection, TransactionStatus } from '@zkbridge/shared';
+import { ApiDocOptions, DocumentedHandler, SchemaObject } from '../middleware/apiDoc';
+import { authenticateApiKey, authenticateSigner, authenticateToken } from '../middleware/auth';
+import { idempotent } from '../middleware/idempotency';
+
+export interface RouteMount {
+  path: string;
+  router: Router;
+  tag: string;
+}
+
+type Location = 'body' | 'query' | 'params' | 'headers' | 'cookies';
+type SecurityScheme = 'apiKey' | 'signerKey' | 'bearerAuth';
+
+// A validated field, as read from an express-validator chain
+export interface RouteField {
+  name: string;
+  location: Location;
+  required: boolean;
+  schema: SchemaObject;
+}
+
+// A route as Express will serve it
+export interface RouteDefinition {
+  method: string;
+  // Express path, e.g. /api/bridge/transactions/:id
+  path: string;
+  tag: string;
+  doc?: ApiDocOptions;
+  fields: RouteField[];
+  security: SecurityScheme[];
+  idempotent: boolean;
+  // Whether any handler validates the request
+  validated: boolean;
+  // Set when an earlier route with the same method and path is served instead
+  shadowed: boolean;
+}
+
+// express and express-validator keep their route and chain details on private fields
+type Layer = { route?: { path: string; methods: Record<string, boolean>; stack: Layer[] }; handle: unknown };
+type ContextItem = { validator?: (...args: never[]) => unknown; options?: unknown[]; negated?: boolean; message?: unknown };
+type ValidationChain = {
+  builder: { build(): { fields: string[]; locations: Location[]; optional: unknown; stack: ReadonlyArray<unknown> } };
+};
+
+const isDocumented = (handle: unknown): handle is DocumentedHandler =>
+  typeof handle === 'function' && 'apiDoc' in handle;
+
+const isValidationChain = (handle: unknown): handle is ValidationChain =>
+  typeof handle === 'function' && 'builder' in handle;
+
+// The { min, max } options of validators such as isInt and isLength
+const bounds = (options: unknown): { min?: number; max?: number } =>
+  typeof options === 'object' && options !== null ? options : {};
+
+const ref = (name: string): SchemaObject => ({ $ref: `#/components/schemas/${name}` });
+const nullable = (schema: SchemaObject): SchemaObject => ({ ...schema, nullable: true });
+const string: SchemaObject = { type: 'string' };
+const integer: SchemaObject = { type: 'integer' };
+const dateTime: SchemaObject = { type: 'string', format: 'date-time' };
+
+export const openApiSchemas = {
+  TransactionStatus: { type: 'string', enum: Object.values(TransactionStatus) },
+  BridgeDirection: { type: 'string', enum: Object.values(BridgeDirection) },
+  BridgeTransaction: {
+    type: 'object',
+    properties: {
+      id: string,
+      direction: ref('BridgeDirection'),
+      status: ref('TransactionStatus'),
+      sourceTxHash: string,
+      sourceAmount: string,
+      sourceAddress: string,
+      targetTxHash: nullable(string),
+      targetAmount: nullable(string),
+      targetAddress: string,
+      zkProofHash: nullable(string),
+      merkleRoot: nullable(string),
+      blockHeight: nullable(integer),
+      blockHash: nullable(string),
+      confirmations: integer,
+      errorMessage: nullable(string),
+      requiresReview: { type: 'boolean' },
+      userId: nullable(string),
+      createdAt: dateTime,
+      updatedAt: dateTime,
+      completedAt: nullable(dateTime),
+    },
+    required: ['id', 'direction', 'status', 'sourceTxHash', 'sourceAmount', 'sourceAddress', 'targetAddress', 'confirmations'],
+  },
+  TransactionEvent: {
+    type: 'object',
+    properties: {
+      id: string,
+      transactionId: string,
+      eventType: string,
+      eventData: { ...nullable(string), description: 'JSON encoded event details' },
+      message: nullable(string),
+      createdAt: dateTime,
+    },
+    required: ['id', 'transactionId', 'eventType', 'createdAt'],
+  },
+  WebhookSubscription: {
+    type: 'object',
+    properties: {
+      id: string,
+      url: { type: 'string', format: 'uri' },
+      events: { type: 'array', items: string },
+      description: nullable(string),
+      active: { type: 'boolean' },
+      secret: { type: 'string', description: 'Only returned when the subscription is created' },
+      createdAt: dateTime,
+      updatedAt: dateTime,
+    },
+    required: ['id', 'url', 'events', 'active'],
+  },
+  WebhookDelivery: {
+    type: 'object',
+    properties: {
+      id: string,
+      subscriptionId: string,
+      eventId: string,
+      eventType: string,
+      payload: { type: 'string', description: 'JSON body as sent' },
+      status: { type: 'string', enum: ['PENDING', 'DELIVERED', 'FAILED'] },
+      attempts: integer,
+      nextAttemptAt: dateTime,
+      lastStatusCode: nullable(integer),
+      lastError: nullable(string),
+      lastResponse: nullable(string),
+      deliveredAt: nullable(dateTime),
+      redeliveryOf: nullable(string),
+      createdAt: dateTime,
+    },
+    required: ['id', 'subscriptionId', 'eventId', 'eventType', 'status', 'attempts'],
+  },
+  IndexedBridge: {
+    type: 'object',
+    properties: {
+      bridgeId: string,
+      user: string,
+      amount: string,
+      fee: nullable(string),
+      btcTxHash: string,
+      btcAddress: string,
+      status: { type: 'string', enum: ['INITIATED', 'COMPLETED', 'CLAIMED', 'CANCELLED'] },
+      initiatedTxHash: string,
+      lastBlockNumber: integer,
+      confirmed: { type: 'boolean' },
+    },
+  },
+  ChainEvent: {
+    type: 'object',
+    properties: {
+      id: string,
+      contract: string,
+      name: string,
+      blockNumber: integer,
+      txHash: string,
+      logIndex: integer,
+      args: { type: 'object', additionalProperties: true },
+      confirmed: { type: 'boolean' },
+      timestamp: dateTime,
+    },
+  },
+  User: {
+    type: 'object',
+    properties: {
+      id: string,
+      address: { type: 'string', description: 'EIP-55 checksummed Ethereum address' },
+      createdAt: dateTime,
+    },
+    required: ['id', 'address'],
+  },
+  AuthSession: {
+    type: 'object',
+    properties: {
+      accessToken: { type: 'string', description: 'JWT, sent as Authorization: Bearer <token>' },
+      tokenType: { type: 'string', enum: ['Bearer'] },
+      expiresIn: { type: 'integer', description: 'Seconds until the access token expires' },
+      refreshToken: { type: 'string', description: 'Single use; exchanged for a new session at POST /api/auth/refresh' },
+      refreshExpiresAt: dateTime,
+      user: ref('User'),
+    },
+    required: ['accessToken', 'tokenType', 'expiresIn', 'refreshToken', 'refreshExpiresAt', 'user'],
+  },
+  PaginationMeta: {
+    type: 'object',
+    properties: { total: integer, limit: integer, offset: integer },
+  },
+  Error: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean', enum: [false] },
+      error: string,
+      message: string,
+      details: { type: 'array', items: { type: 'object', additionalProperties: true } },
+    },
+    required: ['success', 'error'],
+  },
+} satisfies Record<string, SchemaObject>;
+
+export const schemaRef = (name: keyof typeof openApiSchemas): SchemaObject => ref(name);
+export const arrayOf = (items: SchemaObject): SchemaObject => ({ type: 'array', items });
+
+// Validators implemented as express-validator custom functions, recognised by their source
+const customValidators = new Map<string, SchemaObject>(
+  ([
+    [body('x').isString(), { type: 'string' }],
+    [body('x').isArray(), { type: 'array', items: {} }],
+    [body('x').isObject(), { type: 'object' }],
+  ] as const).map(([chain, schema]) => [String(chainItems(chain)[0].validator), schema])
+);
+
+function chainItems(chain: ValidationChain): ContextItem[] {
+  return chain.builder.build().stack as ContextItem[];
+}
+
+/**
+ * Every route served under `mounts`, in the order Express matches them
+ */
+export function listRoutes(mounts: RouteMount[]): RouteDefinition[] {
+  const routes: RouteDefinition[] = [];
+  const served = new Set<string>();
+
+  for (const mount of mounts) {
+    // Router-level middleware applies to the routes declared after it
+    const routerSecurity: SecurityScheme[] = [];
+
+    for (const layer of (mount.router as unknown as { stack: Layer[] }).stack) {
+      if (!layer.route) {
+        const scheme = securityScheme(layer.handle);
+        if (scheme) routerSecurity.push(scheme);
+        continue;
+      }
+
+      const path = `${mount.path}${layer.route.path === '/' ? '' : layer.route.path}`;
+
+      for (const method of Object.keys(layer.route.methods)) {
+        const route: RouteDefinition = {
+          method: method.toUpperCase(),
+          path,
+          tag: mount.tag,
+          fields: [],
+          security: [...routerSecurity],
+          idempotent: false,
+          validated: false,
+          shadowed: served.has(`${method} ${path}`),
+        };
+        served.add(`${method} ${path}`);
+
+        for (const { handle } of layer.route.stack) {
+          describeHandler(route, handle);
+        }
+
+        for (const name of pathParams(path)) {
+          if (!route.fields.some(field => field.location === 'params' && field.name === name)) {
+            route.fields.push({ name, location: 'params', required: true, schema: { type: 'string' } });
+          }
+        }
+
+        routes.push(route);
+      }
+    }
+  }
+
+  return routes;
+}
+
+/**
+ * OpenAPI 3 document for the routes served under `mounts`
+ */
+export function buildOpenApiDocument(mounts: RouteMount[], info: { title: string; version: string }) {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const route of listRoutes(mounts)) {
+    if (route.shadowed) continue;
+
+    const path = route.path.replace(/:(\w+)/g, '{$1}');
+    paths[path] = paths[path] || {};
+    paths[path][route.method.toLowerCase()] = operation(route);
+  }
+
+  return {
+    openapi: '3.0.3',
+    info,
+    tags: [...new Set(mounts.map(mount => mount.tag))].map(name => ({ name })),
+    paths,
+    components: {
+      schemas: openApiSchemas,
+      securitySchemes: {
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+        signerKey: { type: 'apiKey', in: 'header', name: 'X-Signer-Key' },
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT', description: 'Access token from POST /api/auth/verify or /api/auth/refresh' },
+      },
+      responses: {
+        ValidationError: { description: 'Validation failed', content: { 'application/json': { schema: ref('Error') } } },
+        Unauthorized: { description: 'Missing or invalid key or access token', content: { 'application/json': { schema: ref('Error') } } },
+        Conflict: { description: 'Conflicts with the current state or a request in progress', content: { 'application/json': { schema: ref('Error') } } },
+        Error: { description: 'Error', content: { 'application/json': { schema: ref('Error') } } },
+      },
+    },
+  };
+}
+
+function operation(route: RouteDefinition) {
+  const doc = route.doc;
+  const parameters: Record<string, unknown>[] = route.fields
+    .filter(field => field.location !== 'body' && field.location !== 'cookies')
+    .map(field => ({
+      name: field.name,
+      in: { params: 'path', query: 'query', headers: 'header' }[field.location as 'params' | 'query' | 'headers'],
+      required: field.location === 'params' || field.required,
+      schema: field.schema,
+    }));
+
+  if (route.idempotent) {
+    parameters.push({
+      name: 'Idempotency-Key',
+      in: 'header',
+      required: false,
+      description: 'Replays the stored response to an earlier request with the same key',
+      schema: { type: 'string', maxLength: 255 },
+    });
+  }
+
+  const bodyFields = route.fields.filter(field => field.location === 'body');
+  const status = String(doc?.status || 200);
+
+  const responses: Record<string, unknown> = {
+    [status]: {
+      description: 'Success',
+      content: doc?.contentType
+        ? { [doc.contentType]: { schema: { type: 'string' } } }
+        : { 'application/json': { schema: envelope(doc?.response) } },
+    },
+  };
+  if (route.validated) {
+    responses['400'] = { $ref: '#/components/responses/ValidationError' };
+  }
+  if (route.security.length > 0) {
+    responses['401'] = { $ref: '#/components/responses/Unauthorized' };
+  }
+  if (route.idempotent) {
+    responses['409'] = { $ref: '#/components/responses/Conflict' };
+  }
+  responses.default = { $ref: '#/components/responses/Error' };
+
+  return {
+    operationId: operationId(route),
+    summary: doc?.summary,
+    description: doc?.description,
+    tags: [route.tag],
+    security: route.security.length > 0 ? route.security.map(scheme => ({ [scheme]: [] })) : undefined,
+    parameters: parameters.length > 0 ? parameters : undefined,
+    requestBody: bodyFields.length > 0 ? {
+      required: bodyFields.some(field => field.required),
+      content: { 'application/json': { schema: objectSchema(bodyFields) } },
+    } : undefined,
+    responses,
+  };
+}
+
+function envelope(data?: SchemaObject): SchemaObject {
+  return {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      data: data || {},
+      message: { type: 'string' },
+      meta: ref('PaginationMeta'),
+    },
+    required: ['success'],
+  };
+}
+
+// e.g. GET /api/bridge/transactions/:id/events -> getBridgeTransactionsByIdEvents
+function operationId(route: RouteDefinition): string {
+  const words = route.path
+    .split('/')
+    .filter(segment => segment && segment !== 'api')
+    .flatMap(segment => segment.startsWith(':') ? ['by', segment.slice(1)] : segment.split(/[^a-zA-Z0-9]+/));
+  return route.method.toLowerCase() + words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+}
+
+function describeHandler(route: RouteDefinition, handle: unknown): void {
+  if (isDocumented(handle)) {
+    route.doc = handle.apiDoc;
+    return;
+  }
+
+  if (handle === idempotent) {
+    route.idempotent = true;
+    return;
+  }
+
+  const scheme = securityScheme(handle);
+  if (scheme) {
+    route.security.push(scheme);
+    return;
+  }
+
+  if (isValidationChain(handle)) {
+    route.validated = true;
+    const context = handle.builder.build();
+    const schema = fieldSchema(chainItems(handle));
+
+    for (const location of context.locations) {
+      for (const name of context.fields) {
+        route.fields.push({ name, location, required: context.optional === false, schema });
+      }
+    }
+  }
+}
+
+function securityScheme(handle: unknown): SecurityScheme | undefined {
+  if (handle === authenticateApiKey) return 'apiKey';
+  if (handle === authenticateSigner) return 'signerKey';
+  if (handle === authenticateToken) return 'bearerAuth';
+  return undefined;
+}
+
+/**
+ * JSON schema for the values a validation chain accepts, as far as its validators tell
+ */
+function fieldSchema(items: ContextItem[]): SchemaObject {
+  const schema: SchemaObject = {};
+
+  for (const item of items) {
+    if (!item.validator) continue;
+
+    if (typeof item.message === 'string' && !schema.description) {
+      schema.description = item.message;
+    }
+
+    const custom = customValidators.get(String(item.validator));
+    if (custom) {
+      Object.assign(schema, custom);
+      continue;
+    }
+
+    const [options] = item.options || [];
+    const { min, max } = bounds(options);
+
+    switch (item.validator.name) {
+      case 'isEmpty':
+        if (item.negated) schema.minLength = 1;
+        break;
+      case 'isInt':
+      case 'isFloat':
+        schema.type = item.validator.name === 'isInt' ? 'integer' : 'number';
+        if (min !== undefined) schema.minimum = min;
+        if (max !== undefined) schema.maximum = max;
+        break;
+      case 'isNumeric':
+        schema.type = schema.type || 'string';
+        schema.pattern = '^-?\\d+(\\.\\d+)?$';
+        break;
+      case 'isBoolean':
+        schema.type = 'boolean';
+        break;
+      case 'isIn':
+        schema.enum = Array.isArray(options) ? options : undefined;
+        break;
+      case 'isLength':
+        if (min !== undefined) schema.minLength = min;
+        if (max !== undefined) schema.maxLength = max;
+        break;
+      case 'isURL':
+        schema.type = 'string';
+        schema.format = 'uri';
+        break;
+      case 'isEmail':
+        schema.type = 'string';
+        schema.format = 'email';
+        break;
+      case 'isUUID':
+        schema.type = 'string';
+        schema.format = 'uuid';
+        break;
+      case 'isBase64':
+        schema.type = 'string';
+        schema.format = 'byte';
+        break;
+      case 'isISO8601':
+        schema.type = 'string';
+        schema.format = 'date-time';
+        break;
+      case 'isEthereumAddress':
+        schema.type = 'string';
+        schema.pattern = '^0x[a-fA-F0-9]{40}$';
+        break;
+      case 'isHexadecimal':
+        schema.type = 'string';
+        schema.pattern = '^(0x|0h)?[0-9a-fA-F]+$';
+        break;
+      case 'matches':
+        schema.type = 'string';
+        schema.pattern = options instanceof RegExp ? options.source : String(options);
+        break;
+    }
+  }
+
+  return schema;
+}
+
+// Nests dotted and wildcard field names, e.g. `proof.pi_a` or `inputs.*`
+function objectSchema(fields: RouteField[]): SchemaObject {
+  const root: SchemaObject = { type: 'object', properties: {} };
+
+  for (const field of fields) {
+    const parts = field.name.split('.');
+    let parent = root;
+
+    parts.forEach((part, index) => {
+      const last = index === parts.length - 1;
+
+      if (part === '*') {
+        parent.type = 'array';
+        parent.items = last ? { ...parent.items, ...field.schema } : parent.items || { type: 'object', properties: {} };
+        parent = parent.items;
+        return;
+      }
+
+      parent.properties = parent.properties || {};
+      const existing = parent.properties[part];
+      parent.properties[part] = last ? { ...existing, ...field.schema } : existing || { type: 'object', properties: {} };
+
+      if (field.required && (last || !existing)) {
+        parent.required = [...new Set([...(parent.required || []), part])];
+      }
+      parent = parent.properties[part];
+    });
+  }
+
+  return root;
+}
+
+function pathParams(path: string): string[] {
+  return (path.match(/:(\w+)/g) || []).map(param => param.slice(1));
+}
@@ -8,6 +8,10 @@ import { Header } from '@/components/header'
 import { Footer } from '@/components/footer'
 import { ConnectButton } from '@rainbow-me/rainbowkit'
 import { MerkleTreeVisualizer } from '@/components/merkle-tree-visualizer'
+import { ApiError } from '@zkbridge/sdk'
+import { SampleTransaction, TransactionMerkleProof } from '@zkbridge/shared'
+import { apiClient } from '@/lib/api-client'
+import { useSiweAuth } from '@/hooks/useSiweAuth'
 
 interface BridgeStep {
   id: number
@@ -36,17 +40,9 @@ interface BitcoinTransaction {
   size: number
 }
 
-interface MerkleProof {
-  merkleRoot: string
-  proofPath: string[]
-  proofIndex: number
-  transactionHash: string
-  blockHeight: number
-  blockHash: string
-}
-
 export default function BridgePage() {
   const { address, isConnected } = useAccount()
+  const { isSignedIn, signIn } = useSiweAuth()
   const [currentStep, setCurrentStep] = useState(1)
   const [bitcoinTx, setBitcoinTx] = useState('')
   const [bitcoinAddress, setBitcoinAddress] = useState('')
@@ -55,8 +51,8 @@ export default function BridgePage() {
   const [transaction, setTransaction] = useState<BitcoinTransaction | null>(null)
   const [proofGenerated, setProofGenerated] = useState(false)
   const [bridgeTxHash, setBridgeTxHash] = useState('')
-  const [merkleProof, setMerkleProof] = useState<MerkleProof | null>(null)
-  const [sampleTransactions, setSampleTransactions] = useState<Array<{txHash: string, description: string}>>([])
+  const [merkleProof, setMerkleProof] = useState<TransactionMerkleProof | null>(null)
+  const [sampleTransactions, setSampleTransactions] = useState<SampleTransaction[]>([])
   const [showSampleTransactions, setShowSampleTransactions] = useState(false)
   const [loadingSamples, setLoadingSamples] = useState(true)
 
@@ -64,11 +60,7 @@ export default function BridgePage() {
     // Load sample transactions for demo
     const loadSampleTransactions = async () => {
       try {
-        const response = await fetch('/api/bitcoin/sample-transactions')
-        if (response.ok) {
-          const data = await response.json()
-          setSampleTransactions(data.data || [])
-        }
+        setSampleTransactions(await apiClient.bitcoin.sampleTransactions())
       } catch (error) {
         console.error('Failed to load sample transactions:', error)
       } finally {
@@ -124,32 +116,26 @@ export default function BridgePage() {
     setIsLoading(true)
     try {
       // Get real Bitcoin transaction data
-      const response = await fetch(`/api/bitcoin/detailed-transaction/${bitcoinTx}`)
-      
-      if (!response.ok) {
-        const errorData = await response.json()
-        if (response.status === 500 && errorData.message?.includes('Transaction not found')) {
+      const txData = await apiClient.bitcoin.detailedTransaction(bitcoinTx).catch(error => {
+        if (error instanceof ApiError && error.statusCode === 500 && error.message.includes('Transaction not found')) {
           throw new Error('Transaction not found on Bitcoin testnet. The sample transactions are for demo purposes only. Please use a real testnet transaction ID from https://blockstream.info/testnet/')
         }
-        throw new Error(errorData.message || 'Failed to fetch transaction')
-      }
-      
-      const data = await response.json()
-      const txData = data.data
+        throw error
+      })
       
       // Convert to our interface format
       const transactionInfo: BitcoinTransaction = {
         txid: txData.txid,
-        amount: txData.vout.reduce((sum: number, output: any) => sum + output.value, 0) / 100000000,
+        amount: txData.vout.reduce((sum, output) => sum + output.value, 0) / 100000000,
         confirmations: 0, // Will be calculated separately
         status: txData.status.confirmed ? 'confirmed' : 'pending',
         blockHeight: txData.status.block_height,
         blockHash: txData.status.block_hash,
-        inputs: txData.vin.map((input: any) => ({
+        inputs: txData.vin.map(input => ({
           address: input.prevout.scriptpubkey_address,
           value: input.prevout.value / 100000000
         })),
-        outputs: txData.vout.map((output: any) => ({
+        outputs: txData.vout.map(output => ({
           address: output.scriptpubkey_address,
           value: output.value / 100000000
         })),
@@ -157,11 +143,10 @@ export default function BridgePage() {
         size: txData.size
       }
       
-      // Get confirmation count
-      const confirmResponse = await fetch(`/api/bitcoin/transaction/${bitcoinTx}`)
-      if (confirmResponse.ok) {
-        const confirmData = await confirmResponse.json()
-        transactionInfo.confirmations = confirmData.data.confirmations
+      // Confirmations from the block it was mined in
+      if (txData.status.block_height !== undefined) {
+        const blockCount = await apiClient.bitcoin.blockCount()
+        transactionInfo.confirmations = blockCount - txData.status.block_height + 1
       }
       
       setTransaction(transactionInfo)
@@ -181,27 +166,7 @@ export default function BridgePage() {
     setIsLoading(true)
     try {
       // Generate real Merkle proof
-      const response = await fetch(`/api/bitcoin/detailed-merkle-proof/${transaction.txid}`)
-      
-      if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error(errorData.message || 'Failed to generate Merkle proof')
-      }
-      
-      const data = await response.json()
-      const proofData = data.data
-      
-      // Convert to our interface format
-      const merkleProofInfo: MerkleProof = {
-        merkleRoot: proofData.merkleRoot,
-        proofPath: proofData.proofPath,
-        proofIndex: proofData.proofIndex,
-        transactionHash: proofData.transactionHash,
-        blockHeight: proofData.blockHeight,
-        blockHash: proofData.blockHash
-      }
-      
-      setMerkleProof(merkleProofInfo)
+      setMerkleProof(await apiClient.bitcoin.merkleProof(transaction.txid))
       setProofGenerated(true)
       setCurrentStep(3)
     } catch (error) {
@@ -230,25 +195,17 @@ export default function BridgePage() {
 
     setIsLoading(true)
     try {
-      // Store bridge attempt in database
-      const storeResponse = await fetch('/api/bridge/store-attempt', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          bitcoinTxId: transaction.txid,
-          ethereumAddress: address,
-          userId: address // Using wallet address as user ID for now
-        })
-      })
-
-      if (!storeResponse.ok) {
-        throw new Error('Failed to store bridge attempt')
+      // Bridge attempts are stored for the signed-in user
+      if (!isSignedIn) {
+        await signIn()
       }
 
-      const storeData = await storeResponse.json()
-      console.log('Bridge attempt stored:', storeData.data.bridgeId)
+      // Store bridge attempt in database
+      const { bridgeId } = await apiClient.bridge.storeAttempt({
+        bitcoinTxId: transaction.txid,
+        ethereumAddress: address!,
+      })
+      console.log('Bridge attempt stored:', bridgeId)
       
       // Simulate bridge transaction (in real implementation, this would interact with smart contracts)
       await new Promise(resolve => setTimeout(resolve, 2000))
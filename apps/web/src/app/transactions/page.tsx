@@ -2,39 +2,48 @@
 
 import { useState, useEffect } from 'react'
 import { motion } from 'framer-motion'
-import { Clock, CheckCircle, XCircle, ArrowRight, ExternalLink, Copy, Eye, Filter, RefreshCw } from 'lucide-react'
+import { Clock, CheckCircle, XCircle, ArrowRight, ExternalLink, Copy, Eye, Filter, RefreshCw, LogIn, LogOut } from 'lucide-react'
+import { useAccount } from 'wagmi'
+import { ConnectButton } from '@rainbow-me/rainbowkit'
 import { Header } from '@/components/header'
 import { Footer } from '@/components/footer'
-import { apiClient, BridgeTransaction } from '@/lib/api-client'
+import { BridgeDirection, BridgeTransactionRecord, TRANSACTION_STATUS_LABELS, TransactionStatus, isTerminalStatus } from '@zkbridge/shared'
+import { apiClient } from '@/lib/api-client'
+import { formatSatoshis } from '@/lib/utils'
+import { useSiweAuth } from '@/hooks/useSiweAuth'
 
 export default function TransactionsPage() {
-  const [transactions, setTransactions] = useState<BridgeTransaction[]>([])
+  const [transactions, setTransactions] = useState<BridgeTransactionRecord[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [statusFilter, setStatusFilter] = useState<string>('all')
   const [directionFilter, setDirectionFilter] = useState<string>('all')
+  const { isConnected } = useAccount()
+  const { isSignedIn, isSigningIn, error: signInError, signIn, signOut } = useSiweAuth()
 
+  // The API only lists the signed-in user's transactions
   useEffect(() => {
-    loadTransactions()
-  }, [])
+    if (isSignedIn) {
+      loadTransactions()
+    } else {
+      setTransactions([])
+      setLoading(false)
+    }
+  }, [isSignedIn])
 
   const loadTransactions = async () => {
     try {
       setLoading(true)
       setError(null)
 
-      const response = await apiClient.getAllBridgeTransactions({
-        status: statusFilter !== 'all' ? statusFilter : undefined,
-        direction: directionFilter !== 'all' ? directionFilter : undefined,
+      const { data } = await apiClient.transactions.list({
+        status: statusFilter !== 'all' ? statusFilter as TransactionStatus : undefined,
+        direction: directionFilter !== 'all' ? directionFilter as BridgeDirection : undefined,
         limit: 50,
         offset: 0,
       })
 
-      if (response.success && response.data) {
-        setTransactions(response.data)
-      } else {
-        setError(response.error || 'Failed to load transactions')
-      }
+      setTransactions(data)
     } catch (error) {
       setError(error instanceof Error ? error.message : 'Failed to load transactions')
     } finally {
@@ -44,41 +53,30 @@ export default function TransactionsPage() {
 
   const getStatusIcon = (status: string) => {
     switch (status) {
-      case 'COMPLETED':
+      case TransactionStatus.COMPLETED:
         return <CheckCircle className="w-5 h-5 text-green-400" />
-      case 'FAILED':
+      case TransactionStatus.FAILED:
         return <XCircle className="w-5 h-5 text-red-400" />
-      case 'PENDING':
-      case 'VERIFYING':
-      case 'PROOF_GENERATED':
-      case 'SUBMITTING':
-        return <Clock className="w-5 h-5 text-yellow-400" />
+      case TransactionStatus.CANCELLED:
+        return <XCircle className="w-5 h-5 text-gray-400" />
       default:
-        return <Clock className="w-5 h-5 text-gray-400" />
+        return <Clock className={`w-5 h-5 ${isTerminalStatus(status) ? 'text-gray-400' : 'text-yellow-400'}`} />
     }
   }
 
   const getStatusColor = (status: string) => {
     switch (status) {
-      case 'COMPLETED':
+      case TransactionStatus.COMPLETED:
         return 'text-green-400 bg-green-400/10 border-green-400/30'
-      case 'FAILED':
+      case TransactionStatus.FAILED:
         return 'text-red-400 bg-red-400/10 border-red-400/30'
-      case 'PENDING':
-      case 'VERIFYING':
-      case 'PROOF_GENERATED':
-      case 'SUBMITTING':
-        return 'text-yellow-400 bg-yellow-400/10 border-yellow-400/30'
-      default:
+      case TransactionStatus.CANCELLED:
         return 'text-gray-400 bg-gray-400/10 border-gray-400/30'
+      default:
+        return 'text-yellow-400 bg-yellow-400/10 border-yellow-400/30'
     }
   }
 
-  const formatAmount = (amount: string) => {
-    const num = parseFloat(amount)
-    return num.toFixed(8)
-  }
-
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -109,6 +107,40 @@ export default function TransactionsPage() {
     )
   }
 
+  if (!isSignedIn) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <main className="container mx-auto px-4 py-20">
+          <div className="max-w-md mx-auto text-center p-8 bg-card rounded-lg border border-border">
+            <h1 className="text-2xl font-bold text-foreground mb-2">Your Bridge Transactions</h1>
+            <p className="text-muted-foreground mb-6">
+              {isConnected
+                ? 'Sign a message with your wallet to prove it is yours. Signing is free and sends no transaction.'
+                : 'Connect the wallet you bridged with to see your transactions.'}
+            </p>
+            {isConnected ? (
+              <button
+                onClick={() => signIn().catch(() => undefined)}
+                disabled={isSigningIn}
+                className="inline-flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-md text-sm hover:bg-primary/90 transition-colors disabled:opacity-50"
+              >
+                <LogIn className="w-4 h-4" />
+                {isSigningIn ? 'Check your wallet...' : 'Sign in with Ethereum'}
+              </button>
+            ) : (
+              <div className="flex justify-center">
+                <ConnectButton />
+              </div>
+            )}
+            {signInError && <p className="text-red-400 text-sm mt-4">{signInError}</p>}
+          </div>
+        </main>
+        <Footer />
+      </div>
+    )
+  }
+
   return (
     <div className="min-h-screen bg-background">
       <Header />
@@ -123,7 +155,7 @@ export default function TransactionsPage() {
           <div className="mb-8">
             <h1 className="text-3xl font-bold text-foreground mb-2">Bridge Transactions</h1>
             <p className="text-muted-foreground">
-              View all Bitcoin-Ethereum bridge transactions and their status
+              Your Bitcoin-Ethereum bridge transactions and their status
             </p>
           </div>
 
@@ -140,12 +172,9 @@ export default function TransactionsPage() {
               className="px-3 py-2 bg-background border border-border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary/20"
             >
               <option value="all">All Status</option>
-              <option value="PENDING">Pending</option>
-              <option value="VERIFYING">Verifying</option>
-              <option value="PROOF_GENERATED">Proof Generated</option>
-              <option value="SUBMITTING">Submitting</option>
-              <option value="COMPLETED">Completed</option>
-              <option value="FAILED">Failed</option>
+              {Object.values(TransactionStatus).map(status => (
+                <option key={status} value={status}>{TRANSACTION_STATUS_LABELS[status]}</option>
+              ))}
             </select>
 
             <select
@@ -165,6 +194,14 @@ export default function TransactionsPage() {
               <RefreshCw className="w-4 h-4" />
               Refresh
             </button>
+
+            <button
+              onClick={signOut}
+              className="flex items-center gap-2 px-3 py-2 border border-border rounded-md text-sm hover:bg-muted transition-colors sm:ml-auto"
+            >
+              <LogOut className="w-4 h-4" />
+              Sign out
+            </button>
           </div>
 
           {/* Error Display */}
@@ -202,7 +239,7 @@ export default function TransactionsPage() {
                             {tx.direction === 'BITCOIN_TO_ETHEREUM' ? 'Bitcoin → Ethereum' : 'Ethereum → Bitcoin'}
                           </span>
                           <span className={`px-2 py-1 rounded-full text-xs font-medium border ${getStatusColor(tx.status)}`}>
-                            {tx.status}
+                            {TRANSACTION_STATUS_LABELS[tx.status as TransactionStatus] || tx.status}
                           </span>
                         </div>
                         <p className="text-sm text-muted-foreground">
@@ -242,7 +279,7 @@ export default function TransactionsPage() {
                     <div>
                       <p className="text-xs text-muted-foreground uppercase tracking-wide mb-1">Amount</p>
                       <p className="text-sm font-semibold text-foreground">
-                        {formatAmount(tx.sourceAmount)} BTC
+                        {formatSatoshis(tx.sourceAmount)} BTC
                       </p>
                     </div>
                     <div>
@@ -14,6 +14,7 @@ import {
   ChevronDown,
   Loader2
 } from 'lucide-react';
+import { TRANSACTION_STATUS_LABELS, TransactionStatus } from '@zkbridge/shared';
 import { cn, formatAddress, formatTimeAgo } from '@/lib/utils';
 
 interface Transaction {
@@ -21,7 +22,7 @@ interface Transaction {
   from: 'Bitcoin' | 'Ethereum';
   to: 'Bitcoin' | 'Ethereum';
   amount: string;
-  status: 'pending' | 'completed' | 'failed' | 'processing';
+  status: TransactionStatus;
   timestamp: number;
   txHash: string;
   recipientAddress: string;
@@ -51,7 +52,7 @@ export function TransactionHistory({ className }: TransactionHistoryProps) {
         from: 'Bitcoin',
         to: 'Ethereum',
         amount: '0.5',
-        status: 'completed',
+        status: TransactionStatus.COMPLETED,
         timestamp: Date.now() - 3600000, // 1 hour ago
         txHash: '0x1234567890abcdef1234567890abcdef12345678',
         recipientAddress: '0xabcdef1234567890abcdef1234567890abcdef12',
@@ -62,7 +63,7 @@ export function TransactionHistory({ className }: TransactionHistoryProps) {
         from: 'Ethereum',
         to: 'Bitcoin',
         amount: '2.1',
-        status: 'processing',
+        status: TransactionStatus.VERIFYING,
         timestamp: Date.now() - 1800000, // 30 minutes ago
         txHash: '0xabcd1234567890ef1234567890abcdef1234567890',
         recipientAddress: 'bc1qxy2kgdygjrsqtzq2n0yrf2493p83kkfjhx0wlh',
@@ -73,7 +74,7 @@ export function TransactionHistory({ className }: TransactionHistoryProps) {
         from: 'Bitcoin',
         to: 'Ethereum',
         amount: '1.0',
-        status: 'pending',
+        status: TransactionStatus.PENDING,
         timestamp: Date.now() - 900000, // 15 minutes ago
         txHash: 'btc-tx-hash-1234567890abcdef',
         recipientAddress: '0x9876543210fedcba9876543210fedcba98765432',
@@ -84,7 +85,7 @@ export function TransactionHistory({ className }: TransactionHistoryProps) {
         from: 'Ethereum',
         to: 'Bitcoin',
         amount: '0.8',
-        status: 'failed',
+        status: TransactionStatus.FAILED,
         timestamp: Date.now() - 7200000, // 2 hours ago
         txHash: '0x9876543210fedcba9876543210fedcba9876543210',
         recipientAddress: 'bc1qxy2kgdygjrsqtzq2n0yrf2493p83kkfjhx0wlh',
@@ -121,31 +122,31 @@ export function TransactionHistory({ className }: TransactionHistoryProps) {
 
   const getStatusIcon = (status: Transaction['status']) => {
     switch (status) {
-      case 'completed':
+      case TransactionStatus.COMPLETED:
         return <CheckCircle className="h-5 w-5 text-green-500" />;
-      case 'processing':
-        return <Loader2 className="h-5 w-5 text-blue-500 animate-spin" />;
-      case 'pending':
+      case TransactionStatus.PENDING:
         return <Clock className="h-5 w-5 text-yellow-500" />;
-      case 'failed':
+      case TransactionStatus.FAILED:
         return <XCircle className="h-5 w-5 text-red-500" />;
+      case TransactionStatus.CANCELLED:
+        return <XCircle className="h-5 w-5 text-gray-500" />;
       default:
-        return <Clock className="h-5 w-5 text-gray-500" />;
+        return <Loader2 className="h-5 w-5 text-blue-500 animate-spin" />;
     }
   };
 
   const getStatusColor = (status: Transaction['status']) => {
     switch (status) {
-      case 'completed':
+      case TransactionStatus.COMPLETED:
         return 'text-green-600 bg-green-50 dark:bg-green-950 dark:text-green-400 border-green-200 dark:border-green-800';
-      case 'processing':
-        return 'text-blue-600 bg-blue-50 dark:bg-blue-950 dark:text-blue-400 border-blue-200 dark:border-blue-800';
-      case 'pending':
+      case TransactionStatus.PENDING:
         return 'text-yellow-600 bg-yellow-50 dark:bg-yellow-950 dark:text-yellow-400 border-yellow-200 dark:border-yellow-800';
-      case 'failed':
+      case TransactionStatus.FAILED:
         return 'text-red-600 bg-red-50 dark:bg-red-950 dark:text-red-400 border-red-200 dark:border-red-800';
-      default:
+      case TransactionStatus.CANCELLED:
         return 'text-gray-600 bg-gray-50 dark:bg-gray-950 dark:text-gray-400 border-gray-200 dark:border-gray-800';
+      default:
+        return 'text-blue-600 bg-blue-50 dark:bg-blue-950 dark:text-blue-400 border-blue-200 dark:border-blue-800';
     }
   };
 
@@ -223,10 +224,9 @@ export function TransactionHistory({ className }: TransactionHistoryProps) {
                 )}
               >
                 <option value="all">All Status</option>
-                <option value="completed">Completed</option>
-                <option value="processing">Processing</option>
-                <option value="pending">Pending</option>
-                <option value="failed">Failed</option>
+                {Object.values(TransactionStatus).map(status => (
+                  <option key={status} value={status}>{TRANSACTION_STATUS_LABELS[status]}</option>
+                ))}
               </select>
               <ChevronDown className="absolute right-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-muted-foreground pointer-events-none" />
             </div>
@@ -271,7 +271,7 @@ export function TransactionHistory({ className }: TransactionHistoryProps) {
                               "flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium border",
                               getStatusColor(tx.status)
                             )}>
-                              {tx.status.charAt(0).toUpperCase() + tx.status.slice(1)}
+                              {TRANSACTION_STATUS_LABELS[tx.status]}
                             </div>
                             <span className="text-sm text-muted-foreground">
                               {formatTimeAgo(tx.timestamp)}
@@ -351,7 +351,7 @@ export function TransactionHistory({ className }: TransactionHistoryProps) {
                             <ExternalLink className="h-4 w-4 inline mr-2" />
                             View
                           </button>
-                          {tx.status === 'failed' && (
+                          {tx.status === TransactionStatus.FAILED && (
                             <button className={cn(
                               "flex-1 py-2 px-4 rounded-xl text-sm font-medium transition-all duration-300",
                               "bg-gradient-to-r from-primary to-primary/80 text-white",
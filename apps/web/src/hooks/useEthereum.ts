@@ -5,6 +5,7 @@ import { useAccount, useBalance, useContractRead, useContractWrite, useWaitForTr
 import { parseEther, formatEther, parseUnits, formatUnits } from 'viem';
 import { BridgeContract, WrappedBTC, BTCRelay } from '@/lib/contracts';
 import { logger } from '@/lib/logger';
+import { apiClient } from '@/lib/api-client';
 
 // Contract addresses (these would come from your deployment)
 const BRIDGE_CONTRACT_ADDRESS = process.env.NEXT_PUBLIC_BRIDGE_CONTRACT_ADDRESS || '0x...';
@@ -345,79 +346,31 @@ export function useEthereum() {
     }
   }, [isConnected, address, allowance, estimateGas, burnWrappedBTC, approveWrappedBTC]);
 
-  // Fetch bridge transactions from events
+  // Fetch bridge transactions from the API's on-chain index
   const fetchBridgeTransactions = useCallback(async () => {
-    if (!publicClient || !address) {
+    if (!address) {
       return;
     }
 
     try {
-      // Get BridgeInitiated events
-      const initiatedEvents = await publicClient.getLogs({
-        address: BRIDGE_CONTRACT_ADDRESS as `0x${string}`,
-        event: {
-          type: 'event',
-          name: 'BridgeInitiated',
-          inputs: [
-            { indexed: true, name: 'bridgeId', type: 'bytes32' },
-            { indexed: true, name: 'user', type: 'address' },
-            { indexed: true, name: 'amount', type: 'uint256' },
-            { indexed: false, name: 'btcTxHash', type: 'bytes32' },
-            { indexed: false, name: 'btcAddress', type: 'string' },
-            { indexed: false, name: 'timestamp', type: 'uint256' }
-          ]
-        },
-        args: {
-          user: address
-        },
-        fromBlock: 'earliest',
-        toBlock: 'latest'
-      });
-
-      // Get BridgeCompleted events
-      const completedEvents = await publicClient.getLogs({
-        address: BRIDGE_CONTRACT_ADDRESS as `0x${string}`,
-        event: {
-          type: 'event',
-          name: 'BridgeCompleted',
-          inputs: [
-            { indexed: true, name: 'bridgeId', type: 'bytes32' },
-            { indexed: true, name: 'user', type: 'address' },
-            { indexed: true, name: 'amount', type: 'uint256' },
-            { indexed: false, name: 'fee', type: 'uint256' },
-            { indexed: false, name: 'timestamp', type: 'uint256' }
-          ]
-        },
-        args: {
-          user: address
-        },
-        fromBlock: 'earliest',
-        toBlock: 'latest'
-      });
-
-      // Process events into bridge transactions
-      const transactions: BridgeTransaction[] = initiatedEvents.map(event => {
-        const completedEvent = completedEvents.find(
-          e => e.args.bridgeId === event.args.bridgeId
-        );
-
-        return {
-          bridgeId: event.args.bridgeId || '',
-          btcTxHash: event.args.btcTxHash || '',
-          btcAddress: event.args.btcAddress || '',
-          amount: formatUnits(event.args.amount || BigInt(0), 8),
-          fee: completedEvent ? formatUnits(completedEvent.args.fee || BigInt(0), 8) : '0',
-          status: completedEvent ? 'completed' : 'pending',
-          timestamp: Number(event.args.timestamp),
-        };
-      });
+      const { data: bridges } = await apiClient.onchain.bridges({ user: address, limit: 100 });
+
+      const transactions: BridgeTransaction[] = bridges.map(bridge => ({
+        bridgeId: bridge.bridgeId,
+        btcTxHash: bridge.btcTxHash,
+        btcAddress: bridge.btcAddress,
+        amount: formatUnits(BigInt(bridge.amount), 8),
+        fee: bridge.fee ? formatUnits(BigInt(bridge.fee), 8) : '0',
+        status: bridge.status === 'INITIATED' ? 'pending' : bridge.status === 'CANCELLED' ? 'failed' : 'completed',
+        timestamp: Math.floor(new Date(bridge.initiatedAt).getTime() / 1000),
+      }));
 
       setBridgeTransactions(transactions);
     } catch (error) {
       logger.error('Failed to fetch bridge transactions', error);
       setError('Failed to fetch bridge transactions: ' + (error as Error).message);
     }
-  }, [publicClient, address]);
+  }, [address]);
 
   // Listen for new bridge events
   useEffect(() => {
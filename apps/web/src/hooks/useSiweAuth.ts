@@ -0,0 +1,93 @@
+"use client"
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAccount, useSignMessage } from 'wagmi';
+import { apiClient } from '@/lib/api-client';
+import { StoredSession, clearSession, loadSession, refreshSession, saveSession, subscribeSession } from '@/lib/auth';
+import { getNetworkConfig } from '@/lib/contracts-config';
+import { logger } from '@/lib/logger';
+
+// Access tokens are refreshed this long before they expire
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+/**
+ * Sign-In with Ethereum for the connected wallet
+ * The session belongs to one address; switching accounts needs a new sign-in
+ */
+export function useSiweAuth() {
+  const { address } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+  const [session, setSession] = useState<StoredSession | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSession(loadSession());
+    return subscribeSession(setSession);
+  }, []);
+
+  // Keep the access token fresh while the session lasts
+  useEffect(() => {
+    if (!session) return;
+
+    const delay = Math.max(session.accessTokenExpiresAt - Date.now() - REFRESH_MARGIN_MS, 0);
+    const timer = setTimeout(() => {
+      refreshSession(refreshToken => apiClient.auth.refresh(refreshToken));
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [session]);
+
+  const isSignedIn = !!session && !!address && session.user.address.toLowerCase() === address.toLowerCase();
+
+  const signIn = useCallback(async (): Promise<StoredSession> => {
+    if (!address) {
+      throw new Error('Connect a wallet to sign in');
+    }
+
+    setIsSigningIn(true);
+    setError(null);
+
+    try {
+      const signed = await apiClient.auth.signIn({
+        address,
+        chainId: getNetworkConfig().chainId,
+        domain: window.location.host,
+        uri: window.location.origin,
+        statement: 'Sign in to ZKBridge to view and manage your bridge transactions.',
+        sign: message => signMessageAsync({ message }),
+      });
+
+      logger.info('Signed in with Ethereum', { address });
+      return saveSession(signed);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Sign-in failed';
+      setError(message);
+      throw err;
+    } finally {
+      setIsSigningIn(false);
+    }
+  }, [address, signMessageAsync]);
+
+  const signOut = useCallback(async () => {
+    const current = loadSession();
+    clearSession();
+
+    if (current) {
+      try {
+        await apiClient.auth.logout(current.refreshToken);
+      } catch (err) {
+        logger.warn('Failed to revoke refresh token', { error: err instanceof Error ? err.message : err });
+      }
+    }
+  }, []);
+
+  return {
+    session: isSignedIn ? session : null,
+    isSignedIn,
+    isSigningIn,
+    error,
+    signIn,
+    signOut,
+  };
+}
@@ -1,10 +1,17 @@
 /**
  * Real-time Transaction Status Hook
  * Provides real-time updates for bridge transaction status
+ *
+ * Updates are pushed over the API's event stream, which needs sign-in and
+ * only carries the user's own transactions. Signed out, or while the stream
+ * is unavailable or reconnecting, the hooks fall back to polling.
  */
 
 import { useState, useEffect, useCallback } from 'react'
-import { apiClient, BridgeTransaction } from '@/lib/api-client'
+import { BridgeTransactionRecord, isTerminalStatus } from '@zkbridge/shared'
+import { applyTransactionUpdate } from '@zkbridge/sdk'
+import { apiClient } from '@/lib/api-client'
+import { loadSession, subscribeSession } from '@/lib/auth'
 
 interface UseTransactionStatusOptions {
   transactionId?: string
@@ -12,17 +19,32 @@ interface UseTransactionStatusOptions {
   enabled?: boolean
 }
 
+function useSignedIn() {
+  const [signedIn, setSignedIn] = useState(false)
+
+  useEffect(() => {
+    setSignedIn(!!loadSession())
+    return subscribeSession(session => setSignedIn(!!session))
+  }, [])
+
+  return signedIn
+}
+
 export function useTransactionStatus(options: UseTransactionStatusOptions = {}) {
   const {
     transactionId,
-    pollInterval = 5000, // 5 seconds
+    pollInterval = 5000, // 5 seconds, while the event stream is down
     enabled = true
   } = options
 
-  const [transaction, setTransaction] = useState<BridgeTransaction | null>(null)
+  const [transaction, setTransaction] = useState<BridgeTransactionRecord | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null)
+  const [live, setLive] = useState(false)
+  const signedIn = useSignedIn()
+
+  const done = isTerminalStatus(transaction?.status || '')
 
   const fetchTransaction = useCallback(async () => {
     if (!transactionId) return
@@ -31,24 +53,10 @@ export function useTransactionStatus(options: UseTransactionStatusOptions = {})
       setLoading(true)
       setError(null)
 
-      const response = await apiClient.getBridgeTransaction(transactionId)
-
-      if (response.success && response.data) {
-        setTransaction(response.data)
-        setLastUpdated(new Date())
-
-        // If transaction is completed or failed, stop polling
-        if (['COMPLETED', 'FAILED'].includes(response.data.status)) {
-          return false // Stop polling
-        }
-      } else {
-        setError(response.error || 'Failed to fetch transaction status')
-      }
-
-      return true // Continue polling
+      setTransaction(await apiClient.transactions.get(transactionId))
+      setLastUpdated(new Date())
     } catch (error) {
       setError(error instanceof Error ? error.message : 'Failed to fetch transaction status')
-      return true // Continue polling on error
     } finally {
       setLoading(false)
     }
@@ -61,20 +69,33 @@ export function useTransactionStatus(options: UseTransactionStatusOptions = {})
     }
   }, [transactionId, enabled, fetchTransaction])
 
-  // Polling effect
+  // Live updates until the transaction reaches a final status
   useEffect(() => {
-    if (!transactionId || !enabled) return
+    if (!transactionId || !enabled || done || !signedIn) return
+
+    const close = apiClient.events.streamTransactions({
+      transactionIds: [transactionId],
+      onStateChange: state => setLive(state === 'open'),
+      onMessage: ({ transaction: update }) => {
+        if (!update) return
+        setTransaction(current => current ? applyTransactionUpdate(current, update) : current)
+        setLastUpdated(new Date())
+      },
+    })
 
-    const interval = setInterval(() => {
-      fetchTransaction().then(shouldContinue => {
-        if (!shouldContinue) {
-          clearInterval(interval)
-        }
-      })
-    }, pollInterval)
+    return () => {
+      close()
+      setLive(false)
+    }
+  }, [transactionId, enabled, done, signedIn])
+
+  // Polling fallback
+  useEffect(() => {
+    if (!transactionId || !enabled || done || live) return
 
+    const interval = setInterval(fetchTransaction, pollInterval)
     return () => clearInterval(interval)
-  }, [transactionId, enabled, pollInterval, fetchTransaction])
+  }, [transactionId, enabled, done, live, pollInterval, fetchTransaction])
 
   const refresh = useCallback(() => {
     if (transactionId) {
@@ -88,32 +109,41 @@ export function useTransactionStatus(options: UseTransactionStatusOptions = {})
     error,
     lastUpdated,
     refresh,
-    isPolling: enabled && !!transactionId && !['COMPLETED', 'FAILED'].includes(transaction?.status || ''),
+    isLive: live,
+    isPolling: enabled && !!transactionId && !done && !live,
   }
 }
 
 // Hook for multiple transactions (like in transaction history)
 export function useTransactionsStatus(transactionIds: string[], options: Omit<UseTransactionStatusOptions, 'transactionId'> = {}) {
-  const [transactions, setTransactions] = useState<Map<string, BridgeTransaction>>(new Map())
+  const { pollInterval = 5000, enabled = true } = options
+
+  const [transactions, setTransactions] = useState<Map<string, BridgeTransactionRecord>>(new Map())
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [live, setLive] = useState(false)
+  const signedIn = useSignedIn()
+
+  // Callers usually pass a new array each render
+  const idsKey = transactionIds.join(',')
 
   const fetchTransactions = useCallback(async () => {
-    if (transactionIds.length === 0) return
+    const ids = idsKey ? idsKey.split(',') : []
+    if (ids.length === 0) return
 
     try {
       setLoading(true)
       setError(null)
 
       // Fetch all transactions in parallel
-      const promises = transactionIds.map(id => apiClient.getBridgeTransaction(id))
+      const promises = ids.map(id => apiClient.transactions.get(id))
       const results = await Promise.allSettled(promises)
 
-      const newTransactions = new Map<string, BridgeTransaction>()
+      const newTransactions = new Map<string, BridgeTransactionRecord>()
 
       results.forEach((result, index) => {
-        if (result.status === 'fulfilled' && result.value.success && result.value.data) {
-          newTransactions.set(transactionIds[index], result.value.data)
+        if (result.status === 'fulfilled') {
+          newTransactions.set(ids[index], result.value)
         }
       })
 
@@ -123,13 +153,47 @@ export function useTransactionsStatus(transactionIds: string[], options: Omit<Us
     } finally {
       setLoading(false)
     }
-  }, [transactionIds])
+  }, [idsKey])
 
   useEffect(() => {
-    if (options.enabled !== false) {
+    if (enabled) {
       fetchTransactions()
     }
-  }, [transactionIds, options.enabled, fetchTransactions])
+  }, [enabled, fetchTransactions])
+
+  // Only worth following while something can still change
+  const active = Array.from(transactions.values()).some(transaction => !isTerminalStatus(transaction.status))
+
+  // One stream for every transaction on the page
+  useEffect(() => {
+    if (!idsKey || !enabled || !active || !signedIn) return
+
+    const close = apiClient.events.streamTransactions({
+      transactionIds: idsKey.split(','),
+      onStateChange: state => setLive(state === 'open'),
+      onMessage: ({ transaction: update }) => {
+        if (!update) return
+        setTransactions(current => {
+          const existing = current.get(update.id)
+          if (!existing) return current
+          return new Map(current).set(update.id, applyTransactionUpdate(existing, update))
+        })
+      },
+    })
+
+    return () => {
+      close()
+      setLive(false)
+    }
+  }, [idsKey, enabled, active, signedIn])
+
+  // Polling fallback
+  useEffect(() => {
+    if (!idsKey || !enabled || live || !active) return
+
+    const interval = setInterval(fetchTransactions, pollInterval)
+    return () => clearInterval(interval)
+  }, [idsKey, enabled, live, active, pollInterval, fetchTransactions])
 
   const refresh = useCallback(() => {
     fetchTransactions()
@@ -140,5 +204,6 @@ export function useTransactionsStatus(transactionIds: string[], options: Omit<Us
     loading,
     error,
     refresh,
+    isLive: live,
   }
 }
@@ -1,6 +1,7 @@
 "use client"
 
 import { useState, useCallback } from 'react';
+import { apiClient } from '@/lib/api-client';
 import { logger } from '@/lib/logger';
 
 export interface ZKProofData {
@@ -60,116 +61,6 @@ export function useZKProof() {
   const [error, setError] = useState<string | null>(null);
   const [lastProof, setLastProof] = useState<ZKProofData | null>(null);
 
-  /**
-   * Generate ZK proof for Bitcoin transaction verification
-   */
-  const generateBitcoinTransactionProof = useCallback(async (
-    bitcoinTx: BitcoinTransactionProof,
-    publicAmount: string,
-    publicAddress: string,
-    privateSecret: string
-  ): Promise<ZKProofData> => {
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      logger.info('Generating Bitcoin transaction ZK proof', {
-        txHash: bitcoinTx.txHash,
-        publicAmount,
-        publicAddress
-      });
-
-      // Call backend API to generate proof
-      const response = await fetch('/api/zk/bitcoin-transaction-proof', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          bitcoinTx,
-          publicAmount,
-          publicAddress,
-          privateSecret
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const proofData: ZKProofData = await response.json();
-      setLastProof(proofData);
-
-      logger.info('Bitcoin transaction ZK proof generated successfully', {
-        txHash: bitcoinTx.txHash,
-        publicSignals: proofData.publicSignals.length
-      });
-
-      return proofData;
-    } catch (error) {
-      logger.error('Failed to generate Bitcoin transaction ZK proof', error);
-      setError(error instanceof Error ? error.message : 'Unknown error');
-      throw error;
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
-
-  /**
-   * Generate ZK proof for Merkle tree verification
-   */
-  const generateMerkleProof = useCallback(async (
-    merkleRoot: string,
-    merkleProof: string[],
-    proofIndex: number,
-    leafHash: string
-  ): Promise<ZKProofData> => {
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      logger.info('Generating Merkle proof ZK proof', {
-        merkleRoot,
-        proofIndex,
-        leafHash
-      });
-
-      const response = await fetch('/api/zk/merkle-proof', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          merkleRoot,
-          merkleProof,
-          proofIndex,
-          leafHash
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const proofData: ZKProofData = await response.json();
-      setLastProof(proofData);
-
-      logger.info('Merkle proof ZK proof generated successfully', {
-        merkleRoot,
-        proofIndex,
-        publicSignals: proofData.publicSignals.length
-      });
-
-      return proofData;
-    } catch (error) {
-      logger.error('Failed to generate Merkle proof ZK proof', error);
-      setError(error instanceof Error ? error.message : 'Unknown error');
-      throw error;
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
-
   /**
    * Verify ZK proof
    */
@@ -185,23 +76,7 @@ export function useZKProof() {
         publicSignals: publicSignals.length
       });
 
-      const response = await fetch('/api/zk/verify', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          proof,
-          publicSignals
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const result = await response.json();
-      const isValid = result.isValid;
+      const { isValid } = await apiClient.zk.verify({ proof, publicSignals });
 
       logger.info('ZK proof verification completed', {
         isValid,
@@ -336,11 +211,7 @@ export function useZKProof() {
    */
   const getCircuitInfo = useCallback(async () => {
     try {
-      const response = await fetch('/api/zk/circuit-info');
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      return await response.json();
+      return await apiClient.zk.circuitInfo();
     } catch (error) {
       logger.error('Failed to get circuit info', error);
       throw error;
@@ -368,8 +239,6 @@ export function useZKProof() {
     lastProof,
     
     // Functions
-    generateBitcoinTransactionProof,
-    generateMerkleProof,
     verifyProof,
     generateDemoProof,
     getCircuitInfo,
@@ -0,0 +1,79 @@
+/**
+ * Sign-In with Ethereum session, kept in localStorage
+ * The API client sends its access token to the routes for the signed-in user
+ */
+
+import { AuthSession } from '@zkbridge/shared'
+
+const STORAGE_KEY = 'zkbridge.auth'
+
+export interface StoredSession extends AuthSession {
+  // Epoch ms, from expiresIn when the session was saved
+  accessTokenExpiresAt: number
+}
+
+type Listener = (session: StoredSession | null) => void
+
+const listeners = new Set<Listener>()
+let refreshing: Promise<StoredSession | null> | null = null
+
+export function loadSession(): StoredSession | null {
+  if (typeof window === 'undefined') return null
+
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    return stored ? JSON.parse(stored) : null
+  } catch {
+    return null
+  }
+}
+
+export function saveSession(session: AuthSession): StoredSession {
+  const stored = { ...session, accessTokenExpiresAt: Date.now() + session.expiresIn * 1000 }
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(stored))
+  listeners.forEach(listener => listener(stored))
+  return stored
+}
+
+export function clearSession() {
+  window.localStorage.removeItem(STORAGE_KEY)
+  listeners.forEach(listener => listener(null))
+}
+
+// Called with the new session whenever it changes, in this tab or another
+export function subscribeSession(listener: Listener): () => void {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener(loadSession())
+  }
+
+  listeners.add(listener)
+  window.addEventListener('storage', onStorage)
+  return () => {
+    listeners.delete(listener)
+    window.removeEventListener('storage', onStorage)
+  }
+}
+
+export function getAccessToken(): string | undefined {
+  const session = loadSession()
+  return session && session.accessTokenExpiresAt > Date.now() ? session.accessToken : undefined
+}
+
+/**
+ * Swap the refresh token for a new session. Refresh tokens work once and
+ * reusing one signs the user out everywhere, so concurrent callers share one request.
+ */
+export function refreshSession(refresh: (refreshToken: string) => Promise<AuthSession>): Promise<StoredSession | null> {
+  if (!refreshing) {
+    const current = loadSession()
+    refreshing = (current ? refresh(current.refreshToken).then(saveSession) : Promise.resolve(null))
+      .catch(() => {
+        clearSession()
+        return null
+      })
+      .finally(() => {
+        refreshing = null
+      })
+  }
+  return refreshing
+}
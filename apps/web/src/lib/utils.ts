@@ -16,6 +16,12 @@ export function formatAmount(amount: string | number, decimals: number = 6): str
   return num.toFixed(decimals).replace(/\.?0+$/, '')
 }
 
+// Whole satoshis as a BTC amount with 8 decimals, without going through floating point
+export function formatSatoshis(satoshis: string | number): string {
+  const digits = String(satoshis).padStart(9, '0')
+  return `${digits.slice(0, -8)}.${digits.slice(-8)}`
+}
+
 export function formatCurrency(amount: string | number, currency: string = 'USD'): string {
   const num = typeof amount === 'string' ? parseFloat(amount) : amount
   return new Intl.NumberFormat('en-US', {
@@ -0,0 +1,63 @@
+import { Command, Option } from 'commander';
+import { BridgeStatus, TRANSACTION_STATUS_LABELS } from '@zkbridge/shared';
+import { createClient, globalOptions } from '../context';
+import { fields, print } from '../output';
+
+const CHAINS = ['bitcoin', 'ethereum'];
+
+function formatBridgeStatus(status: BridgeStatus): string {
+  return fields([
+    ['Transaction', status.id],
+    ['Status', `${TRANSACTION_STATUS_LABELS[status.status] || status.status} (${status.status})`],
+    ['Route', `${status.fromChain} -> ${status.toChain}`],
+    ['Amount (sats)', status.amount],
+    ['Source tx', status.sourceTxHash],
+    ['Target tx', status.targetTxHash],
+    ['Confirmations', status.confirmations],
+    ['Error', status.error],
+  ]);
+}
+
+interface InitiateOptions {
+  from: 'bitcoin' | 'ethereum';
+  to: 'bitcoin' | 'ethereum';
+  tx: string;
+  amount: string;
+  sourceAddress: string;
+  targetAddress: string;
+  depositAddress?: string;
+  idempotencyKey?: string;
+}
+
+export function registerBridgeCommands(program: Command): void {
+  const bridge = program
+    .command('bridge')
+    .description('Bridge transactions');
+
+  bridge
+    .command('initiate')
+    .description('Start a bridge for a source chain transaction')
+    .addOption(new Option('--from <chain>', 'source chain').choices(CHAINS).makeOptionMandatory())
+    .addOption(new Option('--to <chain>', 'target chain').choices(CHAINS).makeOptionMandatory())
+    .requiredOption('--tx <hash>', 'source transaction hash')
+    .requiredOption('--amount <amount>', 'amount sent, in satoshis')
+    .requiredOption('--source-address <address>', 'address the source transaction was sent from')
+    .requiredOption('--target-address <address>', 'address to receive on the target chain')
+    .option('--deposit-address <address>', 'BTC deposit address issued for this bridge')
+    .option('--idempotency-key <key>', 'reuse to retry the same initiation safely, e.g. from another run of a script')
+    .action(async (options: InitiateOptions, command: Command) => {
+      const global = globalOptions(command);
+
+      const status = await createClient(global).bridge.initiate({
+        fromChain: options.from,
+        toChain: options.to,
+        sourceTxHash: options.tx,
+        sourceAmount: options.amount,
+        sourceAddress: options.sourceAddress,
+        targetAddress: options.targetAddress,
+        depositAddress: options.depositAddress,
+      }, { idempotencyKey: options.idempotencyKey });
+
+      print(global, status, () => formatBridgeStatus(status));
+    });
+}
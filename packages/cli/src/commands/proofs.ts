@@ -0,0 +1,148 @@
+import { Command, Option } from 'commander';
+import { TransactionMerkleProof, ZKProof, computeMerkleRootFromBranch } from '@zkbridge/shared';
+import { createClient, globalOptions } from '../context';
+import { readJsonFile, writeJsonFile } from '../files';
+import { CliError, ExitCode, fields, print } from '../output';
+
+function formatMerkleProof(proof: TransactionMerkleProof): string {
+  return [
+    fields([
+      ['Transaction', proof.transactionHash],
+      ['Block', `${proof.blockHeight} ${proof.blockHash}`],
+      ['Merkle root', proof.merkleRoot],
+      ['Index', proof.proofIndex],
+    ]),
+    'Branch',
+    ...proof.proofPath.map((hash, level) => `  ${String(level).padStart(2)}  ${hash}`),
+  ].join('\n');
+}
+
+function readMerkleProof(file: string): TransactionMerkleProof {
+  const proof = readJsonFile<Partial<TransactionMerkleProof>>(file);
+  const hex = (value: unknown) => typeof value === 'string' && /^[0-9a-fA-F]{64}$/.test(value);
+
+  if (!hex(proof.transactionHash) || !hex(proof.merkleRoot) || !Array.isArray(proof.proofPath) || !proof.proofPath.every(hex)
+    || !Number.isInteger(proof.proofIndex) || proof.proofIndex! < 0) {
+    throw new CliError(`${file} is not a Merkle proof: expected transactionHash, merkleRoot, proofPath and proofIndex, as written by merkle-proof`);
+  }
+  return proof as TransactionMerkleProof;
+}
+
+export function registerProofCommands(program: Command): void {
+  program
+    .command('merkle-proof')
+    .description('Fetch the Merkle inclusion proof of a Bitcoin transaction')
+    .argument('<txid>', 'Bitcoin transaction id')
+    .option('-o, --output <file>', 'also write the proof to a file, for verify-merkle')
+    .action(async (txid: string, options: { output?: string }, command: Command) => {
+      const global = globalOptions(command);
+      const proof = await createClient(global).bitcoin.merkleProof(txid);
+
+      if (options.output) {
+        writeJsonFile(options.output, proof);
+      }
+      print(global, proof, () => formatMerkleProof(proof));
+    });
+
+  program
+    .command('verify-merkle')
+    .description('Check that a Merkle proof leads from its transaction to its Merkle root; exits 1 if it does not')
+    .argument('<proof.json>', 'proof as written by merkle-proof')
+    .option('--api', 'verify with the API instead of locally')
+    .action(async (file: string, options: { api?: boolean }, command: Command) => {
+      const global = globalOptions(command);
+      const proof = readMerkleProof(file);
+
+      let result: { isValid: boolean; computedRoot?: string };
+      if (options.api) {
+        result = await createClient(global).proofs.verify({
+          leaf: proof.transactionHash,
+          path: proof.proofPath,
+          indices: [proof.proofIndex],
+          root: proof.merkleRoot,
+        });
+      } else {
+        const computedRoot = computeMerkleRootFromBranch(proof.transactionHash.toLowerCase(), proof.proofPath.map(hash => hash.toLowerCase()), proof.proofIndex);
+        result = { isValid: computedRoot === proof.merkleRoot.toLowerCase(), computedRoot };
+      }
+
+      print(global, { ...result, transactionHash: proof.transactionHash, merkleRoot: proof.merkleRoot }, () => result.isValid
+        ? `Valid: ${proof.transactionHash} is in the block with Merkle root ${proof.merkleRoot}`
+        : fields([
+          ['Invalid', 'the proof does not lead to its Merkle root'],
+          ['Merkle root', proof.merkleRoot],
+          ['Computed', result.computedRoot],
+        ]));
+
+      if (!result.isValid) {
+        process.exitCode = ExitCode.CHECK_FAILED;
+      }
+    });
+
+  const zk = program
+    .command('zk')
+    .description('Zero-knowledge proofs');
+
+  zk
+    .command('prove')
+    .description('Generate a proof with the API')
+    .addOption(new Option('--secret <secret>', 'private input').env('ZKBRIDGE_ZK_SECRET').makeOptionMandatory())
+    .requiredOption('--public-input <value>', 'public input')
+    .option('--data <json>', 'additional data, as a JSON object')
+    .option('-o, --output <file>', 'also write the proof to a file, for zk verify')
+    .action(async (options: { secret: string; publicInput: string; data?: string; output?: string }, command: Command) => {
+      const global = globalOptions(command);
+
+      let additionalData: Record<string, unknown> | undefined;
+      if (options.data) {
+        try {
+          additionalData = JSON.parse(options.data);
+        } catch {
+          throw new CliError('--data must be a JSON object');
+        }
+      }
+
+      const proof = await createClient(global).zk.prove({ secret: options.secret, publicInput: options.publicInput, additionalData });
+
+      if (options.output) {
+        writeJsonFile(options.output, proof);
+      }
+      print(global, proof, () => fields([
+        ['Public signals', proof.publicSignals.join(', ')],
+        ['Written to', options.output],
+      ]));
+    });
+
+  zk
+    .command('verify')
+    .description('Verify a Groth16 proof; exits 1 if it is invalid')
+    .argument('<proof.json>', 'proof and public signals, as written by zk prove')
+    .option('--vkey <file>', 'verify locally with this verification key instead of with the API')
+    .action(async (file: string, options: { vkey?: string }, command: Command) => {
+      const global = globalOptions(command);
+      const { proof, publicSignals } = readJsonFile<Partial<ZKProof>>(file);
+
+      if (!proof || !Array.isArray(publicSignals)) {
+        throw new CliError(`${file} is not a proof: expected proof and publicSignals, as written by zk prove`);
+      }
+
+      let isValid: boolean;
+      if (options.vkey) {
+        const verificationKey = readJsonFile<unknown>(options.vkey);
+        // Loaded only here: snarkjs is slow to start
+        const { ZKProofGenerator } = await import('@zkbridge/zk');
+        // Fails on a malformed proof or key rather than returning false
+        isValid = await new ZKProofGenerator().verifyProof(proof, publicSignals, verificationKey).catch(error => {
+          throw new CliError(error.message);
+        });
+      } else {
+        ({ isValid } = await createClient(global).zk.verify({ proof, publicSignals }));
+      }
+
+      print(global, { isValid }, () => isValid ? 'Valid proof' : 'Invalid proof');
+
+      if (!isValid) {
+        process.exitCode = ExitCode.CHECK_FAILED;
+      }
+    });
+}
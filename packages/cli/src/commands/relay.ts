@@ -0,0 +1,46 @@
+import { Command } from 'commander';
+import { ApiError } from '@zkbridge/sdk';
+import { RelayerHealth } from '@zkbridge/shared';
+import { createClient, globalOptions } from '../context';
+import { ExitCode, fields, print } from '../output';
+
+export function registerRelayCommands(program: Command): void {
+  const relay = program
+    .command('relay')
+    .description('BTC relayer');
+
+  relay
+    .command('status')
+    .description('Show how far the relayer trails the Bitcoin tip; exits 1 if it is lagging or stalled')
+    .action(async (options: object, command: Command) => {
+      const global = globalOptions(command);
+
+      let health: RelayerHealth;
+      let healthy = true;
+      try {
+        health = await createClient(global).health.relayer();
+      } catch (error) {
+        // An unhealthy relayer is reported with status 503, along with its status
+        if (!(error instanceof ApiError && error.statusCode === 503 && error.body?.data)) {
+          throw error;
+        }
+        health = error.body.data as RelayerHealth;
+        healthy = false;
+      }
+
+      print(global, { healthy, ...health }, () => fields([
+        ['Healthy', healthy ? 'yes' : 'no'],
+        ['Status', health.status],
+        ['Relay height', health.relayHeight],
+        ['Bitcoin tip', health.bitcoinTipHeight],
+        ['Lag', health.lag === null ? 'unknown' : `${health.lag} blocks (at most ${health.maxLag})`],
+        ['Pending tx', health.pendingTxHash],
+        ['Last submitted', health.lastSubmittedAt],
+        ['Last error', health.lastError],
+      ]));
+
+      if (!healthy) {
+        process.exitCode = ExitCode.CHECK_FAILED;
+      }
+    });
+}
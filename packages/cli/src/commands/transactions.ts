@@ -0,0 +1,112 @@
+import { Command } from 'commander';
+import { ApiError } from '@zkbridge/sdk';
+import { BridgeTransactionRecord, TRANSACTION_STATUS_LABELS, TransactionEvent, TransactionStatus, isTerminalStatus } from '@zkbridge/shared';
+import { createClient, globalOptions, parsePositiveInt } from '../context';
+import { ExitCode, fields, print } from '../output';
+
+export function formatTransaction(transaction: BridgeTransactionRecord): string {
+  return fields([
+    ['Transaction', transaction.id],
+    ['Status', `${TRANSACTION_STATUS_LABELS[transaction.status] || transaction.status} (${transaction.status})`],
+    ['Direction', transaction.direction],
+    ['Amount (sats)', transaction.targetAmount ? `${transaction.sourceAmount} -> ${transaction.targetAmount}` : transaction.sourceAmount],
+    ['Source tx', transaction.sourceTxHash],
+    ['From', transaction.sourceAddress],
+    ['Target tx', transaction.targetTxHash],
+    ['To', transaction.targetAddress],
+    ['Confirmations', transaction.confirmations],
+    ['Error', transaction.errorMessage],
+    ['Review', transaction.requiresReview ? transaction.reviewReason || 'required' : null],
+    ['Created', transaction.createdAt],
+    ['Updated', transaction.updatedAt],
+    ['Completed', transaction.completedAt],
+  ]);
+}
+
+function formatEvent(event: Pick<TransactionEvent, 'createdAt' | 'eventType' | 'message'>): string {
+  return `${event.createdAt}  ${event.eventType.padEnd(24)}  ${event.message || ''}`.trimEnd();
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export function registerTransactionCommands(program: Command): void {
+  program
+    .command('status')
+    .description('Show a bridge transaction')
+    .argument('<id>', 'transaction id, or source transaction hash with --hash')
+    .option('--hash', 'look the transaction up by its source transaction hash')
+    .option('--wait', 'wait for a final status; exits 1 unless the transaction completed')
+    .option('--interval <seconds>', 'how often to check with --wait', parsePositiveInt, 10)
+    .action(async (id: string, options: { hash?: boolean; wait?: boolean; interval: number }, command: Command) => {
+      const global = globalOptions(command);
+      const client = createClient(global);
+      const load = () => options.hash ? client.transactions.getByHash(id) : client.transactions.get(id);
+
+      let transaction = await load();
+
+      if (options.wait) {
+        while (!isTerminalStatus(transaction.status)) {
+          if (!global.json) {
+            console.error(`${new Date().toISOString()}  ${transaction.status}, waiting...`);
+          }
+          await sleep(options.interval * 1000);
+          transaction = await load();
+        }
+      }
+
+      print(global, transaction, () => formatTransaction(transaction));
+
+      if (options.wait && transaction.status !== TransactionStatus.COMPLETED) {
+        process.exitCode = ExitCode.CHECK_FAILED;
+      }
+    });
+
+  program
+    .command('events')
+    .description('Show the event history of a bridge transaction')
+    .argument('<id>', 'transaction id')
+    .option('-f, --follow', 'keep printing new events until the transaction reaches a final status; one JSON object per line with --json')
+    .action(async (id: string, options: { follow?: boolean }, command: Command) => {
+      const global = globalOptions(command);
+      const client = createClient(global);
+
+      const events = await client.transactions.events(id);
+
+      if (!options.follow) {
+        print(global, events, () => events.length ? events.map(formatEvent).join('\n') : 'No events');
+        return;
+      }
+
+      events.forEach(event => console.log(global.json ? JSON.stringify(event) : formatEvent(event)));
+
+      const transaction = await client.transactions.get(id);
+      if (isTerminalStatus(transaction.status)) {
+        return;
+      }
+
+      // Resume after the last event listed, so nothing is printed twice or missed
+      await new Promise<void>((resolve, reject) => {
+        const close = client.events.streamAllTransactions({
+          transactionIds: [id],
+          lastEventId: events.length ? events[events.length - 1].id : undefined,
+          onMessage: ({ event, transaction: update }) => {
+            console.log(global.json ? JSON.stringify(event) : formatEvent(event));
+            if (update && isTerminalStatus(update.status)) {
+              close();
+              resolve();
+            }
+          },
+          onError: error => {
+            // Refused streams are not reopened, so stop rather than wait forever
+            if (error instanceof ApiError && error.statusCode < 500 && error.statusCode !== 429) {
+              reject(error);
+            } else if (!global.json) {
+              console.error(`Event stream interrupted, reconnecting: ${error.message}`);
+            }
+          },
+        });
+      });
+    });
+}
@@ -0,0 +1,41 @@
+import { Command, InvalidArgumentError, Option } from 'commander';
+import { DEFAULT_BASE_URL, ZKBridgeClient } from '@zkbridge/sdk';
+import { OutputOptions } from './output';
+
+export interface GlobalOptions extends OutputOptions {
+  apiUrl: string;
+  apiKey?: string;
+  timeout: number;
+}
+
+/**
+ * Options shared by every command
+ */
+export function addGlobalOptions(program: Command): Command {
+  return program
+    .addOption(new Option('--api-url <url>', 'ZKBridge API to use').env('ZKBRIDGE_API_URL').default(DEFAULT_BASE_URL))
+    .addOption(new Option('--api-key <key>', 'operator API key').env('ZKBRIDGE_API_KEY'))
+    .addOption(new Option('--timeout <ms>', 'request timeout').argParser(parsePositiveInt).default(30000))
+    .option('--json', 'print results as JSON');
+}
+
+export function globalOptions(command: Command): GlobalOptions {
+  return command.optsWithGlobals<GlobalOptions>();
+}
+
+export function createClient(options: GlobalOptions): ZKBridgeClient {
+  return new ZKBridgeClient({
+    baseUrl: options.apiUrl,
+    apiKey: options.apiKey,
+    timeoutMs: options.timeout,
+    headers: { 'User-Agent': 'zkbridge-cli' },
+  });
+}
+
+export function parsePositiveInt(value: string): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number <= 0) {
+    throw new InvalidArgumentError('Must be a positive integer.');
+  }
+  return number;
+}
@@ -0,0 +1,27 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { CliError } from './output';
+
+/**
+ * Read a JSON input file. A saved API response is unwrapped to its data.
+ */
+export function readJsonFile<T>(file: string): T {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new CliError(`Cannot read ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (parsed && typeof parsed === 'object' && 'success' in parsed && 'data' in parsed) {
+    return (parsed as { data: T }).data;
+  }
+  return parsed as T;
+}
+
+export function writeJsonFile(file: string, data: unknown): void {
+  try {
+    writeFileSync(file, `${JSON.stringify(data, null, 2)}\n`);
+  } catch (error) {
+    throw new CliError(`Cannot write ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+}
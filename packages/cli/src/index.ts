@@ -0,0 +1,31 @@
+#!/usr/bin/env node
+import { Command } from 'commander';
+import { addGlobalOptions } from './context';
+import { ExitCode, exitCodeFor, printError } from './output';
+import { registerBridgeCommands } from './commands/bridge';
+import { registerProofCommands } from './commands/proofs';
+import { registerRelayCommands } from './commands/relay';
+import { registerTransactionCommands } from './commands/transactions';
+
+/**
+ * zkbridge: the ZKBridge API from the command line, for operators and integrators.
+ * Exit statuses are listed in ExitCode.
+ */
+
+const program = new Command('zkbridge')
+  .description('ZKBridge command-line tool')
+  .version('1.0.0')
+  // Bad arguments exit with USAGE; --help and --version exit 0
+  .exitOverride(error => process.exit(error.exitCode === 0 ? ExitCode.OK : ExitCode.USAGE));
+
+addGlobalOptions(program);
+
+registerTransactionCommands(program);
+registerProofCommands(program);
+registerRelayCommands(program);
+registerBridgeCommands(program);
+
+program.parseAsync(process.argv).catch(error => {
+  printError(program.opts(), error);
+  process.exit(exitCodeFor(error));
+});
@@ -0,0 +1,73 @@
+import { ApiError, NetworkError, NotFoundError, ValidationError } from '@zkbridge/sdk';
+
+// Exit statuses, for scripts
+export const ExitCode = {
+  OK: 0,
+  // The command ran but its check did not pass: an invalid proof, an unhealthy relayer, a bridge that failed
+  CHECK_FAILED: 1,
+  // Bad arguments or input files, or a request the API rejected as invalid
+  USAGE: 2,
+  NOT_FOUND: 3,
+  // The API answered with any other error, or the command failed unexpectedly
+  API_ERROR: 4,
+  // The API could not be reached or did not answer in time
+  UNREACHABLE: 5,
+} as const;
+
+export class CliError extends Error {
+  constructor(message: string, readonly exitCode: number = ExitCode.USAGE) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+export interface OutputOptions {
+  json?: boolean;
+}
+
+type Field = [label: string, value: unknown];
+
+/**
+ * Print a result: the data itself with --json, otherwise the human-readable text
+ */
+export function print(options: OutputOptions, data: unknown, text: () => string): void {
+  console.log(options.json ? JSON.stringify(data, null, 2) : text());
+}
+
+/**
+ * Aligned "label  value" lines, leaving out empty values
+ */
+export function fields(rows: Field[]): string {
+  const shown = rows.filter(([, value]) => value !== undefined && value !== null && value !== '');
+  const width = Math.max(...shown.map(([label]) => label.length));
+  return shown.map(([label, value]) => `${label.padEnd(width)}  ${value}`).join('\n');
+}
+
+export function exitCodeFor(error: unknown): number {
+  if (error instanceof CliError) return error.exitCode;
+  if (error instanceof ValidationError) return ExitCode.USAGE;
+  if (error instanceof NotFoundError) return ExitCode.NOT_FOUND;
+  if (error instanceof ApiError) return ExitCode.API_ERROR;
+  if (error instanceof NetworkError) return ExitCode.UNREACHABLE;
+  return ExitCode.API_ERROR;
+}
+
+/**
+ * Report a failed command on stderr, as JSON with --json
+ */
+export function printError(options: OutputOptions, error: unknown): void {
+  const message = error instanceof Error ? error.message : String(error);
+  const statusCode = error instanceof ApiError ? error.statusCode : undefined;
+  const issues = error instanceof ValidationError ? error.issues : [];
+
+  if (options.json) {
+    console.error(JSON.stringify({ error: message, statusCode, details: issues.length ? issues : undefined }, null, 2));
+    return;
+  }
+
+  console.error(`Error: ${message}${statusCode ? ` (HTTP ${statusCode})` : ''}`);
+  issues.forEach(issue => console.error(`  ${issue.path ? `${issue.path}: ` : ''}${issue.msg}`));
+  if (error instanceof NetworkError) {
+    console.error('Check --api-url, or ZKBRIDGE_API_URL');
+  }
+}
@@ -0,0 +1,60 @@
+import { HttpClient, ZKBridgeClientOptions } from './http';
+import { AuthApi } from './resources/auth';
+import { BitcoinApi } from './resources/bitcoin';
+import { BridgeApi } from './resources/bridge';
+import { CustodyApi } from './resources/custody';
+import { EthereumApi } from './resources/ethereum';
+import { EventsApi } from './resources/events';
+import { HealthApi } from './resources/health';
+import { OnchainApi } from './resources/onchain';
+import { PayoutsApi } from './resources/payouts';
+import { ProofsApi } from './resources/proofs';
+import { SigningApi } from './resources/signing';
+import { TransactionsApi } from './resources/transactions';
+import { WebhooksApi } from './resources/webhooks';
+import { ZkApi } from './resources/zk';
+
+/**
+ * Client for the ZKBridge API, with one property per group of routes.
+ *
+ * @example
+ * const client = new ZKBridgeClient({ baseUrl: 'https://api.example.com' });
+ * const { data } = await client.transactions.list({ status: TransactionStatus.PENDING });
+ */
+export class ZKBridgeClient {
+  readonly http: HttpClient;
+
+  readonly health: HealthApi;
+  readonly auth: AuthApi;
+  readonly bridge: BridgeApi;
+  readonly transactions: TransactionsApi;
+  readonly bitcoin: BitcoinApi;
+  readonly proofs: ProofsApi;
+  readonly ethereum: EthereumApi;
+  readonly zk: ZkApi;
+  readonly payouts: PayoutsApi;
+  readonly signing: SigningApi;
+  readonly custody: CustodyApi;
+  readonly onchain: OnchainApi;
+  readonly webhooks: WebhooksApi;
+  readonly events: EventsApi;
+
+  constructor(options: ZKBridgeClientOptions = {}) {
+    this.http = new HttpClient(options);
+
+    this.health = new HealthApi(this.http);
+    this.auth = new AuthApi(this.http);
+    this.bridge = new BridgeApi(this.http);
+    this.transactions = new TransactionsApi(this.http);
+    this.bitcoin = new BitcoinApi(this.http);
+    this.proofs = new ProofsApi(this.http);
+    this.ethereum = new EthereumApi(this.http);
+    this.zk = new ZkApi(this.http);
+    this.payouts = new PayoutsApi(this.http);
+    this.signing = new SigningApi(this.http);
+    this.custody = new CustodyApi(this.http);
+    this.onchain = new OnchainApi(this.http);
+    this.webhooks = new WebhooksApi(this.http);
+    this.events = new EventsApi(this.http);
+  }
+}
@@ -0,0 +1,117 @@
+import { ApiResponse, ValidationIssue } from '@zkbridge/shared';
+
+// Base class of every error the client throws
+export class ZKBridgeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZKBridgeError';
+  }
+}
+
+// The API answered with an error status
+export class ApiError extends ZKBridgeError {
+  constructor(
+    message: string,
+    readonly statusCode: number,
+    // Parsed error body, when the API sent JSON
+    readonly body: ApiResponse<unknown> | null = null,
+    // Idempotency-Key the request was sent with; retrying with it cannot repeat the change
+    readonly idempotencyKey?: string
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// 400: the request failed validation; `issues` lists the rejected fields
+export class ValidationError extends ApiError {
+  constructor(message: string, body: ApiResponse<unknown> | null, idempotencyKey?: string) {
+    super(message, 400, body, idempotencyKey);
+    this.name = 'ValidationError';
+  }
+
+  get issues(): ValidationIssue[] {
+    return this.body?.details || [];
+  }
+}
+
+// 401 or 403: the API key, signer key or access token is missing or was refused
+export class AuthenticationError extends ApiError {
+  constructor(message: string, statusCode: number, body: ApiResponse<unknown> | null, idempotencyKey?: string) {
+    super(message, statusCode, body, idempotencyKey);
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string, body: ApiResponse<unknown> | null, idempotencyKey?: string) {
+    super(message, 404, body, idempotencyKey);
+    this.name = 'NotFoundError';
+  }
+}
+
+// 409 or 422: the request conflicts with the current state, e.g. a duplicate
+// bridge, a status change that is not allowed, or a reused Idempotency-Key
+export class ConflictError extends ApiError {
+  constructor(message: string, statusCode: number, body: ApiResponse<unknown> | null, idempotencyKey?: string) {
+    super(message, statusCode, body, idempotencyKey);
+    this.name = 'ConflictError';
+  }
+}
+
+export class RateLimitError extends ApiError {
+  constructor(
+    message: string,
+    body: ApiResponse<unknown> | null,
+    // From the Retry-After header, when sent
+    readonly retryAfterMs: number | null,
+    idempotencyKey?: string
+  ) {
+    super(message, 429, body, idempotencyKey);
+    this.name = 'RateLimitError';
+  }
+}
+
+// The API could not be reached, or the connection failed before a response arrived
+export class NetworkError extends ZKBridgeError {
+  constructor(message: string, readonly cause?: unknown) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends NetworkError {
+  constructor(readonly timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * The error for an API response with an error status
+ */
+export function toApiError(
+  statusCode: number,
+  body: ApiResponse<unknown> | null,
+  retryAfterMs: number | null,
+  idempotencyKey?: string
+): ApiError {
+  const message = body?.error || body?.message || `Request failed with status ${statusCode}`;
+
+  switch (statusCode) {
+    case 400:
+      return new ValidationError(message, body, idempotencyKey);
+    case 401:
+    case 403:
+      return new AuthenticationError(message, statusCode, body, idempotencyKey);
+    case 404:
+      return new NotFoundError(message, body, idempotencyKey);
+    case 409:
+    case 422:
+      return new ConflictError(message, statusCode, body, idempotencyKey);
+    case 429:
+      return new RateLimitError(message, body, retryAfterMs, idempotencyKey);
+    default:
+      return new ApiError(message, statusCode, body, idempotencyKey);
+  }
+}
@@ -0,0 +1,296 @@
+import { ApiResponse, PaginationMeta } from '@zkbridge/shared';
+import { NetworkError, TimeoutError, ZKBridgeError, toApiError } from './errors';
+
+export interface ZKBridgeClientOptions {
+  // Where the API is served, without the /api prefix
+  baseUrl?: string;
+  // Operator key, sent as X-API-Key to the payout, custody, signer administration and webhook routes
+  apiKey?: string;
+  // Custody signer key, sent as X-Signer-Key to the signer routes
+  signerKey?: string;
+  // Access token from client.auth.verify or refresh, sent as a Bearer token to the
+  // routes for the signed-in user. A function is called on every request, so it can
+  // hand out the latest token.
+  accessToken?: string | (() => string | undefined);
+  // Sent with every request
+  headers?: Record<string, string>;
+  // Defaults to the global fetch (browsers, Node 18+)
+  fetch?: typeof fetch;
+  timeoutMs?: number;
+  // Retries of requests that are safe to repeat: GETs, and routes taking an Idempotency-Key
+  maxRetries?: number;
+}
+
+// Per-call overrides
+export interface RequestOptions {
+  // Sent as Idempotency-Key on routes that accept one. A key is generated when
+  // not given; pass your own to retry the same change across processes.
+  idempotencyKey?: string;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+export type AuthScheme = 'apiKey' | 'signerKey' | 'bearer';
+
+export type QueryParams = Record<string, string | number | boolean | string[] | undefined>;
+
+export interface HttpRequest extends RequestOptions {
+  method: 'GET' | 'POST' | 'PATCH' | 'DELETE';
+  path: string;
+  query?: QueryParams;
+  body?: unknown;
+  auth?: AuthScheme;
+  // The route accepts an Idempotency-Key
+  idempotent?: boolean;
+  headers?: Record<string, string>;
+}
+
+// A page of a list route
+export interface Page<T> {
+  data: T[];
+  meta: PaginationMeta;
+}
+
+export const DEFAULT_BASE_URL = 'http://localhost:3001';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_RETRIES = 2;
+const RETRY_BASE_MS = 500;
+const RETRY_MAX_MS = 30000;
+
+// Responses worth retrying: rate limits and a gateway or API that is briefly unavailable
+const RETRY_STATUSES = new Set([429, 502, 503, 504]);
+
+/**
+ * Path with each parameter URL-encoded, e.g. path`/api/webhooks/${id}`
+ */
+export function path(strings: TemplateStringsArray, ...params: Array<string | number>): string {
+  return strings.reduce((result, part, index) =>
+    result + part + (index < params.length ? encodeURIComponent(String(params[index])) : ''), '');
+}
+
+/**
+ * Sends requests to the API and unwraps its { success, data } envelope.
+ *
+ * Failed requests throw: ApiError subclasses for error statuses, NetworkError
+ * when no response arrived. Requests that can be repeated without repeating
+ * their effect are retried with backoff first.
+ */
+export class HttpClient {
+  readonly baseUrl: string;
+
+  constructor(private readonly options: ZKBridgeClientOptions = {}) {
+    this.baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  }
+
+  async get<T>(requestPath: string, request: Omit<HttpRequest, 'method' | 'path'> = {}): Promise<T> {
+    return (await this.request<T>({ ...request, method: 'GET', path: requestPath })).data as T;
+  }
+
+  async post<T>(requestPath: string, body?: unknown, request: Omit<HttpRequest, 'method' | 'path' | 'body'> = {}): Promise<T> {
+    return (await this.request<T>({ ...request, method: 'POST', path: requestPath, body })).data as T;
+  }
+
+  async patch<T>(requestPath: string, body: unknown, request: Omit<HttpRequest, 'method' | 'path' | 'body'> = {}): Promise<T> {
+    return (await this.request<T>({ ...request, method: 'PATCH', path: requestPath, body })).data as T;
+  }
+
+  async delete<T>(requestPath: string, request: Omit<HttpRequest, 'method' | 'path'> = {}): Promise<T> {
+    return (await this.request<T>({ ...request, method: 'DELETE', path: requestPath })).data as T;
+  }
+
+  async page<T>(requestPath: string, request: Omit<HttpRequest, 'method' | 'path'> = {}): Promise<Page<T>> {
+    const response = await this.request<T[]>({ ...request, method: 'GET', path: requestPath });
+    const data = response.data || [];
+    return { data, meta: response.meta || { total: data.length, limit: data.length, offset: 0 } };
+  }
+
+  /**
+   * Send a request, retrying it when that is safe, and return the response envelope
+   */
+  async request<T>(request: HttpRequest): Promise<ApiResponse<T>> {
+    const idempotencyKey = request.idempotent ? request.idempotencyKey || generateIdempotencyKey() : undefined;
+    const retryable = request.method === 'GET' || idempotencyKey !== undefined;
+    const maxRetries = retryable ? request.maxRetries ?? this.options.maxRetries ?? DEFAULT_MAX_RETRIES : 0;
+
+    const headers: Record<string, string> = { ...request.headers };
+    if (idempotencyKey) {
+      headers['Idempotency-Key'] = idempotencyKey;
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      let result: { response: Response; body: ApiResponse<T> | null };
+      try {
+        result = await this.send(request, headers, async response => ({ response, body: await readBody<T>(response) }));
+      } catch (error) {
+        if (attempt < maxRetries && !request.signal?.aborted) {
+          await sleep(retryDelay(attempt, null));
+          continue;
+        }
+        throw error;
+      }
+
+      const { response, body } = result;
+      if (response.ok) {
+        return body || { success: true };
+      }
+
+      const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+      // With an Idempotency-Key, 409 means the first attempt is still running; a finished one is replayed
+      const inProgress = response.status === 409 && idempotencyKey !== undefined && !response.headers.get('Idempotent-Replayed');
+
+      if (attempt < maxRetries && (RETRY_STATUSES.has(response.status) || inProgress)) {
+        await sleep(retryDelay(attempt, retryAfterMs));
+        continue;
+      }
+
+      throw toApiError(response.status, body, retryAfterMs, idempotencyKey);
+    }
+  }
+
+  /**
+   * Open a streaming GET, e.g. Server-Sent Events. Error statuses throw like
+   * other requests; the stream itself ends when `signal` aborts.
+   */
+  async stream(request: Omit<HttpRequest, 'method'>): Promise<Response> {
+    const headers = { Accept: 'text/event-stream', ...request.headers };
+
+    return this.send({ ...request, method: 'GET', timeoutMs: 0 }, headers, async response => {
+      if (!response.ok) {
+        throw toApiError(response.status, await readBody(response), parseRetryAfter(response.headers.get('Retry-After')));
+      }
+      return response;
+    });
+  }
+
+  url(requestPath: string, query: QueryParams = {}): string {
+    const params = new URLSearchParams();
+    for (const [name, value] of Object.entries(query)) {
+      if (value === undefined || value === '') continue;
+      params.append(name, Array.isArray(value) ? value.join(',') : String(value));
+    }
+
+    const search = params.toString();
+    return `${this.baseUrl}${requestPath}${search ? `?${search}` : ''}`;
+  }
+
+  // Fetch and read the response, within the timeout
+  private async send<R>(request: HttpRequest, extraHeaders: Record<string, string>, read: (response: Response) => Promise<R>): Promise<R> {
+    const fetchImpl = this.options.fetch || globalThis.fetch;
+    if (!fetchImpl) {
+      throw new ZKBridgeError('No fetch implementation available; pass one in the client options');
+    }
+
+    const headers: Record<string, string> = { ...this.options.headers, ...extraHeaders };
+    if (request.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+    if (request.auth === 'apiKey' && this.options.apiKey) {
+      headers['X-API-Key'] = this.options.apiKey;
+    }
+    if (request.auth === 'signerKey' && this.options.signerKey) {
+      headers['X-Signer-Key'] = this.options.signerKey;
+    }
+    if (request.auth === 'bearer') {
+      const token = typeof this.options.accessToken === 'function' ? this.options.accessToken() : this.options.accessToken;
+      if (token) {
+        headers['Authorization'] = `Bearer ${token}`;
+      }
+    }
+
+    // Without a timeout the caller's signal is used as is, so it can still end a stream after this returns
+    const timeoutMs = request.timeoutMs ?? this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const controller = timeoutMs > 0 ? new AbortController() : null;
+    const abort = () => controller?.abort();
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    if (controller) {
+      request.signal?.addEventListener('abort', abort);
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs);
+    }
+
+    try {
+      const response = await fetchImpl(this.url(request.path, request.query), {
+        method: request.method,
+        headers,
+        body: request.body !== undefined ? JSON.stringify(request.body) : undefined,
+        signal: controller ? controller.signal : request.signal,
+      });
+      return await read(response);
+    } catch (error) {
+      if (error instanceof ZKBridgeError || request.signal?.aborted) {
+        throw error;
+      }
+      if (timedOut) {
+        throw new TimeoutError(timeoutMs);
+      }
+      throw new NetworkError(describeFetchError(error), error);
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', abort);
+    }
+  }
+}
+
+// The envelope, or null when the body is not JSON (e.g. a proxy error page or the rate limiter's text)
+async function readBody<T>(response: Response): Promise<ApiResponse<T> | null> {
+  const text = await response.text();
+  if (!text) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return response.ok ? null : { success: false, error: text.slice(0, 200) };
+  }
+}
+
+// Node's fetch reports every failure as "fetch failed", with the reason in `cause`
+function describeFetchError(error: unknown): string {
+  if (!(error instanceof Error)) {
+    return 'Request failed';
+  }
+  const cause = (error as { cause?: unknown }).cause;
+  return cause instanceof Error && cause.message ? `${error.message}: ${cause.message}` : error.message;
+}
+
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) {
+    return null;
+  }
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
+
+// Exponential backoff with jitter, unless the API said when to come back
+function retryDelay(attempt: number, retryAfterMs: number | null): number {
+  if (retryAfterMs !== null) {
+    return Math.min(retryAfterMs, RETRY_MAX_MS);
+  }
+  const delay = Math.min(RETRY_BASE_MS * 2 ** attempt, RETRY_MAX_MS);
+  return delay / 2 + Math.random() * delay / 2;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function generateIdempotencyKey(): string {
+  const crypto = (globalThis as { crypto?: { randomUUID?: () => string } }).crypto;
+  if (crypto?.randomUUID) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}${Math.random().toString(36).slice(2)}`;
+}
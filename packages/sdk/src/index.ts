@@ -0,0 +1,20 @@
+// Typed client for the ZKBridge API. Request and response types come from @zkbridge/shared.
+export * from './client';
+export * from './errors';
+export * from './http';
+export * from './stream';
+
+export * from './resources/auth';
+export * from './resources/bitcoin';
+export * from './resources/bridge';
+export * from './resources/custody';
+export * from './resources/ethereum';
+export * from './resources/events';
+export * from './resources/health';
+export * from './resources/onchain';
+export * from './resources/payouts';
+export * from './resources/proofs';
+export * from './resources/signing';
+export * from './resources/transactions';
+export * from './resources/webhooks';
+export * from './resources/zk';
@@ -0,0 +1,62 @@
+import { AuthNonce, AuthSession, AuthUser, formatSiweMessage, SiweVerifyRequest } from '@zkbridge/shared';
+import { HttpClient, RequestOptions } from '../http';
+
+export interface SignInParams {
+  // The wallet's EIP-55 checksummed address
+  address: string;
+  chainId: number;
+  // Host and origin of the app asking to sign in; the API only accepts its configured domains
+  domain: string;
+  uri: string;
+  statement?: string;
+  // Signs the message with personal_sign (EIP-191) and returns the signature
+  sign: (message: string) => Promise<string>;
+}
+
+// /api/auth: Sign-In with Ethereum (EIP-4361). Pass the returned access token to the
+// client's accessToken option for the routes scoped to the signed-in user.
+export class AuthApi {
+  constructor(private readonly http: HttpClient) {}
+
+  nonce(options?: RequestOptions): Promise<AuthNonce> {
+    return this.http.get('/api/auth/nonce', options);
+  }
+
+  verify(request: SiweVerifyRequest, options?: RequestOptions): Promise<AuthSession> {
+    return this.http.post('/api/auth/verify', request, options);
+  }
+
+  /**
+   * Fetch a nonce, have `sign` sign the SIWE message for it and exchange the signature for tokens
+   */
+  async signIn(params: SignInParams, options?: RequestOptions): Promise<AuthSession> {
+    const { nonce, expiresAt } = await this.nonce(options);
+    const message = formatSiweMessage({
+      domain: params.domain,
+      address: params.address,
+      statement: params.statement,
+      uri: params.uri,
+      version: '1',
+      chainId: params.chainId,
+      nonce,
+      issuedAt: new Date().toISOString(),
+      expirationTime: expiresAt,
+    });
+
+    const signature = await params.sign(message);
+    return this.verify({ message, signature }, options);
+  }
+
+  // The refresh token stops working; keep the one returned
+  refresh(refreshToken: string, options?: RequestOptions): Promise<AuthSession> {
+    return this.http.post('/api/auth/refresh', { refreshToken }, options);
+  }
+
+  async logout(refreshToken: string, options?: RequestOptions): Promise<void> {
+    await this.http.post('/api/auth/logout', { refreshToken }, options);
+  }
+
+  me(options?: RequestOptions): Promise<AuthUser> {
+    return this.http.get('/api/auth/me', { ...options, auth: 'bearer' });
+  }
+}
@@ -0,0 +1,54 @@
+import {
+  BitcoinAddressValidation,
+  BitcoinBalance,
+  BitcoinNetworkInfo,
+  BitcoinTransactionDetails,
+  BitcoinVerification,
+  SampleTransaction,
+  TransactionMerkleProof,
+  VerifyBitcoinTransactionRequest,
+} from '@zkbridge/shared';
+import { HttpClient, RequestOptions, path } from '../http';
+
+// /api/bitcoin: Bitcoin testnet data
+export class BitcoinApi {
+  constructor(private readonly http: HttpClient) {}
+
+  // Check that a transaction pays `amount` BTC to `address`
+  verify(request: VerifyBitcoinTransactionRequest, options?: RequestOptions): Promise<BitcoinVerification> {
+    return this.http.post('/api/bitcoin/verify', request, options);
+  }
+
+  transaction(txid: string, options?: RequestOptions): Promise<BitcoinTransactionDetails> {
+    return this.http.get(path`/api/bitcoin/transaction/${txid}`, options);
+  }
+
+  balance(address: string, options?: RequestOptions): Promise<BitcoinBalance> {
+    return this.http.get(path`/api/bitcoin/balance/${address}`, options);
+  }
+
+  networkInfo(options?: RequestOptions): Promise<BitcoinNetworkInfo> {
+    return this.http.get('/api/bitcoin/network-info', options);
+  }
+
+  async blockCount(options?: RequestOptions): Promise<number> {
+    const { blockCount } = await this.http.get<{ blockCount: number }>('/api/bitcoin/block-count', options);
+    return blockCount;
+  }
+
+  validateAddress(address: string, options?: RequestOptions): Promise<BitcoinAddressValidation> {
+    return this.http.post('/api/bitcoin/validate-address', { address }, options);
+  }
+
+  sampleTransactions(options?: RequestOptions): Promise<SampleTransaction[]> {
+    return this.http.get('/api/bitcoin/sample-transactions', options);
+  }
+
+  detailedTransaction(txid: string, options?: RequestOptions): Promise<BitcoinTransactionDetails> {
+    return this.http.get(path`/api/bitcoin/detailed-transaction/${txid}`, options);
+  }
+
+  merkleProof(txid: string, options?: RequestOptions): Promise<TransactionMerkleProof> {
+    return this.http.get(path`/api/bitcoin/detailed-merkle-proof/${txid}`, options);
+  }
+}
@@ -0,0 +1,59 @@
+import {
+  BridgePayload,
+  BridgePayloadRequest,
+  BridgeServiceHealth,
+  BridgeStatistics,
+  BridgeStatus,
+  CancelBridgeRequest,
+  DepositAddressRequest,
+  InitiateBridgeRequest,
+  IssuedDepositAddress,
+  StoreBridgeAttemptRequest,
+  TransactionStatus,
+} from '@zkbridge/shared';
+import { HttpClient, RequestOptions, path } from '../http';
+
+// /api/bridge: starting, following and cancelling bridges
+export class BridgeApi {
+  constructor(private readonly http: HttpClient) {}
+
+  initiate(request: InitiateBridgeRequest, options?: RequestOptions): Promise<BridgeStatus> {
+    return this.http.post('/api/bridge/initiate', request, { ...options, idempotent: true, auth: 'bearer' });
+  }
+
+  // A fresh BTC deposit address, with the OP_RETURN output the deposit must carry
+  depositAddress(request: DepositAddressRequest, options?: RequestOptions): Promise<IssuedDepositAddress> {
+    return this.http.post('/api/bridge/deposit-address', request, { ...options, idempotent: true, auth: 'bearer' });
+  }
+
+  payload(request: BridgePayloadRequest, options?: RequestOptions): Promise<BridgePayload> {
+    return this.http.post('/api/bridge/payload', request, options);
+  }
+
+  status(txId: string, options?: RequestOptions): Promise<BridgeStatus> {
+    return this.http.get(path`/api/bridge/status/${txId}`, options);
+  }
+
+  // Queue verification of the source transaction of one of the signed-in user's bridges
+  verifySource(txId: string, options?: RequestOptions): Promise<{ txId: string; jobId: string; status: string }> {
+    return this.http.post('/api/bridge/verify-source', { txId }, { ...options, idempotent: true, auth: 'bearer' });
+  }
+
+  // Only the signed-in user's own transactions can be cancelled
+  cancel(request: CancelBridgeRequest, options?: RequestOptions): Promise<{ txId: string; status: TransactionStatus }> {
+    return this.http.post('/api/bridge/cancel', request, { ...options, idempotent: true, auth: 'bearer' });
+  }
+
+  stats(options?: RequestOptions): Promise<BridgeStatistics> {
+    return this.http.get('/api/bridge/stats', options);
+  }
+
+  health(options?: RequestOptions): Promise<BridgeServiceHealth> {
+    return this.http.get('/api/bridge/health', options);
+  }
+
+  // Record a bridge attempt for a Bitcoin transaction, with its Merkle proof, for the signed-in user
+  storeAttempt(request: StoreBridgeAttemptRequest, options?: RequestOptions): Promise<{ bridgeId: string }> {
+    return this.http.post('/api/bridge/store-attempt', request, { ...options, idempotent: true, auth: 'bearer' });
+  }
+}
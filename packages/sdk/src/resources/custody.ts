@@ -0,0 +1,24 @@
+import { ConsolidateRequest, CustodySummary, CustodySyncResult, CustodyUtxo, CustodyUtxoFilters, PayoutBatch } from '@zkbridge/shared';
+import { HttpClient, RequestOptions } from '../http';
+
+// /api/custody: the custody wallet's outputs. Operator routes, sent with the client's apiKey.
+export class CustodyApi {
+  constructor(private readonly http: HttpClient) {}
+
+  summary(options?: RequestOptions): Promise<CustodySummary[]> {
+    return this.http.get('/api/custody/summary', { ...options, auth: 'apiKey' });
+  }
+
+  utxos(filters: CustodyUtxoFilters = {}, options?: RequestOptions): Promise<CustodyUtxo[]> {
+    return this.http.get('/api/custody/utxos', { ...options, auth: 'apiKey', query: { ...filters } });
+  }
+
+  sync(options?: RequestOptions): Promise<CustodySyncResult> {
+    return this.http.post('/api/custody/sync', undefined, { ...options, auth: 'apiKey' });
+  }
+
+  // Build a batch merging small outputs into one
+  consolidate(request: ConsolidateRequest, options?: RequestOptions): Promise<PayoutBatch> {
+    return this.http.post('/api/custody/consolidate', request, { ...options, auth: 'apiKey' });
+  }
+}
@@ -0,0 +1,34 @@
+import { EstimateGasRequest, EthereumNetworkInfo, EthereumTransaction, VerificationResult, VerifyEthereumTransactionRequest } from '@zkbridge/shared';
+import { HttpClient, RequestOptions, path } from '../http';
+
+// /api/ethereum: Ethereum network data. Amounts and gas values are decimal strings in wei.
+export class EthereumApi {
+  constructor(private readonly http: HttpClient) {}
+
+  transaction(hash: string, options?: RequestOptions): Promise<EthereumTransaction> {
+    return this.http.get(path`/api/ethereum/transaction/${hash}`, options);
+  }
+
+  verify(request: VerifyEthereumTransactionRequest, options?: RequestOptions): Promise<VerificationResult> {
+    return this.http.post('/api/ethereum/verify', request, options);
+  }
+
+  networkInfo(options?: RequestOptions): Promise<EthereumNetworkInfo> {
+    return this.http.get('/api/ethereum/network-info', options);
+  }
+
+  async balance(address: string, options?: RequestOptions): Promise<string> {
+    const { balance } = await this.http.get<{ balance: string }>(path`/api/ethereum/balance/${address}`, options);
+    return balance;
+  }
+
+  async gasPrice(options?: RequestOptions): Promise<string> {
+    const { gasPrice } = await this.http.get<{ gasPrice: string }>('/api/ethereum/gas-price', options);
+    return gasPrice;
+  }
+
+  async estimateGas(request: EstimateGasRequest, options?: RequestOptions): Promise<string> {
+    const { gasEstimate } = await this.http.post<{ gasEstimate: string }>('/api/ethereum/estimate-gas', request, options);
+    return gasEstimate;
+  }
+}
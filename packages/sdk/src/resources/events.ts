@@ -0,0 +1,17 @@
+import { HttpClient } from '../http';
+import { TRANSACTION_FIREHOSE_PATH, TransactionStreamOptions, openTransactionStream } from '../stream';
+
+// /api/events: live transaction updates over Server-Sent Events
+export class EventsApi {
+  constructor(private readonly http: HttpClient) {}
+
+  // Follow the signed-in user's transaction events; returns a function that closes the stream
+  streamTransactions(options: Omit<TransactionStreamOptions, 'userId'>): () => void {
+    return openTransactionStream(this.http, options);
+  }
+
+  // Follow every user's transaction events, optionally filtered by userId (operator)
+  streamAllTransactions(options: TransactionStreamOptions): () => void {
+    return openTransactionStream(this.http, options, { path: TRANSACTION_FIREHOSE_PATH, auth: 'apiKey' });
+  }
+}
@@ -0,0 +1,24 @@
+import { ApiHealth, BitcoinProviderHealth, RelayerHealth } from '@zkbridge/shared';
+import { HttpClient, RequestOptions } from '../http';
+
+// /api/health
+export class HealthApi {
+  constructor(private readonly http: HttpClient) {}
+
+  check(options?: RequestOptions): Promise<ApiHealth> {
+    return this.http.get('/api/health', options);
+  }
+
+  database(options?: RequestOptions): Promise<{ timestamp: string }> {
+    return this.http.get('/api/health/database', options);
+  }
+
+  // Throws an ApiError with status 503 while the relayer lags; its body still carries the status
+  relayer(options?: RequestOptions): Promise<RelayerHealth> {
+    return this.http.get('/api/health/relayer', options);
+  }
+
+  bitcoin(options?: RequestOptions): Promise<{ providers: BitcoinProviderHealth[]; timestamp: string }> {
+    return this.http.get('/api/health/bitcoin', options);
+  }
+}
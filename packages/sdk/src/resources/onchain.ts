@@ -0,0 +1,33 @@
+import { ChainEvent, ChainEventFilters, IndexedBridge, IndexedBridgeDetails, IndexedBridgeFilters, IndexerStatus, PaginationParams } from '@zkbridge/shared';
+import { HttpClient, Page, RequestOptions, path } from '../http';
+
+// /api/onchain: bridge contract state as indexed from its events
+export class OnchainApi {
+  constructor(private readonly http: HttpClient) {}
+
+  status(options?: RequestOptions): Promise<IndexerStatus> {
+    return this.http.get('/api/onchain/status', options);
+  }
+
+  bridges(filters: IndexedBridgeFilters = {}, options?: RequestOptions): Promise<Page<IndexedBridge>> {
+    return this.http.page('/api/onchain/bridges', { ...options, query: { ...filters } });
+  }
+
+  bridge(bridgeId: string, options?: RequestOptions): Promise<IndexedBridgeDetails> {
+    return this.http.get(path`/api/onchain/bridges/${bridgeId}`, options);
+  }
+
+  // WrappedBTC transfers to or from an address, including mints and burns
+  transfers(address: string, pagination: PaginationParams = {}, options?: RequestOptions): Promise<Page<ChainEvent>> {
+    return this.http.page('/api/onchain/transfers', { ...options, query: { address, ...pagination } });
+  }
+
+  // ProofVerifier verifications of a proof
+  proofVerifications(proofHash: string, options?: RequestOptions): Promise<ChainEvent[]> {
+    return this.http.get(path`/api/onchain/proofs/${proofHash}`, options);
+  }
+
+  events(filters: ChainEventFilters = {}, options?: RequestOptions): Promise<Page<ChainEvent>> {
+    return this.http.page('/api/onchain/events', { ...options, query: { ...filters } });
+  }
+}
@@ -0,0 +1,35 @@
+import { PayoutBatch, PayoutBatchDetails, PayoutBatchFilters } from '@zkbridge/shared';
+import { HttpClient, RequestOptions, path } from '../http';
+
+// /api/payouts: BTC payout batches. Operator routes, sent with the client's apiKey.
+export class PayoutsApi {
+  constructor(private readonly http: HttpClient) {}
+
+  listBatches(filters: PayoutBatchFilters = {}, options?: RequestOptions): Promise<PayoutBatch[]> {
+    return this.http.get('/api/payouts/batches', { ...options, auth: 'apiKey', query: { ...filters } });
+  }
+
+  getBatch(id: string, options?: RequestOptions): Promise<PayoutBatchDetails> {
+    return this.http.get(path`/api/payouts/batches/${id}`, { ...options, auth: 'apiKey' });
+  }
+
+  // Merge a signed PSBT (base64); the batch is broadcast once fully signed
+  submitSignatures(id: string, psbt: string, options?: RequestOptions): Promise<PayoutBatch> {
+    return this.http.post(path`/api/payouts/batches/${id}/signatures`, { psbt }, { ...options, auth: 'apiKey' });
+  }
+
+  // Build a replacement of a stuck batch at a higher fee rate (sat/vB)
+  bumpFee(id: string, feeRate: number, options?: RequestOptions): Promise<PayoutBatch> {
+    return this.http.post(path`/api/payouts/batches/${id}/rbf`, { feeRate }, { ...options, auth: 'apiKey' });
+  }
+
+  // Build a child spending the batch's change at a fee rate (sat/vB) that pays for both
+  cpfp(id: string, feeRate: number, options?: RequestOptions): Promise<PayoutBatch> {
+    return this.http.post(path`/api/payouts/batches/${id}/cpfp`, { feeRate }, { ...options, auth: 'apiKey' });
+  }
+
+  // Batch queued withdrawals now; returns the batches awaiting signatures
+  run(options?: RequestOptions): Promise<PayoutBatch[]> {
+    return this.http.post('/api/payouts/run', undefined, { ...options, auth: 'apiKey' });
+  }
+}
@@ -0,0 +1,15 @@
+import { GenerateMerkleProofRequest, MerkleProof, TransactionMerkleProof, VerificationResult } from '@zkbridge/shared';
+import { HttpClient, RequestOptions } from '../http';
+
+// /api/proofs: Merkle inclusion proofs of Bitcoin transactions
+export class ProofsApi {
+  constructor(private readonly http: HttpClient) {}
+
+  generate(request: GenerateMerkleProofRequest, options?: RequestOptions): Promise<TransactionMerkleProof> {
+    return this.http.post('/api/proofs/generate', request, options);
+  }
+
+  verify(proof: MerkleProof, options?: RequestOptions): Promise<VerificationResult> {
+    return this.http.post('/api/proofs/verify', proof, options);
+  }
+}
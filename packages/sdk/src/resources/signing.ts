@@ -0,0 +1,66 @@
+import {
+  MultisigCustody,
+  PendingSigningRequest,
+  RegisterSignerRequest,
+  RegisteredSigner,
+  SignatureSubmission,
+  Signer,
+  SignerStatus,
+  SigningAuditEvent,
+  SigningAuditFilters,
+  SigningRequest,
+  SigningRequestDetails,
+  SigningRequestStatus,
+  SigningRequestSummary,
+} from '@zkbridge/shared';
+import { HttpClient, RequestOptions, path } from '../http';
+
+// /api/signing: multisig custody signing.
+// The request queue of a signer is sent with the client's signerKey, administration with its apiKey.
+export class SigningApi {
+  constructor(private readonly http: HttpClient) {}
+
+  // Requests waiting for this signer's signature
+  pendingRequests(options?: RequestOptions): Promise<PendingSigningRequest[]> {
+    return this.http.get('/api/signing/requests/pending', { ...options, auth: 'signerKey' });
+  }
+
+  // Submit this signer's partially signed PSBT (base64)
+  submitSignature(requestId: string, psbt: string, options?: RequestOptions): Promise<SignatureSubmission> {
+    return this.http.post(path`/api/signing/requests/${requestId}/signature`, { psbt }, { ...options, auth: 'signerKey' });
+  }
+
+  reject(requestId: string, reason: string, options?: RequestOptions): Promise<SigningRequest> {
+    return this.http.post(path`/api/signing/requests/${requestId}/reject`, { reason }, { ...options, auth: 'signerKey' });
+  }
+
+  // The returned API key cannot be retrieved again
+  registerSigner(request: RegisterSignerRequest, options?: RequestOptions): Promise<RegisteredSigner> {
+    return this.http.post('/api/signing/signers', request, { ...options, auth: 'apiKey' });
+  }
+
+  listSigners(options?: RequestOptions): Promise<Signer[]> {
+    return this.http.get('/api/signing/signers', { ...options, auth: 'apiKey' });
+  }
+
+  // The custody address changes with the set of active signers
+  setSignerStatus(id: string, status: SignerStatus, options?: RequestOptions): Promise<Signer> {
+    return this.http.patch(path`/api/signing/signers/${id}`, { status }, { ...options, auth: 'apiKey' });
+  }
+
+  custody(options?: RequestOptions): Promise<MultisigCustody> {
+    return this.http.get('/api/signing/custody', { ...options, auth: 'apiKey' });
+  }
+
+  listRequests(filters: { status?: SigningRequestStatus; limit?: number } = {}, options?: RequestOptions): Promise<SigningRequestSummary[]> {
+    return this.http.get('/api/signing/requests', { ...options, auth: 'apiKey', query: { ...filters } });
+  }
+
+  getRequest(id: string, options?: RequestOptions): Promise<SigningRequestDetails> {
+    return this.http.get(path`/api/signing/requests/${id}`, { ...options, auth: 'apiKey' });
+  }
+
+  audit(filters: SigningAuditFilters = {}, options?: RequestOptions): Promise<SigningAuditEvent[]> {
+    return this.http.get('/api/signing/audit', { ...options, auth: 'apiKey', query: { ...filters } });
+  }
+}
@@ -0,0 +1,42 @@
+import {
+  BridgeTransactionFilters,
+  BridgeTransactionRecord,
+  CreateBridgeTransactionRequest,
+  TransactionEvent,
+  TransactionStatistics,
+} from '@zkbridge/shared';
+import { HttpClient, Page, RequestOptions, path } from '../http';
+
+// /api/bridge/transactions: bridge transaction records and their event history
+export class TransactionsApi {
+  constructor(private readonly http: HttpClient) {}
+
+  create(request: CreateBridgeTransactionRequest, options?: RequestOptions): Promise<BridgeTransactionRecord> {
+    return this.http.post('/api/bridge/transactions', request, { ...options, idempotent: true, auth: 'bearer' });
+  }
+
+  get(id: string, options?: RequestOptions): Promise<BridgeTransactionRecord> {
+    return this.http.get(path`/api/bridge/transactions/${id}`, options);
+  }
+
+  getByHash(sourceTxHash: string, options?: RequestOptions): Promise<BridgeTransactionRecord> {
+    return this.http.get(path`/api/bridge/transactions/hash/${sourceTxHash}`, options);
+  }
+
+  // The signed-in user's transactions
+  list(filters: BridgeTransactionFilters = {}, options?: RequestOptions): Promise<Page<BridgeTransactionRecord>> {
+    return this.http.page('/api/bridge/transactions', { ...options, query: { ...filters }, auth: 'bearer' });
+  }
+
+  process(id: string, options?: RequestOptions): Promise<BridgeTransactionRecord> {
+    return this.http.post(path`/api/bridge/transactions/${id}/process`, undefined, { ...options, idempotent: true });
+  }
+
+  events(id: string, options?: RequestOptions): Promise<TransactionEvent[]> {
+    return this.http.get(path`/api/bridge/transactions/${id}/events`, options);
+  }
+
+  statistics(options?: RequestOptions): Promise<TransactionStatistics> {
+    return this.http.get('/api/bridge/statistics', options);
+  }
+}
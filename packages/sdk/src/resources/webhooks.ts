@@ -0,0 +1,44 @@
+import {
+  CreateWebhookRequest,
+  CreatedWebhookSubscription,
+  UpdateWebhookRequest,
+  WebhookDelivery,
+  WebhookDeliveryFilters,
+  WebhookSubscription,
+} from '@zkbridge/shared';
+import { HttpClient, Page, RequestOptions, path } from '../http';
+
+// /api/webhooks: signed callbacks for transaction events. Operator routes, sent with the client's apiKey.
+export class WebhooksApi {
+  constructor(private readonly http: HttpClient) {}
+
+  // The returned signing secret is not shown again
+  create(request: CreateWebhookRequest, options?: RequestOptions): Promise<CreatedWebhookSubscription> {
+    return this.http.post('/api/webhooks', request, { ...options, auth: 'apiKey' });
+  }
+
+  list(options?: RequestOptions): Promise<WebhookSubscription[]> {
+    return this.http.get('/api/webhooks', { ...options, auth: 'apiKey' });
+  }
+
+  get(id: string, options?: RequestOptions): Promise<WebhookSubscription> {
+    return this.http.get(path`/api/webhooks/${id}`, { ...options, auth: 'apiKey' });
+  }
+
+  update(id: string, request: UpdateWebhookRequest, options?: RequestOptions): Promise<WebhookSubscription> {
+    return this.http.patch(path`/api/webhooks/${id}`, request, { ...options, auth: 'apiKey' });
+  }
+
+  async delete(id: string, options?: RequestOptions): Promise<void> {
+    await this.http.delete(path`/api/webhooks/${id}`, { ...options, auth: 'apiKey' });
+  }
+
+  deliveries(id: string, filters: WebhookDeliveryFilters = {}, options?: RequestOptions): Promise<Page<WebhookDelivery>> {
+    return this.http.page(path`/api/webhooks/${id}/deliveries`, { ...options, auth: 'apiKey', query: { ...filters } });
+  }
+
+  // Send a delivery again, as a new delivery
+  redeliver(id: string, deliveryId: string, options?: RequestOptions): Promise<WebhookDelivery> {
+    return this.http.post(path`/api/webhooks/${id}/deliveries/${deliveryId}/redeliver`, undefined, { ...options, auth: 'apiKey' });
+  }
+}
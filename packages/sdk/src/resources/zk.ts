@@ -0,0 +1,52 @@
+import {
+  BridgeProofRequest,
+  CircuitInfo,
+  GenerateZKProofRequest,
+  ProofOfKnowledgeDemo,
+  VerificationResult,
+  VerifyBridgeProofRequest,
+  VerifyZKProofRequest,
+  WitnessInputs,
+  ZKProof,
+  ZKServiceHealth,
+} from '@zkbridge/shared';
+import { HttpClient, RequestOptions } from '../http';
+
+// /api/zk: zero-knowledge proofs of bridge deposits
+export class ZkApi {
+  constructor(private readonly http: HttpClient) {}
+
+  prove(request: GenerateZKProofRequest, options?: RequestOptions): Promise<ZKProof> {
+    return this.http.post('/api/zk/prove', request, options);
+  }
+
+  verify(request: VerifyZKProofRequest, options?: RequestOptions): Promise<VerificationResult> {
+    return this.http.post('/api/zk/verify', request, options);
+  }
+
+  // Prove that a Bitcoin deposit backs an Ethereum mint
+  bridgeProof(request: BridgeProofRequest, options?: RequestOptions): Promise<ZKProof> {
+    return this.http.post('/api/zk/bridge-proof', request, options);
+  }
+
+  verifyBridgeProof(request: VerifyBridgeProofRequest, options?: RequestOptions): Promise<VerificationResult> {
+    return this.http.post('/api/zk/verify-bridge-proof', request, options);
+  }
+
+  proofOfKnowledgeDemo(secret: string, options?: RequestOptions): Promise<ProofOfKnowledgeDemo> {
+    return this.http.post('/api/zk/demo/proof-of-knowledge', { secret }, options);
+  }
+
+  async generateWitness(inputs: WitnessInputs, options?: RequestOptions): Promise<unknown> {
+    const { witness } = await this.http.post<{ witness: unknown }>('/api/zk/generate-witness', { inputs }, options);
+    return witness;
+  }
+
+  circuitInfo(options?: RequestOptions): Promise<CircuitInfo> {
+    return this.http.get('/api/zk/circuit-info', options);
+  }
+
+  health(options?: RequestOptions): Promise<ZKServiceHealth> {
+    return this.http.get('/api/zk/health', options);
+  }
+}
@@ -0,0 +1,185 @@
+import { BridgeTransactionRecord, TransactionStreamFilter, TransactionStreamMessage } from '@zkbridge/shared';
+import { ApiError, ZKBridgeError } from './errors';
+import { AuthScheme, HttpClient } from './http';
+
+// 'open' while updates are arriving; otherwise callers should poll
+export type TransactionStreamState = 'connecting' | 'open' | 'closed';
+
+export type TransactionUpdate = NonNullable<TransactionStreamMessage['transaction']>;
+
+export interface TransactionStreamOptions extends TransactionStreamFilter {
+  onMessage: (message: TransactionStreamMessage) => void;
+  onStateChange?: (state: TransactionStreamState) => void;
+  // Connection failures; the stream reconnects after them unless the API refused the request
+  onError?: (error: ZKBridgeError) => void;
+}
+
+// The signed-in user's transactions, with their access token
+export const TRANSACTION_STREAM_PATH = '/api/events/stream';
+// Every transaction, with an operator API key
+export const TRANSACTION_FIREHOSE_PATH = '/api/events/firehose';
+
+const RECONNECT_BASE_MS = 3000;
+const RECONNECT_MAX_MS = 60000;
+
+interface ServerSentEvent {
+  id?: string;
+  event: string;
+  data: string;
+  retry?: number;
+}
+
+/**
+ * Follow transaction events over Server-Sent Events. Returns a function that closes the stream.
+ *
+ * Reads the stream with fetch, so it works in Node as well as browsers and can
+ * send credentials, and reconnects with backoff, resuming after the last event received.
+ */
+export function openTransactionStream(
+  http: HttpClient,
+  options: TransactionStreamOptions,
+  route: { path: string; auth: AuthScheme } = { path: TRANSACTION_STREAM_PATH, auth: 'bearer' }
+): () => void {
+  const { transactionIds, userId, onMessage, onStateChange, onError } = options;
+
+  let lastEventId = options.lastEventId;
+  let reconnectMs = RECONNECT_BASE_MS;
+  let attempts = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let controller: AbortController | undefined;
+  let closed = false;
+
+  const connect = async () => {
+    if (closed) return;
+
+    onStateChange?.('connecting');
+    controller = new AbortController();
+
+    try {
+      const response = await http.stream({
+        path: route.path,
+        auth: route.auth,
+        query: { transactionId: transactionIds, userId },
+        headers: lastEventId ? { 'Last-Event-ID': lastEventId } : {},
+        signal: controller.signal,
+      });
+
+      attempts = 0;
+      onStateChange?.('open');
+
+      await readEvents(response, event => {
+        if (event.retry !== undefined) {
+          reconnectMs = event.retry;
+        }
+        if (event.id) {
+          lastEventId = event.id;
+        }
+        if (event.event !== 'transaction') return;
+
+        try {
+          onMessage(JSON.parse(event.data));
+        } catch (error) {
+          onError?.(new ZKBridgeError(`Invalid transaction stream message: ${error instanceof Error ? error.message : error}`));
+        }
+      });
+    } catch (error) {
+      if (closed) return;
+
+      const failure = error instanceof ZKBridgeError ? error : new ZKBridgeError(error instanceof Error ? error.message : 'Stream failed');
+      onError?.(failure);
+
+      // Refused requests fail the same way on every attempt; busy or unavailable servers are retried
+      if (failure instanceof ApiError && failure.statusCode < 500 && failure.statusCode !== 429) {
+        closed = true;
+        onStateChange?.('closed');
+        return;
+      }
+    }
+
+    if (closed) return;
+    onStateChange?.('closed');
+
+    const delay = Math.min(reconnectMs * 2 ** attempts, RECONNECT_MAX_MS);
+    attempts++;
+    timer = setTimeout(connect, delay);
+  };
+
+  connect();
+
+  return () => {
+    closed = true;
+    if (timer) clearTimeout(timer);
+    controller?.abort();
+  };
+}
+
+/**
+ * Apply a streamed update to a transaction fetched from the API
+ */
+export function applyTransactionUpdate(transaction: BridgeTransactionRecord, update: TransactionUpdate): BridgeTransactionRecord {
+  return {
+    ...transaction,
+    status: update.status,
+    confirmations: update.confirmations,
+    targetTxHash: update.targetTxHash,
+    targetAmount: update.targetAmount,
+    errorMessage: update.errorMessage,
+    completedAt: update.completedAt,
+    updatedAt: update.updatedAt,
+  };
+}
+
+// Parse an event stream (https://html.spec.whatwg.org/multipage/server-sent-events.html) until it ends
+async function readEvents(response: Response, dispatch: (event: ServerSentEvent) => void): Promise<void> {
+  if (!response.body) {
+    throw new ZKBridgeError('Streaming responses are not supported by this fetch implementation');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event: ServerSentEvent = { event: 'message', data: '' };
+  let hasData = false;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split(/\r\n|\r|\n/);
+    // The last piece may be an incomplete line
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (line === '') {
+        if (hasData) {
+          dispatch(event);
+        }
+        event = { event: 'message', data: '' };
+        hasData = false;
+        continue;
+      }
+      if (line.startsWith(':')) continue;
+
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+      switch (field) {
+        case 'event':
+          event.event = value;
+          break;
+        case 'data':
+          event.data = hasData ? `${event.data}\n${value}` : value;
+          hasData = true;
+          break;
+        case 'id':
+          event.id = value;
+          break;
+        case 'retry':
+          if (/^\d+$/.test(value)) event.retry = parseInt(value);
+          break;
+      }
+    }
+  }
+}
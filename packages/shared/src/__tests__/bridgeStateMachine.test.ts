@@ -0,0 +1,111 @@
+import { BridgeDirection, TransactionStatus } from '../types/bridge';
+import {
+  BRIDGE_TRANSITIONS,
+  canTransition,
+  getAllowedTransitions,
+  IN_PROGRESS_STATUSES,
+  isTerminalStatus,
+  TERMINAL_STATUSES,
+} from '../utils/bridgeStateMachine';
+
+const { BITCOIN_TO_ETHEREUM, ETHEREUM_TO_BITCOIN } = BridgeDirection;
+const {
+  PENDING,
+  VERIFYING,
+  AWAITING_CONFIRMATIONS,
+  CONFIRMED,
+  PROOF_GENERATED,
+  SUBMITTING,
+  COMPLETED,
+  FAILED,
+  CANCELLED,
+} = TransactionStatus;
+
+const ALL_STATUSES = Object.values(TransactionStatus);
+
+describe('bridge state machine', () => {
+  describe('BTC → ETH', () => {
+    it.each([
+      [PENDING, VERIFYING],
+      [VERIFYING, CONFIRMED],
+      [CONFIRMED, PROOF_GENERATED],
+      [PROOF_GENERATED, SUBMITTING],
+      [SUBMITTING, COMPLETED],
+    ])('moves along the happy path from %s to %s', (from, to) => {
+      expect(canTransition(BITCOIN_TO_ETHEREUM, from, to)).toBe(true);
+    });
+
+    it.each([CONFIRMED, PROOF_GENERATED])('rolls back from %s when a reorg orphans the block', from => {
+      expect(canTransition(BITCOIN_TO_ETHEREUM, from, AWAITING_CONFIRMATIONS)).toBe(true);
+    });
+
+    it.each([
+      [CONFIRMED, SUBMITTING, 'minting without a proof'],
+      [VERIFYING, PROOF_GENERATED, 'proving an unconfirmed deposit'],
+      [PENDING, COMPLETED, 'skipping every stage'],
+      [SUBMITTING, AWAITING_CONFIRMATIONS, 'rolling back after submission'],
+    ])('refuses %s → %s (%s)', (from, to) => {
+      expect(canTransition(BITCOIN_TO_ETHEREUM, from, to)).toBe(false);
+    });
+  });
+
+  describe('ETH → BTC', () => {
+    it.each([
+      [PENDING, VERIFYING],
+      [VERIFYING, AWAITING_CONFIRMATIONS],
+      [AWAITING_CONFIRMATIONS, VERIFYING],
+      [VERIFYING, CONFIRMED],
+      [CONFIRMED, SUBMITTING],
+      [SUBMITTING, COMPLETED],
+    ])('moves from %s to %s', (from, to) => {
+      expect(canTransition(ETHEREUM_TO_BITCOIN, from, to)).toBe(true);
+    });
+
+    it('never generates a proof', () => {
+      expect(ALL_STATUSES.filter(from => canTransition(ETHEREUM_TO_BITCOIN, from, PROOF_GENERATED))).toEqual([]);
+      expect(getAllowedTransitions(ETHEREUM_TO_BITCOIN, PROOF_GENERATED)).toEqual([]);
+    });
+
+    it.each([
+      [PENDING, AWAITING_CONFIRMATIONS, 'waiting on an unverified burn'],
+      [CONFIRMED, AWAITING_CONFIRMATIONS, 'rolling back a confirmed burn'],
+      [PENDING, SUBMITTING, 'paying out before verification'],
+    ])('refuses %s → %s (%s)', (from, to) => {
+      expect(canTransition(ETHEREUM_TO_BITCOIN, from, to)).toBe(false);
+    });
+  });
+
+  describe.each([BITCOIN_TO_ETHEREUM, ETHEREUM_TO_BITCOIN])('in both directions (%s)', direction => {
+    it('leaves no terminal status', () => {
+      for (const from of TERMINAL_STATUSES) {
+        expect(ALL_STATUSES.filter(to => canTransition(direction, from, to))).toEqual([]);
+      }
+    });
+
+    it('can fail from every status still in progress that it uses', () => {
+      const used = IN_PROGRESS_STATUSES.filter(from => BRIDGE_TRANSITIONS[direction][from].length > 0);
+
+      expect(used.filter(from => !canTransition(direction, from, FAILED))).toEqual([]);
+    });
+
+    it('can cancel until the target transaction is submitted, and not after', () => {
+      expect(canTransition(direction, PENDING, CANCELLED)).toBe(true);
+      expect(canTransition(direction, CONFIRMED, CANCELLED)).toBe(true);
+      expect(canTransition(direction, SUBMITTING, CANCELLED)).toBe(false);
+    });
+
+    it('refuses to stay in the same status', () => {
+      expect(ALL_STATUSES.filter(status => canTransition(direction, status, status))).toEqual([]);
+    });
+  });
+
+  it('refuses unknown directions and statuses', () => {
+    expect(getAllowedTransitions('SIDEWAYS', PENDING)).toEqual([]);
+    expect(canTransition(BITCOIN_TO_ETHEREUM, 'LOST', VERIFYING)).toBe(false);
+    expect(canTransition(BITCOIN_TO_ETHEREUM, PENDING, 'LOST')).toBe(false);
+  });
+
+  it('treats only completed, failed and cancelled as terminal', () => {
+    expect(ALL_STATUSES.filter(isTerminalStatus)).toEqual([COMPLETED, FAILED, CANCELLED]);
+  });
+});
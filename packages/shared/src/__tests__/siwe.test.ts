@@ -0,0 +1,69 @@
+import { formatSiweMessage, parseSiweMessage, SiweMessage, SiweMessageError } from '../utils/siwe';
+
+const message: SiweMessage = {
+  domain: 'bridge.example.com',
+  address: '0x19E7E376E7C213B7E7e7e46cc70A5dD086DAff2A',
+  statement: 'Sign in to ZKBridge',
+  uri: 'https://bridge.example.com',
+  version: '1',
+  chainId: 11155111,
+  nonce: 'a1b2c3d4e5f6a7b8',
+  issuedAt: '2025-01-01T00:00:00.000Z',
+};
+
+const text = formatSiweMessage(message);
+
+// The formatted message with one line swapped, dropped (replacement null) or added
+const withLine = (match: string, replacement: string | null) =>
+  text.split('\n').flatMap(line => (line.startsWith(match) ? (replacement === null ? [] : [replacement]) : [line])).join('\n');
+
+describe('SIWE messages', () => {
+  it('formats the EIP-4361 layout', () => {
+    expect(text).toBe([
+      'bridge.example.com wants you to sign in with your Ethereum account:',
+      '0x19E7E376E7C213B7E7e7e46cc70A5dD086DAff2A',
+      '',
+      'Sign in to ZKBridge',
+      '',
+      'URI: https://bridge.example.com',
+      'Version: 1',
+      'Chain ID: 11155111',
+      'Nonce: a1b2c3d4e5f6a7b8',
+      'Issued At: 2025-01-01T00:00:00.000Z',
+    ].join('\n'));
+  });
+
+  it('parses what it formats', () => {
+    const full: SiweMessage = {
+      ...message,
+      expirationTime: '2025-01-01T00:10:00.000Z',
+      notBefore: '2025-01-01T00:00:00.000Z',
+      requestId: 'request-1',
+      resources: ['https://bridge.example.com/terms', 'ipfs://bafybeigdyrzt'],
+    };
+
+    expect(parseSiweMessage(formatSiweMessage(full))).toEqual(full);
+  });
+
+  it('parses a message without a statement', () => {
+    const parsed = parseSiweMessage(formatSiweMessage({ ...message, statement: undefined }));
+
+    expect(parsed.statement).toBeUndefined();
+    expect(parsed.nonce).toBe(message.nonce);
+  });
+
+  it.each([
+    ['a foreign header', withLine('bridge.example.com', 'bridge.example.com wants you to sign in:'), 'Sign-In with Ethereum header'],
+    ['a malformed address', withLine('0x19E7', '0x1234'), 'Invalid address'],
+    ['a missing nonce', withLine('Nonce:', null), 'Missing Nonce'],
+    ['a short nonce', withLine('Nonce:', 'Nonce: abc'), 'Invalid nonce'],
+    ['another version', withLine('Version:', 'Version: 2'), 'Unsupported version'],
+    ['a non-numeric chain id', withLine('Chain ID:', 'Chain ID: sepolia'), 'Invalid chain ID'],
+    ['a bad timestamp', withLine('Issued At:', 'Issued At: yesterday'), 'Invalid issuedAt timestamp'],
+    ['fields out of order', withLine('Version:', null).replace('Chain ID: 11155111', 'Chain ID: 11155111\nVersion: 1'), 'Missing Version'],
+    ['trailing lines', `${text}\nExtra: field`, 'Unexpected line'],
+  ])('rejects %s', (_case, malformed, error) => {
+    expect(() => parseSiweMessage(malformed)).toThrow(SiweMessageError);
+    expect(() => parseSiweMessage(malformed)).toThrow(error);
+  });
+});
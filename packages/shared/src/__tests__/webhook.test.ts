@@ -0,0 +1,61 @@
+import { createHmac } from 'crypto';
+import { signWebhookPayload, verifyWebhookSignature, WEBHOOK_TOLERANCE_SECONDS } from '../utils/webhook';
+
+const secret = 'whsec_test';
+const body = JSON.stringify({ type: 'transaction.completed', data: { id: 'tx-1', amount: '100000' } });
+const signedAt = 1700000000;
+const now = signedAt * 1000;
+const signature = signWebhookPayload(secret, signedAt, body);
+
+const verify = (overrides: Partial<Parameters<typeof verifyWebhookSignature>[0]> = {}) =>
+  verifyWebhookSignature({ secret, body, timestamp: String(signedAt), signature, now, ...overrides });
+
+describe('webhook signatures', () => {
+  it('signs the timestamp and the raw body', () => {
+    const digest = createHmac('sha256', secret).update(`${signedAt}.${body}`).digest('hex');
+
+    expect(signature).toBe(`sha256=${digest}`);
+  });
+
+  it('verifies a fresh delivery', () => {
+    expect(verify()).toBe(true);
+  });
+
+  it('verifies the raw bytes of the body', () => {
+    expect(verify({ body: new TextEncoder().encode(body) })).toBe(true);
+  });
+
+  it.each([
+    ['another secret', { secret: 'whsec_other' }],
+    ['a body changed after signing', { body: body.replace('100000', '900000') }],
+    ['the body re-serialized with other whitespace', { body: JSON.stringify(JSON.parse(body), null, 2) }],
+    ['the signature moved to another timestamp', { timestamp: signedAt + 1 }],
+    ['a truncated signature', { signature: signature.slice(0, -2) }],
+    ['a signature without its scheme', { signature: signature.slice('sha256='.length) }],
+    ['a timestamp that is not an integer', { timestamp: `${signedAt}.5` }],
+  ])('rejects %s', (_case, overrides) => {
+    expect(verify(overrides)).toBe(false);
+  });
+
+  describe('tolerance', () => {
+    it.each([
+      ['at the edge of the tolerance', WEBHOOK_TOLERANCE_SECONDS, true],
+      ['just past it', WEBHOOK_TOLERANCE_SECONDS + 1, false],
+    ])('%s, in either direction', (_case, skew, accepted) => {
+      expect(verify({ now: now + skew * 1000 })).toBe(accepted);
+      expect(verify({ now: now - skew * 1000 })).toBe(accepted);
+    });
+
+    it('uses the tolerance given', () => {
+      expect(verify({ now: now + 60000, toleranceSeconds: 30 })).toBe(false);
+      expect(verify({ now: now + 3600000, toleranceSeconds: 7200 })).toBe(true);
+    });
+
+    it('checks against the current time by default', () => {
+      const current = Math.floor(Date.now() / 1000);
+
+      expect(verifyWebhookSignature({ secret, body, timestamp: current, signature: signWebhookPayload(secret, current, body) })).toBe(true);
+      expect(verifyWebhookSignature({ secret, body, timestamp: signedAt, signature })).toBe(false);
+    });
+  });
+});
@@ -1,6 +1,15 @@
 // Export all types
 export * from './types/bridge';
 
+export * from './types/api';
+
 // Export all utilities
 export * from './utils/crypto';
 
+export * from './utils/headerChain';
+
+export * from './utils/bridgeStateMachine';
+
+export * from './utils/webhook';
+
+export * from './utils/siwe';
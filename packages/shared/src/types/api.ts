@@ -0,0 +1,766 @@
+import { BridgeDirection, TransactionStatus } from './bridge';
+
+// Request and response bodies of the REST API, as they arrive over the wire:
+// dates are ISO 8601 strings and amounts are decimal strings unless noted.
+// Each response body is wrapped in ApiResponse.
+
+// Pagination of list responses, in ApiResponse.meta
+export interface PaginationMeta {
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+// A rejected field in a 400 response, in ApiResponse.details
+export interface ValidationIssue {
+  type: string;
+  msg: string;
+  path?: string;
+  location?: string;
+  value?: unknown;
+}
+
+export interface PaginationParams {
+  limit?: number;
+  offset?: number;
+}
+
+// Result of the verify routes
+export interface VerificationResult {
+  isValid: boolean;
+}
+
+// Health
+
+export interface ApiHealth {
+  timestamp: string;
+  uptime: number;
+  environment: string;
+}
+
+export interface RelayerHealth {
+  status: string;
+  relayHeight: number;
+  bitcoinHeight: number;
+  bitcoinTipHeight: number | null;
+  lag: number | null;
+  pendingTxHash: string | null;
+  lastSubmittedAt: string | null;
+  lastError: string | null;
+  updatedAt: string | null;
+  maxLag: number;
+  timestamp: string;
+}
+
+export interface BitcoinProviderHealth {
+  name: string;
+  priority: number;
+  score: number;
+  healthy: boolean;
+  consecutiveFailures: number;
+  totalCalls: number;
+  totalFailures: number;
+  lastLatencyMs: number | null;
+  lastError: string | null;
+  cooldownUntil: string | null;
+}
+
+// Bridges
+
+// A bridge transaction as stored by the API
+// sourceAmount and targetAmount are whole satoshis in both directions (wrapped BTC also has 8 decimals)
+export interface BridgeTransactionRecord {
+  id: string;
+  direction: BridgeDirection;
+  status: TransactionStatus;
+  sourceTxHash: string;
+  sourceAmount: string;
+  sourceAddress: string;
+  targetTxHash: string | null;
+  targetAmount: string | null;
+  targetAddress: string;
+  zkProof: string | null; // JSON
+  zkProofHash: string | null;
+  merkleProof: string | null; // JSON
+  merkleRoot: string | null;
+  blockHeight: number | null;
+  blockHash: string | null;
+  confirmations: number;
+  gasUsed: string | null;
+  gasPrice: string | null;
+  fee: string | null;
+  errorMessage: string | null;
+  errorCount: number;
+  requiresReview: boolean;
+  reviewReason: string | null;
+  proofGeneratedAt: string | null;
+  proofVerifiedAt: string | null;
+  submittedAt: string | null;
+  completedAt: string | null;
+  estimatedCompletionTime: string | null;
+  network: string;
+  userId: string | null;
+  depositAddressId: string | null;
+  depositOutpoints: string | null; // JSON array of "txid:vout"
+  initiateTxHash: string | null;
+  contractBridgeId: string | null;
+  relayTxHash: string | null;
+  relayRecordedAt: string | null;
+  proofTxHash: string | null;
+  createdAt: string;
+  updatedAt: string;
+  user?: { id: string; address: string; createdAt: string; updatedAt: string } | null;
+}
+
+export interface TransactionEvent {
+  id: string;
+  transactionId: string;
+  eventType: string;
+  eventData: string | null; // JSON
+  message: string | null;
+  createdAt: string;
+}
+
+export interface TransactionStatistics {
+  total: number;
+  pending: number;
+  completed: number;
+  failed: number;
+  totalVolume: string;
+}
+
+// Sent with an access token, the transaction belongs to the signed-in user
+export interface CreateBridgeTransactionRequest {
+  direction: BridgeDirection;
+  sourceTxHash: string;
+  sourceAmount: string; // Satoshis
+  sourceAddress: string;
+  targetAddress: string;
+  depositAddress?: string;
+}
+
+// Lists only the signed-in user's transactions
+export interface BridgeTransactionFilters extends PaginationParams {
+  status?: TransactionStatus;
+  direction?: BridgeDirection;
+}
+
+export type BridgeChain = 'bitcoin' | 'ethereum';
+
+// Sent with an access token, the bridge belongs to the signed-in user
+export interface InitiateBridgeRequest {
+  fromChain: BridgeChain;
+  toChain: BridgeChain;
+  sourceTxHash: string;
+  sourceAmount: string; // Satoshis
+  sourceAddress: string;
+  targetAddress: string;
+  depositAddress?: string;
+}
+
+// Summary returned by /api/bridge/initiate and /api/bridge/status
+export interface BridgeStatus {
+  id: string;
+  status: TransactionStatus;
+  fromChain: BridgeChain;
+  toChain: BridgeChain;
+  sourceTxHash: string;
+  targetTxHash?: string;
+  amount: string;
+  confirmations: number;
+  createdAt: string;
+  updatedAt: string;
+  error?: string;
+}
+
+export type DepositAddressType = 'P2WPKH' | 'P2TR';
+
+// Sent with an access token, the address belongs to the signed-in user
+export interface DepositAddressRequest {
+  targetAddress: string;
+  addressType?: DepositAddressType;
+}
+
+export interface IssuedDepositAddress {
+  id: string;
+  address: string;
+  addressType: DepositAddressType;
+  derivationPath: string;
+  targetAddress: string;
+  opReturnScript: string; // Hex
+  createdAt: string;
+}
+
+export interface BridgePayloadRequest {
+  targetAddress: string;
+  nonce?: string; // Hex, at most 32 bytes
+}
+
+export interface BridgePayload {
+  targetAddress: string;
+  chainId: number;
+  nonce?: string;
+  opReturnScript: string; // Hex
+}
+
+export interface CancelBridgeRequest {
+  txId: string;
+  reason?: string;
+}
+
+// Stored for the signed-in user
+export interface StoreBridgeAttemptRequest {
+  bitcoinTxId: string;
+  ethereumAddress: string;
+  amount?: string; // Satoshis requested; defaults to what reached bridge custody
+}
+
+export interface BridgeStatistics {
+  totalTransactions: number;
+  completedTransactions: number;
+  pendingTransactions: number;
+  failedTransactions: number;
+  successRate: number; // Percent
+  totalVolume: string;
+}
+
+export interface BridgeServiceHealth {
+  status: string;
+  timestamp: string;
+  services: Record<string, string>;
+}
+
+// Bitcoin
+
+// A transaction as returned by the Bitcoin data providers (Esplora format); values in satoshis
+export interface BitcoinTransactionDetails {
+  txid: string;
+  version: number;
+  locktime: number;
+  vin: Array<{
+    txid: string;
+    vout: number;
+    prevout: {
+      scriptpubkey: string;
+      scriptpubkey_asm: string;
+      scriptpubkey_type: string;
+      scriptpubkey_address: string;
+      value: number;
+    };
+    scriptsig: string;
+    scriptsig_asm: string;
+    witness?: string[];
+    is_coinbase: boolean;
+    sequence: number;
+  }>;
+  // Outputs are identified by their index in this array; Esplora does not number them
+  vout: Array<{
+    value: number;
+    scriptpubkey: string;
+    scriptpubkey_asm: string;
+    scriptpubkey_type: string;
+    scriptpubkey_address: string;
+  }>;
+  size: number;
+  weight: number;
+  fee: number;
+  status: {
+    confirmed: boolean;
+    block_height?: number;
+    block_hash?: string;
+    block_time?: number;
+  };
+}
+
+export interface VerifyBitcoinTransactionRequest {
+  txid: string;
+  address: string;
+  amount: number;
+}
+
+export interface BitcoinVerification extends VerificationResult {
+  transaction: BitcoinTransactionDetails;
+  confirmations: number;
+}
+
+export interface BitcoinBalance {
+  balance: number; // BTC, confirmed
+  confirmed: number; // Satoshis
+  unconfirmed: number; // Satoshis
+}
+
+export interface BitcoinNetworkInfo {
+  network: string;
+  chain: string;
+  blocks: number;
+  difficulty: number;
+  hashrate: string;
+}
+
+export interface BitcoinAddressValidation extends VerificationResult {
+  type?: string;
+}
+
+export interface SampleTransaction {
+  txHash: string;
+  description: string;
+}
+
+// Inclusion proof of a Bitcoin transaction in its block
+export interface TransactionMerkleProof {
+  merkleRoot: string;
+  proofPath: string[];
+  proofIndex: number;
+  transactionHash: string;
+  blockHeight: number;
+  blockHash: string;
+}
+
+export interface GenerateMerkleProofRequest {
+  txid: string;
+  blockHash?: string;
+}
+
+// Ethereum
+
+export interface VerifyEthereumTransactionRequest {
+  hash: string;
+  address: string;
+  amount: string;
+}
+
+export interface EthereumNetworkInfo {
+  chainId: string;
+  name: string;
+  blockNumber: number;
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+}
+
+export interface EstimateGasRequest {
+  to: string;
+  value: string;
+  data?: string;
+}
+
+// Zero-knowledge proofs
+
+export interface GenerateZKProofRequest {
+  secret: string;
+  publicInput: string;
+  additionalData?: Record<string, unknown>;
+}
+
+export interface VerifyZKProofRequest {
+  proof: Record<string, unknown>;
+  publicSignals: string[];
+}
+
+export interface BridgeProofRequest {
+  bitcoinTxData: {
+    txid: string;
+    amount: number | string;
+    fromAddress: string;
+    confirmations: number;
+  };
+  ethereumData: {
+    address: string;
+    amount: string;
+  };
+}
+
+export interface VerifyBridgeProofRequest {
+  proof: Record<string, unknown>;
+  expectedData: {
+    bitcoinTxHash: string;
+    bitcoinAmount: number | string;
+    ethereumAddress: string;
+    ethereumAmount: string;
+  };
+}
+
+export interface ProofOfKnowledgeDemo extends VerificationResult {
+  proof: Record<string, unknown>;
+  message: string;
+}
+
+export interface WitnessInputs {
+  secret?: string;
+  publicInput?: string;
+  nonce?: string;
+  timestamp?: number;
+}
+
+export interface CircuitInfo {
+  isAvailable: boolean;
+  circuitPath: string;
+  provingKeyPath: string;
+  verificationKeyPath: string;
+  lastModified: string | null;
+}
+
+export interface ZKServiceHealth {
+  status: string;
+  circuitAvailable: boolean;
+  timestamp: string;
+}
+
+// Payouts and custody (operator routes)
+
+export type PayoutBatchStatus = 'UNSIGNED' | 'BROADCAST' | 'CONFIRMED' | 'REPLACED' | 'FAILED';
+export type PayoutBatchKind = 'PAYOUT' | 'CONSOLIDATION' | 'CPFP';
+
+// Amounts in satoshis, fee rates in sat/vB
+export interface PayoutBatch {
+  id: string;
+  txid: string;
+  kind: PayoutBatchKind;
+  status: PayoutBatchStatus;
+  replacesId: string | null;
+  parentId: string | null;
+  psbt: string; // Base64
+  inputs: string; // JSON array of "txid:vout"
+  feeRate: number;
+  fee: string;
+  totalAmount: string;
+  changeAmount: string;
+  confirmations: number;
+  lastError: string | null;
+  broadcastAt: string | null;
+  confirmedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Withdrawal {
+  id: string;
+  transactionId: string;
+  destination: string;
+  amount: string;
+  status: 'QUEUED' | 'BATCHED' | 'BROADCAST' | 'CONFIRMED' | 'FAILED';
+  batchId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CustodyUtxoStatus = 'PENDING' | 'CONFIRMED' | 'SPENT';
+
+export interface CustodyUtxo {
+  id: string;
+  txid: string;
+  vout: number;
+  address: string;
+  scriptPubKey: string;
+  witnessScript: string | null;
+  value: string;
+  status: CustodyUtxoStatus;
+  blockHeight: number | null;
+  batchId: string | null;
+  spentTxid: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PayoutBatchDetails extends PayoutBatch {
+  withdrawals: Withdrawal[];
+  utxos: CustodyUtxo[];
+}
+
+export interface PayoutBatchFilters {
+  status?: PayoutBatchStatus;
+  kind?: PayoutBatchKind;
+  limit?: number;
+}
+
+export interface CustodySummary {
+  status: CustodyUtxoStatus;
+  count: number;
+  value: string;
+  reservedCount: number;
+}
+
+export interface CustodyUtxoFilters {
+  status?: CustodyUtxoStatus;
+  address?: string;
+  limit?: number;
+}
+
+export interface CustodySyncResult {
+  added: number;
+  confirmed: number;
+  spent: number;
+}
+
+export interface ConsolidateRequest {
+  feeRate: number;
+  maxInputs?: number;
+}
+
+// Custody signing
+
+export type SignerStatus = 'ACTIVE' | 'DISABLED';
+export type SigningRequestStatus = 'PENDING' | 'COMPLETED' | 'EXPIRED' | 'FAILED';
+
+export interface Signer {
+  id: string;
+  name: string;
+  publicKey: string; // Compressed secp256k1, hex
+  status: SignerStatus;
+  lastSeenAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RegisterSignerRequest {
+  name: string;
+  publicKey: string;
+}
+
+// The signer's API key is only returned when it is registered
+export interface RegisteredSigner {
+  id: string;
+  name: string;
+  publicKey: string;
+  status: SignerStatus;
+  apiKey: string;
+}
+
+export interface MultisigCustody {
+  address: string;
+  witnessScript: string; // Hex
+  threshold: number;
+  publicKeys: string[];
+}
+
+export interface SigningRequest {
+  id: string;
+  batchId: string;
+  psbt: string; // Base64
+  threshold: number;
+  status: SigningRequestStatus;
+  expiresAt: string;
+  completedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SigningResponse {
+  id: string;
+  requestId: string;
+  signerId: string;
+  status: 'PENDING' | 'FETCHED' | 'SIGNED' | 'REJECTED' | 'TIMED_OUT';
+  reason: string | null;
+  fetchedAt: string | null;
+  respondedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SigningAuditEvent {
+  id: string;
+  requestId: string | null;
+  signerId: string | null;
+  action: string;
+  detail: string | null; // JSON
+  createdAt: string;
+}
+
+export interface SigningRequestSummary extends SigningRequest {
+  responses: Array<SigningResponse & { signer: { id: string; name: string } }>;
+}
+
+export interface SigningRequestDetails extends SigningRequest {
+  responses: Array<SigningResponse & { signer: { id: string; name: string; publicKey: string } }>;
+  events: SigningAuditEvent[];
+}
+
+export interface SigningAuditFilters {
+  requestId?: string;
+  signerId?: string;
+  limit?: number;
+}
+
+// A request as handed to the signer that has to sign it
+export interface PendingSigningRequest {
+  requestId: string;
+  batchId: string;
+  psbt: string; // Base64
+  threshold: number;
+  expiresAt: string;
+}
+
+export interface SignatureSubmission {
+  requestId: string;
+  batchId: string;
+  txid: string;
+  complete: boolean;
+}
+
+// On-chain index
+
+export type IndexedContract = 'BridgeContract' | 'WrappedBTC' | 'ProofVerifier';
+export type IndexedBridgeStatus = 'INITIATED' | 'COMPLETED' | 'CLAIMED' | 'CANCELLED';
+
+export interface IndexerStatus {
+  status: string;
+  lastBlock: number;
+  confirmedBlock: number;
+  headBlock: number | null;
+  lag: number | null;
+  confirmations: number;
+  contracts: Array<{ name: string; address: string }>;
+  lastError: string | null;
+  updatedAt: string | null;
+}
+
+// A BridgeContract bridge as indexed from its events
+export interface IndexedBridge {
+  bridgeId: string;
+  user: string;
+  amount: string; // Satoshis
+  fee: string | null;
+  btcTxHash: string;
+  btcAddress: string;
+  claimAddress: string | null;
+  cancelReason: string | null;
+  status: IndexedBridgeStatus;
+  initiatedTxHash: string;
+  initiatedAt: string;
+  completedAt: string | null;
+  claimedAt: string | null;
+  cancelledAt: string | null;
+  lastBlockNumber: number;
+  confirmed: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ChainEvent {
+  id: string;
+  contract: IndexedContract;
+  address: string;
+  name: string;
+  blockNumber: number;
+  blockHash: string;
+  txHash: string;
+  logIndex: number;
+  args: Record<string, unknown>; // Numbers as decimal strings
+  account: string | null;
+  counterparty: string | null;
+  key: string | null;
+  confirmed: boolean;
+  timestamp: string;
+  createdAt: string;
+}
+
+export interface IndexedBridgeDetails extends IndexedBridge {
+  events: ChainEvent[];
+}
+
+export interface IndexedBridgeFilters extends PaginationParams {
+  user?: string;
+  status?: IndexedBridgeStatus;
+  btcTxHash?: string;
+}
+
+export interface ChainEventFilters extends PaginationParams {
+  contract?: IndexedContract;
+  name?: string;
+  address?: string;
+  fromBlock?: number;
+  toBlock?: number;
+  confirmed?: boolean;
+}
+
+// Sign-In with Ethereum (EIP-4361)
+
+export interface AuthNonce {
+  nonce: string;
+  expiresAt: string;
+}
+
+export interface SiweVerifyRequest {
+  // Signed text, as built by formatSiweMessage
+  message: string;
+  signature: string;
+}
+
+export interface AuthUser {
+  id: string;
+  address: string;
+  createdAt?: string;
+}
+
+export interface AuthSession {
+  accessToken: string; // JWT, sent as Authorization: Bearer <token>
+  tokenType: 'Bearer';
+  expiresIn: number; // Seconds
+  refreshToken: string; // Single use
+  refreshExpiresAt: string;
+  user: AuthUser;
+}
+
+// Webhooks (operator routes)
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  events: string[]; // Event types, or ['*'] for all
+  description: string | null;
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// The signing secret is only returned when the subscription is created
+export interface CreatedWebhookSubscription extends WebhookSubscription {
+  secret: string;
+}
+
+export interface CreateWebhookRequest {
+  url: string;
+  events?: string[];
+  description?: string;
+}
+
+export interface UpdateWebhookRequest {
+  url?: string;
+  events?: string[];
+  description?: string;
+  active?: boolean;
+}
+
+export type WebhookDeliveryStatus = 'PENDING' | 'DELIVERED' | 'FAILED';
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  eventId: string;
+  eventType: string;
+  payload: string; // JSON body as sent
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  lastResponse: string | null;
+  deliveredAt: string | null;
+  redeliveryOf: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookDeliveryFilters extends PaginationParams {
+  status?: WebhookDeliveryStatus;
+}
+
+// Live updates
+
+export interface TransactionStreamFilter {
+  transactionIds?: string[];
+  // Operator streams only; a user's stream always holds just their own transactions
+  userId?: string;
+  // Resume after this event
+  lastEventId?: string;
+}
@@ -1,17 +1,24 @@
 import { z } from 'zod';
+import type { PaginationMeta, ValidationIssue } from './api';
 
-// Transaction status enum
+// Bridge transaction status, as stored by the API. Moves between statuses are
+// defined in utils/bridgeStateMachine.
 export enum TransactionStatus {
-  PENDING = 'pending',
-  CONFIRMED = 'confirmed',
-  FAILED = 'failed',
-  COMPLETED = 'completed'
+  PENDING = 'PENDING',
+  VERIFYING = 'VERIFYING',
+  AWAITING_CONFIRMATIONS = 'AWAITING_CONFIRMATIONS',
+  CONFIRMED = 'CONFIRMED',
+  PROOF_GENERATED = 'PROOF_GENERATED',
+  SUBMITTING = 'SUBMITTING',
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED',
+  CANCELLED = 'CANCELLED'
 }
 
 // Bridge direction enum
 export enum BridgeDirection {
-  BITCOIN_TO_ETHEREUM = 'bitcoin_to_ethereum',
-  ETHEREUM_TO_BITCOIN = 'ethereum_to_bitcoin'
+  BITCOIN_TO_ETHEREUM = 'BITCOIN_TO_ETHEREUM',
+  ETHEREUM_TO_BITCOIN = 'ETHEREUM_TO_BITCOIN'
 }
 
 // Bitcoin transaction schema
@@ -94,6 +101,10 @@ export type ApiResponse<T = any> = {
   data?: T;
   error?: string;
   message?: string;
+  // Set on paginated lists
+  meta?: PaginationMeta;
+  // Set on validation failures
+  details?: ValidationIssue[];
 };
 
 // Wallet connection schema
@@ -106,3 +117,27 @@ export const WalletConnectionSchema = z.object({
 
 export type WalletConnection = z.infer<typeof WalletConnectionSchema>;
 
+
+// Live transaction updates, sent as `transaction` events on /api/events/stream and /api/events/firehose
+export interface TransactionStreamMessage {
+  event: {
+    id: string;
+    transactionId: string;
+    eventType: string;
+    data: Record<string, unknown> | null;
+    message: string | null;
+    createdAt: string;
+  };
+  // The transaction as it is after the event
+  transaction: {
+    id: string;
+    direction: BridgeDirection;
+    status: TransactionStatus;
+    confirmations: number;
+    targetTxHash: string | null;
+    targetAmount: string | null;
+    errorMessage: string | null;
+    completedAt: string | null;
+    updatedAt: string;
+  } | null;
+}
@@ -0,0 +1,103 @@
+import { BridgeDirection, TransactionStatus } from '../types/bridge';
+
+/**
+ * Bridge transaction lifecycle.
+ *
+ * Both directions verify the source transaction and wait for it to be buried
+ * before anything is sent on the target chain. Bitcoin deposits also need a
+ * ZK proof before BridgeContract will mint, and can be rolled back to
+ * AWAITING_CONFIRMATIONS when a reorg orphans the block they were proven in.
+ * A transaction can be cancelled until it is submitted to the target chain;
+ * after that it can only complete or fail.
+ */
+
+type TransitionTable = Record<TransactionStatus, readonly TransactionStatus[]>;
+
+const {
+  PENDING,
+  VERIFYING,
+  AWAITING_CONFIRMATIONS,
+  CONFIRMED,
+  PROOF_GENERATED,
+  SUBMITTING,
+  COMPLETED,
+  FAILED,
+  CANCELLED,
+} = TransactionStatus;
+
+export const BRIDGE_TRANSITIONS: Record<BridgeDirection, TransitionTable> = {
+  [BridgeDirection.BITCOIN_TO_ETHEREUM]: {
+    [PENDING]: [VERIFYING, AWAITING_CONFIRMATIONS, FAILED, CANCELLED],
+    [VERIFYING]: [AWAITING_CONFIRMATIONS, CONFIRMED, FAILED, CANCELLED],
+    [AWAITING_CONFIRMATIONS]: [VERIFYING, FAILED, CANCELLED],
+    [CONFIRMED]: [PROOF_GENERATED, AWAITING_CONFIRMATIONS, FAILED, CANCELLED],
+    [PROOF_GENERATED]: [SUBMITTING, AWAITING_CONFIRMATIONS, FAILED, CANCELLED],
+    [SUBMITTING]: [COMPLETED, FAILED],
+    [COMPLETED]: [],
+    [FAILED]: [],
+    [CANCELLED]: [],
+  },
+  [BridgeDirection.ETHEREUM_TO_BITCOIN]: {
+    [PENDING]: [VERIFYING, FAILED, CANCELLED],
+    [VERIFYING]: [AWAITING_CONFIRMATIONS, CONFIRMED, FAILED, CANCELLED],
+    [AWAITING_CONFIRMATIONS]: [VERIFYING, FAILED, CANCELLED],
+    [CONFIRMED]: [SUBMITTING, FAILED, CANCELLED],
+    [PROOF_GENERATED]: [],
+    [SUBMITTING]: [COMPLETED, FAILED],
+    [COMPLETED]: [],
+    [FAILED]: [],
+    [CANCELLED]: [],
+  },
+};
+
+// Statuses a transaction never leaves
+export const TERMINAL_STATUSES: readonly TransactionStatus[] = [COMPLETED, FAILED, CANCELLED];
+
+// Statuses in which the bridge is still working on the transaction
+export const IN_PROGRESS_STATUSES: readonly TransactionStatus[] = [
+  PENDING,
+  VERIFYING,
+  AWAITING_CONFIRMATIONS,
+  CONFIRMED,
+  PROOF_GENERATED,
+  SUBMITTING,
+];
+
+export const TRANSACTION_STATUS_LABELS: Record<TransactionStatus, string> = {
+  [PENDING]: 'Pending',
+  [VERIFYING]: 'Verifying',
+  [AWAITING_CONFIRMATIONS]: 'Awaiting Confirmations',
+  [CONFIRMED]: 'Confirmed',
+  [PROOF_GENERATED]: 'Proof Generated',
+  [SUBMITTING]: 'Submitting',
+  [COMPLETED]: 'Completed',
+  [FAILED]: 'Failed',
+  [CANCELLED]: 'Cancelled',
+};
+
+export function isTransactionStatus(value: string): value is TransactionStatus {
+  return Object.values(TransactionStatus).includes(value as TransactionStatus);
+}
+
+export function isBridgeDirection(value: string): value is BridgeDirection {
+  return Object.values(BridgeDirection).includes(value as BridgeDirection);
+}
+
+export function isTerminalStatus(status: string): boolean {
+  return TERMINAL_STATUSES.includes(status as TransactionStatus);
+}
+
+/**
+ * Statuses a transaction in `from` may move to next
+ */
+export function getAllowedTransitions(direction: string, from: string): readonly TransactionStatus[] {
+  if (!isBridgeDirection(direction) || !isTransactionStatus(from)) {
+    return [];
+  }
+
+  return BRIDGE_TRANSITIONS[direction][from];
+}
+
+export function canTransition(direction: string, from: string, to: string): boolean {
+  return isTransactionStatus(to) && getAllowedTransitions(direction, from).includes(to);
+}
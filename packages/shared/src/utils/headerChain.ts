@@ -0,0 +1,429 @@
+import { createHash } from 'crypto';
+
+/**
+ * SPV header-chain validation.
+ *
+ * Hashes are exchanged as hex in the byte order block explorers display them
+ * (reversed relative to how they are serialized and hashed).
+ */
+
+export interface BlockHeader {
+  version: number;
+  prevBlockHash: string;
+  merkleRoot: string;
+  timestamp: number;
+  bits: number;
+  nonce: number;
+  hash: string;
+}
+
+export interface ChainParams {
+  name: string;
+  powLimit: bigint;
+  targetTimespan: number; // seconds per retarget period
+  targetSpacing: number; // seconds per block
+  retargetInterval: number; // blocks per retarget period
+  allowMinDifficultyBlocks: boolean; // testnet 20-minute rule
+}
+
+export interface HeaderChainEntry {
+  header: BlockHeader;
+  height: number;
+  chainwork: bigint;
+}
+
+export interface HeaderCheckpoint {
+  height: number;
+  header: BlockHeader | string;
+  chainwork?: bigint;
+}
+
+// Merkle proof as produced by the API's Bitcoin service
+export interface SpvMerkleProof {
+  merkleRoot: string;
+  proofPath: string[];
+  proofIndex: number;
+  transactionHash: string;
+  blockHeight: number;
+  blockHash: string;
+}
+
+export interface SpvProofResult {
+  isValid: boolean;
+  confirmations: number;
+  error?: string;
+}
+
+const POW_LIMIT = BigInt('0x00000000ffffffffffffffffffffffffffffffffffffffffffffffffffffffff');
+
+export const BITCOIN_MAINNET_PARAMS: ChainParams = {
+  name: 'mainnet',
+  powLimit: POW_LIMIT,
+  targetTimespan: 14 * 24 * 60 * 60,
+  targetSpacing: 10 * 60,
+  retargetInterval: 2016,
+  allowMinDifficultyBlocks: false,
+};
+
+export const BITCOIN_TESTNET_PARAMS: ChainParams = {
+  ...BITCOIN_MAINNET_PARAMS,
+  name: 'testnet',
+  allowMinDifficultyBlocks: true,
+};
+
+// Number of previous blocks used for the median-time-past rule
+const MEDIAN_TIME_SPAN = 11;
+
+/**
+ * Reverse the byte order of a hex string
+ */
+export function reverseHex(hex: string): string {
+  return Buffer.from(hex, 'hex').reverse().toString('hex');
+}
+
+function hash256(data: Buffer): Buffer {
+  return createHash('sha256').update(createHash('sha256').update(data).digest()).digest();
+}
+
+/**
+ * Parse a raw 80-byte block header
+ */
+export function parseBlockHeader(raw: string): BlockHeader {
+  const bytes = Buffer.from(raw, 'hex');
+  if (bytes.length !== 80 || raw.length !== 160) {
+    throw new Error(`Block header must be 80 bytes, got ${raw.length / 2}`);
+  }
+
+  return {
+    version: bytes.readInt32LE(0),
+    prevBlockHash: Buffer.from(bytes.subarray(4, 36)).reverse().toString('hex'),
+    merkleRoot: Buffer.from(bytes.subarray(36, 68)).reverse().toString('hex'),
+    timestamp: bytes.readUInt32LE(68),
+    bits: bytes.readUInt32LE(72),
+    nonce: bytes.readUInt32LE(76),
+    hash: hash256(bytes).reverse().toString('hex'),
+  };
+}
+
+/**
+ * Serialize a header back to its raw 80-byte form
+ */
+export function serializeBlockHeader(header: Omit<BlockHeader, 'hash'>): string {
+  const bytes = Buffer.alloc(80);
+  bytes.writeInt32LE(header.version, 0);
+  Buffer.from(header.prevBlockHash, 'hex').reverse().copy(bytes, 4);
+  Buffer.from(header.merkleRoot, 'hex').reverse().copy(bytes, 36);
+  bytes.writeUInt32LE(header.timestamp, 68);
+  bytes.writeUInt32LE(header.bits, 72);
+  bytes.writeUInt32LE(header.nonce, 76);
+  return bytes.toString('hex');
+}
+
+/**
+ * Expand compact `bits` into the full 256-bit target
+ */
+export function bitsToTarget(bits: number): bigint {
+  const exponent = bits >>> 24;
+  const mantissa = BigInt(bits & 0x007fffff);
+
+  if (bits & 0x00800000) {
+    throw new Error('Negative difficulty target');
+  }
+
+  return exponent <= 3
+    ? mantissa >> BigInt(8 * (3 - exponent))
+    : mantissa << BigInt(8 * (exponent - 3));
+}
+
+/**
+ * Compress a 256-bit target into compact `bits`
+ */
+export function targetToBits(target: bigint): number {
+  let size = target === BigInt(0) ? 0 : Math.ceil(target.toString(16).length / 2);
+  let compact = size <= 3
+    ? Number(target << BigInt(8 * (3 - size)))
+    : Number(target >> BigInt(8 * (size - 3)));
+
+  // The mantissa's top bit is a sign bit, so shift into the next byte if it would be set
+  if (compact & 0x00800000) {
+    compact >>= 8;
+    size++;
+  }
+
+  return (compact | (size << 24)) >>> 0;
+}
+
+/**
+ * Expected number of hashes needed to find a block at this target
+ */
+export function getBlockWork(bits: number): bigint {
+  const target = bitsToTarget(bits);
+  return (BigInt(1) << BigInt(256)) / (target + BigInt(1));
+}
+
+/**
+ * Check that the header hash meets the target encoded in its own bits
+ */
+export function checkProofOfWork(header: BlockHeader, params: ChainParams = BITCOIN_MAINNET_PARAMS): boolean {
+  const target = bitsToTarget(header.bits);
+  if (target === BigInt(0) || target > params.powLimit) {
+    return false;
+  }
+
+  return BigInt(`0x${header.hash}`) <= target;
+}
+
+/**
+ * Difficulty retarget at the end of a 2016-block period
+ */
+export function calculateRetargetBits(
+  firstBlockTime: number,
+  lastHeader: BlockHeader,
+  params: ChainParams
+): number {
+  let actualTimespan = lastHeader.timestamp - firstBlockTime;
+  actualTimespan = Math.max(actualTimespan, params.targetTimespan / 4);
+  actualTimespan = Math.min(actualTimespan, params.targetTimespan * 4);
+
+  let target = (bitsToTarget(lastHeader.bits) * BigInt(actualTimespan)) / BigInt(params.targetTimespan);
+  if (target > params.powLimit) {
+    target = params.powLimit;
+  }
+
+  return targetToBits(target);
+}
+
+/**
+ * Hash two sibling nodes of a Bitcoin merkle tree
+ */
+export function hashMerkleNodes(left: string, right: string): string {
+  const data = Buffer.concat([
+    Buffer.from(left, 'hex').reverse(),
+    Buffer.from(right, 'hex').reverse(),
+  ]);
+  return hash256(data).reverse().toString('hex');
+}
+
+/**
+ * Fold a merkle branch back up to the root
+ */
+export function computeMerkleRootFromBranch(txid: string, branch: string[], index: number): string {
+  let current = txid;
+  let position = index;
+
+  for (const sibling of branch) {
+    current = position & 1 ? hashMerkleNodes(sibling, current) : hashMerkleNodes(current, sibling);
+    position >>= 1;
+  }
+
+  return current;
+}
+
+/**
+ * A validated Bitcoin header tree rooted at a trusted checkpoint.
+ *
+ * Headers may form forks; the best tip is the one with the most cumulative
+ * work. Validating difficulty at a retarget height needs the first header
+ * of the period, so checkpoints should sit on a retarget boundary.
+ */
+export class HeaderChain {
+  private entries = new Map<string, HeaderChainEntry>();
+  private bestTip: HeaderChainEntry;
+  private readonly checkpointHeight: number;
+
+  constructor(private readonly params: ChainParams, checkpoint: HeaderCheckpoint) {
+    const header = typeof checkpoint.header === 'string'
+      ? parseBlockHeader(checkpoint.header)
+      : checkpoint.header;
+
+    const entry: HeaderChainEntry = {
+      header,
+      height: checkpoint.height,
+      chainwork: checkpoint.chainwork ?? getBlockWork(header.bits),
+    };
+
+    this.checkpointHeight = checkpoint.height;
+    this.entries.set(header.hash, entry);
+    this.bestTip = entry;
+  }
+
+  /**
+   * Validate and connect a header. Returns the new entry; throws if the header is invalid.
+   */
+  addHeader(input: BlockHeader | string): HeaderChainEntry {
+    const header = typeof input === 'string' ? parseBlockHeader(input) : input;
+
+    const known = this.entries.get(header.hash);
+    if (known) {
+      return known;
+    }
+
+    const parent = this.entries.get(header.prevBlockHash);
+    if (!parent) {
+      throw new Error(`Unknown parent ${header.prevBlockHash} for header ${header.hash}`);
+    }
+
+    const height = parent.height + 1;
+
+    if (!checkProofOfWork(header, this.params)) {
+      throw new Error(`Header ${header.hash} at height ${height} does not meet its target`);
+    }
+
+    const expectedBits = this.getNextBits(parent, header);
+    if (header.bits !== expectedBits) {
+      throw new Error(
+        `Header ${header.hash} at height ${height} has bits 0x${header.bits.toString(16)}, expected 0x${expectedBits.toString(16)}`
+      );
+    }
+
+    const medianTimePast = this.getMedianTimePast(parent);
+    if (header.timestamp <= medianTimePast) {
+      throw new Error(`Header ${header.hash} timestamp is not after median time past`);
+    }
+
+    const entry: HeaderChainEntry = {
+      header,
+      height,
+      chainwork: parent.chainwork + getBlockWork(header.bits),
+    };
+
+    this.entries.set(header.hash, entry);
+
+    if (entry.chainwork > this.bestTip.chainwork) {
+      this.bestTip = entry;
+    }
+
+    return entry;
+  }
+
+  /**
+   * Connect several headers in order
+   */
+  addHeaders(headers: Array<BlockHeader | string>): HeaderChainEntry[] {
+    return headers.map(header => this.addHeader(header));
+  }
+
+  getBestTip(): HeaderChainEntry {
+    return this.bestTip;
+  }
+
+  getEntry(hash: string): HeaderChainEntry | undefined {
+    return this.entries.get(hash);
+  }
+
+  /**
+   * Ancestor of `from` at `height`, following parent links
+   */
+  getAncestor(from: HeaderChainEntry, height: number): HeaderChainEntry | undefined {
+    let current: HeaderChainEntry | undefined = from;
+    while (current && current.height > height) {
+      current = this.entries.get(current.header.prevBlockHash);
+    }
+    return current && current.height === height ? current : undefined;
+  }
+
+  /**
+   * Whether the header is part of the heaviest chain
+   */
+  isOnBestChain(hash: string): boolean {
+    const entry = this.entries.get(hash);
+    if (!entry) {
+      return false;
+    }
+
+    return this.getAncestor(this.bestTip, entry.height)?.header.hash === hash;
+  }
+
+  /**
+   * Confirmations of a block on the best chain, 0 if it is unknown or orphaned
+   */
+  getConfirmations(hash: string): number {
+    if (!this.isOnBestChain(hash)) {
+      return 0;
+    }
+
+    return this.bestTip.height - this.entries.get(hash)!.height + 1;
+  }
+
+  /**
+   * Check that a transaction's merkle proof commits to a block on the best chain
+   */
+  verifyMerkleProof(proof: SpvMerkleProof, minConfirmations = 1): SpvProofResult {
+    const entry = this.entries.get(proof.blockHash);
+
+    if (!entry) {
+      return { isValid: false, confirmations: 0, error: 'Block is not in the validated header chain' };
+    }
+
+    if (entry.height !== proof.blockHeight) {
+      return { isValid: false, confirmations: 0, error: `Block is at height ${entry.height}, proof claims ${proof.blockHeight}` };
+    }
+
+    if (proof.merkleRoot !== entry.header.merkleRoot) {
+      return { isValid: false, confirmations: 0, error: 'Proof merkle root does not match the block header' };
+    }
+
+    const root = computeMerkleRootFromBranch(proof.transactionHash, proof.proofPath, proof.proofIndex);
+    if (root !== entry.header.merkleRoot) {
+      return { isValid: false, confirmations: 0, error: 'Merkle branch does not lead to the block merkle root' };
+    }
+
+    const confirmations = this.getConfirmations(proof.blockHash);
+    if (confirmations === 0) {
+      return { isValid: false, confirmations, error: 'Block is not on the heaviest chain' };
+    }
+
+    if (confirmations < minConfirmations) {
+      return { isValid: false, confirmations, error: `Block has ${confirmations} confirmations, ${minConfirmations} required` };
+    }
+
+    return { isValid: true, confirmations };
+  }
+
+  private getNextBits(parent: HeaderChainEntry, header: BlockHeader): number {
+    const height = parent.height + 1;
+    const powLimitBits = targetToBits(this.params.powLimit);
+
+    if (height % this.params.retargetInterval !== 0) {
+      if (!this.params.allowMinDifficultyBlocks) {
+        return parent.header.bits;
+      }
+
+      // Testnet: a block more than twice the target spacing after its parent may use minimum difficulty
+      if (header.timestamp > parent.header.timestamp + this.params.targetSpacing * 2) {
+        return powLimitBits;
+      }
+
+      // Otherwise use the last difficulty that wasn't a minimum-difficulty exception
+      let current = parent;
+      while (current.height % this.params.retargetInterval !== 0 && current.header.bits === powLimitBits) {
+        const previous = this.entries.get(current.header.prevBlockHash);
+        if (!previous) break;
+        current = previous;
+      }
+      return current.header.bits;
+    }
+
+    const first = this.getAncestor(parent, height - this.params.retargetInterval);
+    if (!first) {
+      throw new Error(
+        `Cannot validate retarget at height ${height}: header ${height - this.params.retargetInterval} is before checkpoint ${this.checkpointHeight}`
+      );
+    }
+
+    return calculateRetargetBits(first.header.timestamp, parent.header, this.params);
+  }
+
+  private getMedianTimePast(parent: HeaderChainEntry): number {
+    const timestamps: number[] = [];
+    let current: HeaderChainEntry | undefined = parent;
+
+    while (current && timestamps.length < MEDIAN_TIME_SPAN) {
+      timestamps.push(current.header.timestamp);
+      current = this.entries.get(current.header.prevBlockHash);
+    }
+
+    timestamps.sort((a, b) => a - b);
+    return timestamps[Math.floor(timestamps.length / 2)];
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Sign-In with Ethereum messages (EIP-4361, https://eips.ethereum.org/EIPS/eip-4361).
+ *
+ * The web app builds the message for the wallet to sign with personal_sign,
+ * and the API parses the signed text back to check every field it relies on.
+ */
+
+export interface SiweMessage {
+  // Host the sign-in is for, e.g. "bridge.example.com" or "localhost:3000"
+  domain: string;
+  // EIP-55 checksummed
+  address: string;
+  statement?: string;
+  uri: string;
+  version: '1';
+  chainId: number;
+  // At least 8 alphanumeric characters, issued by GET /api/auth/nonce
+  nonce: string;
+  // ISO 8601 timestamps
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+export class SiweMessageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SiweMessageError';
+  }
+}
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+
+// Fields after the statement, in the order the message must list them
+const FIELDS: Array<[label: string, key: keyof SiweMessage, required: boolean]> = [
+  ['URI', 'uri', true],
+  ['Version', 'version', true],
+  ['Chain ID', 'chainId', true],
+  ['Nonce', 'nonce', true],
+  ['Issued At', 'issuedAt', true],
+  ['Expiration Time', 'expirationTime', false],
+  ['Not Before', 'notBefore', false],
+  ['Request ID', 'requestId', false],
+];
+
+/**
+ * Text of the message the wallet signs
+ */
+export function formatSiweMessage(message: SiweMessage): string {
+  const lines = [`${message.domain}${HEADER_SUFFIX}`, message.address, ''];
+  if (message.statement) {
+    lines.push(message.statement, '');
+  }
+
+  for (const [label, key] of FIELDS) {
+    const value = message[key];
+    if (value !== undefined) {
+      lines.push(`${label}: ${value}`);
+    }
+  }
+
+  if (message.resources?.length) {
+    lines.push('Resources:', ...message.resources.map(resource => `- ${resource}`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Parse a signed message. Throws SiweMessageError when it is not in the EIP-4361 format.
+ */
+export function parseSiweMessage(text: string): SiweMessage {
+  const lines = text.split('\n');
+  let index = 0;
+
+  const header = lines[index++] || '';
+  if (!header.endsWith(HEADER_SUFFIX)) {
+    throw new SiweMessageError('Message does not start with a Sign-In with Ethereum header');
+  }
+  const domain = header.slice(0, -HEADER_SUFFIX.length);
+  if (!domain || /\s/.test(domain)) {
+    throw new SiweMessageError('Invalid domain');
+  }
+
+  const address = lines[index++] || '';
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+    throw new SiweMessageError('Invalid address');
+  }
+
+  if (lines[index++] !== '') {
+    throw new SiweMessageError('Expected an empty line after the address');
+  }
+
+  let statement: string | undefined;
+  if (lines[index] !== undefined && !lines[index].startsWith('URI: ')) {
+    // Older signers put an empty line in place of a missing statement
+    if (lines[index] !== '') {
+      statement = lines[index];
+    }
+    index++;
+    if (lines[index++] !== '') {
+      throw new SiweMessageError('Expected an empty line after the statement');
+    }
+  }
+
+  const values: Record<string, string> = {};
+  for (const [label, key, required] of FIELDS) {
+    const prefix = `${label}: `;
+    if (lines[index]?.startsWith(prefix)) {
+      values[key] = lines[index++].slice(prefix.length);
+    } else if (required) {
+      throw new SiweMessageError(`Missing ${label}`);
+    }
+  }
+
+  let resources: string[] | undefined;
+  if (lines[index] === 'Resources:') {
+    index++;
+    resources = [];
+    while (lines[index]?.startsWith('- ')) {
+      resources.push(lines[index++].slice(2));
+    }
+  }
+
+  if (index < lines.length) {
+    throw new SiweMessageError(`Unexpected line: ${lines[index].slice(0, 80)}`);
+  }
+
+  if (values.version !== '1') {
+    throw new SiweMessageError('Unsupported version');
+  }
+  if (!/^[1-9]\d*$/.test(values.chainId)) {
+    throw new SiweMessageError('Invalid chain ID');
+  }
+  if (!/^[a-zA-Z0-9]{8,}$/.test(values.nonce)) {
+    throw new SiweMessageError('Invalid nonce');
+  }
+  for (const key of ['issuedAt', 'expirationTime', 'notBefore']) {
+    if (values[key] !== undefined && Number.isNaN(Date.parse(values[key]))) {
+      throw new SiweMessageError(`Invalid ${key} timestamp`);
+    }
+  }
+
+  return {
+    domain,
+    address,
+    statement,
+    uri: values.uri,
+    version: '1',
+    chainId: parseInt(values.chainId),
+    nonce: values.nonce,
+    issuedAt: values.issuedAt,
+    expirationTime: values.expirationTime,
+    notBefore: values.notBefore,
+    requestId: values.requestId,
+    resources,
+  };
+}
@@ -0,0 +1,51 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Webhook signatures.
+ *
+ * Every delivery carries the time it was signed and an HMAC-SHA256 over
+ * `<timestamp>.<raw body>` keyed with the subscription secret. Receivers
+ * must verify against the raw request body, before any JSON parsing, and
+ * should reject old timestamps to stop replays.
+ */
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-ZKBridge-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-ZKBridge-Timestamp';
+export const WEBHOOK_EVENT_HEADER = 'X-ZKBridge-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-ZKBridge-Delivery';
+
+// Deliveries signed longer ago than this are rejected by default, in seconds
+export const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+/**
+ * Signature header value for a body, e.g. `sha256=<hex>`
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
+
+export function verifyWebhookSignature(params: {
+  secret: string;
+  body: string | Uint8Array;
+  timestamp: string | number;
+  signature: string;
+  toleranceSeconds?: number;
+  now?: number;
+}): boolean {
+  const timestamp = Number(params.timestamp);
+  if (!Number.isInteger(timestamp)) {
+    return false;
+  }
+
+  const now = Math.floor((params.now ?? Date.now()) / 1000);
+  if (Math.abs(now - timestamp) > (params.toleranceSeconds ?? WEBHOOK_TOLERANCE_SECONDS)) {
+    return false;
+  }
+
+  const body = typeof params.body === 'string' ? params.body : Buffer.from(params.body).toString('utf8');
+  const expected = Buffer.from(signWebhookPayload(params.secret, timestamp, body));
+  const received = Buffer.from(params.signature);
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}